@@ -0,0 +1,193 @@
+import { useChatRoomViewModel } from '@/components/useChatRoomViewModel';
+import { ChatService } from '@/services/chatService';
+import { createFakeDataStore } from '@/services/fakeDataStore';
+import { OutboxItem, OutboxService } from '@/services/outboxService';
+import { Repositories } from '@/services/repositories';
+import { act, renderHook } from '@testing-library/react-native';
+
+jest.mock('@/services/chatService', () => ({
+  ChatService: {
+    subscribeToChatMessages: jest.fn(),
+    loadOlderMessages: jest.fn(),
+    markMessagesAsRead: jest.fn(async () => {}),
+    markIncomingFromSenderAsRead: jest.fn(async () => {}),
+  },
+}));
+
+// The screen counts as focused, and the app as foregrounded, while the hook is mounted
+jest.mock('expo-router', () => ({
+  useFocusEffect: (effect: () => void) => require('react').useEffect(effect, [effect]),
+}));
+
+jest.mock('react-native', () => ({
+  AppState: { currentState: 'active', addEventListener: () => ({ remove: () => {} }) },
+}));
+
+jest.mock('@/services/outboxService', () => ({
+  OutboxService: {
+    subscribe: jest.fn(),
+    flush: jest.fn(),
+    enqueue: jest.fn(),
+    updateText: jest.fn(),
+    cancel: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/uploadService', () => ({
+  UploadService: { subscribe: () => () => {} },
+}));
+
+jest.mock('@/services/cacheService', () => ({
+  cacheService: { setChatMessages: jest.fn() },
+}));
+
+const subscribeToChatMessages = ChatService.subscribeToChatMessages as jest.Mock;
+const loadOlderMessages = ChatService.loadOlderMessages as jest.Mock;
+const subscribeToOutbox = OutboxService.subscribe as jest.Mock;
+const markMessagesAsRead = ChatService.markMessagesAsRead as jest.Mock;
+
+// Latest listeners handed to the mocked services, so tests can push snapshots
+let emitMessages: (docs: object[], page: object) => void;
+let emitOutbox: (items: OutboxItem[]) => void;
+
+const doc = (id: string, minute: number, extra: object = {}) => ({
+  id,
+  senderId: 'me',
+  text: id,
+  timestamp: new Date(2025, 5, 10, 12, minute),
+  ...extra,
+});
+
+const queuedSend = (id: string): OutboxItem => ({
+  kind: 'send',
+  id,
+  chatId: 'chat',
+  senderId: 'me',
+  receiverId: 'friend',
+  isGroup: false,
+  createdAt: new Date(2025, 5, 10, 12, 30).getTime(),
+  attempts: 0,
+  status: 'pending',
+  text: 'queued',
+});
+
+// Mounts the hook and lets the friend profile load settle
+const render = async () => {
+  const hook = renderHook(() =>
+    useChatRoomViewModel({ userId: 'me', chatId: 'chat', isGroup: false, friendUserId: 'friend' })
+  );
+  await act(async () => {});
+  return hook;
+};
+
+const ids = (list: { id: string; isDateHeader?: boolean }[]) =>
+  list.filter((m) => !m.isDateHeader).map((m) => m.id);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  const store = createFakeDataStore();
+  store.seed({ 'users/friend': { uid: 'friend', name: 'Friend', photo: 'friend.png' } });
+  Repositories.setStore(store);
+  subscribeToChatMessages.mockImplementation((_chatId, onChange) => {
+    emitMessages = onChange;
+    return jest.fn();
+  });
+  subscribeToOutbox.mockImplementation((_chatId, onChange) => {
+    emitOutbox = onChange;
+    return jest.fn();
+  });
+});
+
+describe('useChatRoomViewModel', () => {
+  it('replaces a queued send with the server copy without duplicating it', async () => {
+    const { result } = await render();
+
+    act(() => {
+      emitMessages([doc('a', 0)], { cursor: 'c0', hasMore: false });
+      emitOutbox([queuedSend('q1')]);
+    });
+    expect(ids(result.current.displayMessages)).toEqual(['q1', 'a']);
+
+    // The snapshot with the sent message lands before the outbox drops its item
+    act(() =>
+      emitMessages([doc('a', 0), doc('q1', 30, { status: 'sent' })], { cursor: 'c0', hasMore: false })
+    );
+    expect(ids(result.current.displayMessages)).toEqual(['q1', 'a']);
+    expect(result.current.displayMessages.find((m) => m.id === 'q1')?.status).toBe('sent');
+
+    act(() => emitOutbox([]));
+    expect(ids(result.current.displayMessages)).toEqual(['q1', 'a']);
+  });
+
+  it('keeps older pages when the live window updates', async () => {
+    loadOlderMessages.mockResolvedValue({
+      messages: [doc('old', 0)],
+      cursor: 'c1',
+      hasMore: false,
+    });
+    const { result } = await render();
+    act(() => emitMessages([doc('a', 10)], { cursor: 'c0', hasMore: true }));
+
+    await act(async () => {
+      expect(await result.current.loadOlderMessages()).toBe(true);
+    });
+    act(() => emitMessages([doc('a', 10), doc('b', 20)], { cursor: 'c0', hasMore: true }));
+
+    expect(ids(result.current.messages)).toEqual(['b', 'a', 'old']);
+    expect(result.current.isMessageLoaded('old')).toBe(true);
+    // Nothing more to page
+    await act(async () => {
+      expect(await result.current.loadOlderMessages()).toBe(false);
+    });
+  });
+
+  it('edits and deletes queued sends in place instead of queueing new operations', async () => {
+    const { result } = await render();
+    act(() => emitOutbox([queuedSend('q1')]));
+
+    await act(() => result.current.editMessage('q1', 'fixed'));
+    await act(() => result.current.deleteMessage('q1'));
+    expect(OutboxService.updateText).toHaveBeenCalledWith('q1', 'fixed');
+    expect(OutboxService.cancel).toHaveBeenCalledWith('q1');
+    expect(OutboxService.enqueue).not.toHaveBeenCalled();
+
+    await act(() => result.current.editMessage('sent-1', 'fixed'));
+    expect(OutboxService.enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: 'edit', messageId: 'sent-1', text: 'fixed' })
+    );
+  });
+
+  it('loads the friend profile for a direct chat', async () => {
+    const { result } = await render();
+
+    expect(result.current.friendProfile).toMatchObject({ name: 'Friend', avatar: 'friend.png' });
+    expect(result.current.profileLoading).toBe(false);
+  });
+
+  it('marks read on focus and again only for unread direct messages to this user', async () => {
+    await render();
+    expect(markMessagesAsRead).toHaveBeenCalledTimes(1);
+
+    // Own, group (no receiver) and already read messages have nothing to flip
+    act(() =>
+      emitMessages(
+        [
+          doc('own', 0, { receiverId: 'friend', status: 'sent' }),
+          doc('group', 1, { senderId: 'friend', status: 'sent' }),
+          doc('seen', 2, { senderId: 'friend', receiverId: 'me', status: 'read' }),
+        ],
+        { cursor: 'c0', hasMore: false }
+      )
+    );
+    expect(markMessagesAsRead).toHaveBeenCalledTimes(1);
+
+    act(() =>
+      emitMessages(
+        [doc('new', 3, { senderId: 'friend', receiverId: 'me', status: 'delivered' })],
+        { cursor: 'c0', hasMore: false }
+      )
+    );
+    expect(markMessagesAsRead).toHaveBeenCalledTimes(2);
+    expect(markMessagesAsRead).toHaveBeenLastCalledWith('chat', 'me');
+  });
+});
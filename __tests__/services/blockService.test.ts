@@ -0,0 +1,77 @@
+import { BlockService } from '@/services/blockService';
+import { createFakeDataStore, FakeDataStore } from '@/services/fakeDataStore';
+import { FriendService } from '@/services/friendService';
+import { Repositories } from '@/services/repositories';
+
+jest.mock('@/services/chatService', () => ({
+  ChatService: {
+    generateChatId: (a: string, b: string) => [a, b].sort().join('_'),
+  },
+}));
+
+jest.mock('@/services/userService', () => ({
+  UserService: {
+    getUserSettings: jest.fn(async () => ({ allowFriendRequests: true })),
+  },
+}));
+
+let store: FakeDataStore;
+
+beforeEach(() => {
+  store = createFakeDataStore();
+  Repositories.setStore(store);
+  store.seed({
+    'users/ann': { uid: 'ann', name: 'Ann', photo: '', friendsCount: 1 },
+    'users/bob': { uid: 'bob', name: 'Bob', photo: '', friendsCount: 1 },
+    'users/ann/relationships/bob': { id: 'bob', type: 'friend', createdAt: 100, name: 'Bob', photo: '' },
+    'users/bob/relationships/ann': { id: 'ann', type: 'friend', createdAt: 100, name: 'Ann', photo: '' },
+  });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('BlockService', () => {
+  it('suspends a friendship while blocked and restores it on unblock', async () => {
+    await BlockService.blockUser('bob', { uid: 'ann', name: 'Ann' });
+
+    expect(await BlockService.isBlockedBetween('ann', 'bob')).toBe(true);
+    expect(await FriendService.getFriendIds('bob')).toEqual([]);
+
+    await BlockService.unblockUser('bob', 'ann');
+
+    expect(await BlockService.isBlockedBetween('ann', 'bob')).toBe(false);
+    expect(await Repositories.users.getRelationship('bob', 'ann')).toEqual({
+      id: 'ann',
+      type: 'friend',
+      createdAt: 100,
+      name: 'Ann',
+      photo: '',
+      isOnline: false,
+      lastSeen: null,
+    });
+    expect(await FriendService.getFriendIds('bob')).toEqual(['ann']);
+    expect((await Repositories.users.get('ann'))?.friendsCount).toBe(1);
+    expect((await Repositories.users.get('bob'))?.friendsCount).toBe(1);
+  });
+
+  it('lets the pair become friends again when the friendship ended during the block', async () => {
+    await BlockService.blockUser('bob', { uid: 'ann', name: 'Ann' });
+    await FriendService.removeFriend('ann', 'bob');
+    await BlockService.unblockUser('bob', 'ann');
+
+    expect(await Repositories.users.getRelationship('bob', 'ann')).toBeNull();
+    expect(await FriendService.areUsersFriends('ann', 'bob')).toBe(false);
+    expect((await Repositories.users.get('ann'))?.friendsCount).toBe(0);
+    expect((await Repositories.users.get('bob'))?.friendsCount).toBe(0);
+
+    await FriendService.sendFriendRequest('ann', 'bob', {
+      uid: 'ann',
+      name: 'Ann',
+      email: 'ann@x.io',
+      photo: '',
+    });
+    const [request] = await Repositories.friendRequests.listBetween('ann', 'bob');
+    expect(request.status).toBe('pending');
+  });
+});
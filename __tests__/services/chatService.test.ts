@@ -0,0 +1,165 @@
+import { ChatService, MessageCursor } from '@/services/chatService';
+import { createFakeDataStore, FakeDataStore, FakeTimestamp } from '@/services/fakeDataStore';
+import { Paths, Repositories } from '@/services/repositories';
+import type { ChatMessage } from '@/types/models';
+
+jest.mock('@/services/userService', () => ({
+  UserService: {
+    getUserById: jest.fn(async () => null),
+  },
+}));
+
+jest.mock('@/utils/quickActions', () => ({
+  addRecentChat: jest.fn(async () => {}),
+}));
+
+let store: FakeDataStore;
+
+// Lets fire-and-forget work (chat list sync, live listeners) settle
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const textsOf = (messages: ChatMessage[]) => messages.map((message) => message.content.text);
+
+beforeEach(() => {
+  store = createFakeDataStore();
+  Repositories.setStore(store);
+  store.seed({
+    'users/ann': { uid: 'ann', name: 'Ann', photo: 'ann.jpg' },
+    'users/bob': { uid: 'bob', name: 'Bob', photo: 'bob.jpg' },
+  });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('ChatService', () => {
+  it('sends into a new chat, counts unread for the receiver and syncs both chat lists', async () => {
+    const first = await ChatService.sendMessageWithReply('ann', 'bob', 'hi');
+    await ChatService.sendMessageWithReply('ann', 'bob', 'there');
+    await flush();
+
+    expect(await Repositories.messages.get('ann_bob', first)).toMatchObject({
+      senderId: 'ann',
+      receiverId: 'bob',
+      status: 'sent',
+      content: { text: 'hi' },
+      type: 'text',
+    });
+    expect(await Repositories.chats.get('ann_bob')).toMatchObject({
+      type: 'direct',
+      participants: ['ann', 'bob'],
+      lastMessage: 'there',
+      lastMessageSender: 'ann',
+      participantData: { ann: { unreadCount: 0 }, bob: { unreadCount: 2 } },
+    });
+
+    const bobsEntry = await store.get(Paths.chatListEntry('bob', 'ann_bob'));
+    expect(bobsEntry?.data).toMatchObject({ partnerName: 'Ann', lastMessage: 'there', unreadCount: 2 });
+    expect((await store.get(Paths.chatListEntry('ann', 'ann_bob')))?.data).toMatchObject({
+      partnerName: 'Bob',
+      unreadCount: 0,
+    });
+  });
+
+  it('counts a replayed send once', async () => {
+    await ChatService.sendMessageWithReply('ann', 'bob', 'hi', null, undefined, 'm1');
+    await ChatService.sendMessageWithReply('ann', 'bob', 'hi', null, undefined, 'm1');
+
+    expect(await Repositories.messages.list('ann_bob')).toHaveLength(1);
+    expect((await Repositories.chats.get('ann_bob'))?.participantData).toMatchObject({
+      bob: { unreadCount: 1 },
+    });
+  });
+
+  it('refuses to send into a read-only conversation', async () => {
+    store.seed({
+      'chats/ann_bob': { type: 'direct', participants: ['ann', 'bob'], readOnly: true },
+    });
+
+    await expect(ChatService.sendMessageWithReply('ann', 'bob', 'hi')).rejects.toThrow(
+      'read-only'
+    );
+    expect(await Repositories.messages.list('ann_bob')).toEqual([]);
+  });
+
+  it('forwards to everyone but read-only conversations, and refuses when none are left', async () => {
+    store.seed({
+      'users/cat': { uid: 'cat', name: 'Cat', photo: '' },
+      'chats/ann_bob': {
+        type: 'direct',
+        participants: ['ann', 'bob'],
+        participantData: { ann: { unreadCount: 0 }, bob: { unreadCount: 0 } },
+        readOnly: true,
+      },
+    });
+    const message = { id: 'm1', text: 'look' };
+
+    await ChatService.forwardMessage(message, ['bob', 'cat'], 'ann');
+    expect(await Repositories.messages.list('ann_bob')).toEqual([]);
+    const [forwarded] = await Repositories.messages.list('ann_cat');
+    expect(forwarded).toMatchObject({ content: { text: 'look' }, forwarded: true });
+
+    await expect(ChatService.forwardMessage(message, ['bob'], 'ann')).rejects.toThrow(
+      "You can't forward messages to these users"
+    );
+    expect(await Repositories.messages.list('ann_bob')).toEqual([]);
+  });
+
+  it('deletes a chat with more messages than one batch takes', async () => {
+    store.seed({
+      'chats/ann_bob': { type: 'direct', participants: ['ann', 'bob'] },
+      'users/ann/chatList/ann_bob': { chatId: 'ann_bob' },
+      ...Object.fromEntries(
+        Array.from({ length: 600 }, (_, n) => [
+          `chats/ann_bob/messages/m${n}`,
+          { senderId: 'ann', timestamp: FakeTimestamp.fromMillis(n), content: { text: 'x' } },
+        ])
+      ),
+    });
+
+    await ChatService.deleteChat('ann_bob');
+
+    expect(await Repositories.messages.list('ann_bob')).toEqual([]);
+    expect(await Repositories.chats.get('ann_bob')).toBeNull();
+    expect(await store.get(Paths.chatListEntry('ann', 'ann_bob'))).toBeNull();
+  });
+
+  it('opens on the newest page, pages back through history and keeps new messages live', async () => {
+    store.seed(
+      Object.fromEntries(
+        [1, 2, 3, 4, 5].map((n) => [
+          `chats/ann_bob/messages/m${n}`,
+          {
+            senderId: 'ann',
+            receiverId: 'bob',
+            timestamp: FakeTimestamp.fromMillis(n * 1000),
+            content: { text: `m${n}` },
+            type: 'text',
+            status: 'read',
+          },
+        ])
+      )
+    );
+
+    const onChange = jest.fn();
+    const unsubscribe = ChatService.subscribeToChatMessages('ann_bob', onChange, undefined, 2);
+    await flush();
+
+    const [opened, page] = onChange.mock.lastCall;
+    expect(textsOf(opened)).toEqual(['m4', 'm5']);
+    expect(page.hasMore).toBe(true);
+
+    const older = await ChatService.loadOlderMessages('ann_bob', page.cursor as MessageCursor, 2);
+    expect(textsOf(older.messages)).toEqual(['m2', 'm3']);
+    expect(older.hasMore).toBe(true);
+
+    const oldest = await ChatService.loadOlderMessages('ann_bob', older.cursor, 2);
+    expect(textsOf(oldest.messages)).toEqual(['m1']);
+    expect(oldest.hasMore).toBe(false);
+
+    await ChatService.sendMessageWithReply('bob', 'ann', 'm6');
+    expect(textsOf(onChange.mock.lastCall[0])).toEqual(['m4', 'm5', 'm6']);
+
+    unsubscribe();
+  });
+});
@@ -0,0 +1,101 @@
+import { Converters, MalformedDocument, SchemaError } from '@/services/converters';
+import { FieldValues } from '@/services/dataStore';
+import { formatFirebaseMessage } from '@/utils/chatMessages';
+
+let reports: MalformedDocument[];
+
+beforeEach(() => {
+  reports = [];
+  Converters.setReporter((report) => reports.push(report));
+});
+
+afterAll(() => Converters.setReporter(null));
+
+describe('Converters', () => {
+  it('reads flat legacy messages into content without reporting them', () => {
+    const message = Converters.message.fromFirestore('m1', {
+      senderId: 'u1',
+      timestamp: 1000,
+      text: 'caption',
+      mediaUrl: 'https://cdn/x.gif',
+      mediaType: 'gif',
+      type: 'gif',
+    });
+
+    expect(message).toMatchObject({
+      id: 'm1',
+      type: 'image',
+      content: { text: 'caption', mediaUrl: 'https://cdn/x.gif', mediaType: 'gif' },
+    });
+    expect(message).not.toHaveProperty('mediaUrl');
+    expect(reports).toEqual([]);
+  });
+
+  it('reports a malformed message and repairs it into something renderable', () => {
+    const message = Converters.message.fromFirestore('m2', {
+      senderId: 'u2',
+      timestamp: 1000,
+      content: { text: 42, mediaUrl: 'https://cdn/v.m4a', mediaType: 'audio', waveform: 'loud' },
+      reactions: { '👍': ['u1', 7], '🔥': 'u3' },
+      replyTo: { messageId: 'm1', senderId: 9 },
+      systemData: { action: 'exploded', actorId: 'u2' },
+    });
+
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({ kind: 'message', id: 'm2' });
+    expect(reports[0].problems).toEqual(
+      expect.arrayContaining([
+        'content.text: expected string, got number',
+        'content.waveform: expected array, got string',
+        'reactions.👍.1: expected non-empty string, got number',
+        'replyTo.senderId: expected string, got number',
+      ])
+    );
+
+    expect(message.content).toEqual({ mediaUrl: 'https://cdn/v.m4a', mediaType: 'audio' });
+    expect(message.reactions).toEqual({ '👍': ['u1'] });
+    expect(message.replyTo).toEqual({ messageId: 'm1', text: '', senderId: '' });
+    expect(message).not.toHaveProperty('systemData');
+    expect(() => formatFirebaseMessage(message, 'u1')).not.toThrow();
+  });
+
+  it('refuses malformed writes and leaves the id and undefined fields out', () => {
+    expect(() =>
+      Converters.message.toFirestore({
+        senderId: '',
+        timestamp: FieldValues.serverTimestamp(),
+        content: {},
+        type: 'text',
+      })
+    ).toThrow(SchemaError);
+
+    const data = Converters.message.toFirestore({
+      id: 'm3',
+      senderId: 'u1',
+      timestamp: FieldValues.serverTimestamp(),
+      content: { text: 'hi' },
+      type: 'text',
+      status: undefined,
+    });
+    expect(data).toEqual({
+      senderId: 'u1',
+      timestamp: FieldValues.serverTimestamp(),
+      content: { text: 'hi' },
+      type: 'text',
+    });
+  });
+
+  it('checks merge writes key by key, through dotted paths, letting field values pass', () => {
+    const changes = {
+      'participantData.u1.unreadCount': FieldValues.increment(1),
+      'participantData.u2.unreadCount': 0,
+      lastReaction: FieldValues.delete(),
+      somethingElse: 'untouched',
+    };
+    expect(Converters.chat.toFirestore(changes, { merge: true })).toEqual(changes);
+
+    expect(() =>
+      Converters.chat.toFirestore({ 'participantData.u1.unreadCount': -1 }, { merge: true })
+    ).toThrow('participantData.u1.unreadCount: expected whole number ≥ 0, got number');
+  });
+});
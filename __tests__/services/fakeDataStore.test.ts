@@ -0,0 +1,121 @@
+import { FieldValues } from '@/services/dataStore';
+import { createFakeDataStore, FakeTimestamp } from '@/services/fakeDataStore';
+
+describe('createFakeDataStore', () => {
+  it('applies dotted updates, merges and field values like Firestore', async () => {
+    const store = createFakeDataStore();
+    store.seed({ 'chats/c1': { unreadCount: { a: 3, b: 1 }, tags: ['x'], count: 1, muted: true } });
+
+    await store.update(['chats', 'c1'], {
+      'unreadCount.a': 0,
+      tags: FieldValues.arrayUnion('x', 'y'),
+      count: FieldValues.increment(2),
+      muted: FieldValues.delete(),
+      updatedAt: FieldValues.serverTimestamp(),
+    });
+    await store.set(['chats', 'c1'], { unreadCount: { c: 5 } }, { merge: true });
+
+    const chat = await store.get(['chats', 'c1']);
+    expect(chat?.data).toMatchObject({
+      unreadCount: { a: 0, b: 1, c: 5 },
+      tags: ['x', 'y'],
+      count: 3,
+    });
+    expect(chat?.data).not.toHaveProperty('muted');
+    expect(chat?.data.updatedAt).toBeInstanceOf(FakeTimestamp);
+
+    await expect(store.update(['chats', 'missing'], { a: 1 })).rejects.toMatchObject({
+      code: 'not-found',
+    });
+  });
+
+  it('filters, orders and bounds queries on direct children only', async () => {
+    const store = createFakeDataStore();
+    store.seed({
+      'users/u1': { nameLower: 'ann', age: 30 },
+      'users/u2': { nameLower: 'anna', age: 20 },
+      'users/u3': { nameLower: 'bob', age: 40 },
+      'users/u4': { age: 50 },
+      'users/u1/friends/u2': { nameLower: 'anna' },
+    });
+
+    const byPrefix = await store.query(['users'], {
+      orderBy: [['nameLower']],
+      startAt: 'an',
+      endAt: 'an\uf8ff',
+    });
+    expect(byPrefix.map((doc) => doc.id)).toEqual(['u1', 'u2']);
+
+    const oldest = await store.query(['users'], {
+      where: [['age', '>', 20]],
+      orderBy: [['age', 'desc']],
+      limit: 2,
+    });
+    expect(oldest.map((doc) => doc.id)).toEqual(['u4', 'u3']);
+
+    const nextPage = await store.query(['users'], {
+      orderBy: [['age', 'desc']],
+      startAfter: 40,
+      limit: 2,
+    });
+    expect(nextPage.map((doc) => doc.id)).toEqual(['u1', 'u2']);
+  });
+
+  it('writes a batch all at once or not at all', async () => {
+    const store = createFakeDataStore();
+    store.seed({ 'requests/r1': { status: 'pending' } });
+
+    const failing = store
+      .batch()
+      .delete(['requests', 'r1'])
+      .update(['requests', 'missing'], { status: 'accepted' });
+    await expect(failing.commit()).rejects.toThrow('No document to update');
+    expect(await store.get(['requests', 'r1'])).not.toBeNull();
+  });
+
+  it('commits a transaction after its reads, and nothing when it throws', async () => {
+    const store = createFakeDataStore();
+    store.seed({ 'messages/m1': { likes: ['u1'] } });
+
+    const liked = await store.runTransaction(async (transaction) => {
+      const message = await transaction.get(['messages', 'm1']);
+      const adding = !message?.data.likes.includes('u2');
+      transaction.update(['messages', 'm1'], { likes: FieldValues.arrayUnion('u2') });
+      return adding;
+    });
+    expect(liked).toBe(true);
+    expect((await store.get(['messages', 'm1']))?.data.likes).toEqual(['u1', 'u2']);
+
+    await expect(
+      store.runTransaction(async (transaction) => {
+        transaction.delete(['messages', 'm1']);
+        await transaction.get(['messages', 'm1']);
+      })
+    ).rejects.toThrow('reads must come before');
+    expect(await store.get(['messages', 'm1'])).not.toBeNull();
+  });
+
+  it('notifies listeners straight away and only when their result changes', async () => {
+    const store = createFakeDataStore();
+    const onDoc = jest.fn();
+    const onQuery = jest.fn();
+    store.watchDoc(['users', 'u1'], onDoc);
+    const unsubscribe = store.watchQuery(
+      ['chats'],
+      { where: [['participants', 'array-contains', 'u1']] },
+      onQuery
+    );
+    expect(onDoc).toHaveBeenLastCalledWith(null);
+    expect(onQuery).toHaveBeenLastCalledWith([]);
+
+    await store.set(['chats', 'c1'], { participants: ['u1', 'u2'] });
+    await store.set(['chats', 'c2'], { participants: ['u2', 'u3'] });
+    expect(onDoc).toHaveBeenCalledTimes(1);
+    expect(onQuery).toHaveBeenCalledTimes(2);
+    expect(onQuery.mock.calls[1][0].map((doc: { id: string }) => doc.id)).toEqual(['c1']);
+
+    unsubscribe();
+    await store.delete(['chats', 'c1']);
+    expect(onQuery).toHaveBeenCalledTimes(2);
+  });
+});
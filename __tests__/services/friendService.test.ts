@@ -0,0 +1,126 @@
+import { BlockService } from '@/services/blockService';
+import { ChatService } from '@/services/chatService';
+import { createFakeDataStore, FakeDataStore } from '@/services/fakeDataStore';
+import { FriendService } from '@/services/friendService';
+import { Repositories } from '@/services/repositories';
+import type { FriendRequest } from '@/types/models';
+
+jest.mock('@/services/chatService', () => ({
+  ChatService: {
+    generateChatId: (a: string, b: string) => [a, b].sort().join('_'),
+    ensureChatExists: jest.fn(async (a: string, b: string) => [a, b].sort().join('_')),
+  },
+}));
+
+jest.mock('@/services/userService', () => ({
+  UserService: {
+    getUserSettings: jest.fn(async () => ({ allowFriendRequests: true })),
+  },
+}));
+
+const profile = (uid: string) => ({ uid, name: uid.toUpperCase(), email: `${uid}@x.io`, photo: '' });
+
+let store: FakeDataStore;
+
+beforeEach(() => {
+  store = createFakeDataStore();
+  Repositories.setStore(store);
+  store.seed({
+    'users/ann': { uid: 'ann', name: 'Ann', photo: 'ann.jpg', friendsCount: 0 },
+    'users/bob': { uid: 'bob', name: 'Bob', photo: 'bob.jpg', friendsCount: 0 },
+  });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+const send = () =>
+  FriendService.sendFriendRequest('ann', 'bob', profile('ann'), profile('bob'));
+
+describe('FriendService', () => {
+  it('delivers a request to the receiver in real time and refuses duplicates', async () => {
+    const received = jest.fn();
+    FriendService.subscribeToReceivedRequests('bob', received);
+
+    await send();
+    const [request] = received.mock.lastCall[0] as FriendRequest[];
+    expect(request).toMatchObject({
+      senderId: 'ann',
+      receiverId: 'bob',
+      status: 'pending',
+      senderReceiver: 'ann_bob',
+    });
+
+    await expect(send()).rejects.toThrow('Friend request already sent');
+  });
+
+  it('makes both users friends and reopens their chat on accept', async () => {
+    await store.set(['chats', 'ann_bob'], { participants: ['ann', 'bob'], readOnly: true });
+    await send();
+    const [request] = await Repositories.friendRequests.listBetween('ann', 'bob');
+
+    await expect(FriendService.acceptFriendRequest(request.id, 'ann')).rejects.toThrow(
+      'You can only accept requests sent to you'
+    );
+    await FriendService.acceptFriendRequest(request.id, 'bob');
+
+    expect((await Repositories.friendRequests.get(request.id))?.status).toBe('accepted');
+    expect(await Repositories.users.getRelationship('ann', 'bob')).toMatchObject({
+      type: 'friend',
+      name: 'Bob',
+      photo: 'bob.jpg',
+    });
+    expect((await Repositories.users.get('bob'))?.friendsCount).toBe(1);
+    expect(await FriendService.areUsersFriends('ann', 'bob')).toBe(true);
+    expect(ChatService.ensureChatExists).toHaveBeenCalledWith('bob', 'ann');
+    expect((await Repositories.chats.get('ann_bob'))?.readOnly).toBeUndefined();
+  });
+
+  it('undoes the friendship on both sides but keeps the chat read-only', async () => {
+    await store.set(['chats', 'ann_bob'], { participants: ['ann', 'bob'] });
+    await send();
+    const [request] = await Repositories.friendRequests.listBetween('ann', 'bob');
+    await FriendService.acceptFriendRequest(request.id, 'bob');
+
+    await FriendService.removeFriend('bob', 'ann');
+
+    expect(await FriendService.areUsersFriends('ann', 'bob')).toBe(false);
+    expect(await Repositories.users.getRelationship('ann', 'bob')).toBeNull();
+    expect((await Repositories.users.get('ann'))?.friendsCount).toBe(0);
+    expect(await Repositories.friendRequests.listBetween('ann', 'bob')).toEqual([]);
+    expect((await Repositories.chats.get('ann_bob'))?.readOnly).toBe(true);
+  });
+
+  it('still sees friendships stored in the legacy formats, and undoes them', async () => {
+    store.seed({
+      'users/ann': { uid: 'ann', friends: ['bob'], friendsCount: 1 },
+      'users/bob': { uid: 'bob', friends: ['ann'] },
+      'users/bob/friends/cid': { friendId: 'cid', friendName: '', friendPhoto: '', addedAt: null },
+      'users/bob/relationships/dan': { id: 'dan', type: 'friend', name: 'Dan', photo: '' },
+    });
+
+    expect((await FriendService.getFriendIds('bob')).sort()).toEqual(['ann', 'cid', 'dan']);
+    await expect(send()).rejects.toThrow('You are already friends');
+
+    await FriendService.removeFriend('bob', 'ann');
+
+    expect(await FriendService.areUsersFriends('ann', 'bob')).toBe(false);
+    expect(await Repositories.users.get('ann')).toMatchObject({ friends: [], friendsCount: 0 });
+    expect(await Repositories.users.get('bob')).not.toHaveProperty('friendsCount');
+  });
+
+  it('rejects requests from someone the receiver has blocked without telling the sender', async () => {
+    await BlockService.blockUser('bob', { uid: 'ann', name: 'ANN' });
+    const received = jest.fn();
+    FriendService.subscribeToReceivedRequests('bob', received);
+
+    await send();
+
+    expect(received).toHaveBeenLastCalledWith([]);
+    const [request] = await Repositories.friendRequests.listBetween('ann', 'bob');
+    expect(request.status).toBe('rejected');
+    await expect(
+      FriendService.sendFriendRequest('bob', 'ann', profile('bob'))
+    ).rejects.toThrow('Unblock this user to send a friend request');
+  });
+});
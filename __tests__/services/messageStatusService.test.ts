@@ -0,0 +1,50 @@
+import { createFakeDataStore, FakeDataStore, FakeTimestamp } from '@/services/fakeDataStore';
+import { MessageStatusService } from '@/services/messageStatusService';
+import { Paths, Repositories } from '@/services/repositories';
+
+let store: FakeDataStore;
+
+// More than one batch takes, so the receipts need several
+const UNREAD = 600;
+
+beforeEach(() => {
+  store = createFakeDataStore();
+  Repositories.setStore(store);
+  store.seed({
+    'chats/ann_bob': {
+      type: 'direct',
+      participants: ['ann', 'bob'],
+      participantData: { ann: { unreadCount: 0 }, bob: { unreadCount: UNREAD } },
+    },
+    'users/bob/chatList/ann_bob': { chatId: 'ann_bob', unreadCount: UNREAD },
+    ...Object.fromEntries(
+      Array.from({ length: UNREAD }, (_, n) => [
+        `chats/ann_bob/messages/m${n}`,
+        {
+          senderId: 'ann',
+          receiverId: 'bob',
+          timestamp: FakeTimestamp.fromMillis(n * 1000),
+          content: { text: `m${n}` },
+          type: 'text',
+          status: n % 2 ? 'delivered' : 'sent',
+        },
+      ])
+    ),
+  });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('MessageStatusService', () => {
+  it('marks more unread messages than one batch takes as read, then clears the counters', async () => {
+    const batch = jest.spyOn(Repositories, 'batch');
+
+    await MessageStatusService.markChatAsRead('ann_bob', 'bob');
+
+    expect(batch).toHaveBeenCalledTimes(2);
+    expect(await Repositories.messages.listUnread('ann_bob', 'bob')).toEqual([]);
+    expect((await Repositories.chats.get('ann_bob'))?.participantData?.bob.unreadCount).toBe(0);
+    expect((await store.get(Paths.chatListEntry('bob', 'ann_bob')))?.data.unreadCount).toBe(0);
+  });
+});
@@ -0,0 +1,150 @@
+import { ChatService } from '@/services/chatService';
+import { createFakeNotificationProvider, FakeNotificationProvider } from '@/services/fakeNotificationProvider';
+import { createFakeDataStore } from '@/services/fakeDataStore';
+import { NotificationService } from '@/services/notificationService';
+import { Repositories } from '@/services/repositories';
+import { UserChatListItem } from '@/types/models';
+import { router } from 'expo-router';
+
+jest.mock('@/services/chatService', () => ({
+  ChatService: { sendMessageWithReply: jest.fn() },
+}));
+
+jest.mock('expo-router', () => ({
+  router: { push: jest.fn() },
+}));
+
+const ME = 'me';
+
+const entry = (overrides: Partial<UserChatListItem> = {}): UserChatListItem => ({
+  chatId: 'friend_me',
+  partnerId: 'friend',
+  partnerName: 'Friend',
+  partnerPhoto: 'photo.png',
+  partnerOnline: false,
+  lastMessage: 'hello',
+  lastMessageTime: 1000,
+  lastMessageSender: 'friend',
+  lastMessageType: 'text',
+  unreadCount: 1,
+  lastReadAt: null,
+  isPinned: false,
+  isArchived: false,
+  isMuted: false,
+  updatedAt: 1000,
+  ...overrides,
+});
+
+describe('NotificationService', () => {
+  let provider: FakeNotificationProvider;
+
+  // Start for ME with the first snapshot already seen, then background the app
+  const startWith = async (initial: UserChatListItem[]) => {
+    await NotificationService.handleChatListSnapshot(initial);
+    await NotificationService.setAppActive(false);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    Repositories.setStore(createFakeDataStore());
+    provider = createFakeNotificationProvider();
+    NotificationService.stop();
+    NotificationService.setProvider(provider);
+    await NotificationService.setAppActive(true);
+    await NotificationService.start(ME);
+  });
+
+  it('does not announce messages that were already there', async () => {
+    await startWith([entry()]);
+    expect(provider.presented).toHaveLength(0);
+  });
+
+  it('groups new messages per chat while backgrounded', async () => {
+    await startWith([entry()]);
+    await NotificationService.handleChatListSnapshot([entry({ lastMessage: 'one', lastMessageTime: 2000 })]);
+    await NotificationService.handleChatListSnapshot([entry({ lastMessage: 'two', lastMessageTime: 3000 })]);
+
+    expect(provider.shown.size).toBe(1);
+    const shown = provider.shown.get('friend_me')!;
+    expect(shown.lines).toEqual(['one', 'two']);
+    expect(shown.count).toBe(2);
+    expect(shown.canReply).toBe(true);
+  });
+
+  it('stays quiet in the foreground and for own messages', async () => {
+    await NotificationService.handleChatListSnapshot([entry()]);
+    await NotificationService.handleChatListSnapshot([entry({ lastMessageTime: 2000 })]);
+    await NotificationService.setAppActive(false);
+    await NotificationService.handleChatListSnapshot([
+      entry({ lastMessageTime: 3000, lastMessageSender: ME }),
+    ]);
+
+    expect(provider.presented).toHaveLength(0);
+  });
+
+  it('honours mutes until they expire', async () => {
+    const now = 10000;
+    await startWith([entry({ isMuted: true, mutedUntil: now + 1 })]);
+    await NotificationService.handleChatListSnapshot(
+      [entry({ isMuted: true, mutedUntil: now + 1, lastMessageTime: 2000 })],
+      now
+    );
+    await NotificationService.handleChatListSnapshot(
+      [entry({ isMuted: true, mutedUntil: null, lastMessageTime: 3000 })],
+      now
+    );
+    expect(provider.presented).toHaveLength(0);
+
+    await NotificationService.handleChatListSnapshot(
+      [entry({ isMuted: true, mutedUntil: now - 1, lastMessageTime: 4000 })],
+      now
+    );
+    expect(provider.presented).toHaveLength(1);
+  });
+
+  it('prefixes group messages with the sender and offers no inline reply', async () => {
+    const group = { chatId: 'group1', isGroup: true, partnerId: '', partnerName: 'Team' };
+    await startWith([entry(group)]);
+    await NotificationService.handleChatListSnapshot([
+      entry({ ...group, lastMessage: 'hi all', lastMessageSenderName: 'Ann', lastMessageTime: 2000 }),
+    ]);
+
+    const shown = provider.shown.get('group1')!;
+    expect(shown.lines).toEqual(['Ann: hi all']);
+    expect(shown.canReply).toBe(false);
+  });
+
+  it('sends inline replies as direct messages and clears the notification', async () => {
+    await startWith([entry()]);
+    await NotificationService.handleChatListSnapshot([entry({ lastMessageTime: 2000 })]);
+
+    await NotificationService.handleResponse({
+      data: provider.shown.get('friend_me')!.data,
+      replyText: ' on my way ',
+    });
+
+    expect(ChatService.sendMessageWithReply).toHaveBeenCalledWith(ME, 'friend', 'on my way', null);
+    expect(provider.shown.size).toBe(0);
+  });
+
+  it('opens the chatroom for the friend when tapped', async () => {
+    await startWith([entry()]);
+    await NotificationService.handleChatListSnapshot([entry({ lastMessageTime: 2000 })]);
+
+    await NotificationService.handleResponse({ data: provider.shown.get('friend_me')!.data });
+
+    expect(router.push).toHaveBeenCalledWith({
+      pathname: '/(screens)/chatroom',
+      params: expect.objectContaining({ friendUserId: 'friend', name: 'Friend' }),
+    });
+    expect(provider.shown.size).toBe(0);
+  });
+
+  it('clears everything when the app comes back', async () => {
+    await startWith([entry()]);
+    await NotificationService.handleChatListSnapshot([entry({ lastMessageTime: 2000 })]);
+    await NotificationService.setAppActive(true);
+
+    expect(provider.shown.size).toBe(0);
+  });
+});
@@ -0,0 +1,112 @@
+import { createFakeDataStore, FakeDataStore, FakeTimestamp } from '@/services/fakeDataStore';
+import { Repositories } from '@/services/repositories';
+import { SCHEMA_VERSION, SchemaMigration } from '@/services/schemaMigration';
+
+let store: FakeDataStore;
+
+beforeEach(() => {
+  store = createFakeDataStore();
+  Repositories.setStore(store);
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+const addedAt = FakeTimestamp.fromMillis(1_000);
+
+describe('SchemaMigration', () => {
+  it('rewrites a legacy user and their chats into the current format', async () => {
+    store.seed({
+      'users/ann': { uid: 'ann', name: 'Ann Lee', email: 'Ann@x.io', friends: ['bob'] },
+      'users/bob': { uid: 'bob', name: 'Bob', photo: 'bob.jpg' },
+      'users/cid': { uid: 'cid', name: 'Cid' },
+      'users/ann/friends/cid': { friendId: 'cid', friendName: '', friendPhoto: '', addedAt },
+      'chats/ann_bob': {
+        participants: ['ann', 'bob'],
+        lastMessage: 'hi',
+        unreadCount: { ann: 2, bob: 0 },
+      },
+      'chats/group1': {
+        type: 'group',
+        participants: ['ann', 'bob', 'cid'],
+        participantCount: 3,
+        participantData: { ann: { unreadCount: 5 }, bob: { unreadCount: 0 } },
+        unreadCount: { ann: 9, cid: 1 },
+        lastMessage: { text: 'welcome', senderId: 'bob', timestamp: addedAt },
+      },
+    });
+
+    expect(await SchemaMigration.run('ann')).toBe(6);
+
+    const ann = await Repositories.users.get('ann');
+    expect(ann).toMatchObject({
+      friendsCount: 2,
+      chatsCount: 2,
+      emailLower: 'ann@x.io',
+      settings: { allowFriendRequests: true },
+      schemaVersion: SCHEMA_VERSION,
+    });
+    expect(ann).not.toHaveProperty('friends');
+    expect(await Repositories.users.getRelationship('ann', 'bob')).toMatchObject({
+      type: 'friend',
+      name: 'Bob',
+      photo: 'bob.jpg',
+    });
+    expect((await Repositories.users.getRelationship('ann', 'cid'))?.createdAt).toEqual(addedAt);
+    expect(await Repositories.users.listFriendEntries('ann')).toEqual([]);
+
+    const direct = await Repositories.chats.get('ann_bob');
+    expect(direct).toMatchObject({
+      type: 'direct',
+      participantCount: 2,
+      lastMessage: 'hi',
+      participantData: { ann: { unreadCount: 2 }, bob: { unreadCount: 0 } },
+    });
+    expect(direct).not.toHaveProperty('unreadCount');
+
+    // participantData already there wins over the legacy map
+    expect(await Repositories.chats.get('group1')).toMatchObject({
+      lastMessage: 'welcome',
+      lastMessageSender: 'bob',
+      participantData: { ann: { unreadCount: 5 }, cid: { unreadCount: 1 } },
+    });
+  });
+
+  it('runs once per user unless forced, and leaves current documents alone', async () => {
+    store.seed({
+      'users/ann': { uid: 'ann', name: 'Ann', email: 'ann@x.io', schemaVersion: SCHEMA_VERSION },
+      'chats/ann_bob': { participants: ['ann', 'bob'], unreadCount: { ann: 1 } },
+    });
+
+    expect(await SchemaMigration.run('ann')).toBe(0);
+    expect(await Repositories.chats.get('ann_bob')).toHaveProperty('unreadCount');
+
+    await SchemaMigration.run('ann', { force: true });
+    const chat = await Repositories.chats.get('ann_bob');
+    await SchemaMigration.run('ann', { force: true });
+    expect(await Repositories.chats.get('ann_bob')).toEqual(chat);
+  });
+
+  it('splits more writes than one batch takes into several, the user document last', async () => {
+    const friendIds = Array.from({ length: 300 }, (_, index) => `f${index}`);
+    store.seed({
+      'users/ann': { uid: 'ann', name: 'Ann', email: 'ann@x.io' },
+      ...Object.fromEntries(
+        friendIds.map((id) => [
+          `users/ann/friends/${id}`,
+          { friendId: id, friendName: '', friendPhoto: '', addedAt },
+        ])
+      ),
+    });
+    const batch = jest.spyOn(Repositories, 'batch');
+
+    expect(await SchemaMigration.run('ann')).toBe(601);
+    expect(batch).toHaveBeenCalledTimes(2);
+    expect(await Repositories.users.listRelationships('ann', 'friend')).toHaveLength(300);
+    expect(await Repositories.users.listFriendEntries('ann')).toEqual([]);
+    expect(await Repositories.users.get('ann')).toMatchObject({
+      friendsCount: 300,
+      schemaVersion: SCHEMA_VERSION,
+    });
+  });
+});
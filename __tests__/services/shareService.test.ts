@@ -0,0 +1,65 @@
+import { ChatService } from '@/services/chatService';
+import { ShareService } from '@/services/shareService';
+import { UploadService } from '@/services/uploadService';
+
+jest.mock('@/services/chatService', () => ({
+  ChatService: { forwardMessage: jest.fn() },
+}));
+
+jest.mock('@/services/uploadService', () => ({
+  UploadService: { upload: jest.fn(async (uri: string) => `https://cdn/${uri}`) },
+}));
+
+const sent = () => (ChatService.forwardMessage as jest.Mock).mock.calls.map(([message]) => message);
+
+describe('ShareService', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('maps a share intent to items and drops text that repeats the link', () => {
+    const items = ShareService.fromShareIntent({
+      webUrl: 'https://example.com',
+      text: 'https://example.com',
+      files: [
+        { path: 'a.png', mimeType: 'image/png', fileName: 'a.png', size: 10 },
+        { path: 'b.pdf', mimeType: 'application/pdf', fileName: 'b.pdf', size: 20 },
+      ],
+    } as any);
+
+    expect(items.map((item) => item.kind)).toEqual(['url', 'image', 'file']);
+  });
+
+  it('sends text with the caption as a single message', async () => {
+    await ShareService.send([{ kind: 'text', text: 'hello' }], ['f1', 'f2'], 'me', 'look');
+
+    expect(sent()).toEqual([expect.objectContaining({ text: 'look\nhello' })]);
+    expect(ChatService.forwardMessage).toHaveBeenCalledWith(
+      expect.anything(),
+      ['f1', 'f2'],
+      'me',
+      { forwarded: false }
+    );
+  });
+
+  it('uploads files and puts the caption on the first one', async () => {
+    await ShareService.send(
+      [
+        { kind: 'url', text: 'https://example.com' },
+        { kind: 'image', uri: 'a.png' },
+        { kind: 'file', uri: 'b.pdf', fileName: 'b.pdf', mimeType: 'application/pdf', size: 20 },
+      ],
+      ['f1'],
+      'me',
+      'caption'
+    );
+
+    expect(UploadService.upload).toHaveBeenCalledWith('b.pdf', 'file', {
+      mimeType: 'application/pdf',
+      fileName: 'b.pdf',
+    });
+    expect(sent()).toEqual([
+      expect.objectContaining({ text: 'https://example.com' }),
+      expect.objectContaining({ text: 'caption', mediaType: 'image', mediaUrl: 'https://cdn/a.png' }),
+      expect.objectContaining({ text: '', mediaType: 'file', fileName: 'b.pdf', fileSize: 20 }),
+    ]);
+  });
+});
@@ -0,0 +1,28 @@
+import { createFakeDataStore } from '@/services/fakeDataStore';
+import { Repositories } from '@/services/repositories';
+import { TypingService } from '@/services/typingService';
+
+// Lets live listeners settle
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  Repositories.setStore(createFakeDataStore());
+});
+
+describe('TypingService', () => {
+  it('shows who else is typing until they stop', async () => {
+    const onChange = jest.fn();
+    const unsubscribe = TypingService.subscribeToTyping('ann_bob', 'ann', onChange);
+
+    await TypingService.setTyping('ann_bob', 'ann', 'Ann');
+    await TypingService.setTyping('ann_bob', 'bob', 'Bob');
+    await flush();
+    expect(onChange.mock.lastCall[0].map((i: { userId: string }) => i.userId)).toEqual(['bob']);
+
+    await TypingService.clearTyping('ann_bob', 'bob');
+    await flush();
+    expect(onChange.mock.lastCall[0]).toEqual([]);
+
+    unsubscribe();
+  });
+});
@@ -0,0 +1,103 @@
+import { createFakeUploadBackend, FakeUploadBackend } from '@/services/fakeUploadBackend';
+import { UploadService } from '@/services/uploadService';
+import * as FileSystem from 'expo-file-system';
+import { manipulateAsync } from 'expo-image-manipulator';
+import { Image } from 'react-native';
+
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  getInfoAsync: jest.fn(async () => ({ exists: true, size: 1000 })),
+}));
+
+jest.mock('expo-image-manipulator', () => ({
+  manipulateAsync: jest.fn(async () => ({ uri: 'file:///compressed.jpg', width: 1600, height: 1200 })),
+  SaveFormat: { JPEG: 'jpeg' },
+}));
+
+jest.mock('expo-intent-launcher', () => ({
+  startActivityAsync: jest.fn(),
+}));
+
+jest.mock('react-native', () => ({
+  Image: { getSize: jest.fn() },
+  Platform: { OS: 'ios' },
+  Share: { share: jest.fn() },
+}));
+
+// Let the upload get past preparation and reach the backend
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('UploadService', () => {
+  let backend: FakeUploadBackend;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    backend = createFakeUploadBackend();
+    UploadService.setBackend(backend);
+    (Image.getSize as jest.Mock).mockImplementation((uri, onSuccess) => onSuccess(4000, 3000));
+  });
+
+  it('downscales and re-encodes photos before uploading', async () => {
+    backend.autoFinish = true;
+    const url = await UploadService.upload('file:///photo.png', 'image', { fileName: 'photo.png' });
+
+    expect(manipulateAsync).toHaveBeenCalledWith(
+      'file:///photo.png',
+      [{ resize: { width: 1600, height: 1200 } }],
+      expect.objectContaining({ format: 'jpeg' })
+    );
+    expect(backend.received[0]).toMatchObject({ uri: 'file:///compressed.jpg', mimeType: 'image/jpeg' });
+    expect(url).toBe('fake://uploads/photo.png');
+  });
+
+  it('leaves GIFs alone so they keep animating', async () => {
+    backend.autoFinish = true;
+    await UploadService.upload('file:///fun.gif', 'image', { fileName: 'fun.gif', mimeType: 'image/gif' });
+
+    expect(manipulateAsync).not.toHaveBeenCalled();
+    expect(backend.received[0]).toMatchObject({ uri: 'file:///fun.gif', mimeType: 'image/gif' });
+  });
+
+  it('refuses videos over the backend limit without uploading', async () => {
+    (FileSystem.getInfoAsync as jest.Mock).mockResolvedValueOnce({
+      exists: true,
+      size: backend.limits.video + 1,
+    });
+
+    await expect(UploadService.upload('file:///long.mp4', 'video')).rejects.toThrow(/larger than/);
+    expect(backend.received).toHaveLength(0);
+  });
+
+  it('publishes progress per upload id until it finishes', async () => {
+    const seen: Record<string, number>[] = [];
+    const unsubscribe = UploadService.subscribe((progress) => seen.push(progress));
+
+    const upload = UploadService.upload('file:///doc.pdf', 'file', { id: 'm1', fileName: 'doc.pdf' });
+    await flush();
+    backend.pending[0].progress(0.5);
+    backend.pending[0].finish();
+    await upload;
+    unsubscribe();
+
+    expect(seen).toContainEqual({ m1: 0.5 });
+    expect(seen[seen.length - 1]).toEqual({});
+    expect(backend.received[0].mimeType).toBe('application/pdf');
+  });
+
+  it('cancels a running upload', async () => {
+    const upload = UploadService.upload('file:///clip.mp4', 'video', { id: 'm2' });
+    await flush();
+
+    expect(UploadService.cancel('m2')).toBe(true);
+    const error = await upload.catch((e) => e);
+    expect(UploadService.isCancelled(error)).toBe(true);
+    expect(backend.pending).toHaveLength(0);
+    expect(UploadService.cancel('m2')).toBe(false);
+  });
+
+  it('checks sizes against the active backend', () => {
+    expect(UploadService.exceedsLimit('file', backend.limits.file)).toBe(false);
+    expect(UploadService.exceedsLimit('file', backend.limits.file + 1)).toBe(true);
+    expect(UploadService.exceedsLimit('file', undefined)).toBe(false);
+  });
+});
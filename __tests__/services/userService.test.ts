@@ -0,0 +1,94 @@
+import { ChatListService } from '@/services/chatListService';
+import { createFakeDataStore, FakeDataStore } from '@/services/fakeDataStore';
+import { Repositories } from '@/services/repositories';
+import { SCHEMA_VERSION } from '@/services/schemaMigration';
+import { UserService } from '@/services/userService';
+
+jest.mock('@/services/chatListService', () => ({
+  ChatListService: { updatePartnerProfile: jest.fn(async () => {}) },
+}));
+
+jest.mock('@/services/presenceService', () => ({ PresenceService: {} }));
+
+let store: FakeDataStore;
+
+beforeEach(() => {
+  store = createFakeDataStore();
+  Repositories.setStore(store);
+});
+
+const signIn = (uid: string, name: string, email: string) =>
+  UserService.createOrUpdateUser({ uid, name, email });
+
+describe('UserService', () => {
+  it('creates a user in the current format and keeps their data on the next sign-in', async () => {
+    const created = await signIn('u1', 'Ann Lee', 'Ann@Example.com');
+    expect(created).toMatchObject({
+      uid: 'u1',
+      nameLower: 'ann lee',
+      friendsCount: 0,
+      chatsCount: 0,
+      settings: { allowFriendRequests: true },
+      schemaVersion: SCHEMA_VERSION,
+    });
+    expect(created).not.toHaveProperty('friends');
+
+    await Repositories.users.update('u1', { designation: 'Admin', friendsCount: 4 });
+    const again = await signIn('u1', 'Ann Lee', 'ann@example.com');
+    expect(again).toMatchObject({ emailLower: 'ann@example.com', designation: 'Admin', friendsCount: 4 });
+  });
+
+  it('reads legacy users with defaults filled in', async () => {
+    store.seed({ 'users/u1': { uid: 'u1', name: 'Ann', friends: ['u2', 'u3'] } });
+
+    const user = await UserService.getUserById('u1');
+
+    expect(user).toMatchObject({
+      friendsCount: 2,
+      chatsCount: 0,
+      photo: '',
+      settings: { allowFriendRequests: true, showOnlineStatus: true, showLastSeen: true },
+    });
+    expect(user).not.toHaveProperty('friends');
+  });
+
+  it('finds users by name or email prefix, without the searcher', async () => {
+    await signIn('u1', 'Ann Lee', 'ann@example.com');
+    await signIn('u2', 'Bob Annan', 'annan@example.com');
+    await signIn('u3', 'Anna Bell', 'bell@example.com');
+    await signIn('u4', 'Cid', 'cid@example.com');
+
+    const found = await UserService.searchUsers('ANN', 'u1');
+    expect(found.map((user) => user.uid).sort()).toEqual(['u2', 'u3']);
+    expect(await UserService.searchUsers('  ', 'u1')).toEqual([]);
+  });
+
+  it('changes one privacy setting without resetting the others', async () => {
+    store.seed({ 'users/u1': { uid: 'u1', settings: { showLastSeen: false } } });
+    const onChange = jest.fn();
+    UserService.subscribeToUserSettings('u1', onChange);
+
+    await UserService.updateUserSettings('u1', { allowFriendRequests: false });
+
+    expect(onChange).toHaveBeenLastCalledWith({
+      allowFriendRequests: false,
+      showOnlineStatus: true,
+      showLastSeen: false,
+    });
+  });
+
+  it('pushes profile photo changes to listeners and chat partners', async () => {
+    await signIn('u1', 'Ann Lee', 'ann@example.com');
+    const onChange = jest.fn();
+    UserService.onUserStatusChange('u1', onChange);
+
+    await UserService.updateProfileImage('u1', 'https://img/ann.jpg');
+
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ photo: 'https://img/ann.jpg' })
+    );
+    expect(ChatListService.updatePartnerProfile).toHaveBeenCalledWith('u1', {
+      photo: 'https://img/ann.jpg',
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { VoicePlayerService } from '@/services/voicePlayerService';
+import { Audio } from 'expo-av';
+
+jest.mock('expo-av', () => ({
+  Audio: {
+    setAudioModeAsync: jest.fn(),
+    Sound: { createAsync: jest.fn() },
+  },
+}));
+
+const createAsync = Audio.Sound.createAsync as jest.Mock;
+
+// Each created sound keeps its status callback so tests can drive playback
+const sounds: { uri: string; emit: (status: object) => void; sound: any }[] = [];
+
+beforeEach(() => {
+  sounds.length = 0;
+  createAsync.mockImplementation(async (source, _status, onStatus) => {
+    const sound = {
+      pauseAsync: jest.fn(),
+      playAsync: jest.fn(),
+      setPositionAsync: jest.fn(),
+      setRateAsync: jest.fn(),
+      setOnPlaybackStatusUpdate: jest.fn(),
+      unloadAsync: jest.fn(),
+    };
+    sounds.push({ uri: source.uri, emit: onStatus, sound });
+    return { sound };
+  });
+});
+
+afterEach(() => VoicePlayerService.stop());
+
+const finished = { isLoaded: true, isPlaying: false, positionMillis: 1000, didJustFinish: true };
+
+describe('VoicePlayerService', () => {
+  it('plays the following voice notes when one finishes', async () => {
+    await VoicePlayerService.play({ id: 'a', uri: 'a.m4a' }, [
+      { id: 'b', uri: 'b.m4a' },
+      { id: 'c', uri: 'c.m4a' },
+    ]);
+
+    sounds[0].emit(finished);
+    await new Promise(process.nextTick);
+    expect(VoicePlayerService.getState().track?.id).toBe('b');
+
+    sounds[1].emit(finished);
+    await new Promise(process.nextTick);
+    expect(sounds.map((s) => s.uri)).toEqual(['a.m4a', 'b.m4a', 'c.m4a']);
+
+    sounds[2].emit(finished);
+    await new Promise(process.nextTick);
+    expect(VoicePlayerService.getState().track).toBeNull();
+  });
+
+  it('seeks within the loaded note and starts other notes at the seek point', async () => {
+    const track = { id: 'a', uri: 'a.m4a' };
+    await VoicePlayerService.play(track);
+    await VoicePlayerService.seek(track, 1500.4);
+    expect(sounds[0].sound.setPositionAsync).toHaveBeenCalledWith(1500);
+
+    await VoicePlayerService.seek({ id: 'b', uri: 'b.m4a' }, 800);
+    expect(createAsync).toHaveBeenLastCalledWith(
+      { uri: 'b.m4a' },
+      expect.objectContaining({ positionMillis: 800 }),
+      expect.any(Function)
+    );
+  });
+
+  it('cycles the playback rate and applies it to the loaded note', async () => {
+    await VoicePlayerService.play({ id: 'a', uri: 'a.m4a' });
+    await VoicePlayerService.cycleRate();
+    expect(VoicePlayerService.getState().rate).toBe(1.5);
+    expect(sounds[0].sound.setRateAsync).toHaveBeenCalledWith(1.5, true);
+
+    await VoicePlayerService.cycleRate();
+    await VoicePlayerService.cycleRate();
+    expect(VoicePlayerService.getState().rate).toBe(1);
+  });
+});
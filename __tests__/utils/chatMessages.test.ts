@@ -0,0 +1,135 @@
+import type { OutboxItem } from '@/services/outboxService';
+import {
+  addDateHeaders,
+  applyOutbox,
+  getReplyPreviewText,
+  mergeMessagePages,
+  Message,
+  MessageWithHeader,
+  toDateSafe,
+} from '@/utils/chatMessages';
+
+const NOW = new Date(2025, 5, 10, 12, 0);
+
+const message = (id: string, at: Date, extra: Partial<Message> = {}): Message => ({
+  id,
+  text: id,
+  sender: 'user',
+  senderId: 'me',
+  time: '',
+  timestamp: at,
+  ...extra,
+});
+
+// What the view model publishes: newest first, with headers
+const published = (...list: Message[]): MessageWithHeader[] =>
+  addDateHeaders(list, NOW).reverse();
+
+const send = (id: string, extra: Partial<OutboxItem> = {}): OutboxItem =>
+  ({
+    kind: 'send',
+    id,
+    chatId: 'chat',
+    senderId: 'me',
+    createdAt: NOW.getTime(),
+    attempts: 0,
+    status: 'pending',
+    text: `queued ${id}`,
+    ...extra,
+  }) as OutboxItem;
+
+const ids = (list: MessageWithHeader[]) => list.filter((m) => !m.isDateHeader).map((m) => m.id);
+
+describe('chat message helpers', () => {
+  it('parses Firestore timestamps, epochs and date strings', () => {
+    expect(toDateSafe({ toDate: () => NOW })).toBe(NOW);
+    expect(toDateSafe(NOW.getTime())?.getTime()).toBe(NOW.getTime());
+    expect(toDateSafe(String(NOW.getTime()))?.getTime()).toBe(NOW.getTime());
+    expect(toDateSafe('not a date')).toBeNull();
+    expect(toDateSafe(undefined)).toBeNull();
+  });
+
+  it('adds one header per day and can be re-run on its own output', () => {
+    const yesterday = new Date(2025, 5, 9, 18, 0);
+    const list = addDateHeaders(
+      [message('b', new Date(2025, 5, 10, 9, 0)), message('a', yesterday), message('c', NOW)],
+      NOW
+    );
+
+    expect(list.map((m) => m.dateHeaderText || m.id)).toEqual(['Yesterday', 'a', 'Today', 'b', 'c']);
+    expect(addDateHeaders(list, NOW)).toHaveLength(5);
+  });
+
+  it('prefers the live copy where an older page overlaps the live window', () => {
+    const older = [message('a', NOW), message('b', NOW, { text: 'stale' })];
+    const live = [message('b', NOW, { text: 'edited', edited: true }), message('c', NOW)];
+
+    const merged = mergeMessagePages(older, live);
+    expect(merged.map((m) => m.id)).toEqual(['a', 'b', 'c']);
+    expect(merged.find((m) => m.id === 'b')?.text).toBe('edited');
+  });
+
+  it('shows queued sends until the server copy arrives', () => {
+    const server = published(message('a', new Date(2025, 5, 10, 11, 0)));
+    const outbox = [send('q1', { status: 'pending' }), send('q2', { status: 'failed' })];
+
+    const before = applyOutbox(server, outbox, { q1: 0.4 }, NOW);
+    expect(ids(before)).toEqual(['q2', 'q1', 'a']);
+    expect(before.find((m) => m.id === 'q1')).toMatchObject({
+      status: 'sending',
+      isUploading: true,
+      uploadProgress: 0.4,
+    });
+    expect(before.find((m) => m.id === 'q2')?.status).toBe('failed');
+
+    // The send was acknowledged but the outbox hasn't dropped it yet: no duplicate
+    const acked = published(
+      message('a', new Date(2025, 5, 10, 11, 0)),
+      message('q1', new Date(2025, 5, 10, 11, 59), { status: 'sent' })
+    );
+    const after = applyOutbox(acked, outbox, {}, NOW);
+    expect(ids(after).filter((id) => id === 'q1')).toHaveLength(1);
+    expect(after.find((m) => m.id === 'q1')?.status).toBe('sent');
+  });
+
+  it('hides pending deletes and flags failed edits and deletes', () => {
+    const server = published(message('a', NOW), message('b', NOW), message('c', NOW));
+    const outbox = [
+      { kind: 'delete', id: 'd1', messageId: 'a', status: 'pending' },
+      { kind: 'delete', id: 'd2', messageId: 'b', status: 'failed' },
+      { kind: 'edit', id: 'e1', messageId: 'c', text: 'new text', status: 'failed' },
+    ] as OutboxItem[];
+
+    const result = applyOutbox(server, outbox, {}, NOW);
+    expect(ids(result)).not.toContain('a');
+    expect(result.find((m) => m.id === 'b')?.status).toBe('failed');
+    expect(result.find((m) => m.id === 'c')).toMatchObject({
+      text: 'new text',
+      edited: true,
+      status: 'failed',
+    });
+  });
+
+  it('returns the published list untouched when nothing is queued', () => {
+    const server = published(message('a', NOW));
+    expect(applyOutbox(server, [], {}, NOW)).toBe(server);
+  });
+
+  it('describes replies to media by type', () => {
+    const all = [
+      message('img', NOW, { mediaType: 'image' }),
+      message('doc', NOW, { mediaType: 'file', fileName: 'plan.pdf' }),
+    ];
+    const quote = (messageId: string, text = '') => ({
+      messageId,
+      text,
+      senderId: 'me',
+      senderName: 'You',
+    });
+
+    expect(getReplyPreviewText(quote('img'), all)).toBe('Image');
+    expect(getReplyPreviewText(quote('doc'), all)).toBe('plan.pdf');
+    expect(getReplyPreviewText(quote('gone', 'original text'), all)).toBe('original text');
+    expect(getReplyPreviewText(null, all)).toBe('');
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  buildChatLink,
+  buildProfileLink,
+  dispatchDeepLink,
+  parseDeepLink,
+  setDeepLinkHandler,
+} from '@/utils/deepLinks';
+
+describe('deepLinks', () => {
+  it('parses chat and user links', () => {
+    expect(parseDeepLink('chatappexpo://chat/abc')).toEqual({ type: 'chat', friendUserId: 'abc' });
+    expect(parseDeepLink('chatappexpo://user/xyz?ref=qr')).toEqual({ type: 'user', uid: 'xyz' });
+    // Paths as expo-router passes them to +native-intent
+    expect(parseDeepLink('/chat/abc')).toEqual({ type: 'chat', friendUserId: 'abc' });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseDeepLink('chatappexpo://chat')).toBeNull();
+    expect(parseDeepLink('chatappexpo://chat/a/b')).toBeNull();
+    expect(parseDeepLink('chatappexpo://settings/a')).toBeNull();
+    expect(parseDeepLink(null)).toBeNull();
+  });
+
+  it('round-trips built links', () => {
+    expect(parseDeepLink(buildChatLink('a b'))).toEqual({ type: 'chat', friendUserId: 'a b' });
+    expect(parseDeepLink(buildProfileLink('u1'))).toEqual({ type: 'user', uid: 'u1' });
+  });
+
+  it('holds a link until a handler registers', () => {
+    const handler = jest.fn();
+    expect(dispatchDeepLink('chatappexpo://user/u1')).toBe(true);
+
+    const unregister = setDeepLinkHandler(handler);
+    expect(handler).toHaveBeenCalledWith({ type: 'user', uid: 'u1' });
+
+    dispatchDeepLink('chatappexpo://chat/f1');
+    expect(handler).toHaveBeenLastCalledWith({ type: 'chat', friendUserId: 'f1' });
+
+    unregister();
+    dispatchDeepLink('chatappexpo://chat/f2');
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,34 @@
+import { fileIconName, formatFileSize, mimeTypeFromName } from '@/utils/fileAttachments';
+
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  getInfoAsync: jest.fn(),
+}));
+
+jest.mock('expo-intent-launcher', () => ({
+  startActivityAsync: jest.fn(),
+}));
+
+describe('file attachments', () => {
+  it('guesses MIME types from the file name', () => {
+    expect(mimeTypeFromName('Report.PDF')).toBe('application/pdf');
+    expect(mimeTypeFromName('notes.docx')).toBe(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    );
+    expect(mimeTypeFromName('archive')).toBe('application/octet-stream');
+    expect(mimeTypeFromName(undefined)).toBe('application/octet-stream');
+  });
+
+  it('formats sizes for file bubbles', () => {
+    expect(formatFileSize(undefined)).toBe('');
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(2048)).toBe('2 KB');
+    expect(formatFileSize(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+
+  it('picks an icon per kind of document', () => {
+    expect(fileIconName('a.pdf')).toBe('document-text');
+    expect(fileIconName('a.xlsx')).toBe('grid');
+    expect(fileIconName('a.unknown')).toBe('document');
+  });
+});
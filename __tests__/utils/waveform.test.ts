@@ -0,0 +1,21 @@
+import { downsampleWaveform, meteringToLevel, resampleWaveform } from '@/utils/waveform';
+
+describe('waveform', () => {
+  it('maps recorder metering to 0–1 levels', () => {
+    expect(meteringToLevel(-160)).toBe(0);
+    expect(meteringToLevel(-30)).toBeCloseTo(0.5);
+    expect(meteringToLevel(0)).toBe(1);
+    expect(meteringToLevel(undefined)).toBe(0);
+  });
+
+  it('averages samples into bars scaled to the loudest one', () => {
+    expect(downsampleWaveform([0.1, 0.3, 0.2, 0.2, 0.4, 0.4], 3)).toEqual([0.5, 0.5, 1]);
+    expect(downsampleWaveform([0, 0], 4)).toEqual([0, 0, 0, 0]);
+    expect(downsampleWaveform([])).toEqual([]);
+  });
+
+  it('resamples stored levels to the bars that fit', () => {
+    expect(resampleWaveform([0.2, 0.8], 4)).toEqual([0.2, 0.2, 0.8, 0.8]);
+    expect(resampleWaveform([], 2)).toEqual([0, 0]);
+  });
+});
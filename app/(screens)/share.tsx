@@ -0,0 +1,39 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { router } from 'expo-router';
+import { useShareIntentContext } from 'expo-share-intent';
+
+import { ShareTarget } from '@/components/ShareTarget';
+import { useUser } from '@/components/UserContext';
+import { useLanguage } from '@/i18n';
+import { SharedItem, ShareService } from '@/services/shareService';
+
+// Opened by the chat list when another app shares into chatsupp
+export default function ShareScreen() {
+  const { user } = useUser();
+  const { t } = useLanguage();
+  const { hasShareIntent, shareIntent, resetShareIntent } = useShareIntentContext();
+
+  const [items, setItems] = useState<SharedItem[]>([]);
+
+  const goHome = useCallback(() => {
+    resetShareIntent();
+    router.replace('/(tabs)');
+  }, [resetShareIntent]);
+
+  // Take the intent once; resetting it later must not wipe what is on screen
+  useEffect(() => {
+    if (!user?.uid) {
+      Alert.alert(t('common.error'), t('chat.signInToShare'));
+      router.replace('/(screens)/login');
+      return;
+    }
+    if (!hasShareIntent) return;
+
+    const shared = ShareService.fromShareIntent(shareIntent);
+    if (shared.length === 0) return goHome();
+    setItems(shared);
+  }, [user?.uid, hasShareIntent, shareIntent, goHome, t]);
+
+  return <ShareTarget items={items} onDone={goHome} />;
+}
@@ -0,0 +1,11 @@
+import { parseDeepLink } from '@/utils/deepLinks';
+import { getShareExtensionKey } from 'expo-share-intent';
+
+// chat/ and user/ links and content shared from other apps are opened once a user
+// is signed in, so the router itself should not try to match them against files
+export function redirectSystemPath({ path, initial }: { path: string; initial: boolean }) {
+  if (parseDeepLink(path) || path.includes(`dataUrl=${getShareExtensionKey()}`)) {
+    return initial ? '/' : '';
+  }
+  return path;
+}
@@ -5,17 +5,23 @@ import { UserProvider } from '@/components/UserContext';
 import { LanguageProvider, initializeLanguage, i18n } from '@/i18n';
 import '@/i18n/config';
 import SplashScreen from '@/screens/Splash/View';
-import { UserServiceSimple } from '@/services/userServiceSimple';
+import { ExpoNotificationProvider } from '@/services/expoNotificationProvider';
+import { NotificationService } from '@/services/notificationService';
+import { OutboxService } from '@/services/outboxService';
+import { PresenceService } from '@/services/presenceService';
+import { UserService } from '@/services/userService';
 import { Stack } from 'expo-router';
+import { ShareIntentProvider } from 'expo-share-intent';
 import * as SplashScreenModule from 'expo-splash-screen';
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { AppState, Platform } from 'react-native';
+import { AppState, Linking, Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 // Import quick actions
 import * as QuickActions from 'expo-quick-actions';
 import { isQuickActionsSupported, updateQuickActionsWithRecentChats, handleQuickAction, addRecentChat, replaceRecentChats } from '@/utils/quickActions';
 import { ChatService } from '@/services/chatService';
+import { dispatchDeepLink } from '@/utils/deepLinks';
 
 // Quick actions logic is centralized in utils/quickActions
 
@@ -24,6 +30,9 @@ import 'react-native-reanimated';
 // Prevent the default splash screen from auto-hiding
 SplashScreenModule.preventAutoHideAsync();
 
+// New messages become local notifications while the app is backgrounded
+NotificationService.setProvider(ExpoNotificationProvider);
+
 // Quick actions are defined in utils/quickActions
 
 // isQuickActionsSupported imported from utils/quickActions
@@ -89,7 +98,9 @@ export default function RootLayout() {
 
         if (currentUserUid) {
           // Mark user online at app start
-          await UserServiceSimple.updateOnlineStatus(currentUserUid, true);
+          await PresenceService.goOnline(currentUserUid);
+          // Replay messages queued while offline or before the app was closed
+          OutboxService.flush(currentUserUid);
         }
 
         // Setup quick actions if supported
@@ -112,7 +123,8 @@ export default function RootLayout() {
     const unsubscribe = ChatService.subscribeToUserChats(uid, (chats: any[]) => {
       try {
         // Best-effort sort by lastMessageTime desc if present
-        const sorted = [...chats].sort((a, b) => {
+        // Quick actions open a direct chat by friendUserId, so groups are skipped
+        const sorted = [...chats].filter((c) => c?.type !== 'group').sort((a, b) => {
           const at = (a?.lastMessageTime?.toMillis?.() ?? a?.lastMessageTime?.seconds ?? 0);
           const bt = (b?.lastMessageTime?.toMillis?.() ?? b?.lastMessageTime?.seconds ?? 0);
           return bt - at;
@@ -133,7 +145,7 @@ export default function RootLayout() {
 
               let friendName = chat.name || '';
               try {
-                const friendUser = await UserServiceSimple.getUserById(friendUserId);
+                const friendUser = await UserService.getUserById(friendUserId);
                 if (friendUser?.name) friendName = friendUser.name;
               } catch {}
               prepared.push({
@@ -162,14 +174,23 @@ export default function RootLayout() {
     };
   }, [appIsReady, uid, seededQuickActions]);
 
+  // Notifications for the signed-in user; tapping one needs the router, so wait until ready
+  useEffect(() => {
+    if (!appIsReady || !uid) return;
+    NotificationService.start(uid);
+    return () => NotificationService.stop();
+  }, [appIsReady, uid]);
+
   // Track AppState (foreground/background)
   useEffect(() => {
     if (!uid) return;
   
     const subscription = AppState.addEventListener("change", async (nextAppState) => {
+      NotificationService.setAppActive(nextAppState === "active");
       if (nextAppState === "active") {
         // App came to foreground
-        await UserServiceSimple.updateOnlineStatus(uid, true);
+        await PresenceService.goOnline(uid);
+        OutboxService.flush(uid);
         
         // Update quick actions when app comes to foreground
         if (isQuickActionsSupported()) {
@@ -177,7 +198,7 @@ export default function RootLayout() {
         }
       } else if (nextAppState === "background" || nextAppState === "inactive") {
         // App went to background or became inactive
-        await UserServiceSimple.updateOnlineStatus(uid, false);
+        await PresenceService.goOffline(uid);
       }
     });
   
@@ -185,10 +206,23 @@ export default function RootLayout() {
     return () => {
       subscription.remove();
       // Ensure we set offline status when component unmounts (app closes)
-      UserServiceSimple.updateOnlineStatus(uid, false).catch(console.error);
+      PresenceService.goOffline(uid).catch(console.error);
     };
   }, [uid]);
 
+  // chatappexpo://chat/{friendUserId} and chatappexpo://user/{uid}; the chat list
+  // screen opens them, and holds them until login when nobody is signed in
+  useEffect(() => {
+    if (!appIsReady) return;
+
+    Linking.getInitialURL()
+      .then(dispatchDeepLink)
+      .catch(console.error);
+
+    const subscription = Linking.addEventListener('url', ({ url }) => dispatchDeepLink(url));
+    return () => subscription.remove();
+  }, [appIsReady]);
+
   // Handle quick actions
   useEffect(() => {
     if (!isQuickActionsSupported()) return;
@@ -246,31 +280,35 @@ export default function RootLayout() {
       return null;
     }
     return (
+      <ShareIntentProvider>
+        <LanguageProvider>
+          <NavigationProvider>
+            <UserProvider>
+              <ThemeProvider initialIsDark={initialIsDark}>
+                <SplashScreen />
+              </ThemeProvider>
+            </UserProvider>
+          </NavigationProvider>
+        </LanguageProvider>
+      </ShareIntentProvider>
+    );
+  }
+
+  return (
+    <ShareIntentProvider>
       <LanguageProvider>
         <NavigationProvider>
           <UserProvider>
             <ThemeProvider initialIsDark={initialIsDark}>
-              <SplashScreen />
+              <Stack initialRouteName="(screens)" screenOptions={{ headerShown: false }}>
+                <Stack.Screen name="(screens)" options={{ headerShown: false }} />
+                <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                <Stack.Screen name="+not-found" />
+              </Stack>
             </ThemeProvider>
           </UserProvider>
         </NavigationProvider>
       </LanguageProvider>
-    );
-  }
-
-  return (
-    <LanguageProvider>
-      <NavigationProvider>
-        <UserProvider>
-          <ThemeProvider initialIsDark={initialIsDark}>
-            <Stack initialRouteName="(screens)" screenOptions={{ headerShown: false }}>
-              <Stack.Screen name="(screens)" options={{ headerShown: false }} />
-              <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-              <Stack.Screen name="+not-found" />
-            </Stack>
-          </ThemeProvider>
-        </UserProvider>
-      </NavigationProvider>
-    </LanguageProvider>
+    </ShareIntentProvider>
   );
 }
\ No newline at end of file
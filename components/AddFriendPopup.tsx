@@ -1,6 +1,7 @@
 // components/AddFriendPopup.tsx
-import { FriendRequestService } from '@/services/friendRequestService';
-import { UserServiceSimple } from '@/services/userServiceSimple';
+import { BlockService } from '@/services/blockService';
+import { FriendService } from '@/services/friendService';
+import { DEFAULT_USER_SETTINGS, UserService } from '@/services/userService';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useEffect, useState } from 'react';
 import {
@@ -22,29 +23,44 @@ import { useUser } from './UserContext';
 interface AddFriendPopupProps {
   visible: boolean;
   onClose: () => void;
+  // Opened from a shared profile link: this user is shown on their own until a search
+  initialUserId?: string;
 }
 
 interface SearchResultUser extends User {
   isAlreadyFriend: boolean;
   hasRequestSent: boolean;
+  acceptsRequests: boolean;
 }
 
-export const AddFriendPopup: React.FC<AddFriendPopupProps> = ({ visible, onClose }) => {
+export const AddFriendPopup: React.FC<AddFriendPopupProps> = ({ visible, onClose, initialUserId }) => {
   const { theme } = useThemeContext();
   const { user: currentUser, refreshUserData } = useUser();
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<SearchResultUser[]>([]);
   const [allUsers, setAllUsers] = useState<SearchResultUser[]>([]);
+  const [sharedUser, setSharedUser] = useState<SearchResultUser | null>(null);
   const [sentRequests, setSentRequests] = useState<string[]>([]); // receiverIds
   const [loading, setLoading] = useState(false);
   const [sendingRequest, setSendingRequest] = useState<string | null>(null);
 
   const enhanceUsers = async (users: User[]): Promise<SearchResultUser[]> => {
     const currentFriends = currentUser?.friends || [];
-    return users.map((user) => ({
+    // People this user blocked don't show up until they are unblocked in Settings
+    const [blocked, mySettings] = currentUser?.uid
+      ? await Promise.all([
+          BlockService.getBlockedUsers(currentUser.uid),
+          UserService.getUserSettings(currentUser.uid),
+        ])
+      : [[], DEFAULT_USER_SETTINGS];
+    const blockedIds = new Set(blocked.map((relationship) => relationship.id));
+    return users.filter((user) => !blockedIds.has(user.uid)).map((user) => ({
       ...user,
+      // Hiding your own online status hides everyone else's too
+      isOnline: mySettings.showOnlineStatus && user.isOnline,
       isAlreadyFriend: currentFriends.includes(user.uid),
       hasRequestSent: sentRequests.includes(user.uid),
+      acceptsRequests: user.settings?.allowFriendRequests !== false,
     }));
   };
 
@@ -58,7 +74,7 @@ export const AddFriendPopup: React.FC<AddFriendPopupProps> = ({ visible, onClose
     try {
       setLoading(true);
       console.log('AddFriendPopup search start', query);
-      const users = await UserServiceSimple.searchUsers(query.trim(), currentUser.uid);
+      const users = await UserService.searchUsers(query.trim(), currentUser.uid);
       console.log('AddFriendPopup search results count', users.length);
       const enhancedUsers = await enhanceUsers(users);
       setSearchResults(enhancedUsers);
@@ -79,7 +95,7 @@ export const AddFriendPopup: React.FC<AddFriendPopupProps> = ({ visible, onClose
     try {
       setSendingRequest(targetUser.uid);
       
-      await FriendRequestService.sendFriendRequest(
+      await FriendService.sendFriendRequest(
         currentUser.uid,
         targetUser.uid,
         {
@@ -107,6 +123,10 @@ export const AddFriendPopup: React.FC<AddFriendPopupProps> = ({ visible, onClose
         )
       );
 
+      setSharedUser(prev =>
+        prev?.uid === targetUser.uid ? { ...prev, hasRequestSent: true } : prev
+      );
+
       // Also update the all users list
       setAllUsers(prev =>
         prev.map(user =>
@@ -185,6 +205,17 @@ export const AddFriendPopup: React.FC<AddFriendPopupProps> = ({ visible, onClose
             Request Sent
           </CustomText>
         </View>
+      ) : !item.acceptsRequests ? (
+        <View style={{
+          backgroundColor: theme.colors.inputBackground,
+          paddingHorizontal: 15,
+          paddingVertical: 8,
+          borderRadius: 20,
+        }}>
+          <CustomText fontSize={theme.fonts.sizes.small} color={theme.colors.secondaryText}>
+            Not Accepting Requests
+          </CustomText>
+        </View>
       ) : (
         <TouchableOpacity
           onPress={() => handleSendRequest(item)}
@@ -215,6 +246,7 @@ export const AddFriendPopup: React.FC<AddFriendPopupProps> = ({ visible, onClose
     setLoading(false);
     setSendingRequest(null);
     setAllUsers([]);
+    setSharedUser(null);
   };
 
   const handleClose = () => {
@@ -225,7 +257,7 @@ export const AddFriendPopup: React.FC<AddFriendPopupProps> = ({ visible, onClose
   // Fetch sent requests once and subscribe for live updates
   useEffect(() => {
     if (!currentUser?.uid) return;
-    const unsubscribeSent = FriendRequestService.subscribeToSentRequests(
+    const unsubscribeSent = FriendService.subscribeToSentRequests(
       currentUser.uid,
       (requests) => {
         setSentRequests(requests.map((r) => r.receiverId));
@@ -243,9 +275,17 @@ export const AddFriendPopup: React.FC<AddFriendPopupProps> = ({ visible, onClose
         // Refresh user data to get latest friends list
         await refreshUserData();
         
-        const users = await UserServiceSimple.getAllUsers(currentUser.uid, 100);
+        // A shared profile link's user is looked up by id and shown as a result row.
+        // Searching by their email would put an address the link never shared on screen.
+        const sharedId = initialUserId !== currentUser.uid ? initialUserId : undefined;
+        const [users, shared] = await Promise.all([
+          UserService.getAllUsers(currentUser.uid, 100),
+          sharedId ? UserService.getUserById(sharedId) : null,
+        ]);
         console.log('AddFriendPopup all users count', users.length);
         const enhanced = await enhanceUsers(users);
+        const [sharedResult] = shared ? await enhanceUsers([shared]) : [];
+        setSharedUser(sharedResult ?? null);
         setAllUsers(enhanced);
       } catch (e) {
         console.error('Error loading users:', e);
@@ -254,7 +294,7 @@ export const AddFriendPopup: React.FC<AddFriendPopupProps> = ({ visible, onClose
       }
     };
     fetchAll();
-  }, [visible, currentUser?.uid, currentUser?.friends?.length, sentRequests.length]);
+  }, [visible, initialUserId, currentUser?.uid, currentUser?.friends?.length, sentRequests.length]);
 
   // Debounced search
   useEffect(() => {
@@ -270,6 +310,9 @@ export const AddFriendPopup: React.FC<AddFriendPopupProps> = ({ visible, onClose
     return () => clearTimeout(timeoutId);
   }, [searchQuery]);
 
+  // A search replaces the shared user, who replaces the full list
+  const listedUsers = searchQuery.trim() ? searchResults : sharedUser ? [sharedUser] : allUsers;
+
   return (
     <Modal
       visible={visible}
@@ -327,9 +370,9 @@ export const AddFriendPopup: React.FC<AddFriendPopupProps> = ({ visible, onClose
 
         {/* Results */}
         <View style={{ flex: 1 }}>
-          {(searchQuery.trim() ? searchResults.length > 0 : allUsers.length > 0) ? (
+          {listedUsers.length > 0 ? (
             <FlatList
-              data={searchQuery.trim() ? searchResults : allUsers}
+              data={listedUsers}
               renderItem={renderUserItem}
               keyExtractor={(item) => item.uid}
               showsVerticalScrollIndicator={false}
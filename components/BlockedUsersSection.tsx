@@ -0,0 +1,186 @@
+import { useLanguage } from '@/i18n';
+import { BlockService } from '@/services/blockService';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Alert, FlatList, Image, Modal, TouchableOpacity, View } from 'react-native';
+import { UserRelationship } from '../types/models';
+import { CustomText } from './CustomText';
+import { useThemeContext } from './ThemeContext';
+
+interface BlockedUsersSectionProps {
+  userId?: string;
+}
+
+// Settings row that opens the list of blocked users, each with an Unblock button
+export const BlockedUsersSection: React.FC<BlockedUsersSectionProps> = ({ userId }) => {
+  const { theme } = useThemeContext();
+  const { t } = useLanguage();
+  const [isVisible, setIsVisible] = useState(false);
+  const [blocked, setBlocked] = useState<UserRelationship[]>([]);
+
+  useEffect(() => {
+    if (!userId) {
+      setBlocked([]);
+      return;
+    }
+    return BlockService.subscribeToBlockedUsers(userId, setBlocked);
+  }, [userId]);
+
+  const handleUnblock = async (blockedUser: UserRelationship) => {
+    if (!userId) return;
+    try {
+      await BlockService.unblockUser(userId, blockedUser.id);
+    } catch {
+      Alert.alert(t('common.error'), t('profile.blockError'));
+    }
+  };
+
+  const settingItemStyle = {
+    flexDirection: 'row' as const,
+    justifyContent: 'space-between' as const,
+    alignItems: 'center' as const,
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    backgroundColor: theme.colors.card,
+    borderRadius: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    width: '100%' as const,
+    elevation: 1,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+  };
+
+  const settingIconStyle = {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: theme.colors.primary + '20',
+    justifyContent: 'center' as const,
+    alignItems: 'center' as const,
+    marginRight: 12,
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={settingItemStyle} onPress={() => setIsVisible(true)}>
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          <View style={settingIconStyle}>
+            <Ionicons name="ban-outline" size={16} color={theme.colors.primary} />
+          </View>
+          <CustomText fontSize={theme.fonts.sizes.regular} color={theme.colors.text}>
+            {t('profile.blockedUsers')}
+          </CustomText>
+        </View>
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          {blocked.length > 0 && (
+            <CustomText
+              fontSize={theme.fonts.sizes.small}
+              color={theme.colors.secondaryText}
+              style={{ marginRight: 6 }}
+            >
+              {blocked.length}
+            </CustomText>
+          )}
+          <Ionicons name="chevron-forward" size={20} color={theme.colors.secondaryText} />
+        </View>
+      </TouchableOpacity>
+
+      <Modal
+        visible={isVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setIsVisible(false)}
+      >
+        <View style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'center',
+          alignItems: 'center',
+        }}>
+          <View style={{
+            backgroundColor: theme.colors.background,
+            borderRadius: 20,
+            padding: 20,
+            width: '90%',
+            maxHeight: '70%',
+            shadowColor: '#000',
+            shadowOffset: { width: 0, height: 4 },
+            shadowOpacity: 0.3,
+            shadowRadius: 8,
+            elevation: 8,
+          }}>
+            {/* Header */}
+            <View style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: 20,
+            }}>
+              <CustomText
+                fontSize={theme.fonts.sizes.title}
+                color={theme.colors.text}
+                style={{ fontWeight: 'bold' }}
+              >
+                {t('profile.blockedUsers')}
+              </CustomText>
+              <TouchableOpacity onPress={() => setIsVisible(false)}>
+                <Ionicons name="close" size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <FlatList
+              data={blocked}
+              keyExtractor={(item) => item.id}
+              renderItem={({ item }) => (
+                <View style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  paddingVertical: 12,
+                  paddingHorizontal: 8,
+                }}>
+                  <Image
+                    source={{ uri: item.photo || 'https://via.placeholder.com/40' }}
+                    style={{ width: 40, height: 40, borderRadius: 20, marginRight: 12 }}
+                  />
+                  <CustomText
+                    color={theme.colors.text}
+                    fontSize={theme.fonts.sizes.regular}
+                    numberOfLines={1}
+                    style={{ flex: 1 }}
+                  >
+                    {item.name}
+                  </CustomText>
+                  <TouchableOpacity
+                    onPress={() => handleUnblock(item)}
+                    style={{
+                      paddingHorizontal: 14,
+                      paddingVertical: 6,
+                      borderRadius: 14,
+                      borderWidth: 1,
+                      borderColor: theme.colors.primary,
+                    }}
+                  >
+                    <CustomText fontSize={theme.fonts.sizes.small} color={theme.colors.primary}>
+                      {t('profile.unblockUser')}
+                    </CustomText>
+                  </TouchableOpacity>
+                </View>
+              )}
+              ListEmptyComponent={
+                <View style={{ padding: 20, alignItems: 'center' }}>
+                  <CustomText color={theme.colors.secondaryText}>
+                    {t('profile.noBlockedUsers')}
+                  </CustomText>
+                </View>
+              }
+            />
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+};
@@ -0,0 +1,162 @@
+// components/ChatActionsSheet.tsx
+import { useLanguage } from "@/i18n";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import { Modal, TouchableOpacity, View } from "react-native";
+import type { MuteDuration } from "../services/chatListService";
+import { CustomText } from "./CustomText";
+import { useThemeContext } from "./ThemeContext";
+
+export type ChatAction = "favorite" | "pin" | "archive" | "delete";
+
+interface ChatActionsSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  chat: {
+    name: string;
+    isGroup?: boolean;
+    isPinned?: boolean;
+    isArchived?: boolean;
+    isMuted?: boolean;
+    isFavorite?: boolean;
+    isPlaceholder?: boolean;
+  } | null;
+  // Open straight on the mute durations (the swipe action's mute button)
+  initialMode?: "actions" | "mute";
+  onAction: (action: ChatAction) => void;
+  onMute: (duration: MuteDuration | null) => void;
+}
+
+// Long-press menu for a row in the chat list
+export const ChatActionsSheet: React.FC<ChatActionsSheetProps> = ({
+  visible,
+  onClose,
+  chat,
+  initialMode = "actions",
+  onAction,
+  onMute,
+}) => {
+  const { theme } = useThemeContext();
+  const { t } = useLanguage();
+  const [mode, setMode] = useState(initialMode);
+
+  useEffect(() => {
+    if (visible) setMode(initialMode);
+  }, [visible, initialMode]);
+
+  if (!chat) return null;
+
+  const renderRow = (
+    key: string,
+    icon: keyof typeof Ionicons.glyphMap,
+    label: string,
+    onPress: () => void,
+    destructive = false
+  ) => {
+    const color = destructive ? "#FF3B30" : theme.colors.text;
+    return (
+      <TouchableOpacity
+        key={key}
+        onPress={onPress}
+        style={{
+          flexDirection: "row",
+          alignItems: "center",
+          paddingVertical: 14,
+          paddingHorizontal: 20,
+        }}
+      >
+        <Ionicons name={icon} size={22} color={color} style={{ marginRight: 15 }} />
+        <CustomText color={color}>{label}</CustomText>
+      </TouchableOpacity>
+    );
+  };
+
+  const close = (run: () => void) => () => {
+    onClose();
+    run();
+  };
+
+  // Friends without a chat have no chatList entry to pin, mute or archive
+  const chatRows = chat.isPlaceholder
+    ? []
+    : [
+        renderRow(
+          "pin",
+          chat.isPinned ? "pin" : "pin-outline",
+          chat.isPinned ? t("chat.unpinChat") : t("chat.pinChat"),
+          close(() => onAction("pin"))
+        ),
+        chat.isMuted
+          ? renderRow("mute", "volume-high-outline", t("chat.unmuteChat"), close(() => onMute(null)))
+          : renderRow("mute", "volume-mute-outline", t("chat.muteChat"), () => setMode("mute")),
+        renderRow(
+          "archive",
+          "archive-outline",
+          chat.isArchived ? t("chat.unarchiveChat") : t("chat.archiveChat"),
+          close(() => onAction("archive"))
+        ),
+      ];
+
+  const rows =
+    mode === "mute"
+      ? [
+          renderRow("8h", "time-outline", t("chat.mute8Hours"), close(() => onMute("8h"))),
+          renderRow("1w", "calendar-outline", t("chat.mute1Week"), close(() => onMute("1w"))),
+          renderRow("forever", "volume-mute-outline", t("chat.muteAlways"), close(() => onMute("forever"))),
+        ]
+      : [
+          renderRow(
+            "favorite",
+            chat.isFavorite ? "star" : "star-outline",
+            chat.isFavorite ? t("chat.removeFavorite") : t("chat.addFavorite"),
+            close(() => onAction("favorite"))
+          ),
+          ...chatRows,
+          renderRow(
+            "delete",
+            chat.isGroup ? "exit-outline" : "trash-outline",
+            chat.isGroup ? t("group.leaveGroup") : t("chat.deleteChat"),
+            close(() => onAction("delete")),
+            true
+          ),
+        ];
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity
+        style={{ flex: 1, backgroundColor: "rgba(0,0,0,0.4)" }}
+        activeOpacity={1}
+        onPress={onClose}
+      />
+      <View
+        style={{
+          backgroundColor: theme.colors.background,
+          borderTopLeftRadius: 16,
+          borderTopRightRadius: 16,
+          paddingTop: 12,
+          paddingBottom: 30,
+        }}
+      >
+        <View
+          style={{
+            alignSelf: "center",
+            width: 40,
+            height: 4,
+            borderRadius: 2,
+            backgroundColor: theme.colors.inputBackground,
+            marginBottom: 8,
+          }}
+        />
+        <CustomText
+          fontWeight="bold"
+          color={theme.colors.text}
+          numberOfLines={1}
+          style={{ paddingHorizontal: 20, paddingVertical: 8 }}
+        >
+          {mode === "mute" ? t("chat.muteChatTitle", { name: chat.name }) : chat.name}
+        </CustomText>
+        {rows}
+      </View>
+    </Modal>
+  );
+};
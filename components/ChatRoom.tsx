@@ -1,12 +1,39 @@
 "use client";
 import { useLanguage } from "@/i18n";
+import { BlockService, BlockStatus } from "@/services/blockService";
 import { ChatService } from "@/services/chatService";
-import { uploadToCloudinary } from "@/services/cloudinary";
+import { FriendService } from "@/services/friendService";
+import { OutboxService } from "@/services/outboxService";
+import { PresenceService, PresenceState } from "@/services/presenceService";
+import {
+  matchesTokens,
+  SearchIndexService,
+  tokenize,
+} from "@/services/searchIndexService";
+import { TypingService } from "@/services/typingService";
+import {
+  MAX_VIDEO_DURATION_SECONDS,
+  UploadService,
+} from "@/services/uploadService";
+import { DEFAULT_USER_SETTINGS, UserService } from "@/services/userService";
+import {
+  VoicePlayerService,
+  VoiceTrack,
+} from "@/services/voicePlayerService";
+import {
+  formatTimeSafe,
+  getReplyPreviewText,
+  Message,
+  MessageWithHeader,
+} from "@/utils/chatMessages";
+import { formatFileSize, openFileAttachment } from "@/utils/fileAttachments";
+import { downsampleWaveform } from "@/utils/waveform";
+import { Chat, TypingIndicator } from "@/types/models";
 import { Ionicons } from "@expo/vector-icons";
-import { doc, getDoc, getFirestore } from "@react-native-firebase/firestore";
 import { Audio, ResizeMode, Video } from "expo-av";
 import * as Clipboard from "expo-clipboard";
 import Constants from "expo-constants";
+import * as DocumentPicker from "expo-document-picker";
 import * as FileSystem from "expo-file-system";
 import * as ImagePicker from "expo-image-picker";
 import * as IntentLauncher from "expo-intent-launcher";
@@ -17,17 +44,14 @@ import React, {
   useEffect,
   useRef,
   useState,
-  useMemo,
 } from "react";
 import {
   ActivityIndicator,
   Alert,
-  Animated,
   FlatList,
   Image,
   Linking,
   Modal,
-  PanResponder,
   Platform,
   Pressable,
   KeyboardAvoidingView,
@@ -45,133 +69,21 @@ import {
   useSafeAreaInsets,
 } from "react-native-safe-area-context";
 import { CustomText } from "./CustomText";
+import { FileMessageBubble } from "./FileMessageBubble";
 import { ForwardMessagePopup } from "./ForwardMessagePopup";
+import { GroupInfoPopup } from "./GroupInfoPopup";
+import { HighlightedText } from "./HighlightedText";
+import { MediaAttachmentPreview, MediaFile } from "./MediaAttachmentPreview";
 import { MessageContextMenu } from "./MessageContextMenu";
+import { ReactionDetailsSheet } from "./ReactionDetailsSheet";
 import { ShowProfilePopup } from "./ShowProfilePopup"; // Add this import
+import { SwipeToReply } from "./SwipeToReply";
 import { useThemeContext } from "./ThemeContext";
+import { useChatRoomViewModel } from "./useChatRoomViewModel";
 import { useUser } from "./UserContext";
-
-interface SwipeToReplyProps {
-  children: React.ReactNode;
-  onSwipeReply: () => void;
-  enabled?: boolean;
-}
-
-const SwipeToReply: React.FC<SwipeToReplyProps> = ({
-  children,
-  onSwipeReply,
-  enabled = true,
-}) => {
-  const { theme } = useThemeContext();
-  const translateX = useRef(new Animated.Value(0)).current;
-  const isSwiping = useRef(false);
-
-  const panResponder = PanResponder.create({
-    onStartShouldSetPanResponder: () => enabled,
-    onMoveShouldSetPanResponder: (evt, gestureState) => {
-      // Only activate if it's a horizontal swipe (not vertical scrolling)
-      return (
-        Math.abs(gestureState.dx) > Math.abs(gestureState.dy) * 2 &&
-        gestureState.dx > 0
-      );
-    },
-    onPanResponderMove: (evt, gestureState) => {
-      if (!enabled) return;
-
-      isSwiping.current = true;
-      const newTranslateX = Math.min(gestureState.dx, 100); // Limit swipe distance
-      translateX.setValue(newTranslateX);
-    },
-    onPanResponderRelease: (evt, gestureState) => {
-      if (!enabled || !isSwiping.current) {
-        Animated.spring(translateX, {
-          toValue: 0,
-          useNativeDriver: true,
-        }).start();
-        return;
-      }
-
-      if (gestureState.dx > 50) {
-        onSwipeReply();
-      }
-
-      Animated.spring(translateX, {
-        toValue: 0,
-        useNativeDriver: true,
-      }).start();
-      isSwiping.current = false;
-    },
-    onPanResponderTerminate: () => {
-      Animated.spring(translateX, {
-        toValue: 0,
-        useNativeDriver: true,
-      }).start();
-      isSwiping.current = false;
-    },
-  });
-
-  const replyIconStyle = {
-    opacity: translateX.interpolate({
-      inputRange: [20, 50],
-      outputRange: [0, 1],
-      extrapolate: "clamp",
-    }),
-    transform: [
-      {
-        scale: translateX.interpolate({
-          inputRange: [20, 50],
-          outputRange: [0.8, 1],
-          extrapolate: "clamp",
-        }),
-      },
-    ],
-  };
-
-  return (
-    <View style={{ position: "relative" }}>
-      {/* Reply icon that appears during swipe */}
-      <Animated.View
-        style={[
-          {
-            position: "absolute",
-            left: 20,
-            top: 0,
-            bottom: 0,
-            justifyContent: "center",
-            alignItems: "center",
-            zIndex: 1,
-          },
-          replyIconStyle,
-        ]}
-      >
-        <View
-          style={{
-            width: 32,
-            height: 32,
-            borderRadius: 16,
-            backgroundColor: theme.colors.primary,
-            justifyContent: "center",
-            alignItems: "center",
-          }}
-        >
-          <CustomText color="white" fontSize={16}>
-            ↩
-          </CustomText>
-        </View>
-      </Animated.View>
-
-      {/* Message content */}
-      <Animated.View
-        style={{
-          transform: [{ translateX }],
-        }}
-        {...panResponder.panHandlers}
-      >
-        {children}
-      </Animated.View>
-    </View>
-  );
-};
+import { VoiceMiniPlayer } from "./VoiceMiniPlayer";
+import { VoiceNoteBubble } from "./VoiceNoteBubble";
+import { RecordingWaveform } from "./VoiceWaveform";
 
 // Define the params type outside the component
 interface ChatRoomParams {
@@ -180,117 +92,11 @@ interface ChatRoomParams {
   userId?: string | string[];
   friendUserId?: string | string[];
   currentUserId?: string | string[];
+  chatId?: string | string[]; // Set for group chats
 }
 
-interface Message {
-  id: string;
-  text: string;
-  sender: "user" | "other";
-  time: string;
-  timestamp: Date;
-  replyTo?: {
-    messageId: string;
-    text: string;
-    senderId: string;
-    senderName: string;
-  };
-  edited?: boolean;
-  mediaUrl?: string;
-  mediaType?: "image" | "video" | "audio"| "gif";
-  fileName?: string;
-  isUploading?: boolean;
-}
-
-interface MessageWithHeader extends Message {
-  showDateHeader?: boolean;
-  dateHeaderText?: string;
-  isDateHeader?: boolean;
-}
-
-interface FirebaseChatMessage {
-  id: string;
-  senderId: string;
-  timestamp: any;
-  content?: {
-    text?: string;
-  };
-  message?: string;
-  text?: string;
-  replyTo?: any;
-  edited?: boolean;
-  mediaUrl?: string;
-  mediaType?: "image" | "video" | "audio"| "gif";
-}
-
-interface FriendProfile {
-  avatar?: string;
-  name?: string;
-  email?: string;
-  designation?: string;
-}
-
-// Media file type used for previews and uploads
-type MediaFile = {
-  uri: string;
-  type: "image" | "video";
-  fileName: string;
-};
-
-function toDateSafe(value: any): Date | null {
-  try {
-    if (!value) return null;
-    if (value instanceof Date) {
-      return isNaN(value.getTime()) ? null : value;
-    }
-    // Firestore Timestamp
-    if (
-      typeof value === "object" &&
-      typeof (value as any).toDate === "function"
-    ) {
-      const d = (value as any).toDate();
-      return isNaN(d.getTime()) ? null : d;
-    }
-    if (typeof value === "number") {
-      const d = new Date(value);
-      return isNaN(d.getTime()) ? null : d;
-    }
-    if (typeof value === "string") {
-      const trimmed = value.trim();
-      if (!trimmed) return null;
-      // Try numeric epoch first, then ISO/date string
-      const asNum = Number(trimmed);
-      const d =
-        Number.isFinite(asNum) && trimmed.length >= 11
-          ? new Date(asNum)
-          : new Date(trimmed);
-      return isNaN(d.getTime()) ? null : d;
-    }
-    return null;
-  } catch {
-    return null;
-  }
-}
-
-function formatTimeSafe(value: any, fallback?: string): string {
-  const d = toDateSafe(value);
-  if (d) {
-    return d.toLocaleTimeString([], {
-      hour: "2-digit",
-      minute: "2-digit",
-      hour12: false,
-    });
-  }
-  // If we have a fallback time string, use it
-  if (fallback && typeof fallback === "string" && fallback.trim()) {
-    return fallback;
-  }
-  // Default to current time if nothing else works
-  return new Date().toLocaleTimeString([], {
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  });
-}
+// FlatList requires this to stay the same object for the list's lifetime
+const VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 50 };
 
 const showToast = (message: string) => {
   if (Platform.OS === "android") {
@@ -301,6 +107,9 @@ const showToast = (message: string) => {
   }
 };
 
+// Clear our typing indicator after this long without a keystroke
+const TYPING_IDLE_MS = 5000;
+
 function ChatRoom() {
   const params = useLocalSearchParams();
 
@@ -321,15 +130,27 @@ function ChatRoom() {
   const openCameraParam = Array.isArray(params.openCamera)
     ? params.openCamera[0]
     : (params as any).openCamera;
+  // Set when opened from a message search result
+  const jumpToMessageParam = Array.isArray(params.messageId)
+    ? params.messageId[0]
+    : params.messageId;
 
   const { theme, isDark } = useThemeContext();
   const { t } = useLanguage();
-  const { user } = useUser();
+  const { user, refreshUserData } = useUser();
   const router = useRouter();
   const insets = useSafeAreaInsets();
 
-  const [messages, setMessages] = useState<MessageWithHeader[]>([]);
-  const [loading, setLoading] = useState(false);
+  const groupChatIdParam = Array.isArray(params.chatId)
+    ? params.chatId[0]
+    : params.chatId;
+  const isGroup = !!groupChatIdParam;
+  const chatId =
+    groupChatIdParam ||
+    (user?.uid && friendUserId
+      ? ChatService.generateChatId(user.uid, friendUserId)
+      : "");
+
   const [initialMessagesLoaded, setInitialMessagesLoaded] = useState(false);
   const [newMessage, setNewMessage] = useState("");
   const [sending, setSending] = useState(false);
@@ -349,10 +170,6 @@ function ChatRoom() {
   }>({ visible: false, message: null });
   const [showMediaOptions, setShowMediaOptions] = useState(false);
   const [showProfilePopup, setShowProfilePopup] = useState(false);
-  const [friendProfile, setFriendProfile] = useState<FriendProfile | null>(
-    null
-  );
-  const [profileLoading, setProfileLoading] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [recording, setRecording] = useState<Audio.Recording | null>(null);
   const [audioUri, setAudioUri] = useState<string | null>(null);
@@ -361,214 +178,367 @@ function ChatRoom() {
     url: string;
     type: "image" | "video" | "audio";
   } | null>(null);
-  const [selectedMediaFiles, setSelectedMediaFiles] = useState<
-    Array<{
-      uri: string;
-      type: "image" | "video";
-      fileName: string;
-    }>
-  >([]);
+  const [selectedMediaFiles, setSelectedMediaFiles] = useState<MediaFile[]>(
+    []
+  );
   const [mediaCaption, setMediaCaption] = useState("");
-  const [currentSound, setCurrentSound] = useState<Audio.Sound | null>(null);
-  const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
-  const [audioDurations, setAudioDurations] = useState<Record<string, string>>(
+  // Probed lengths of voice notes sent without durationMillis
+  const [audioDurations, setAudioDurations] = useState<Record<string, number>>(
     {}
   );
   const [recSeconds, setRecSeconds] = useState(0);
   const recTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Metering samples for the note being recorded, stored as its waveform
+  const recLevelsRef = useRef<number[]>([]);
+  const handleRecLevel = useCallback((level: number) => {
+    recLevelsRef.current.push(level);
+  }, []);
+  const [visibleIds, setVisibleIds] = useState<Set<string>>(new Set());
   const [headerHeight, setHeaderHeight] = useState(0);
+  const [groupChat, setGroupChat] = useState<Chat | null>(null);
+  const [groupMembers, setGroupMembers] = useState<
+    Record<string, { name: string; photo: string }>
+  >({});
+  const [showGroupInfo, setShowGroupInfo] = useState(false);
+  const [reactionSheetMessageId, setReactionSheetMessageId] = useState<
+    string | null
+  >(null);
+  const requestedMemberIds = useRef<Set<string>>(new Set());
+  const [typingUsers, setTypingUsers] = useState<TypingIndicator[]>([]);
+  const typingIdleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [friendPresence, setFriendPresence] = useState<PresenceState | null>(
+    null
+  );
+  const [mySettings, setMySettings] = useState(DEFAULT_USER_SETTINGS);
+  const [blockStatus, setBlockStatus] = useState<BlockStatus>({
+    blockedByMe: false,
+    blockedMe: false,
+  });
+  const [isReadOnly, setIsReadOnly] = useState(false);
+  const [searchMode, setSearchMode] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchHits, setSearchHits] = useState<string[]>([]); // Newest first
+  const [searchPosition, setSearchPosition] = useState(0);
+  const [searching, setSearching] = useState(false);
+  const searchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const searchRunId = useRef(0);
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
+  const highlightTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const initialJumpDone = useRef(false);
 
   const flatListRef = useRef<FlatList<MessageWithHeader>>(null);
   const bubbleRefs = useRef<Map<string, any>>(new Map());
 
-  // Waveform measurement and dynamic bars
-  const [waveformWidth, setWaveformWidth] = useState(0);
-  const BAR_WIDTH = 2;
-  const BAR_SPACING = 2;
-  const WAVEFORM_H = 20;
-  const waveHeights = useMemo(() => {
-    const width = waveformWidth;
-    const count =
-      width > 0
-        ? Math.max(
-            1,
-            Math.floor((width + BAR_SPACING) / (BAR_WIDTH + BAR_SPACING))
-          )
-        : 0;
-    // Normalized repeating pattern; offset by recSeconds for subtle movement over time
-    const pattern = [0.3, 0.55, 0.8, 1, 0.8, 0.55, 0.3];
-    const maxH = Math.floor(WAVEFORM_H * 0.95);
-    const minH = Math.max(2, Math.floor(WAVEFORM_H * 0.25));
-    return Array.from({ length: count }, (_, i) => {
-      const n = pattern[(i + recSeconds) % pattern.length];
-      return Math.max(minH, Math.floor(n * maxH));
-    });
-  }, [waveformWidth, recSeconds]);
-
-  // Fetch friend profile
-  const fetchFriendProfile = useCallback(async () => {
-    if (!friendUserId) return;
+  const {
+    messages,
+    displayMessages,
+    loading,
+    loadingOlder,
+    friendProfile,
+    profileLoading,
+    loadFriendProfile,
+    loadOlderMessages,
+    isMessageLoaded,
+    getLoadedMessages,
+    sendMessage: sendToOutbox,
+    editMessage,
+    deleteMessage,
+    cancelUpload,
+    failedOperationFor,
+  } = useChatRoomViewModel({
+    userId: user?.uid,
+    chatId,
+    isGroup,
+    friendUserId,
+    onLiveMessages: (formatted) => handleLiveMessages(formatted),
+    onProfileError: () =>
+      Alert.alert(t("common.error"), t("chat.profileFetchError")),
+  });
 
-    setProfileLoading(true);
+  // Profiles are fetched once per user id; former members stay resolvable for system rows
+  const loadMemberProfile = useCallback(async (memberId: string) => {
+    if (requestedMemberIds.current.has(memberId)) return;
+    requestedMemberIds.current.add(memberId);
     try {
-      const userRef = doc(getFirestore(), "users", friendUserId);
-      const userSnap = await getDoc(userRef);
-      if (userSnap.exists()) {
-        const data: any = userSnap.data();
-        setFriendProfile({
-          avatar: data.photo,
-          name: data.name,
-          email: data.email,
-          designation: data.designation,
-        });
-      } else {
-        setFriendProfile(null);
+      const member = await UserService.getUserById(memberId);
+      if (member) {
+        setGroupMembers((prev) => ({
+          ...prev,
+          [memberId]: { name: member.name, photo: member.photo || "" },
+        }));
       }
     } catch (error) {
-      console.error("Error fetching friend profile:", error);
-      setFriendProfile(null);
-      Alert.alert(t("common.error"), t("chat.profileFetchError"));
-    } finally {
-      setProfileLoading(false);
+      requestedMemberIds.current.delete(memberId);
+      console.error("Error loading group member:", error);
     }
-  }, [friendUserId, t]);
+  }, []);
 
-  // Ensure header name/avatar are loaded when opening via quick actions
+  // Keep group metadata and member profiles in sync
   useEffect(() => {
-    if (friendUserId) {
-      fetchFriendProfile();
-    }
-  }, [friendUserId, fetchFriendProfile]);
-
-  // -------- Helpers --------
-  const getDateHeaderText = (dateLike: any): string => {
-    const date = toDateSafe(dateLike);
-    if (!date) return "";
-
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
-
-    const messageDate = new Date(
-      date.getFullYear(),
-      date.getMonth(),
-      date.getDate()
+    if (!isGroup || !chatId) return;
+
+    const unsubscribe = ChatService.subscribeToChat(chatId, (chat) => {
+      setGroupChat(chat);
+      (chat?.participants || []).forEach(loadMemberProfile);
+    });
+
+    return () => unsubscribe();
+  }, [isGroup, chatId, loadMemberProfile]);
+
+  // Online / last seen for the header of a direct chat
+  useEffect(() => {
+    if (isGroup || !friendUserId) return;
+    return PresenceService.subscribeToPresence(friendUserId, setFriendPresence);
+  }, [isGroup, friendUserId]);
+
+  // Presence is reciprocal, so the header also depends on this user's own settings
+  useEffect(() => {
+    if (isGroup || !user?.uid) return;
+    return UserService.subscribeToUserSettings(user.uid, setMySettings);
+  }, [isGroup, user?.uid]);
+
+  // A direct chat goes read-only when the two stop being friends
+  useEffect(() => {
+    if (isGroup || !chatId) return;
+    return ChatService.subscribeToChat(chatId, (chat) =>
+      setIsReadOnly(!!chat?.readOnly)
     );
+  }, [isGroup, chatId]);
 
-    if (messageDate.getTime() === today.getTime()) return "Today";
-    if (messageDate.getTime() === yesterday.getTime()) return "Yesterday";
+  // A block from either side turns the input into a notice
+  useEffect(() => {
+    if (isGroup || !friendUserId || !user?.uid) return;
+    return BlockService.subscribeToBlockStatus(user.uid, friendUserId, setBlockStatus);
+  }, [isGroup, friendUserId, user?.uid]);
 
-    const currentYear = now.getFullYear();
-    const messageYear = date.getFullYear();
+  // Who else is typing in this chat
+  useEffect(() => {
+    if (!user?.uid || !chatId) return;
+    return TypingService.subscribeToTyping(chatId, user.uid, setTypingUsers);
+  }, [user?.uid, chatId]);
+
+  // Drive our own indicator from the input; editing an existing message doesn't count
+  const typingName = user?.displayName || user?.name || "";
+  useEffect(() => {
+    if (!user?.uid || !chatId) return;
+    const uid = user.uid;
+    if (typingIdleTimer.current) clearTimeout(typingIdleTimer.current);
 
-    if (messageYear === currentYear) {
-      return date.toLocaleDateString([], { month: "short", day: "numeric" });
+    if (!newMessage.trim() || editingMessage) {
+      TypingService.clearTyping(chatId, uid);
+      return;
     }
-    return date.toLocaleDateString([], {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-    });
-  };
 
-  const addDateHeaders = (
-    messageList: Array<Message | MessageWithHeader>
-  ): MessageWithHeader[] => {
-    console.log(
-      "🔍 addDateHeaders called with messageList:",
-      messageList.map((m) => ({
-        id: m.id,
-        timestamp: m.timestamp.toISOString(),
-        text: m.text,
-        sender: m.sender,
-      }))
+    TypingService.setTyping(chatId, uid, typingName);
+    typingIdleTimer.current = setTimeout(
+      () => TypingService.clearTyping(chatId, uid),
+      TYPING_IDLE_MS
     );
+  }, [newMessage, editingMessage, typingName, user?.uid, chatId]);
+
+  useEffect(() => {
+    const uid = user?.uid;
+    return () => {
+      if (typingIdleTimer.current) clearTimeout(typingIdleTimer.current);
+      if (uid && chatId) TypingService.clearTyping(chatId, uid);
+    };
+  }, [user?.uid, chatId]);
+
+  useEffect(() => {
+    if (!isGroup) return;
+    messages.forEach((m) => {
+      Object.values(m.reactions || {}).forEach((userIds) =>
+        userIds.forEach(loadMemberProfile)
+      );
+      if (!m.isSystem || !m.systemData) return;
+      loadMemberProfile(m.systemData.actorId);
+      (m.systemData.targetIds || []).forEach(loadMemberProfile);
+    });
+  }, [isGroup, messages, loadMemberProfile]);
+
+  const typingLabel =
+    typingUsers.length === 0
+      ? null
+      : !isGroup
+      ? t("chat.typing")
+      : typingUsers.length === 1
+      ? t("chat.userTyping", {
+          name:
+            groupMembers[typingUsers[0].userId]?.name || typingUsers[0].userName,
+        })
+      : t("chat.severalTyping", { count: typingUsers.length });
 
-    if (messageList.length === 0) {
-      console.log("📭 Message list is empty, returning empty array");
-      return [];
+  const formatLastSeen = (lastSeen: Date): string => {
+    const time = lastSeen.toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: false,
+    });
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const startOfYesterday = new Date(startOfToday);
+    startOfYesterday.setDate(startOfYesterday.getDate() - 1);
+
+    if (lastSeen >= startOfToday) return t("presence.lastSeenToday", { time });
+    if (lastSeen >= startOfYesterday) {
+      return t("presence.lastSeenYesterday", { time });
     }
+    const date = lastSeen.toLocaleDateString([], {
+      day: "numeric",
+      month: "short",
+    });
+    return t("presence.lastSeenOn", { date, time });
+  };
 
-    // Filter out any existing date headers to avoid duplicates
-    const regularMessages = (
-      messageList as Array<Message | MessageWithHeader>
-    ).filter((m) => {
-      const isHeader =
-        "isDateHeader" in m && (m as MessageWithHeader).isDateHeader;
-      return !isHeader && !m.id?.startsWith("header_");
-    }) as Message[];
-
-    // 1. Sort in CHRONOLOGICAL order (oldest first)
-    const chronologicalMessages = [...regularMessages].sort(
-      (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
-    );
+  const visiblePresence = friendPresence
+    ? PresenceService.applyViewerPrivacy(friendPresence, mySettings)
+    : null;
+  const presenceLabel =
+    isGroup || !visiblePresence
+      ? null
+      : visiblePresence.isOnline
+      ? t("presence.online")
+      : visiblePresence.lastSeen
+      ? formatLastSeen(visiblePresence.lastSeen)
+      : null;
+
+  const isGroupMember =
+    !isGroup || !groupChat || groupChat.participants.includes(user?.uid || "");
+  const isBlocked = blockStatus.blockedByMe || blockStatus.blockedMe;
+
+  const handleUnfriend = () => {
+    if (!user?.uid || !friendUserId) return;
 
-    console.log(
-      "📅 Chronologically sorted messages:",
-      chronologicalMessages.map((m) => ({
-        id: m.id,
-        timestamp: m.timestamp.toISOString(),
-        text: m.text,
-        sender: m.sender,
-      }))
+    const friendName = friendProfile?.name || name;
+    Alert.alert(
+      t("profile.unfriendConfirmTitle", { name: friendName }),
+      t("profile.unfriendConfirm"),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("profile.unfriend"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await FriendService.removeFriend(user.uid, friendUserId);
+              setShowProfilePopup(false);
+              await refreshUserData();
+            } catch {
+              Alert.alert(t("common.error"), t("profile.unfriendError"));
+            }
+          },
+        },
+      ]
     );
+  };
 
-    const out: MessageWithHeader[] = [];
-    let lastHeader = "";
+  const handleToggleBlock = () => {
+    if (!user?.uid || !friendUserId) return;
 
-    // 2. Process in chronological order to add headers correctly
-    for (let i = 0; i < chronologicalMessages.length; i++) {
-      const m = chronologicalMessages[i];
-      const currentHeader = getDateHeaderText(m.timestamp);
+    if (blockStatus.blockedByMe) {
+      BlockService.unblockUser(user.uid, friendUserId).catch(() =>
+        Alert.alert(t("common.error"), t("profile.blockError"))
+      );
+      return;
+    }
 
-      console.log(`📋 Processing message ${i}:`, {
-        id: m.id,
-        timestamp: m.timestamp.toISOString(),
-        currentHeader,
-        lastHeader,
-        shouldShowHeader: i === 0 || currentHeader !== lastHeader,
-      });
+    const friendName = friendProfile?.name || name;
+    Alert.alert(
+      t("profile.blockConfirmTitle", { name: friendName }),
+      t("profile.blockConfirm"),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("profile.blockUser"),
+          style: "destructive",
+          onPress: () => {
+            BlockService.blockUser(user.uid, {
+              uid: friendUserId,
+              name: friendName,
+              photo: friendProfile?.avatar || avatar,
+            }).catch(() => Alert.alert(t("common.error"), t("profile.blockError")));
+          },
+        },
+      ]
+    );
+  };
 
-      // Add header before the first message of each date
-      const shouldShowHeader = i === 0 || currentHeader !== lastHeader;
-
-      if (shouldShowHeader) {
-        console.log(`➕ Adding date header: ${currentHeader}`);
-        // Create a date header message
-        const dateHeaderMessage: MessageWithHeader = {
-          id: `header_${m.timestamp.getTime()}_${i}`,
-          text: "",
-          sender: "user",
-          time: "",
-          timestamp: m.timestamp,
-          showDateHeader: true,
-          dateHeaderText: currentHeader,
-          isDateHeader: true,
-        };
-        out.push(dateHeaderMessage);
-        lastHeader = currentHeader;
-      }
+  const getSystemMessageText = (message: Message): string => {
+    const data = message.systemData;
+    if (!data) return "";
+    const nameOf = (id: string) =>
+      id === user?.uid ? t("chat.you") : groupMembers[id]?.name || t("group.member");
+    const actor = nameOf(data.actorId);
+    const targets = (data.targetIds || []).map(nameOf).join(", ");
+
+    switch (data.action) {
+      case "chat_created":
+        return t("group.system.created", { actor });
+      case "user_joined":
+        return t("group.system.added", { actor, targets });
+      case "user_left":
+        return t("group.system.left", { actor });
+      case "user_removed":
+        return t("group.system.removed", { actor, targets });
+      case "admin_promoted":
+        return t("group.system.promoted", { targets });
+      case "admin_demoted":
+        return t("group.system.demoted", { targets });
+      case "group_renamed":
+        return t("group.system.renamed", { actor, name: data.value || "" });
+      case "group_photo_changed":
+        return t("group.system.photoChanged", { actor });
+      default:
+        return "";
+    }
+  };
 
-      // Add the actual message
-      console.log(`➕ Adding message: ${m.text || "media"} (${m.id})`);
-      out.push({ ...m });
+  const getSenderName = (message: Message | null | undefined): string => {
+    if (!message) return "";
+    if (message.sender === "user") return "You";
+    if (isGroup) {
+      return (
+        (message.senderId && groupMembers[message.senderId]?.name) ||
+        t("group.member")
+      );
     }
+    return friendProfile?.name || name || "Friend";
+  };
 
-    console.log(
-      "✅ Final output with headers:",
-      out.map((item) => ({
-        id: item.id,
-        isDateHeader: item.isDateHeader,
-        dateHeaderText: item.dateHeaderText,
-        timestamp: item.timestamp.toISOString(),
-        text: item.text,
-      }))
-    );
+  const getUserDisplayName = (userId: string): string => {
+    if (userId === user?.uid) return t("chat.you");
+    if (isGroup) return groupMembers[userId]?.name || t("group.member");
+    return friendProfile?.name || name || "Friend";
+  };
 
-    return out;
+  const getUserPhoto = (userId: string): string | undefined => {
+    if (userId === user?.uid) return user?.photoURL;
+    if (isGroup) return groupMembers[userId]?.photo;
+    return friendProfile?.avatar || avatar;
   };
 
+  const buildReplyPayload = (reply: Message | null) => {
+    if (!reply || !user?.uid) return undefined;
+    return {
+      messageId: reply.id,
+      text: reply.text ?? "",
+      senderId:
+        reply.senderId ||
+        (reply.sender === "user" ? user.uid : friendUserId || ""),
+      senderName: getSenderName(reply),
+    };
+  };
+
+  // Sends go through the outbox so they survive being offline and app restarts
+  const queueSend = (
+    text: string,
+    reply: Message | null,
+    media?: Parameters<typeof sendToOutbox>[2]
+  ) => sendToOutbox(text, buildReplyPayload(reply) ?? null, media);
+
   // -------- Audio Functions --------
   const requestPermission = async () => {
     try {
@@ -603,9 +573,11 @@ function ChatRoom() {
         setRecSeconds((s) => s + 1);
       }, 1000);
 
-      const { recording } = await Audio.Recording.createAsync(
-        Audio.RecordingOptionsPresets.HIGH_QUALITY
-      );
+      recLevelsRef.current = [];
+      const { recording } = await Audio.Recording.createAsync({
+        ...Audio.RecordingOptionsPresets.HIGH_QUALITY,
+        isMeteringEnabled: true,
+      });
 
       setRecording(recording);
       setIsRecordingPaused(false);
@@ -625,12 +597,15 @@ function ChatRoom() {
         recTimerRef.current = null;
       }
 
-      await recording.stopAndUnloadAsync();
+      const status = await recording.stopAndUnloadAsync();
       const uri = recording.getURI();
       setAudioUri(uri);
       setRecording(null);
       if (uri) {
-        await handleAudioUpload(uri);
+        await handleAudioUpload(uri, {
+          waveform: downsampleWaveform(recLevelsRef.current),
+          durationMillis: status.durationMillis || undefined,
+        });
       }
     } catch (error) {
       console.error("Error stopping recording:", error);
@@ -674,218 +649,42 @@ function ChatRoom() {
     }
   };
 
-  const playAudio = async (uri: string, messageId: string) => {
-    try {
-      // If clicking on currently playing audio, pause it
-      if (playingAudioId === messageId && currentSound) {
-        const status = await currentSound.getStatusAsync();
-        if (status.isLoaded) {
-          if (status.isPlaying) {
-            await currentSound.pauseAsync();
-            setPlayingAudioId(null);
-          } else {
-            await currentSound.playAsync();
-            setPlayingAudioId(messageId);
-          }
-        }
-        return;
-      }
-
-      // Stop any currently playing audio
-      if (currentSound) {
-        try {
-          const status = await currentSound.getStatusAsync();
-          if (status.isLoaded) {
-            await currentSound.stopAsync();
-          }
-          await currentSound.unloadAsync();
-        } catch (e) {
-          console.log("Error stopping previous sound:", e);
-        }
-        setCurrentSound(null);
-        setPlayingAudioId(null);
-      }
-
-      // Configure audio mode for playback
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: false,
-        playsInSilentModeIOS: true,
-        staysActiveInBackground: false,
-        shouldDuckAndroid: true,
-        playThroughEarpieceAndroid: false,
-      });
-
-      // Create sound without auto-play first
-      const { sound } = await Audio.Sound.createAsync(
-        { uri },
-        { shouldPlay: false, isLooping: false }
-      );
-
-      setCurrentSound(sound);
-
-      // Set up playback status listener before playing
-      sound.setOnPlaybackStatusUpdate((status) => {
-        if (status.isLoaded) {
-          if (status.didJustFinish) {
-            setPlayingAudioId(null);
-            sound.unloadAsync().catch(console.error);
-            setCurrentSound(null);
-          }
-        }
-      });
-
-      // Now play the sound after it's set up
-      await sound.playAsync();
-      setPlayingAudioId(messageId);
-    } catch (error) {
-      console.error("Error playing audio:", error);
-      Alert.alert(t("common.error"), t("chat.audioPlaybackError"));
-      setPlayingAudioId(null);
-      setCurrentSound(null);
-    }
-  };
-
-  const uploadAudio = async (uri: string): Promise<string> => {
-    try {
-      const formData = new FormData();
-      formData.append("file", {
-        uri,
-        type: "audio/m4a",
-        name: "voice-note.m4a",
-      } as any);
-      formData.append("upload_preset", "chatsupp_Preset");
-
-      const response = await fetch(
-        "https://api.cloudinary.com/v1_1/dtwqn1r7v/upload",
-        {
-          method: "POST",
-          body: formData,
-          headers: {
-            "Content-Type": "multipart/form-data",
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`Upload failed with status ${response.status}`);
-      }
-
-      const data = await response.json();
-      return data.secure_url;
-    } catch (error) {
-      console.error("Error uploading audio to Cloudinary:", error);
-      throw error;
-    }
-  };
-
-  const handleAudioUpload = async (uri: string) => {
-    if (!user?.uid || !friendUserId || uploading) return;
-
-    const tempId = `temp_${Date.now()}_${Math.random()
-      .toString(36)
-      .substr(2, 9)}`;
-    const currentTime = new Date();
-    const optimisticMessage: MessageWithHeader = {
-      id: tempId,
-      text: newMessage.trim(), // Use current input as caption for voice notes
-      sender: "user",
-      time: currentTime.toLocaleTimeString([], {
-        hour: "2-digit",
-        minute: "2-digit",
-        hour12: false,
-      }),
-      timestamp: currentTime,
-      mediaUrl: uri,
-      mediaType: "audio",
-      fileName: "voice-note.m4a",
-      isUploading: true,
-      replyTo: replyingTo
-        ? {
-            messageId: replyingTo.id,
-            text: replyingTo.text,
-            senderId: replyingTo.sender === "user" ? user.uid : friendUserId,
-            senderName: replyingTo.sender === "user" ? "You" : name,
-          }
-        : undefined,
-    };
-
-    // Add to BEGINNING of array (newest-first order for inverted FlatList)
-    const updatedMessages = [optimisticMessage, ...messages];
-
-    // Process with date headers and reverse for display
-    const withHeaders = addDateHeaders(updatedMessages);
-    const reversedWithHeaders = [...withHeaders].reverse();
+  const handleAudioUpload = async (
+    uri: string,
+    voice: { waveform: number[]; durationMillis?: number }
+  ) => {
+    if (!user?.uid || !chatId || uploading) return;
 
-    setMessages(reversedWithHeaders);
-    // Preserve reply context before clearing UI state
+    // Preserve reply context and caption before clearing UI state
     const replyContext = replyingTo;
+    const captionText = newMessage.trim();
     setReplyingTo(null);
-    const captionText = newMessage.trim(); // Store caption before clearing
     setNewMessage(""); // Clear input after using as caption
 
     try {
       setUploading(true);
-      const cloudinaryUrl = await uploadAudio(uri);
-
-      await ChatService.testUserDocuments(user.uid, friendUserId);
-      await ChatService.ensureChatExists(user.uid, friendUserId);
-      const newMessageId = await ChatService.sendMessageWithReply(
-        user.uid,
-        friendUserId,
-        captionText, // Send caption text
-        replyContext
-          ? {
-              messageId: replyContext.id,
-              text: replyContext.text,
-              senderId:
-                replyContext.sender === "user" ? user.uid : friendUserId,
-              senderName: replyContext.sender === "user" ? "You" : name,
-            }
-          : undefined,
-        {
-          mediaUrl: cloudinaryUrl,
-          mediaType: "audio",
-          fileName: "voice-note.m4a",
-        }
-      );
-
-      // Update the optimistic message with the real messageId
-      setMessages((prev) =>
-        prev.map((m) =>
-          m.id === tempId
-            ? {
-                ...m,
-                id: newMessageId,
-                text: captionText,
-                mediaUrl: cloudinaryUrl,
-                isUploading: false,
-              }
-            : m
-        )
-      );
+      await queueSend(captionText, replyContext, {
+        localUri: uri,
+        mediaType: "audio",
+        fileName: "voice-note.m4a",
+        waveform: voice.waveform,
+        durationMillis: voice.durationMillis,
+      });
 
       // Scroll to bottom (newest message)
       setTimeout(() => {
         flatListRef.current?.scrollToOffset({ offset: 0, animated: true });
       }, 100);
     } catch (error) {
-      console.error("Error uploading audio:", error);
-      setMessages((prev) => prev.filter((m) => m.id !== tempId));
+      console.error("Error queueing audio:", error);
       setNewMessage(captionText); // Restore caption on error
-      setReplyingTo(replyingTo); // Restore reply state on error
+      setReplyingTo(replyContext); // Restore reply state on error
       Alert.alert(t("common.error"), t("chat.audioUploadError"));
     } finally {
       setUploading(false);
     }
   };
 
-  const formatMsToClock = (ms: number) => {
-    const total = Math.max(0, Math.floor(ms / 1000));
-    const m = Math.floor(total / 60);
-    const s = total % 60;
-    return `${m}:${s.toString().padStart(2, "0")}`;
-  };
-
   const ensureAudioDuration = async (id: string, uri: string) => {
     if (audioDurations[id]) return;
     try {
@@ -895,10 +694,8 @@ function ChatRoom() {
       );
       const status = await sound.getStatusAsync();
       if (status.isLoaded && typeof status.durationMillis === "number") {
-        setAudioDurations((prev) => ({
-          ...prev,
-          [id]: formatMsToClock(status.durationMillis),
-        }));
+        const durationMillis = status.durationMillis;
+        setAudioDurations((prev) => ({ ...prev, [id]: durationMillis }));
       }
       await sound.unloadAsync();
     } catch {}
@@ -906,202 +703,118 @@ function ChatRoom() {
 
   useEffect(() => {
     messages
-      .filter((m) => m.mediaType === "audio" && m.mediaUrl)
+      .filter((m) => m.mediaType === "audio" && m.mediaUrl && !m.durationMillis)
       .forEach((m) => ensureAudioDuration(m.id, m.mediaUrl!));
   }, [messages]);
 
-// Update the getReplyPreviewText function to handle GIFs
-const getReplyPreviewText = (
-  reply: Message["replyTo"] | Message | null | undefined,
-  allMsgs: Message[] = messages
-) => {
-  try {
-    if (!reply) return "";
-    // Try to locate the original message using messageId or id
-    // @ts-ignore
-    const replyId = (reply?.messageId || (reply as any)?.id) as
-      | string
-      | undefined;
-    const original = replyId
-      ? allMsgs.find((m) => m.id === replyId)
-      : (reply as any);
-    const mediaType = original?.mediaType as
-      | "image"
-      | "video"
-      | "audio"
-      | "gif"  // Add 'gif' here
-      | undefined;
-    if (mediaType === "image" || mediaType === "gif") return "Image"; // Group GIF with images
-    if (mediaType === "video") return "Video";
-    if (mediaType === "audio") return "Voice note";
-    // fallback to provided reply text
-    // @ts-ignore
-    return (reply as any)?.text || "";
-  } catch {
-    return "";
-  }
-};
-
-  // -------- Realtime subscription --------
-  useEffect(() => {
-    if (!user?.uid || !friendUserId) {
-      console.log("❌ Missing user or friendUserId:", {
-        user: user?.uid,
-        friendUserId,
-      });
-      setLoading(false);
+  // Page back through history until the message is loaded, then scroll it into view
+  const jumpToMessage = async (messageId: string) => {
+    while (!isMessageLoaded(messageId)) {
+      if (!(await loadOlderMessages())) break;
+    }
+    if (!isMessageLoaded(messageId)) {
+      showToast(t("chat.messageNotFound"));
       return;
     }
 
-    console.log("🔄 Setting up message subscription for:", {
-      user: user.uid,
-      friendUserId,
-    });
-    let unsubscribe: (() => void) | null = null;
-
-    try {
-      unsubscribe = ChatService.subscribeToMessages(
-        user.uid,
-        friendUserId,
-        (firebaseMessages: FirebaseChatMessage[]) => {
-          console.log(
-            "📨 Raw Firebase messages received:",
-            firebaseMessages.map((msg) => ({
-              id: msg.id,
-              timestamp: msg.timestamp,
-              text: msg.text || msg.content?.text || msg.message,
-              senderId: msg.senderId,
-            }))
-          );
-
-          const formatted: Message[] = firebaseMessages.map((msg) => {
-            const date = toDateSafe(msg.timestamp) ?? new Date();
-
-            const formattedMessage: Message = {
-              id: msg.id,
-              text: msg.content?.text || msg.message || msg.text || "",
-              sender: (msg.senderId === user.uid ? "user" : "other") as
-                | "user"
-                | "other",
-              time: date.toLocaleTimeString([], {
-                hour: "2-digit",
-                minute: "2-digit",
-                hour12: false,
-              }),
-              timestamp: date,
-              edited: msg.edited || false,
-              mediaUrl: msg.mediaUrl,
-              mediaType: msg.mediaType as
-                | "image"
-                | "video"
-                | "audio"
-                | undefined,
-              replyTo:
-                msg.replyTo && typeof msg.replyTo === "object"
-                  ? {
-                      messageId: msg.replyTo.messageId || msg.replyTo.id || "",
-                      text: msg.replyTo.text || "",
-                      senderId: msg.replyTo.senderId || "",
-                      senderName: msg.replyTo.senderName || "",
-                    }
-                  : undefined,
-            };
-
-            console.log("📝 Formatted message:", formattedMessage);
-            return formattedMessage;
-          });
-
-          console.log(
-            "📋 All formatted messages:",
-            formatted.map((m) => ({
-              id: m.id,
-              timestamp: m.timestamp.toISOString(),
-              text: m.text,
-              sender: m.sender,
-            }))
-          );
-
-          // Process with date headers in chronological order
-          const withHeaders = addDateHeaders(formatted);
-
-          // For inverted FlatList, we need to reverse the array
-          const reversedWithHeaders = [...withHeaders].reverse();
+    setPendingJumpId(messageId);
+    setHighlightedMessageId(messageId);
+    if (highlightTimer.current) clearTimeout(highlightTimer.current);
+    highlightTimer.current = setTimeout(() => setHighlightedMessageId(null), 2000);
+  };
 
-          console.log(
-            "🔄 Final reversed messages for display:",
-            reversedWithHeaders.map((item) => ({
-              id: item.id,
-              isDateHeader: item.isDateHeader,
-              dateHeaderText: item.dateHeaderText,
-              timestamp: item.timestamp?.toISOString(),
-              text: item.text,
-            }))
-          );
+  // Searches what is on screen plus whatever older history the local index has seen
+  const runSearch = async (text: string) => {
+    const runId = ++searchRunId.current;
+    const query = text.trim();
+    if (!query) {
+      setSearching(false);
+      setSearchHits([]);
+      setSearchPosition(0);
+      return;
+    }
 
-          setMessages(reversedWithHeaders);
-          setLoading(false);
-
-          if (!initialMessagesLoaded && formatted.length > 0) {
-            setInitialMessagesLoaded(true);
-            // Scroll to bottom after initial load
-            setTimeout(() => {
-              flatListRef.current?.scrollToOffset({
-                offset: 0,
-                animated: true,
-              });
-            }, 100);
-          }
+    setSearching(true);
+    const queryTokens = tokenize(query);
+    const hits = new Map<string, number>();
+    getLoadedMessages()
+      .filter((m) => !m.isSystem && matchesTokens(m.text, queryTokens))
+      .forEach((m) => hits.set(m.id, m.timestamp.getTime()));
 
-          const chatId = ChatService.generateChatId(user.uid, friendUserId);
-          ChatService.markMessagesAsRead(chatId, user.uid)
-            .then(() => console.log("✅ Messages marked as read successfully"))
-            .catch((error) => {
-              console.log("⚠️ Fallback: using markIncomingFromSenderAsRead");
-              return ChatService.markIncomingFromSenderAsRead(
-                chatId,
-                user.uid!,
-                friendUserId!
-              );
-            })
-            .catch((error) =>
-              console.error("❌ Failed to mark messages as read:", error)
-            );
-        }
-      );
-    } catch (e) {
-      console.error("Error setting up message listener:", e);
-      setLoading(false);
+    try {
+      const cached = await SearchIndexService.search(query, { chatId });
+      cached.forEach((m) => {
+        if (!hits.has(m.id)) hits.set(m.id, m.timestamp);
+      });
+    } catch (error) {
+      console.error("❌ Error searching messages:", error);
     }
 
-    return () => unsubscribe?.();
-  }, [user?.uid, friendUserId]);
+    if (runId !== searchRunId.current) return;
+    const ids = Array.from(hits.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([id]) => id);
+    setSearching(false);
+    setSearchHits(ids);
+    setSearchPosition(0);
+    if (ids.length > 0) jumpToMessage(ids[0]);
+  };
 
-  // Remove the entire useEffect block above and replace with:
-  useEffect(() => {
-    if (!user?.uid || !friendUserId) return;
+  const handleSearchChange = (text: string) => {
+    setSearchQuery(text);
+    if (searchTimer.current) clearTimeout(searchTimer.current);
+    searchTimer.current = setTimeout(() => runSearch(text), 250);
+  };
 
-    // Only mark as read once on component mount, not repeatedly
-    const chatId = ChatService.generateChatId(user.uid, friendUserId);
+  // Position 0 is the newest hit; "up" walks back in time
+  const moveSearch = (step: 1 | -1) => {
+    const next = searchPosition + step;
+    if (next < 0 || next >= searchHits.length) return;
+    setSearchPosition(next);
+    jumpToMessage(searchHits[next]);
+  };
 
-    // Simple one-time mark as read without error handling
-    ChatService.markMessagesAsRead(chatId, user.uid!).catch((error) => {
-      console.log("Mark as read failed (non-critical):", error);
-    });
-  }, [user?.uid, friendUserId]);
+  const closeSearch = () => {
+    if (searchTimer.current) clearTimeout(searchTimer.current);
+    searchRunId.current++;
+    setSearchMode(false);
+    setSearchQuery("");
+    setSearchHits([]);
+    setSearchPosition(0);
+    setSearching(false);
+  };
 
-  // Cleanup audio on component unmount
+  // -------- Realtime subscription --------
   useEffect(() => {
-    return () => {
-      if (currentSound) {
-        currentSound
-          .stopAsync()
-          .then(() => {
-            currentSound.unloadAsync();
-          })
-          .catch(console.error);
-      }
-    };
-  }, [currentSound]);
+    initialJumpDone.current = false;
+  }, [chatId]);
+
+  // Screen-side reactions to each live snapshot the view model publishes
+  const handleLiveMessages = (formatted: Message[]) => {
+    if (!user?.uid) return;
+
+    if (jumpToMessageParam && !initialJumpDone.current && formatted.length > 0) {
+      initialJumpDone.current = true;
+      jumpToMessage(jumpToMessageParam);
+    } else if (!initialMessagesLoaded && formatted.length > 0) {
+      setInitialMessagesLoaded(true);
+      // Scroll to bottom after initial load
+      setTimeout(() => {
+        flatListRef.current?.scrollToOffset({
+          offset: 0,
+          animated: true,
+        });
+      }, 100);
+    }
+  };
+
+  // Voice notes stop when leaving the chat
+  useEffect(
+    () => () => {
+      VoicePlayerService.stop();
+    },
+    []
+  );
 
   const handleReply = (message: Message) => setReplyingTo(message);
 
@@ -1121,7 +834,7 @@ const getReplyPreviewText = (
       !newMessage.trim() ||
       !editingMessage ||
       !user?.uid ||
-      !friendUserId ||
+      !chatId ||
       sending
     )
       return;
@@ -1134,8 +847,7 @@ const getReplyPreviewText = (
 
     try {
       setSending(true);
-      const chatId = ChatService.generateChatId(user.uid, friendUserId);
-      await ChatService.editMessage(chatId, originalMessage.id, messageToSave);
+      await editMessage(originalMessage.id, messageToSave);
     } catch (e) {
       console.error("Error editing message:", e);
       setEditingMessage(originalMessage);
@@ -1144,7 +856,7 @@ const getReplyPreviewText = (
     } finally {
       setSending(false);
     }
-  }, [newMessage, editingMessage, sending, user?.uid, friendUserId]);
+  }, [newMessage, editingMessage, sending, user?.uid, chatId, editMessage, t]);
 
   // Replace all instances of scrollToEnd with scrollToOffset({offset: 0})
   const scrollToNewest = useCallback(() => {
@@ -1156,115 +868,38 @@ const getReplyPreviewText = (
   const sendMediaMessages = async () => {
     if (
       !user?.uid ||
-      !friendUserId ||
+      !chatId ||
       uploading ||
       selectedMediaFiles.length === 0
     )
       return;
 
+    const captionText = newMessage.trim();
+    const mediaFilesToSend = [...selectedMediaFiles];
+    const replyData = replyingTo;
+    setSelectedMediaFiles([]); // Clear media files immediately
+    setNewMessage(""); // Clear input field
+    setReplyingTo(null); // Clear reply state
+
     try {
       setUploading(true);
-      const captionText = newMessage.trim();
-      const mediaFilesToSend = [...selectedMediaFiles];
-      setSelectedMediaFiles([]); // Clear media files immediately
-      setNewMessage(""); // Clear input field
-      setReplyingTo(null); // Clear reply state
-
-      // Create optimistic messages for all media files
-      const tempIds = mediaFilesToSend.map(
-        (_, index) =>
-          `temp_${Date.now()}_${Math.random()
-            .toString(36)
-            .substr(2, 9)}_${index}`
-      );
-      const currentTime = new Date();
-      const optimisticMessages: MessageWithHeader[] = mediaFilesToSend.map(
-        (mediaFile, index) => ({
-          id: tempIds[index],
-          text: index === 0 ? captionText : "", // Only first media gets the caption
-          sender: "user",
-          time: currentTime.toLocaleTimeString([], {
-            hour: "2-digit",
-            minute: "2-digit",
-            hour12: false,
-          }),
-          timestamp: currentTime,
-          mediaUrl: mediaFile.uri,
-          mediaType: mediaFile.type,
-          fileName: mediaFile.fileName,
-          isUploading: true,
-          replyTo: replyingTo
-            ? {
-                messageId: replyingTo.id,
-                text: replyingTo.text,
-                senderId:
-                  replyingTo.sender === "user" ? user.uid : friendUserId,
-                senderName: replyingTo.sender === "user" ? "You" : name,
-              }
-            : undefined,
-        })
-      );
-
-      // Add all optimistic messages at once
-      const updatedMessages = [...optimisticMessages, ...messages];
-      const withHeaders = addDateHeaders(updatedMessages);
-      const reversedWithHeaders = [...withHeaders].reverse();
-      setMessages(reversedWithHeaders);
-
-      // Upload media files sequentially
+      // Queue in order; the outbox uploads and sends them one after another
       for (let i = 0; i < mediaFilesToSend.length; i++) {
         const mediaFile = mediaFilesToSend[i];
-        const tempId = tempIds[i];
-
-        try {
-          const cloudinaryUrl = await uploadToCloudinary(
-            mediaFile.uri,
-            mediaFile.type
-          );
-          await ChatService.testUserDocuments(user.uid, friendUserId);
-          await ChatService.ensureChatExists(user.uid, friendUserId);
-          const newMessageId = await ChatService.sendMessageWithReply(
-            user.uid,
-            friendUserId,
-            i === 0 ? captionText : "", // Only first media gets the caption
-            replyingTo
-              ? {
-                  messageId: replyingTo.id,
-                  text: replyingTo.text,
-                  senderId:
-                    replyingTo.sender === "user" ? user.uid : friendUserId,
-                  senderName: replyingTo.sender === "user" ? "You" : name,
-                }
-              : undefined,
-            {
-              mediaUrl: cloudinaryUrl,
-              mediaType: mediaFile.type,
-              fileName: mediaFile.fileName,
-            }
-          );
-
-          // Update the specific optimistic message
-          setMessages((prev) =>
-            prev.map((m) =>
-              m.id === tempId
-                ? {
-                    ...m,
-                    id: newMessageId,
-                    text: i === 0 ? captionText : "",
-                    mediaUrl: cloudinaryUrl,
-                    isUploading: false,
-                  }
-                : m
-            )
-          );
-        } catch (error) {
-          console.error(`Error uploading media ${i}:`, error);
-          setMessages((prev) => prev.filter((m) => m.id !== tempId));
-          throw error;
-        }
+        await queueSend(
+          i === 0 ? captionText : "", // Only first media gets the caption
+          replyData,
+          {
+            localUri: mediaFile.uri,
+            mediaType: mediaFile.type,
+            fileName: mediaFile.fileName,
+            mimeType: mediaFile.mimeType,
+            fileSize: mediaFile.fileSize,
+          }
+        );
       }
 
-      // Scroll to bottom after all uploads
+      // Scroll to bottom after queueing
       setTimeout(() => {
         flatListRef.current?.scrollToOffset({ offset: 0, animated: true });
       }, 100);
@@ -1276,17 +911,19 @@ const getReplyPreviewText = (
     }
   };
 
-  const sendMessage = useCallback(async () => {
+  // Not memoized: it reads the composer state, and queueSend and
+  // sendMediaMessages are new on every render anyway
+  const sendMessage = async () => {
     // If we have media files selected, send them instead of text
     if (selectedMediaFiles.length > 0) {
       return sendMediaMessages();
     }
 
-    if (!newMessage.trim() || !user?.uid || !friendUserId || sending) {
+    if (!newMessage.trim() || !user?.uid || !chatId || sending) {
       console.warn("⚠️ Cannot send message: missing input or already sending", {
         newMessage,
         userId: user?.uid,
-        friendUserId,
+        chatId,
         sending,
       });
       return;
@@ -1310,178 +947,71 @@ const getReplyPreviewText = (
         Alert.alert(t("common.error"), t("chat.invalidReplyData"));
         return;
       }
-      if (!friendUserId) {
+      if (!isGroup && !friendUserId) {
         console.error("❌ friendUserId is missing for replyData:", replyData);
         Alert.alert(t("common.error"), t("chat.missingFriendId"));
         return;
       }
     }
 
-    // Create optimistic message
-    const tempId = `temp_${Date.now()}_${Math.random()
-      .toString(36)
-      .substr(2, 9)}`;
-    const currentTime = new Date();
-
-    const optimisticMessage: MessageWithHeader = {
-      id: tempId,
-      text: messageToSend,
-      sender: "user",
-      time: currentTime.toLocaleTimeString([], {
-        hour: "2-digit",
-        minute: "2-digit",
-        hour12: false,
-      }),
-      timestamp: currentTime,
-      replyTo: replyData
-        ? {
-            messageId: replyData.id,
-            text: replyData.text ?? "",
-            senderId: replyData.sender === "user" ? user.uid : friendUserId,
-            senderName: replyData.sender === "user" ? "You" : name || "Friend",
-          }
-        : undefined,
-      isUploading: true, // Add this to identify optimistic messages
-    };
-
-    console.log("➕ Adding optimistic message:", optimisticMessage);
-
-    const updatedMessages = [optimisticMessage, ...messages];
-    const withHeaders = addDateHeaders(updatedMessages);
-    const reversedWithHeaders = [...withHeaders].reverse();
-
-    setMessages(reversedWithHeaders);
     setNewMessage("");
     setReplyingTo(null);
 
     try {
-      setSending(true);
-      await ChatService.testUserDocuments(user.uid, friendUserId);
-      await ChatService.ensureChatExists(user.uid, friendUserId);
-
-      if (replyData) {
-        const db = getFirestore();
-        const chatId = ChatService.generateChatId(user.uid, friendUserId);
-        const replyMessageRef = doc(
-          db,
-          "chats",
-          chatId,
-          "messages",
-          replyData.id
-        );
-        const replyMessageSnap = await getDoc(replyMessageRef);
-        if (!replyMessageSnap.exists()) {
-          console.error(
-            "❌ Reply message not found in Firestore:",
-            replyData.id
-          );
-          throw new Error(`Reply message not found: ${replyData.id}`);
-        }
-      }
-
-      console.log("🔍 Calling sendMessageWithReply with:", {
-        senderId: user.uid,
-        receiverId: friendUserId,
-        message: messageToSend,
-        replyTo: replyData
-          ? {
-              messageId: replyData.id,
-              text: replyData.text ?? "",
-              senderId: replyData.sender === "user" ? user.uid : friendUserId,
-              senderName:
-                replyData.sender === "user" ? "You" : name || "Friend",
-            }
-          : undefined,
-      });
-
-      const messageId = await ChatService.sendMessageWithReply(
-        user.uid,
-        friendUserId,
-        messageToSend,
-        replyData
-          ? {
-              messageId: replyData.id,
-              text: replyData.text ?? "",
-              senderId: replyData.sender === "user" ? user.uid : friendUserId,
-              senderName:
-                replyData.sender === "user" ? "You" : name || "Friend",
-            }
-          : null
-      );
-
-      setMessages((prev) =>
-        prev.map((msg) =>
-          msg.id === tempId
-            ? { ...msg, id: messageId, isUploading: false }
-            : msg
-        )
-      );
+      await queueSend(messageToSend, replyData);
 
       setTimeout(() => {
         flatListRef.current?.scrollToOffset({ offset: 0, animated: true });
       }, 100);
     } catch (e) {
-      console.error("❌ Error sending message:", e, {
+      console.error("❌ Error queueing message:", e, {
         senderId: user.uid,
-        receiverId: friendUserId,
+        chatId,
         message: messageToSend,
         replyData,
       });
-      setMessages((prev) => prev.filter((m) => m.id !== tempId));
       setNewMessage(messageToSend);
       setReplyingTo(replyData);
       Alert.alert(t("common.error"), t("chat.sendError"));
-    } finally {
-      setSending(false);
     }
-  }, [
-    newMessage,
-    replyingTo,
-    editingMessage,
-    sending,
-    user?.uid,
-    friendUserId,
-    handleSaveEdit,
-    messages,
-    name,
-    t,
-    addDateHeaders,
-    selectedMediaFiles,
-    sendMediaMessages,
-  ]);
-
-  const handleDeleteMessage = async (messageId: string) => {
-    if (!user?.uid || !friendUserId) return;
+  };
 
-    // Store the message being deleted for optimistic removal
-    const messageToDelete = messages.find((m) => m.id === messageId);
-    if (!messageToDelete) return;
+  // Stops the upload and drops the queued send; nothing reaches the chat
+  const handleCancelUpload = async (message: Message) => {
+    try {
+      await cancelUpload(message.id);
+    } catch (error) {
+      console.error("Error cancelling upload:", error);
+    }
+  };
 
-    // Optimistically remove the message immediately
-    setMessages((prev) => prev.filter((m) => m.id !== messageId));
+  const handleDeleteMessage = async (messageId: string) => {
+    if (!user?.uid || !chatId) return;
 
     try {
-      const chatId = ChatService.generateChatId(user.uid, friendUserId);
-      await ChatService.deleteMessage(chatId, messageId);
-
-      // No need to do anything here since we already removed it optimistically
-      // The real-time subscription will handle any updates if needed
+      await deleteMessage(messageId);
     } catch (error) {
       console.error("Error deleting message:", error);
-
-      // Re-add the message if deletion failed
-      setMessages((prev) => {
-        const newMessages = [...prev];
-        // Insert the message back in its original position
-        // You might want to implement a more sophisticated way to maintain order
-        newMessages.unshift(messageToDelete);
-        return newMessages;
-      });
-
       Alert.alert(t("common.error"), t("chat.deleteError"));
     }
   };
 
+  // Failed outbox operations surface on the bubble; tapping it offers retry or discard
+  const handleFailedPress = (message: Message) => {
+    const item = failedOperationFor(message.id);
+    if (!item) return;
+
+    Alert.alert(t("chat.notSent"), t("chat.notSentMessage"), [
+      { text: t("common.cancel"), style: "cancel" },
+      {
+        text: t("chat.discard"),
+        style: "destructive",
+        onPress: () => OutboxService.discard(item.id),
+      },
+      { text: t("chat.retry"), onPress: () => OutboxService.retry(item.id) },
+    ]);
+  };
+
   const getPressXY = (e: any) => {
     const ne = (e && e.nativeEvent) || e || {};
     // Use the correct touch coordinates for React Native
@@ -1543,6 +1073,16 @@ const getReplyPreviewText = (
     closeContextMenu();
   };
 
+  const handleToggleReaction = async (message: Message, emoji: string) => {
+    if (!user?.uid || !chatId || message.isUploading) return;
+    try {
+      await ChatService.toggleReaction(chatId, message.id, user.uid, emoji);
+    } catch (error) {
+      console.error("Error toggling reaction:", error);
+      Alert.alert(t("common.error"), t("chat.reactionError"));
+    }
+  };
+
   const handleCopy = async (message: Message) => {
     if (message.text) {
       await Clipboard.setStringAsync(message.text);
@@ -1577,6 +1117,9 @@ const getReplyPreviewText = (
     } else if (message.mediaType === "audio" && message.mediaUrl) {
       await Clipboard.setStringAsync(message.mediaUrl);
       showToast(t("chat.audioUrlCopied")); // toast only
+    } else if (message.mediaType === "file" && message.mediaUrl) {
+      await Clipboard.setStringAsync(message.mediaUrl);
+      showToast(t("chat.fileUrlCopied")); // toast only
     } else {
       Alert.alert(t("common.error"), t("chat.nothingToCopy"));
     }
@@ -1589,6 +1132,20 @@ const getReplyPreviewText = (
       return;
     }
 
+    // Documents don't belong in the photo library; hand them to the system viewer
+    if (message.mediaType === "file") {
+      try {
+        await openFileAttachment(
+          message.mediaUrl,
+          message.fileName || `file_${Date.now()}`
+        );
+      } catch (error) {
+        console.error("Error opening file:", error);
+        Alert.alert(t("common.error"), t("chat.fileOpenError"));
+      }
+      return;
+    }
+
     try {
       // Request permissions first
       const { status, canAskAgain } =
@@ -1752,7 +1309,7 @@ const getReplyPreviewText = (
         const mediaType = (
           messageToForward.mediaType === "video" ? "video" : "image"
         ) as "image" | "video";
-        const cloudinaryUrl = await uploadToCloudinary(
+        const cloudinaryUrl = await UploadService.upload(
           messageToForward.mediaUrl,
           mediaType
         );
@@ -1774,6 +1331,16 @@ const getReplyPreviewText = (
     }
   };
 
+  const alertTooLarge = (names: string[], type: "video" | "file") => {
+    Alert.alert(
+      t("chat.fileTooLargeTitle"),
+      t("chat.fileTooLarge", {
+        names: names.join(", "),
+        limit: formatFileSize(UploadService.limitFor(type)),
+      })
+    );
+  };
+
   // Update the takePhoto function to handle the quick action flow:
   const takePhoto = async (mediaType: "image" | "video" = "image") => {
     setShowMediaOptions(false);
@@ -1798,9 +1365,18 @@ const getReplyPreviewText = (
         allowsEditing: true,
         aspect: mediaType === "video" ? undefined : [4, 3],
         quality: 0.8,
+        videoMaxDuration: MAX_VIDEO_DURATION_SECONDS,
       });
 
       if (!result.canceled && result.assets[0]) {
+        if (
+          mediaType === "video" &&
+          UploadService.exceedsLimit("video", result.assets[0].fileSize)
+        ) {
+          alertTooLarge([result.assets[0].fileName || t("Video")], "video");
+          return;
+        }
+
         const newMediaFile = {
           uri: result.assets[0].uri,
           type: mediaType,
@@ -1852,115 +1428,156 @@ const getReplyPreviewText = (
     }
   }, [openCameraParam]);
 
-  const handleMediaUpload = async (
-    uri: string,
-    type: "image" | "video",
-    fileName: string,
-    caption: string = "",
-    text: string = ""
-  ) => {
-    if (!user?.uid || !friendUserId) return;
+  const closeForwardPopup = () => {
+    setForwardPopup({ visible: false, message: null });
+  };
 
-    // Create a unique ID for this specific media upload
-    const tempId = `temp_${Date.now()}_${Math.random()
-      .toString(36)
-      .substr(2, 9)}`;
-    const currentTime = new Date();
-
-    // Create optimistic message with upload indicator
-    const optimisticMessage: MessageWithHeader = {
-      id: tempId,
-      text: text || caption,
-      sender: "user",
-      time: currentTime.toLocaleTimeString([], {
-        hour: "2-digit",
-        minute: "2-digit",
-        hour12: false,
-      }),
-      timestamp: currentTime,
-      mediaUrl: uri, // Show local URI first
-      mediaType: type,
-      fileName,
-      isUploading: true, // Mark as uploading
-      replyTo: replyingTo
-        ? {
-            messageId: replyingTo.id,
-            text: replyingTo.text,
-            senderId: replyingTo.sender === "user" ? user.uid : friendUserId,
-            senderName: replyingTo.sender === "user" ? "You" : name,
-          }
-        : undefined,
-    };
+  const handleProfilePress = () => {
+    if (isGroup) {
+      setShowGroupInfo(true);
+      return;
+    }
+    setShowProfilePopup(true);
+    loadFriendProfile();
+  };
 
-    // Add to BEGINNING of array (newest-first order for inverted FlatList)
-    const updatedMessages = [optimisticMessage, ...messages];
+  const toVoiceTrack = (m: Message): VoiceTrack => ({
+    id: m.id,
+    uri: m.mediaUrl!,
+    title: getSenderName(m),
+  });
 
-    // Process with date headers and reverse for display
-    const withHeaders = addDateHeaders(updatedMessages);
-    const reversedWithHeaders = [...withHeaders].reverse();
+  // The unbroken run of sent voice notes after this one; the list is newest-first,
+  // so "after" walks towards index 0
+  const voiceNotesAfter = (messageId: string): VoiceTrack[] => {
+    const index = displayMessages.findIndex((m) => m.id === messageId);
+    const next: VoiceTrack[] = [];
+    for (let i = index - 1; i >= 0; i--) {
+      const m = displayMessages[i];
+      if (m.isDateHeader) continue;
+      if (m.mediaType !== "audio" || !m.mediaUrl || m.isUploading) break;
+      next.push(toVoiceTrack(m));
+    }
+    return next;
+  };
 
-    setMessages(reversedWithHeaders);
+  // Tracks which bubbles are on screen so the mini-player only shows once the
+  // playing note has scrolled away
+  const onViewableItemsChanged = useRef(
+    ({ viewableItems }: { viewableItems: { item: Message }[] }) => {
+      setVisibleIds(new Set(viewableItems.map((v) => v.item.id)));
+    }
+  );
 
-    try {
-      const cloudinaryUrl = await uploadToCloudinary(uri, type);
-
-      await ChatService.testUserDocuments(user.uid, friendUserId);
-      await ChatService.ensureChatExists(user.uid, friendUserId);
-      const newMessageId = await ChatService.sendMessageWithReply(
-        user.uid,
-        friendUserId,
-        text || caption,
-        replyingTo
-          ? {
-              messageId: replyingTo.id,
-              text: replyingTo.text,
-              senderId: replyingTo.sender === "user" ? user.uid : friendUserId,
-              senderName: replyingTo.sender === "user" ? "You" : name,
-            }
-          : undefined,
-        {
-          mediaUrl: cloudinaryUrl,
-          mediaType: type,
-          fileName,
-        }
-      );
+  // Scroll once the jumped-to message has made it into the rendered list
+  useEffect(() => {
+    if (!pendingJumpId) return;
+    const index = displayMessages.findIndex((m) => m.id === pendingJumpId);
+    if (index < 0) return;
+    setPendingJumpId(null);
+    flatListRef.current?.scrollToIndex({
+      index,
+      animated: true,
+      viewPosition: 0.5,
+    });
+  }, [pendingJumpId, displayMessages]);
 
-      // Update the optimistic message with the real messageId and remove upload indicator
-      setMessages((prev) =>
-        prev.map((m) =>
-          m.id === tempId
-            ? {
-                ...m,
-                id: newMessageId,
-                text: text || caption,
-                mediaUrl: cloudinaryUrl,
-                isUploading: false, // Remove upload indicator
-              }
-            : m
-        )
-      );
+  useEffect(
+    () => () => {
+      if (searchTimer.current) clearTimeout(searchTimer.current);
+      if (highlightTimer.current) clearTimeout(highlightTimer.current);
+    },
+    []
+  );
 
-      // Scroll to bottom (newest message)
-      setTimeout(() => {
-        flatListRef.current?.scrollToOffset({ offset: 0, animated: true });
-      }, 100);
-    } catch (error) {
-      console.error("Error uploading media:", error);
-      // Remove the failed upload from messages
-      setMessages((prev) => prev.filter((m) => m.id !== tempId));
-      throw error;
+  // Single tick = sent, double = delivered, blue double = read
+  const renderStatusTicks = (item: Message, color: string) => {
+    if (item.isUploading) {
+      return (
+        <Ionicons name="time-outline" size={12} color={color} style={{ marginLeft: 3 }} />
+      );
+    }
+    switch (item.status) {
+      case "sent":
+        return (
+          <Ionicons name="checkmark" size={14} color={color} style={{ marginLeft: 3 }} />
+        );
+      case "delivered":
+        return (
+          <Ionicons name="checkmark-done" size={14} color={color} style={{ marginLeft: 3 }} />
+        );
+      case "read":
+        return (
+          <Ionicons name="checkmark-done" size={14} color="#4FC3F7" style={{ marginLeft: 3 }} />
+        );
+      case "failed":
+        return (
+          <Ionicons name="alert-circle" size={14} color="#ff4444" style={{ marginLeft: 3 }} />
+        );
+      default:
+        return null;
     }
   };
 
-  const closeForwardPopup = () => {
-    setForwardPopup({ visible: false, message: null });
-  };
+  const renderReactionChips = (item: Message, isUser: boolean) => {
+    const entries = Object.entries(item.reactions || {}).filter(
+      ([, userIds]) => userIds.length > 0
+    );
+    if (entries.length === 0) return null;
 
-  const handleProfilePress = () => {
-    setShowProfilePopup(true);
-    fetchFriendProfile();
+    return (
+      <TouchableOpacity
+        onPress={() => setReactionSheetMessageId(item.id)}
+        activeOpacity={0.8}
+        style={{
+          flexDirection: "row",
+          flexWrap: "wrap",
+          justifyContent: isUser ? "flex-end" : "flex-start",
+          marginTop: -6,
+          marginBottom: 4,
+          paddingHorizontal: 6,
+        }}
+      >
+        {entries.map(([emoji, userIds]) => {
+          const mine = !!user?.uid && userIds.includes(user.uid);
+          return (
+            <View
+              key={emoji}
+              style={{
+                flexDirection: "row",
+                alignItems: "center",
+                backgroundColor: mine
+                  ? theme.colors.primary + "30"
+                  : theme.colors.inputBackground,
+                borderColor: theme.colors.background,
+                borderWidth: 1,
+                borderRadius: 12,
+                paddingHorizontal: 6,
+                paddingVertical: 2,
+                marginLeft: 4,
+              }}
+            >
+              <CustomText fontSize={theme.fonts.sizes.small}>{emoji}</CustomText>
+              {userIds.length > 1 && (
+                <CustomText
+                  fontSize={theme.fonts.sizes.small}
+                  color={theme.colors.secondaryText}
+                  style={{ marginLeft: 2 }}
+                >
+                  {userIds.length}
+                </CustomText>
+              )}
+            </View>
+          );
+        })}
+      </TouchableOpacity>
+    );
   };
 
+  const reactionSheetMessage = reactionSheetMessageId
+    ? messages.find((m) => m.id === reactionSheetMessageId) || null
+    : null;
+
   const renderMessage = ({ item }: { item: MessageWithHeader }) => {
     // Handle date header messages specially
     if (item.isDateHeader) {
@@ -1986,6 +1603,29 @@ const getReplyPreviewText = (
       );
     }
 
+    if (item.isSystem) {
+      return (
+        <View style={{ alignItems: "center", marginVertical: 6, paddingHorizontal: 30 }}>
+          <View
+            style={{
+              backgroundColor: theme.colors.inputBackground,
+              paddingHorizontal: 12,
+              paddingVertical: 6,
+              borderRadius: 12,
+            }}
+          >
+            <CustomText
+              fontSize={theme.fonts.sizes.small}
+              color={theme.colors.secondaryText}
+              style={{ textAlign: "center" }}
+            >
+              {getSystemMessageText(item)}
+            </CustomText>
+          </View>
+        </View>
+      );
+    }
+
     const isUser = item.sender === "user";
     const bubbleBg = isUser
       ? theme.colors.primary
@@ -2006,6 +1646,9 @@ const getReplyPreviewText = (
             marginVertical: 2,
             paddingHorizontal: 10,
           },
+          highlightedMessageId === item.id && {
+            backgroundColor: theme.colors.primary + "20",
+          },
           pressed && { opacity: 0.96, transform: [{ scale: 0.995 }] },
         ]}
       >
@@ -2047,103 +1690,174 @@ const getReplyPreviewText = (
           enabled={!item.isUploading}
         >
           <Row>
-            {/* ensure any inner Touchable bubble also has press feedback (mirrors the Pressable above) */}
-            <TouchableOpacity
-              ref={(r: any) => {
-                if (r) {
-                  bubbleRefs.current.set(item.id, r);
-                } else {
-                  bubbleRefs.current.delete(item.id);
-                }
-              }}
-              onLongPress={(event) => handleLongPress(item, event)}
-              delayLongPress={150}
-              activeOpacity={0.96}
+            <View
               style={{
-                backgroundColor: bubbleBg,
-                borderRadius: 12,
-                padding: 10,
                 maxWidth: "70%",
-                marginBottom: 3,
+                alignItems: isUser ? "flex-end" : "flex-start",
               }}
             >
-              {item.replyTo && (
-                <View
-                  style={{
-                    backgroundColor: "rgba(0,0,0,0.08)",
-                    borderRadius: 8,
-                    padding: 8,
-                    marginBottom: 8,
-                    borderLeftWidth: 3,
-                    borderLeftColor: isUser
-                      ? "rgba(255,255,255,0.5)"
-                      : theme.colors.primary,
-                  }}
-                >
-                  <CustomText
-                    fontSize={theme.fonts.sizes.small}
-                    color={
-                      isUser
-                        ? "rgba(255,255,255,0.9)"
-                        : theme.colors.secondaryText
-                    }
-                    fontWeight="500"
-                  >
-                    {item.replyTo.senderName}
-                  </CustomText>
+              {/* ensure any inner Touchable bubble also has press feedback (mirrors the Pressable above) */}
+              <TouchableOpacity
+                ref={(r: any) => {
+                  if (r) {
+                    bubbleRefs.current.set(item.id, r);
+                  } else {
+                    bubbleRefs.current.delete(item.id);
+                  }
+                }}
+                onPress={
+                  item.status === "failed"
+                    ? () => handleFailedPress(item)
+                    : undefined
+                }
+                onLongPress={(event) => handleLongPress(item, event)}
+                delayLongPress={150}
+                activeOpacity={0.96}
+                style={{
+                  backgroundColor: bubbleBg,
+                  borderRadius: 12,
+                  padding: 10,
+                  maxWidth: "100%",
+                  marginBottom: 3,
+                }}
+              >
+                {isGroup && !isUser && (
                   <CustomText
                     fontSize={theme.fonts.sizes.small}
-                    color={
-                      isUser
-                        ? "rgba(255,255,255,0.85)"
-                        : theme.colors.secondaryText
-                    }
-                    numberOfLines={1}
+                    color={theme.colors.primary}
+                    fontWeight="600"
+                    style={{ marginBottom: 2 }}
                   >
-                    {getReplyPreviewText(item.replyTo, messages)}
+                    {getSenderName(item)}
                   </CustomText>
-                </View>
-              )}
+                )}
 
-              <View>
-                {item.mediaUrl && item.mediaType && (
-                  <TouchableOpacity
-                    onPress={() => {
-                      if (item.mediaType === "audio" && item.mediaUrl) {
-                        playAudio(item.mediaUrl, item.id);
-                      } else if (item.mediaUrl && item.mediaType) {
-                        setSelectedMedia({
-                          url: item.mediaUrl,
-                          type: item.mediaType,
-                        });
-                      }
+                {item.replyTo && (
+                  <View
+                    style={{
+                      backgroundColor: "rgba(0,0,0,0.08)",
+                      borderRadius: 8,
+                      padding: 8,
+                      marginBottom: 8,
+                      borderLeftWidth: 3,
+                      borderLeftColor: isUser
+                        ? "rgba(255,255,255,0.5)"
+                        : theme.colors.primary,
                     }}
-                    disabled={item.isUploading}
-                    style={{ marginBottom: item.text ? 8 : 0 }}
                   >
-                    {item.mediaType === "image" || item.mediaType === "gif" ? (
-                      <Image
-                        source={{ uri: item.mediaUrl }}
-                        style={{
-                          width: 200,
-                          height: 150,
-                          borderRadius: 8,
-                          resizeMode: "cover",
-                        }}
+                    <CustomText
+                      fontSize={theme.fonts.sizes.small}
+                      color={
+                        isUser
+                          ? "rgba(255,255,255,0.9)"
+                          : theme.colors.secondaryText
+                      }
+                      fontWeight="500"
+                    >
+                      {item.replyTo.senderName}
+                    </CustomText>
+                    <CustomText
+                      fontSize={theme.fonts.sizes.small}
+                      color={
+                        isUser
+                          ? "rgba(255,255,255,0.85)"
+                          : theme.colors.secondaryText
+                      }
+                      numberOfLines={1}
+                    >
+                      {getReplyPreviewText(item.replyTo, messages)}
+                    </CustomText>
+                  </View>
+                )}
+
+                <View>
+                  {item.mediaUrl && item.mediaType === "file" && (
+                    <View style={{ marginBottom: item.text ? 8 : 0 }}>
+                      <FileMessageBubble
+                        url={item.mediaUrl}
+                        fileName={item.fileName}
+                        fileSize={item.fileSize}
+                        isUser={isUser}
+                        isUploading={item.isUploading}
+                        uploadProgress={item.uploadProgress}
+                        onCancel={() => handleCancelUpload(item)}
+                        onLongPress={(event) => handleLongPress(item, event)}
+                      />
+                    </View>
+                  )}
+                  {item.mediaUrl && item.mediaType === "audio" && (
+                    <View style={{ marginBottom: item.text ? 8 : 0 }}>
+                      <VoiceNoteBubble
+                        track={toVoiceTrack(item)}
+                        getNext={() => voiceNotesAfter(item.id)}
+                        levels={item.waveform}
+                        durationMillis={
+                          item.durationMillis ?? audioDurations[item.id]
+                        }
+                        isUser={isUser}
+                        isUploading={item.isUploading}
+                        uploadProgress={item.uploadProgress}
+                        onCancel={() => handleCancelUpload(item)}
                       />
-                    ) : item.mediaType === "video" ? (
-                      <View style={{ position: "relative" }}>
-                        <Video
+                    </View>
+                  )}
+                  {item.mediaUrl &&
+                    item.mediaType &&
+                    item.mediaType !== "file" &&
+                    item.mediaType !== "audio" && (
+                    <TouchableOpacity
+                      onPress={() => {
+                        if (item.mediaUrl && item.mediaType) {
+                          setSelectedMedia({
+                            url: item.mediaUrl,
+                            type: item.mediaType,
+                          });
+                        }
+                      }}
+                      disabled={item.isUploading}
+                      style={{ marginBottom: item.text ? 8 : 0 }}
+                    >
+                      {item.mediaType === "image" || item.mediaType === "gif" ? (
+                        <Image
                           source={{ uri: item.mediaUrl }}
                           style={{
                             width: 200,
                             height: 150,
                             borderRadius: 8,
+                            resizeMode: "cover",
                           }}
-                          useNativeControls={false}
-                          resizeMode={ResizeMode.COVER}
-                          shouldPlay={false}
                         />
+                      ) : item.mediaType === "video" ? (
+                        <View style={{ position: "relative" }}>
+                          <Video
+                            source={{ uri: item.mediaUrl }}
+                            style={{
+                              width: 200,
+                              height: 150,
+                              borderRadius: 8,
+                            }}
+                            useNativeControls={false}
+                            resizeMode={ResizeMode.COVER}
+                            shouldPlay={false}
+                          />
+                          <View
+                            style={{
+                              position: "absolute",
+                              top: 0,
+                              left: 0,
+                              right: 0,
+                              bottom: 0,
+                              justifyContent: "center",
+                              alignItems: "center",
+                              backgroundColor: "rgba(0,0,0,0.3)",
+                              borderRadius: 8,
+                            }}
+                          >
+                            <Ionicons name="play" size={40} color="white" />
+                          </View>
+                        </View>
+                      ) : null}
+                      {item.isUploading && (
                         <View
                           style={{
                             position: "absolute",
@@ -2151,179 +1865,103 @@ const getReplyPreviewText = (
                             left: 0,
                             right: 0,
                             bottom: 0,
-                            justifyContent: "center",
-                            alignItems: "center",
-                            backgroundColor: "rgba(0,0,0,0.3)",
+                            backgroundColor: "rgba(0,0,0,0.5)",
                             borderRadius: 8,
-                          }}
-                        >
-                          <Ionicons name="play" size={40} color="white" />
-                        </View>
-                      </View>
-                    ) : item.mediaType === "audio" ? (
-                      <View
-                        style={{
-                          flexDirection: "row", // Horizontal layout
-                          alignItems: "center",
-                          paddingVertical: 8,
-                          borderRadius: 16,
-                          backgroundColor: isUser
-                            ? theme.colors.primary
-                            : "rgba(255,255,255,0.06)",
-                          minWidth: 160,
-                          maxWidth: 280,
-                        }}
-                      >
-                        {/* Play button */}
-                        <TouchableOpacity
-                          onPress={() =>
-                            !item.isUploading &&
-                            item.mediaUrl &&
-                            playAudio(item.mediaUrl, item.id)
-                          }
-                          activeOpacity={0.8}
-                          disabled={item.isUploading}
-                          style={{
-                            width: 36,
-                            height: 36,
-                            borderRadius: 18,
-                            alignItems: "center",
                             justifyContent: "center",
-                            backgroundColor: isUser
-                              ? "rgba(255,255,255,0.2)"
-                              : theme.colors.primary,
-                            marginRight: 10,
-                            opacity: item.isUploading ? 0.5 : 1,
-                          }}
-                        >
-                          <Ionicons
-                            name={playingAudioId === item.id ? "pause" : "play"}
-                            size={18}
-                            color="white"
-                          />
-                        </TouchableOpacity>
-
-                        {/* Waveform and duration in same row */}
-                        <View
-                          style={{
-                            flex: 1,
-                            flexDirection: "row",
                             alignItems: "center",
-                            justifyContent: "space-between",
                           }}
                         >
-                          {/* Mini waveform */}
-                          <View
+                          <ActivityIndicator size="large" color="white" />
+                          {item.uploadProgress !== undefined && (
+                            <CustomText
+                              color="white"
+                              fontSize={theme.fonts.sizes.small}
+                              style={{ marginTop: 4 }}
+                            >
+                              {Math.round(item.uploadProgress * 100)}%
+                            </CustomText>
+                          )}
+                          <TouchableOpacity
+                            onPress={() => handleCancelUpload(item)}
+                            accessibilityLabel={t("chat.cancelUpload")}
                             style={{
+                              position: "absolute",
+                              top: 4,
+                              right: 4,
+                              width: 24,
                               height: 24,
-                              flexDirection: "row",
-                              alignItems: "center",
-                              flex: 1,
-                              marginRight: 8,
-                              opacity: item.isUploading ? 0.5 : 1,
-                            }}
-                          >
-                            {[
-                              6, 12, 8, 18, 10, 20, 14, 22, 12, 18, 8, 16, 6,
-                              12, 8,
-                            ].map((h, i) => (
-                              <View
-                                key={i}
-                                style={{
-                                  width: 2,
-                                  height: h,
-                                  borderRadius: 1,
-                                  marginRight: i === 23 ? 0 : 2,
-                                  backgroundColor: isUser
-                                    ? "rgba(255,255,255,0.95)"
-                                    : theme.colors.primary,
-                                  opacity: isUser ? 0.95 : 0.85,
-                                }}
-                              />
-                            ))}
-                          </View>
-
-                          {/* Duration text */}
-                          <View
-                            style={{
-                              backgroundColor: isUser
-                                ? "rgba(255,255,255,0.2)"
-                                : theme.colors.primary + "20",
-                              paddingHorizontal: 8,
-                              paddingVertical: 4,
-                              borderRadius: 8,
-                              minWidth: 50, // Ensure consistent width
+                              borderRadius: 12,
+                              backgroundColor: "rgba(0,0,0,0.6)",
+                              justifyContent: "center",
                               alignItems: "center",
                             }}
                           >
-                            <CustomText
-                              color={isUser ? "white" : theme.colors.text}
-                              style={{
-                                fontVariant: ["tabular-nums"],
-                                fontWeight: "600",
-                                fontSize: theme.fonts.sizes.small,
-                                opacity: isUser ? 0.95 : 0.8,
-                              }}
-                            >
-                              {item.isUploading
-                                ? t("chat.uploading")
-                                : audioDurations?.[item.id] ?? "0:00"}
-                            </CustomText>
-                          </View>
+                            <Ionicons name="close" size={16} color="white" />
+                          </TouchableOpacity>
                         </View>
-                      </View>
-                    ) : null}
-                    {item.isUploading && (
-                      <View
-                        style={{
-                          position: "absolute",
-                          top: 0,
-                          left: 0,
-                          right: 0,
-                          bottom: 0,
-                          backgroundColor: "rgba(0,0,0,0.5)",
-                          borderRadius: item.mediaType === "audio" ? 16 : 8,
-                          justifyContent: "center",
-                          alignItems: "center",
-                        }}
-                      >
-                        <ActivityIndicator size="large" color="white" />
-                      </View>
-                    )}
-                  </TouchableOpacity>
-                )}
-                {item.text && (
-                  <CustomText color={msgColor}>{item.text}</CustomText>
-                )}
-                {deletingMessageId === item.id && (
-                  <ActivityIndicator
-                    size="small"
-                    color={
-                      isUser ? "rgba(255,255,255,0.8)" : theme.colors.primary
-                    }
-                    style={{ marginTop: 4, alignSelf: "center" }}
-                  />
+                      )}
+                    </TouchableOpacity>
+                  )}
+                  {item.text &&
+                    (searchMode && searchHits.includes(item.id) ? (
+                      <HighlightedText
+                        text={item.text}
+                        query={searchQuery}
+                        color={msgColor}
+                        highlightColor={
+                          isUser ? "rgba(255,255,255,0.35)" : theme.colors.primary + "40"
+                        }
+                      />
+                    ) : (
+                      <CustomText color={msgColor}>{item.text}</CustomText>
+                    ))}
+                  {deletingMessageId === item.id && (
+                    <ActivityIndicator
+                      size="small"
+                      color={
+                        isUser ? "rgba(255,255,255,0.8)" : theme.colors.primary
+                      }
+                      style={{ marginTop: 4, alignSelf: "center" }}
+                    />
+                  )}
+                </View>
+
+                {item.edited && (
+                  <CustomText
+                    fontSize={10}
+                    color={timeColor}
+                    style={{ fontStyle: "italic", marginTop: 2 }}
+                  >
+                    {t("chat.edited")}
+                  </CustomText>
                 )}
-              </View>
 
-              {item.edited && (
-                <CustomText
-                  fontSize={10}
-                  color={timeColor}
-                  style={{ fontStyle: "italic", marginTop: 2 }}
+                <View
+                  style={{
+                    flexDirection: "row",
+                    alignItems: "center",
+                    justifyContent: isUser ? "flex-end" : "flex-start",
+                    marginTop: 2,
+                  }}
                 >
-                  {t("chat.edited")}
-                </CustomText>
-              )}
-
-              <CustomText
-                fontSize={10}
-                color={timeColor}
-                style={{ textAlign: isUser ? "right" : "left", marginTop: 2 }}
-              >
-                {item.time || formatTimeSafe(item.timestamp)}
-              </CustomText>
-            </TouchableOpacity>
+                  {item.status === "failed" && (
+                    <CustomText
+                      fontSize={10}
+                      color={isUser ? "#FFFFFF" : "#ff4444"}
+                      fontWeight="600"
+                      style={{ marginRight: 4 }}
+                    >
+                      {t("chat.tapToRetry")}
+                    </CustomText>
+                  )}
+                  <CustomText fontSize={10} color={timeColor}>
+                    {item.time || formatTimeSafe(item.timestamp)}
+                  </CustomText>
+                  {isUser && renderStatusTicks(item, timeColor)}
+                </View>
+              </TouchableOpacity>
+              {renderReactionChips(item, isUser)}
+            </View>
           </Row>
         </SwipeToReply>
       </>
@@ -2358,19 +1996,36 @@ const getReplyPreviewText = (
         allowsEditing: false,
         quality: 0.8,
         selectionLimit: 10,
+        videoMaxDuration: MAX_VIDEO_DURATION_SECONDS,
       });
 
       if (!result.canceled && result.assets.length > 0) {
-        const newMediaFiles = result.assets.map((asset) => ({
-          uri: asset.uri,
-          type:
-            asset.type === "video" ? ("video" as const) : ("image" as const),
-          fileName:
-            asset.fileName ||
-            `${asset.type}_${Date.now()}.${
-              asset.type === "video" ? "mp4" : "jpg"
-            }`,
-        }));
+        // Videos that can't be uploaded are dropped up front rather than failing later
+        const isTooLarge = (asset: ImagePicker.ImagePickerAsset) =>
+          asset.type === "video" &&
+          UploadService.exceedsLimit("video", asset.fileSize);
+        const tooLarge = result.assets.filter(isTooLarge);
+        if (tooLarge.length > 0) {
+          alertTooLarge(
+            tooLarge.map((asset) => asset.fileName || t("Video")),
+            "video"
+          );
+        }
+
+        const newMediaFiles = result.assets
+          .filter((asset) => !isTooLarge(asset))
+          .map((asset) => ({
+            uri: asset.uri,
+            type:
+              asset.type === "video" ? ("video" as const) : ("image" as const),
+            fileName:
+              asset.fileName ||
+              `${asset.type}_${Date.now()}.${
+                asset.type === "video" ? "mp4" : "jpg"
+              }`,
+            mimeType: asset.mimeType,
+            fileSize: asset.fileSize,
+          }));
 
         setSelectedMediaFiles((prev) => [...prev, ...newMediaFiles]);
       }
@@ -2380,127 +2035,42 @@ const getReplyPreviewText = (
     }
   };
 
-  // MediaAttachmentPreview component used below (defined here to avoid hoisting issues)
-  const MediaAttachmentPreview = React.memo(
-    ({
-      selectedMediaFiles,
-      setSelectedMediaFiles,
-      theme,
-      uploading,
-    }: {
-      selectedMediaFiles: Array<{
-        uri: string;
-        type: "image" | "video";
-        fileName: string;
-      }>;
-      setSelectedMediaFiles: (files: any) => void;
-      theme: any;
-      uploading: boolean;
-    }) => {
-      // Don't show preview during upload or if no media selected
-      if (selectedMediaFiles.length === 0 || uploading) return null;
+  const pickDocuments = async () => {
+    setShowMediaOptions(false);
 
-      return (
-        <View
-          style={{
-            backgroundColor: theme.colors.inputBackground,
-            padding: 10,
-            borderTopWidth: 1,
-            borderTopColor: theme.colors.border,
-          }}
-        >
-          {/* Close button */}
-          <TouchableOpacity
-            style={{
-              position: "absolute",
-              top: 5,
-              right: 5,
-              backgroundColor: "#CC0000",
-              borderRadius: 12,
-              width: 24,
-              height: 24,
-              justifyContent: "center",
-              alignItems: "center",
-              zIndex: 10,
-            }}
-            onPress={() => {
-              setSelectedMediaFiles([]);
-            }}
-          >
-            <Ionicons name="close" size={16} color="white" />
-          </TouchableOpacity>
-
-          {/* Media Preview - Optimized with FlatList for better performance */}
-          <FlatList
-            data={selectedMediaFiles}
-            horizontal
-            showsHorizontalScrollIndicator={false}
-            keyExtractor={(item, index) => `media-${index}-${item.uri}`}
-            renderItem={({ item: media, index }) => (
-              <View style={{ margin: 5, position: "relative" }}>
-                {media.type === "image" ? (
-                  <Image
-                    source={{ uri: media.uri }}
-                    style={{ width: 80, height: 80, borderRadius: 8 }}
-                    resizeMode="cover"
-                    // Add fadeDuration to make image loading smoother
-                    fadeDuration={100}
-                  />
-                ) : (
-                  <View style={{ position: "relative" }}>
-                    <Video
-                      source={{ uri: media.uri }}
-                      style={{ width: 80, height: 80, borderRadius: 8 }}
-                      resizeMode={ResizeMode.COVER}
-                      shouldPlay={false}
-                    />
-                    <View
-                      style={{
-                        position: "absolute",
-                        top: 0,
-                        left: 0,
-                        right: 0,
-                        bottom: 0,
-                        justifyContent: "center",
-                        alignItems: "center",
-                        backgroundColor: "rgba(0,0,0,0.3)",
-                        borderRadius: 8,
-                      }}
-                    >
-                      <Ionicons name="play" size={24} color="white" />
-                    </View>
-                  </View>
-                )}
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: "*/*",
+        multiple: true,
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || result.assets.length === 0) return;
 
-                {/* Remove individual media button */}
-                <TouchableOpacity
-                  style={{
-                    position: "absolute",
-                    top: -5,
-                    right: -5,
-                    backgroundColor: "#CC0000",
-                    borderRadius: 12,
-                    width: 20,
-                    height: 20,
-                    justifyContent: "center",
-                    alignItems: "center",
-                  }}
-                  onPress={() => {
-                    setSelectedMediaFiles((prev: MediaFile[]) =>
-                      prev.filter((_: MediaFile, i: number) => i !== index)
-                    );
-                  }}
-                >
-                  <Ionicons name="close" size={12} color="white" />
-                </TouchableOpacity>
-              </View>
-            )}
-            contentContainerStyle={{ paddingRight: 30 }} // Space for close button
-          />
-        </View>
+      const tooLarge = result.assets.filter((asset) =>
+        UploadService.exceedsLimit("file", asset.size)
       );
+      if (tooLarge.length > 0) {
+        alertTooLarge(
+          tooLarge.map((asset) => asset.name),
+          "file"
+        );
+      }
+
+      const newFiles: MediaFile[] = result.assets
+        .filter((asset) => !UploadService.exceedsLimit("file", asset.size))
+        .map((asset) => ({
+          uri: asset.uri,
+          type: "file" as const,
+          fileName: asset.name,
+          mimeType: asset.mimeType,
+          fileSize: asset.size,
+        }));
+      setSelectedMediaFiles((prev) => [...prev, ...newFiles]);
+    } catch (error) {
+      console.error("Error picking documents:", error);
+      Alert.alert(t("common.error"), t("chat.mediaSelectionError"));
     }
-  );
+  };
 
   return (
     <GestureHandlerRootView
@@ -2511,8 +2081,22 @@ const getReplyPreviewText = (
         onClose={() => setShowProfilePopup(false)}
         user={friendProfile}
         loading={profileLoading}
+        isBlocked={blockStatus.blockedByMe}
+        onToggleBlock={handleToggleBlock}
+        onUnfriend={isReadOnly ? undefined : handleUnfriend}
       />
 
+      {isGroup && (
+        <GroupInfoPopup
+          visible={showGroupInfo}
+          onClose={() => setShowGroupInfo(false)}
+          chatId={chatId}
+          chat={groupChat}
+          members={groupMembers}
+          onLeft={() => router.back()}
+        />
+      )}
+
       {/* StatusBar: non-translucent so content doesn't cross into status bar */}
       <StatusBar
         translucent={false}
@@ -2543,59 +2127,184 @@ const getReplyPreviewText = (
               backgroundColor: theme.colors.inputBackground,
             }}
           >
-            <TouchableOpacity
-              onPress={() => router.back()}
-              style={{ marginRight: 10, padding: 5 }}
-            >
-              <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={{
-                flex: 1,
-                flexDirection: "row",
-                alignItems: "center",
-              }}
-              onPress={handleProfilePress}
-            >
-              <Image
-                source={{
-                  uri:
-                    friendProfile?.avatar ||
-                    avatar ||
-                    "https://via.placeholder.com/40",
-                }}
+            {searchMode ? (
+              <>
+                <TouchableOpacity
+                  onPress={closeSearch}
+                  style={{ marginRight: 10, padding: 5 }}
+                >
+                  <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
+                </TouchableOpacity>
+                <TextInput
+                  autoFocus
+                  value={searchQuery}
+                  onChangeText={handleSearchChange}
+                  placeholder={t("chat.searchMessages")}
+                  placeholderTextColor={theme.colors.secondaryText}
+                  returnKeyType="search"
+                  style={{
+                    flex: 1,
+                    color: theme.colors.text,
+                    fontSize: theme.fonts.sizes.regular,
+                    paddingVertical: 8,
+                  }}
+                />
+                {searching ? (
+                  <ActivityIndicator size="small" color={theme.colors.primary} />
+                ) : (
+                  searchQuery.trim() !== "" && (
+                    <CustomText
+                      fontSize={theme.fonts.sizes.small}
+                      color={theme.colors.secondaryText}
+                      style={{ marginHorizontal: 6 }}
+                    >
+                      {searchHits.length > 0
+                        ? t("chat.searchResultCount", {
+                            current: searchPosition + 1,
+                            total: searchHits.length,
+                          })
+                        : t("chat.searchNoResults")}
+                    </CustomText>
+                  )
+                )}
+                <TouchableOpacity
+                  style={{ paddingHorizontal: 4 }}
+                  disabled={searchPosition >= searchHits.length - 1}
+                  onPress={() => moveSearch(1)}
+                >
+                  <Ionicons
+                    name="chevron-up"
+                    size={24}
+                    color={
+                      searchPosition < searchHits.length - 1
+                        ? theme.colors.primary
+                        : theme.colors.secondaryText
+                    }
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={{ paddingHorizontal: 4 }}
+                  disabled={searchPosition <= 0}
+                  onPress={() => moveSearch(-1)}
+                >
+                  <Ionicons
+                    name="chevron-down"
+                    size={24}
+                    color={
+                      searchPosition > 0
+                        ? theme.colors.primary
+                        : theme.colors.secondaryText
+                    }
+                  />
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+              <TouchableOpacity
+                onPress={() => router.back()}
+                style={{ marginRight: 10, padding: 5 }}
+              >
+                <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+              <TouchableOpacity
                 style={{
-                  width: 40,
-                  height: 40,
-                  borderRadius: 20,
-                  marginRight: 10,
+                  flex: 1,
+                  flexDirection: "row",
+                  alignItems: "center",
                 }}
-              />
-              <CustomText
-                fontSize={theme.fonts.sizes.regular}
-                color={theme.colors.text}
-                numberOfLines={1}
-                style={{ flex: 1 }}
+                onPress={handleProfilePress}
               >
-                {friendProfile?.name || name}
-              </CustomText>
-            </TouchableOpacity>
-            <View style={{ flexDirection: "row" }}>
-              <TouchableOpacity style={{ paddingHorizontal: 4 }}>
-                <Ionicons
-                  name="call-outline"
-                  size={24}
-                  color={theme.colors.primary}
-                />
-              </TouchableOpacity>
-              <TouchableOpacity style={{ paddingHorizontal: 4 }}>
-                <Ionicons
-                  name="videocam-outline"
-                  size={24}
-                  color={theme.colors.primary}
-                />
+                {isGroup && !(groupChat?.groupInfo?.photo || avatar) ? (
+                  <View
+                    style={{
+                      width: 40,
+                      height: 40,
+                      borderRadius: 20,
+                      marginRight: 10,
+                      backgroundColor: theme.colors.background,
+                      justifyContent: "center",
+                      alignItems: "center",
+                    }}
+                  >
+                    <Ionicons name="people" size={22} color={theme.colors.primary} />
+                  </View>
+                ) : (
+                  <Image
+                    source={{
+                      uri:
+                        (isGroup ? groupChat?.groupInfo?.photo : friendProfile?.avatar) ||
+                        avatar ||
+                        "https://via.placeholder.com/40",
+                    }}
+                    style={{
+                      width: 40,
+                      height: 40,
+                      borderRadius: 20,
+                      marginRight: 10,
+                    }}
+                  />
+                )}
+                <View style={{ flex: 1 }}>
+                  <CustomText
+                    fontSize={theme.fonts.sizes.regular}
+                    color={theme.colors.text}
+                    numberOfLines={1}
+                  >
+                    {isGroup
+                      ? groupChat?.groupInfo?.name || name
+                      : friendProfile?.name || name}
+                  </CustomText>
+                  {typingLabel ? (
+                    <CustomText
+                      fontSize={theme.fonts.sizes.small}
+                      color={theme.colors.primary}
+                      numberOfLines={1}
+                    >
+                      {typingLabel}
+                    </CustomText>
+                  ) : isGroup ? (
+                    groupChat && (
+                      <CustomText
+                        fontSize={theme.fonts.sizes.small}
+                        color={theme.colors.secondaryText}
+                        numberOfLines={1}
+                      >
+                        {t("group.membersCount", {
+                          count: groupChat.participants.length,
+                        })}
+                      </CustomText>
+                    )
+                  ) : (
+                    presenceLabel && (
+                      <CustomText
+                        fontSize={theme.fonts.sizes.small}
+                        color={theme.colors.secondaryText}
+                        numberOfLines={1}
+                      >
+                        {presenceLabel}
+                      </CustomText>
+                    )
+                  )}
+                </View>
               </TouchableOpacity>
-            </View>
+              <View style={{ flexDirection: "row" }}>
+                <TouchableOpacity style={{ paddingHorizontal: 4 }}>
+                  <Ionicons
+                    name="call-outline"
+                    size={24}
+                    color={theme.colors.primary}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity style={{ paddingHorizontal: 4 }}>
+                  <Ionicons
+                    name="videocam-outline"
+                    size={24}
+                    color={theme.colors.primary}
+                  />
+                </TouchableOpacity>
+              </View>
+              </>
+            )}
           </View>
         </View>
 
@@ -2606,12 +2315,15 @@ const getReplyPreviewText = (
           keyboardVerticalOffset={Platform.OS === "ios" ? headerHeight : 0}
         >
           <View style={{ flex: 1 }}>
+            <VoiceMiniPlayer visibleIds={visibleIds} onPress={jumpToMessage} />
             {/* Messages list */}
             <FlatList
               ref={flatListRef}
-              data={messages}
+              data={displayMessages}
               renderItem={renderMessage}
               keyExtractor={(item: any, index: number) => `${item.id}_${index}`}
+              onViewableItemsChanged={onViewableItemsChanged.current}
+              viewabilityConfig={VIEWABILITY_CONFIG}
               style={{ flex: 1 }}
               contentContainerStyle={{
                 padding: 10,
@@ -2635,6 +2347,17 @@ const getReplyPreviewText = (
               windowSize={21}
               scrollEventThrottle={16}
               maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+              onEndReached={loadOlderMessages}
+              onEndReachedThreshold={0.3}
+              ListFooterComponent={
+                loadingOlder ? (
+                  <ActivityIndicator
+                    size="small"
+                    color={theme.colors.primary}
+                    style={{ paddingVertical: 12 }}
+                  />
+                ) : null
+              }
               getItemLayout={(data: any, index: number) =>
                 getItemLayout(data as MessageWithHeader[] | null, index)
               }
@@ -2663,7 +2386,6 @@ const getReplyPreviewText = (
               <MediaAttachmentPreview
                 selectedMediaFiles={selectedMediaFiles}
                 setSelectedMediaFiles={setSelectedMediaFiles}
-                theme={theme}
                 uploading={uploading}
               />
             )}
@@ -2758,7 +2480,7 @@ const getReplyPreviewText = (
                         {t("chat.replyingTo")}{" "}
                         {replyingTo.sender === "user"
                           ? t("chat.you")
-                          : friendProfile?.name || name}
+                          : getSenderName(replyingTo)}
                       </CustomText>
                       <CustomText
                         fontSize={theme.fonts.sizes.small}
@@ -2785,7 +2507,41 @@ const getReplyPreviewText = (
                 </View>
               )}
 
-              {/* Input Field */}
+              {!isGroupMember ? (
+                <View style={{ padding: 16, alignItems: "center" }}>
+                  <CustomText
+                    fontSize={theme.fonts.sizes.small}
+                    color={theme.colors.secondaryText}
+                  >
+                    {t("group.notMember")}
+                  </CustomText>
+                </View>
+              ) : isBlocked ? (
+                <TouchableOpacity
+                  disabled={!blockStatus.blockedByMe}
+                  onPress={handleToggleBlock}
+                  style={{ padding: 16, alignItems: "center" }}
+                >
+                  <CustomText
+                    fontSize={theme.fonts.sizes.small}
+                    color={theme.colors.secondaryText}
+                  >
+                    {blockStatus.blockedByMe
+                      ? t("chat.youBlockedUser")
+                      : t("chat.cannotMessageUser")}
+                  </CustomText>
+                </TouchableOpacity>
+              ) : isReadOnly ? (
+                <View style={{ padding: 16, alignItems: "center" }}>
+                  <CustomText
+                    fontSize={theme.fonts.sizes.small}
+                    color={theme.colors.secondaryText}
+                  >
+                    {t("chat.notFriends")}
+                  </CustomText>
+                </View>
+              ) : (
+              /* Input Field */
               <View
                 style={{
                   flexDirection: "row",
@@ -2844,33 +2600,12 @@ const getReplyPreviewText = (
                         .toString()
                         .padStart(2, "0")}`}
                     </CustomText>
-                    <View
-                      style={{
-                        flex: 1,
-                        height: WAVEFORM_H,
-                        flexDirection: "row",
-                        alignItems: "flex-end",
-                        marginRight: 10,
-                      }}
-                      onLayout={(e) => {
-                        const w = e.nativeEvent.layout.width;
-                        if (w !== waveformWidth) setWaveformWidth(w);
-                      }}
-                    >
-                      {waveHeights.map((h, i) => (
-                        <View
-                          key={i}
-                          style={{
-                            width: BAR_WIDTH,
-                            height: h,
-                            borderRadius: 1,
-                            marginRight:
-                              i === waveHeights.length - 1 ? 0 : BAR_SPACING,
-                            backgroundColor: theme.colors.primary,
-                            opacity: 0.9,
-                          }}
-                        />
-                      ))}
+                    <View style={{ flex: 1, marginRight: 10 }}>
+                      <RecordingWaveform
+                        recording={recording}
+                        color={theme.colors.primary}
+                        onLevel={handleRecLevel}
+                      />
                     </View>
                     {/* Pause/Resume recording */}
                     <TouchableOpacity
@@ -2953,7 +2688,7 @@ const getReplyPreviewText = (
                             name:
                               replyingTo.sender === "user"
                                 ? t("chat.yourself")
-                                : friendProfile?.name || name,
+                                : getSenderName(replyingTo),
                           })
                         : t("chat.typeMessage")
                     }
@@ -3022,6 +2757,7 @@ const getReplyPreviewText = (
                   />
                 </TouchableOpacity>
               </View>
+              )}
             </View>
           </View>
         </KeyboardAvoidingView>
@@ -3146,28 +2882,60 @@ const getReplyPreviewText = (
                 >
                   {t("Gallery Options")}
                 </CustomText>
-                <TouchableOpacity
-                  onPress={pickMultipleMedia}
+                <View
                   style={{
-                    alignItems: "center",
-                    padding: 15,
-                    borderRadius: 12,
-                    backgroundColor: theme.colors.inputBackground,
+                    flexDirection: "row",
+                    justifyContent: "space-around",
                   }}
-                  disabled={uploading}
                 >
-                  <Ionicons
-                    name="images"
-                    size={24}
-                    color={theme.colors.primary}
-                  />
-                  <CustomText
-                    color={theme.colors.text}
-                    style={{ marginTop: 8, fontSize: 12 }}
+                  <TouchableOpacity
+                    onPress={pickMultipleMedia}
+                    style={{
+                      alignItems: "center",
+                      padding: 15,
+                      borderRadius: 12,
+                      backgroundColor: theme.colors.inputBackground,
+                      minWidth: 80,
+                    }}
+                    disabled={uploading}
                   >
-                    {t("Gallery")}
-                  </CustomText>
-                </TouchableOpacity>
+                    <Ionicons
+                      name="images"
+                      size={24}
+                      color={theme.colors.primary}
+                    />
+                    <CustomText
+                      color={theme.colors.text}
+                      style={{ marginTop: 8, fontSize: 12 }}
+                    >
+                      {t("Gallery")}
+                    </CustomText>
+                  </TouchableOpacity>
+
+                  <TouchableOpacity
+                    onPress={pickDocuments}
+                    style={{
+                      alignItems: "center",
+                      padding: 15,
+                      borderRadius: 12,
+                      backgroundColor: theme.colors.inputBackground,
+                      minWidth: 80,
+                    }}
+                    disabled={uploading}
+                  >
+                    <Ionicons
+                      name="document-attach"
+                      size={24}
+                      color={theme.colors.primary}
+                    />
+                    <CustomText
+                      color={theme.colors.text}
+                      style={{ marginTop: 8, fontSize: 12 }}
+                    >
+                      {t("chat.document")}
+                    </CustomText>
+                  </TouchableOpacity>
+                </View>
               </View>
             </View>
           </View>
@@ -3194,6 +2962,22 @@ const getReplyPreviewText = (
           onCopy={handleContextMenuCopy}
           onDownload={handleContextMenuDownload}
           isOwnMessage={contextMenu.message?.sender === "user"}
+          onReact={handleToggleReaction}
+          currentUserId={user?.uid}
+        />
+
+        {/* Who reacted */}
+        <ReactionDetailsSheet
+          visible={!!reactionSheetMessage}
+          onClose={() => setReactionSheetMessageId(null)}
+          reactions={reactionSheetMessage?.reactions}
+          currentUserId={user?.uid}
+          getUserName={getUserDisplayName}
+          getUserPhoto={getUserPhoto}
+          onRemove={(emoji) =>
+            reactionSheetMessage &&
+            handleToggleReaction(reactionSheetMessage, emoji)
+          }
         />
 
         {/* Media Preview Modal */}
@@ -0,0 +1,282 @@
+// components/CreateGroupPopup.tsx
+import { useLanguage } from "@/i18n";
+import { ChatService } from "@/services/chatService";
+import { UserService } from "@/services/userService";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Image,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { CustomSearchInput } from "./customSearchInput";
+import { CustomText } from "./CustomText";
+import { useThemeContext } from "./ThemeContext";
+import { useUser } from "./UserContext";
+
+interface CreateGroupPopupProps {
+  visible: boolean;
+  onClose: () => void;
+  onCreated?: (chatId: string, name: string) => void;
+}
+
+interface Friend {
+  id: string;
+  name: string;
+  photo?: string;
+}
+
+export const CreateGroupPopup: React.FC<CreateGroupPopupProps> = ({
+  visible,
+  onClose,
+  onCreated,
+}) => {
+  const { theme } = useThemeContext();
+  const { t } = useLanguage();
+  const { user } = useUser();
+  const [groupName, setGroupName] = useState("");
+  const [search, setSearch] = useState("");
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (!visible || !user?.uid) return;
+
+    const loadFriends = async () => {
+      setLoading(true);
+      try {
+        const friendsList: string[] = (user as any).friends || [];
+        const friendsData = await Promise.all(
+          friendsList.map(async (friendId) => {
+            try {
+              const friendUser = await UserService.getUserById(friendId);
+              return friendUser
+                ? { id: friendId, name: friendUser.name, photo: friendUser.photo || "" }
+                : null;
+            } catch (error) {
+              console.error("Error loading friend:", error);
+              return null;
+            }
+          })
+        );
+        setFriends(friendsData.filter(Boolean) as Friend[]);
+      } catch (error) {
+        console.error("Error loading friends:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadFriends();
+  }, [visible, user]);
+
+  const toggleSelection = (friendId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(friendId)) {
+      next.delete(friendId);
+    } else {
+      next.add(friendId);
+    }
+    setSelectedIds(next);
+  };
+
+  const resetState = () => {
+    setGroupName("");
+    setSearch("");
+    setSelectedIds(new Set());
+    setCreating(false);
+  };
+
+  const handleClose = () => {
+    resetState();
+    onClose();
+  };
+
+  const handleCreate = async () => {
+    if (!user?.uid) return;
+    if (!groupName.trim()) {
+      Alert.alert(t("common.error"), t("group.nameRequired"));
+      return;
+    }
+    if (selectedIds.size === 0) {
+      Alert.alert(t("common.error"), t("group.membersRequired"));
+      return;
+    }
+
+    try {
+      setCreating(true);
+      const name = groupName.trim();
+      const chatId = await ChatService.createGroupChat(
+        user.uid,
+        name,
+        Array.from(selectedIds)
+      );
+      resetState();
+      onClose();
+      onCreated?.(chatId, name);
+    } catch (error) {
+      console.error("Error creating group:", error);
+      Alert.alert(t("common.error"), t("group.createError"));
+      setCreating(false);
+    }
+  };
+
+  const filteredFriends = friends.filter((f) =>
+    f.name.toLowerCase().includes(search.toLowerCase())
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <SafeAreaView style={{ flex: 1, backgroundColor: theme.colors.background }}>
+        {/* Header */}
+        <View
+          style={{
+            flexDirection: "row",
+            alignItems: "center",
+            padding: 15,
+            borderBottomWidth: 1,
+            borderBottomColor: theme.colors.inputBackground,
+          }}
+        >
+          <TouchableOpacity onPress={handleClose} style={{ marginRight: 15 }}>
+            <Ionicons name="close" size={24} color={theme.colors.text} />
+          </TouchableOpacity>
+          <CustomText
+            fontSize={theme.fonts.sizes.title}
+            color={theme.colors.text}
+            style={{ flex: 1 }}
+          >
+            {t("group.newGroup")}
+          </CustomText>
+          <TouchableOpacity
+            onPress={handleCreate}
+            disabled={creating}
+            style={{
+              backgroundColor: theme.colors.primary,
+              paddingHorizontal: 15,
+              paddingVertical: 8,
+              borderRadius: 20,
+              opacity: creating ? 0.5 : 1,
+            }}
+          >
+            {creating ? (
+              <ActivityIndicator size="small" color={theme.colors.background} />
+            ) : (
+              <CustomText
+                fontSize={theme.fonts.sizes.small}
+                color={theme.colors.background}
+              >
+                {t("group.create")}
+              </CustomText>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {/* Group name */}
+        <View style={{ padding: 15 }}>
+          <TextInput
+            placeholder={t("group.groupNamePlaceholder")}
+            placeholderTextColor={theme.colors.secondaryText}
+            value={groupName}
+            onChangeText={setGroupName}
+            maxLength={50}
+            style={{
+              backgroundColor: theme.colors.inputBackground,
+              borderRadius: 12,
+              paddingHorizontal: 15,
+              paddingVertical: 12,
+              color: theme.colors.text,
+              fontSize: theme.fonts.sizes.regular,
+            }}
+          />
+          <CustomText
+            fontSize={theme.fonts.sizes.small}
+            color={theme.colors.secondaryText}
+            style={{ marginTop: 15, marginBottom: 5 }}
+          >
+            {t("group.selectMembers", { count: selectedIds.size })}
+          </CustomText>
+          <CustomSearchInput
+            placeholder={t("chat.searchFriends")}
+            value={search}
+            onChangeText={setSearch}
+          />
+        </View>
+
+        {/* Friends */}
+        {loading ? (
+          <View style={{ padding: 40, alignItems: "center" }}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={filteredFriends}
+            keyExtractor={(item) => item.id}
+            renderItem={({ item }) => {
+              const selected = selectedIds.has(item.id);
+              return (
+                <TouchableOpacity
+                  onPress={() => toggleSelection(item.id)}
+                  style={{
+                    flexDirection: "row",
+                    alignItems: "center",
+                    paddingVertical: 12,
+                    paddingHorizontal: 15,
+                    backgroundColor: selected
+                      ? theme.colors.primary + "20"
+                      : "transparent",
+                  }}
+                >
+                  <Image
+                    source={{ uri: item.photo || "https://via.placeholder.com/40" }}
+                    style={{ width: 40, height: 40, borderRadius: 20, marginRight: 12 }}
+                  />
+                  <CustomText
+                    color={theme.colors.text}
+                    fontSize={theme.fonts.sizes.regular}
+                    style={{ flex: 1 }}
+                  >
+                    {item.name}
+                  </CustomText>
+                  <Ionicons
+                    name={selected ? "checkmark-circle" : "ellipse-outline"}
+                    size={24}
+                    color={selected ? theme.colors.primary : theme.colors.secondaryText}
+                  />
+                </TouchableOpacity>
+              );
+            }}
+            ListEmptyComponent={
+              <View style={{ padding: 20, alignItems: "center" }}>
+                <Ionicons
+                  name="people-outline"
+                  size={48}
+                  color={theme.colors.secondaryText}
+                />
+                <CustomText
+                  color={theme.colors.secondaryText}
+                  style={{ marginTop: 10 }}
+                >
+                  {search ? t("chat.noFriendsFound") : t("chat.noFriendsAvailable")}
+                </CustomText>
+              </View>
+            }
+          />
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
@@ -0,0 +1,132 @@
+// components/FileMessageBubble.tsx
+import { useLanguage } from '@/i18n';
+import { fileIconName, formatFileSize, openFileAttachment } from '@/utils/fileAttachments';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, GestureResponderEvent, TouchableOpacity, View } from 'react-native';
+import { CustomText } from './CustomText';
+import { useThemeContext } from './ThemeContext';
+
+interface FileMessageBubbleProps {
+  url: string;
+  fileName?: string;
+  fileSize?: number;
+  isUser: boolean;
+  isUploading?: boolean;
+  uploadProgress?: number; // 0–1 while the outbox uploads it
+  onCancel?: () => void;
+  onLongPress?: (event: GestureResponderEvent) => void;
+}
+
+// Document attachment: icon, name and size; tap downloads it (with progress) and opens it
+export const FileMessageBubble: React.FC<FileMessageBubbleProps> = ({
+  url,
+  fileName,
+  fileSize,
+  isUser,
+  isUploading,
+  uploadProgress,
+  onCancel,
+  onLongPress,
+}) => {
+  const { theme } = useThemeContext();
+  const { t } = useLanguage();
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const name = fileName || t('chat.share_file');
+  const textColor = isUser ? 'white' : theme.colors.text;
+  const subColor = isUser ? 'rgba(255,255,255,0.8)' : theme.colors.secondaryText;
+
+  const handleOpen = async () => {
+    if (isUploading || progress !== null) return;
+    try {
+      setProgress(0);
+      await openFileAttachment(url, name, setProgress);
+    } catch (error) {
+      console.error('❌ Error opening file:', error);
+      Alert.alert(t('common.error'), t('chat.fileOpenError'));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const status = isUploading
+    ? uploadProgress !== undefined
+      ? `${t('chat.uploading')} ${Math.round(uploadProgress * 100)}%`
+      : t('chat.uploading')
+    : progress !== null
+      ? `${Math.round(progress * 100)}%`
+      : formatFileSize(fileSize);
+  // Upload while queued, download while opening
+  const barProgress = isUploading ? uploadProgress : progress ?? undefined;
+
+  return (
+    <TouchableOpacity
+      onPress={handleOpen}
+      onLongPress={onLongPress}
+      delayLongPress={150}
+      disabled={isUploading}
+      activeOpacity={0.8}
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        minWidth: 180,
+        maxWidth: 260,
+        paddingVertical: 6,
+      }}
+    >
+      <View
+        style={{
+          width: 40,
+          height: 40,
+          borderRadius: 8,
+          alignItems: 'center',
+          justifyContent: 'center',
+          marginRight: 10,
+          backgroundColor: isUser ? 'rgba(255,255,255,0.2)' : theme.colors.primary + '20',
+        }}
+      >
+        {isUploading || progress !== null ? (
+          <ActivityIndicator size="small" color={isUser ? 'white' : theme.colors.primary} />
+        ) : (
+          <Ionicons
+            name={fileIconName(name)}
+            size={22}
+            color={isUser ? 'white' : theme.colors.primary}
+          />
+        )}
+      </View>
+      <View style={{ flex: 1 }}>
+        <CustomText color={textColor} fontWeight="600" numberOfLines={2}>
+          {name}
+        </CustomText>
+        {!!status && (
+          <CustomText fontSize={theme.fonts.sizes.small} color={subColor} style={{ marginTop: 2 }}>
+            {status}
+          </CustomText>
+        )}
+      </View>
+      {isUploading && onCancel && (
+        <TouchableOpacity
+          onPress={onCancel}
+          accessibilityLabel={t('chat.cancelUpload')}
+          style={{ padding: 4, marginLeft: 6 }}
+        >
+          <Ionicons name="close-circle" size={22} color={subColor} />
+        </TouchableOpacity>
+      )}
+      {barProgress !== undefined && (
+        <View
+          style={{
+            position: 'absolute',
+            left: 0,
+            bottom: 0,
+            height: 2,
+            width: `${Math.round(barProgress * 100)}%`,
+            backgroundColor: isUser ? 'white' : theme.colors.primary,
+          }}
+        />
+      )}
+    </TouchableOpacity>
+  );
+};
@@ -1,5 +1,6 @@
 import { useLanguage } from "@/i18n";
-import { UserServiceSimple } from "@/services/userServiceSimple";
+import { FavoritesService } from "@/services/favoritesService";
+import { UserService } from "@/services/userService";
 import { Ionicons } from "@expo/vector-icons";
 import React, { useEffect, useState } from "react";
 import {
@@ -20,6 +21,9 @@ interface ForwardMessagePopupProps {
   onClose: () => void;
   onForward: (userIds: string[], caption?: string) => void;
   enableCaption?: boolean;
+  title?: string;
+  // What is being sent, shown above the friend list
+  preview?: React.ReactNode;
 }
 
 interface User {
@@ -27,6 +31,7 @@ interface User {
   name: string;
   photo?: string;
   isOnline?: boolean;
+  isFavorite?: boolean;
 }
 
 export const ForwardMessagePopup: React.FC<ForwardMessagePopupProps> = ({
@@ -34,6 +39,8 @@ export const ForwardMessagePopup: React.FC<ForwardMessagePopupProps> = ({
   onClose,
   onForward,
   enableCaption = false,
+  title,
+  preview,
 }) => {
   const { theme } = useThemeContext();
   const { t } = useLanguage();
@@ -57,11 +64,12 @@ export const ForwardMessagePopup: React.FC<ForwardMessagePopupProps> = ({
     try {
       // Get user's friends list
       const friendsList: string[] = (user as any).friends || [];
+      const favoritesPromise = FavoritesService.getFavorites(user.uid);
 
       const friendsData = await Promise.all(
         friendsList.map(async (friendId) => {
           try {
-            const friendUser = await UserServiceSimple.getUserById(friendId);
+            const friendUser = await UserService.getUserById(friendId);
             if (friendUser) {
               return {
                 id: friendId,
@@ -78,7 +86,17 @@ export const ForwardMessagePopup: React.FC<ForwardMessagePopupProps> = ({
         })
       );
 
-      setUsers(friendsData.filter(Boolean) as User[]);
+      // Starred contacts are offered first
+      const favoriteIds = new Set(
+        (await favoritesPromise).map((favorite) => favorite.partnerId)
+      );
+      const friends = (friendsData.filter(Boolean) as User[]).map((friend) => ({
+        ...friend,
+        isFavorite: favoriteIds.has(friend.id),
+      }));
+      setUsers(
+        friends.sort((a, b) => Number(!!b.isFavorite) - Number(!!a.isFavorite))
+      );
     } catch (error) {
       console.error("Error loading users:", error);
     } finally {
@@ -163,12 +181,13 @@ export const ForwardMessagePopup: React.FC<ForwardMessagePopupProps> = ({
               color={theme.colors.text}
               style={{ fontWeight: "bold" }}
             >
-              {t("chat.forwardMessage")}
+              {title || t("chat.forwardMessage")}
             </CustomText>
             <TouchableOpacity onPress={handleClose}>
               <Ionicons name="close" size={24} color={theme.colors.text} />
             </TouchableOpacity>
           </View>
+          {preview}
           {/* Search */}
           <CustomSearchInput
             placeholder={t("chat.searchFriends")}
@@ -268,13 +287,23 @@ export const ForwardMessagePopup: React.FC<ForwardMessagePopupProps> = ({
                   </View>
 
                   <View style={{ flex: 1 }}>
-                    <CustomText
-                      color={theme.colors.text}
-                      fontSize={theme.fonts.sizes.regular}
-                      style={{ fontWeight: "500" }}
-                    >
-                      {item.name}
-                    </CustomText>
+                    <View style={{ flexDirection: "row", alignItems: "center" }}>
+                      <CustomText
+                        color={theme.colors.text}
+                        fontSize={theme.fonts.sizes.regular}
+                        style={{ fontWeight: "500" }}
+                      >
+                        {item.name}
+                      </CustomText>
+                      {item.isFavorite && (
+                        <Ionicons
+                          name="star"
+                          size={14}
+                          color="#FFCC00"
+                          style={{ marginLeft: 5 }}
+                        />
+                      )}
+                    </View>
                     {item.isOnline && (
                       <CustomText
                         color={theme.colors.primary}
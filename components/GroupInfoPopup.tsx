@@ -0,0 +1,473 @@
+// components/GroupInfoPopup.tsx
+import { useLanguage } from "@/i18n";
+import { GroupService } from "@/services/groupService";
+import { AVATAR_MAX_DIMENSION, UploadService } from "@/services/uploadService";
+import { UserService } from "@/services/userService";
+import { Chat } from "@/types/models";
+import { Ionicons } from "@expo/vector-icons";
+import * as ImagePicker from "expo-image-picker";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Image,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { CustomText } from "./CustomText";
+import { useThemeContext } from "./ThemeContext";
+import { useUser } from "./UserContext";
+
+interface GroupInfoPopupProps {
+  visible: boolean;
+  onClose: () => void;
+  chatId: string;
+  chat: Chat | null;
+  members: Record<string, { name: string; photo: string }>;
+  onLeft?: () => void;
+}
+
+interface Friend {
+  id: string;
+  name: string;
+  photo?: string;
+}
+
+export const GroupInfoPopup: React.FC<GroupInfoPopupProps> = ({
+  visible,
+  onClose,
+  chatId,
+  chat,
+  members,
+  onLeft,
+}) => {
+  const { theme } = useThemeContext();
+  const { t } = useLanguage();
+  const { user } = useUser();
+  const [editingName, setEditingName] = useState(false);
+  const [nameDraft, setNameDraft] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [addingMembers, setAddingMembers] = useState(false);
+  const [candidates, setCandidates] = useState<Friend[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const participants = useMemo(() => chat?.participants || [], [chat?.participants]);
+  const adminIds = chat?.groupInfo?.adminIds || [];
+  const isAdmin = GroupService.isAdmin(chat, user?.uid);
+
+  useEffect(() => {
+    if (!visible) {
+      setEditingName(false);
+      setAddingMembers(false);
+      setSelectedIds(new Set());
+    }
+  }, [visible]);
+
+  // Friends that are not already in the group
+  useEffect(() => {
+    if (!addingMembers || !user?.uid) return;
+    const friendsList: string[] = (user as any).friends || [];
+    Promise.all(
+      friendsList
+        .filter((id) => !participants.includes(id))
+        .map(async (id) => {
+          try {
+            const friendUser = await UserService.getUserById(id);
+            return friendUser
+              ? { id, name: friendUser.name, photo: friendUser.photo || "" }
+              : null;
+          } catch {
+            return null;
+          }
+        })
+    ).then((list) => setCandidates(list.filter(Boolean) as Friend[]));
+  }, [addingMembers, user, participants]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      await action();
+    } catch (error: any) {
+      console.error("Group action failed:", error);
+      Alert.alert(t("common.error"), error?.message || t("group.actionError"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveName = () => {
+    if (!user?.uid || !nameDraft.trim()) return;
+    runAction(async () => {
+      await GroupService.renameGroup(chatId, user.uid, nameDraft);
+      setEditingName(false);
+    });
+  };
+
+  const handleChangePhoto = async () => {
+    if (!user?.uid || !isAdmin) return;
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.8,
+    });
+    if (result.canceled || !result.assets[0]) return;
+    runAction(async () => {
+      const url = await UploadService.upload(result.assets[0].uri, "image", {
+        maxDimension: AVATAR_MAX_DIMENSION,
+      });
+      await GroupService.updateGroupPhoto(chatId, user.uid, url);
+    });
+  };
+
+  const handleAddMembers = () => {
+    if (!user?.uid || selectedIds.size === 0) return;
+    runAction(async () => {
+      await GroupService.addMembers(chatId, user.uid, Array.from(selectedIds));
+      setSelectedIds(new Set());
+      setAddingMembers(false);
+    });
+  };
+
+  const handleMemberPress = (memberId: string) => {
+    if (!user?.uid || !isAdmin || memberId === user.uid) return;
+    const memberName = members[memberId]?.name || t("group.member");
+    const memberIsAdmin = adminIds.includes(memberId);
+
+    Alert.alert(memberName, undefined, [
+      memberIsAdmin
+        ? {
+            text: t("group.dismissAdmin"),
+            onPress: () =>
+              runAction(() => GroupService.demoteAdmin(chatId, user.uid, memberId)),
+          }
+        : {
+            text: t("group.makeAdmin"),
+            onPress: () =>
+              runAction(() => GroupService.promoteAdmin(chatId, user.uid, memberId)),
+          },
+      {
+        text: t("group.removeMember"),
+        style: "destructive",
+        onPress: () =>
+          runAction(() => GroupService.removeMember(chatId, user.uid, memberId)),
+      },
+      { text: t("common.cancel"), style: "cancel" },
+    ]);
+  };
+
+  const handleLeave = () => {
+    if (!user?.uid) return;
+    Alert.alert(t("group.leaveGroup"), t("group.leaveConfirm"), [
+      { text: t("common.cancel"), style: "cancel" },
+      {
+        text: t("group.leave"),
+        style: "destructive",
+        onPress: () =>
+          runAction(async () => {
+            await GroupService.leaveGroup(chatId, user.uid);
+            onClose();
+            onLeft?.();
+          }),
+      },
+    ]);
+  };
+
+  const toggleCandidate = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+
+  const renderMember = ({ item: memberId }: { item: string }) => {
+    const member = members[memberId];
+    return (
+      <TouchableOpacity
+        onPress={() => handleMemberPress(memberId)}
+        disabled={!isAdmin || memberId === user?.uid || busy}
+        style={{
+          flexDirection: "row",
+          alignItems: "center",
+          paddingVertical: 10,
+          paddingHorizontal: 15,
+        }}
+      >
+        <Image
+          source={{ uri: member?.photo || "https://via.placeholder.com/40" }}
+          style={{ width: 40, height: 40, borderRadius: 20, marginRight: 12 }}
+        />
+        <CustomText
+          color={theme.colors.text}
+          fontSize={theme.fonts.sizes.regular}
+          style={{ flex: 1 }}
+        >
+          {memberId === user?.uid ? t("chat.you") : member?.name || "…"}
+        </CustomText>
+        {adminIds.includes(memberId) && (
+          <View
+            style={{
+              borderWidth: 1,
+              borderColor: theme.colors.primary,
+              borderRadius: 10,
+              paddingHorizontal: 8,
+              paddingVertical: 2,
+            }}
+          >
+            <CustomText fontSize={theme.fonts.sizes.small} color={theme.colors.primary}>
+              {t("group.admin")}
+            </CustomText>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={{ flex: 1, backgroundColor: theme.colors.background }}>
+        {/* Header */}
+        <View
+          style={{
+            flexDirection: "row",
+            alignItems: "center",
+            padding: 15,
+            borderBottomWidth: 1,
+            borderBottomColor: theme.colors.inputBackground,
+          }}
+        >
+          <TouchableOpacity onPress={onClose} style={{ marginRight: 15 }}>
+            <Ionicons name="close" size={24} color={theme.colors.text} />
+          </TouchableOpacity>
+          <CustomText
+            fontSize={theme.fonts.sizes.title}
+            color={theme.colors.text}
+            style={{ flex: 1 }}
+          >
+            {t("group.groupInfo")}
+          </CustomText>
+          {busy && <ActivityIndicator size="small" color={theme.colors.primary} />}
+        </View>
+
+        {addingMembers ? (
+          <View style={{ flex: 1 }}>
+            <FlatList
+              data={candidates}
+              keyExtractor={(item) => item.id}
+              renderItem={({ item }) => {
+                const selected = selectedIds.has(item.id);
+                return (
+                  <TouchableOpacity
+                    onPress={() => toggleCandidate(item.id)}
+                    style={{
+                      flexDirection: "row",
+                      alignItems: "center",
+                      paddingVertical: 12,
+                      paddingHorizontal: 15,
+                      backgroundColor: selected
+                        ? theme.colors.primary + "20"
+                        : "transparent",
+                    }}
+                  >
+                    <Image
+                      source={{ uri: item.photo || "https://via.placeholder.com/40" }}
+                      style={{ width: 40, height: 40, borderRadius: 20, marginRight: 12 }}
+                    />
+                    <CustomText color={theme.colors.text} style={{ flex: 1 }}>
+                      {item.name}
+                    </CustomText>
+                    <Ionicons
+                      name={selected ? "checkmark-circle" : "ellipse-outline"}
+                      size={24}
+                      color={selected ? theme.colors.primary : theme.colors.secondaryText}
+                    />
+                  </TouchableOpacity>
+                );
+              }}
+              ListEmptyComponent={
+                <View style={{ padding: 20, alignItems: "center" }}>
+                  <CustomText color={theme.colors.secondaryText}>
+                    {t("chat.noFriendsAvailable")}
+                  </CustomText>
+                </View>
+              }
+            />
+            <View style={{ flexDirection: "row", padding: 15, gap: 12 }}>
+              <TouchableOpacity
+                onPress={() => setAddingMembers(false)}
+                style={{
+                  flex: 1,
+                  paddingVertical: 12,
+                  borderRadius: 12,
+                  borderWidth: 1,
+                  borderColor: theme.colors.border,
+                  alignItems: "center",
+                }}
+              >
+                <CustomText color={theme.colors.text}>{t("common.cancel")}</CustomText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleAddMembers}
+                disabled={selectedIds.size === 0 || busy}
+                style={{
+                  flex: 1,
+                  paddingVertical: 12,
+                  borderRadius: 12,
+                  backgroundColor:
+                    selectedIds.size > 0 ? theme.colors.primary : theme.colors.border,
+                  alignItems: "center",
+                }}
+              >
+                <CustomText color={theme.colors.background}>
+                  {t("group.addMembers")} ({selectedIds.size})
+                </CustomText>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <FlatList
+            data={participants}
+            keyExtractor={(item) => item}
+            renderItem={renderMember}
+            ListHeaderComponent={
+              <View style={{ alignItems: "center", padding: 20 }}>
+                <TouchableOpacity onPress={handleChangePhoto} disabled={!isAdmin || busy}>
+                  {chat?.groupInfo?.photo ? (
+                    <Image
+                      source={{ uri: chat.groupInfo.photo }}
+                      style={{ width: 100, height: 100, borderRadius: 50 }}
+                    />
+                  ) : (
+                    <View
+                      style={{
+                        width: 100,
+                        height: 100,
+                        borderRadius: 50,
+                        backgroundColor: theme.colors.inputBackground,
+                        justifyContent: "center",
+                        alignItems: "center",
+                      }}
+                    >
+                      <Ionicons name="people" size={48} color={theme.colors.primary} />
+                    </View>
+                  )}
+                  {isAdmin && (
+                    <View
+                      style={{
+                        position: "absolute",
+                        bottom: 0,
+                        right: 0,
+                        backgroundColor: theme.colors.primary,
+                        borderRadius: 14,
+                        width: 28,
+                        height: 28,
+                        justifyContent: "center",
+                        alignItems: "center",
+                      }}
+                    >
+                      <Ionicons name="camera" size={16} color="white" />
+                    </View>
+                  )}
+                </TouchableOpacity>
+
+                {editingName ? (
+                  <View
+                    style={{ flexDirection: "row", alignItems: "center", marginTop: 15 }}
+                  >
+                    <TextInput
+                      value={nameDraft}
+                      onChangeText={setNameDraft}
+                      autoFocus
+                      maxLength={50}
+                      style={{
+                        flex: 1,
+                        backgroundColor: theme.colors.inputBackground,
+                        borderRadius: 12,
+                        paddingHorizontal: 12,
+                        paddingVertical: 8,
+                        color: theme.colors.text,
+                      }}
+                    />
+                    <TouchableOpacity onPress={handleSaveName} style={{ marginLeft: 10 }}>
+                      <Ionicons name="checkmark" size={24} color={theme.colors.primary} />
+                    </TouchableOpacity>
+                  </View>
+                ) : (
+                  <TouchableOpacity
+                    disabled={!isAdmin}
+                    onPress={() => {
+                      setNameDraft(chat?.groupInfo?.name || "");
+                      setEditingName(true);
+                    }}
+                    style={{ flexDirection: "row", alignItems: "center", marginTop: 15 }}
+                  >
+                    <CustomText fontSize={theme.fonts.sizes.title} color={theme.colors.text}>
+                      {chat?.groupInfo?.name}
+                    </CustomText>
+                    {isAdmin && (
+                      <Ionicons
+                        name="pencil"
+                        size={16}
+                        color={theme.colors.secondaryText}
+                        style={{ marginLeft: 8 }}
+                      />
+                    )}
+                  </TouchableOpacity>
+                )}
+                <CustomText
+                  fontSize={theme.fonts.sizes.small}
+                  color={theme.colors.secondaryText}
+                  style={{ marginTop: 5 }}
+                >
+                  {t("group.membersCount", { count: participants.length })}
+                </CustomText>
+
+                {isAdmin && (
+                  <TouchableOpacity
+                    onPress={() => setAddingMembers(true)}
+                    style={{
+                      flexDirection: "row",
+                      alignItems: "center",
+                      alignSelf: "stretch",
+                      marginTop: 20,
+                    }}
+                  >
+                    <Ionicons name="person-add" size={22} color={theme.colors.primary} />
+                    <CustomText color={theme.colors.primary} style={{ marginLeft: 12 }}>
+                      {t("group.addMembers")}
+                    </CustomText>
+                  </TouchableOpacity>
+                )}
+              </View>
+            }
+            ListFooterComponent={
+              <TouchableOpacity
+                onPress={handleLeave}
+                disabled={busy}
+                style={{
+                  flexDirection: "row",
+                  alignItems: "center",
+                  padding: 20,
+                }}
+              >
+                <Ionicons name="exit-outline" size={22} color="#FF4D4D" />
+                <CustomText color="#FF4D4D" style={{ marginLeft: 12 }}>
+                  {t("group.leaveGroup")}
+                </CustomText>
+              </TouchableOpacity>
+            }
+          />
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
@@ -0,0 +1,61 @@
+// components/HighlightedText.tsx
+import { tokenize } from "@/services/searchIndexService";
+import React, { useMemo } from "react";
+import { Text } from "react-native";
+import { CustomText } from "./CustomText";
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+  color?: string;
+  highlightColor: string;
+  fontSize?: number;
+  numberOfLines?: number;
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Message text with each occurrence of a search term marked
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  query,
+  color,
+  highlightColor,
+  fontSize,
+  numberOfLines,
+}) => {
+  const parts = useMemo(() => {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) return [{ text, hit: false }];
+
+    const pattern = new RegExp(
+      `(${tokens.map(escapeRegExp).join("|")})`,
+      "gi"
+    );
+    return text
+      .split(pattern)
+      .filter(Boolean)
+      .map((part) => ({
+        text: part,
+        hit: tokens.some((token) => token === part.toLowerCase()),
+      }));
+  }, [text, query]);
+
+  return (
+    <CustomText color={color} fontSize={fontSize} numberOfLines={numberOfLines}>
+      {parts.map((part, index) =>
+        part.hit ? (
+          <Text
+            key={index}
+            style={{ backgroundColor: highlightColor, fontWeight: "600" }}
+          >
+            {part.text}
+          </Text>
+        ) : (
+          part.text
+        )
+      )}
+    </CustomText>
+  );
+};
@@ -0,0 +1,167 @@
+// components/MediaAttachmentPreview.tsx
+import { formatFileSize } from "@/utils/fileAttachments";
+import { Ionicons } from "@expo/vector-icons";
+import { ResizeMode, Video } from "expo-av";
+import React from "react";
+import { FlatList, Image, TouchableOpacity, View } from "react-native";
+import { CustomText } from "./CustomText";
+import { useThemeContext } from "./ThemeContext";
+
+// Media file type used for previews and uploads
+export type MediaFile = {
+  uri: string;
+  type: "image" | "video" | "file";
+  fileName: string;
+  mimeType?: string;
+  fileSize?: number;
+};
+
+interface MediaAttachmentPreviewProps {
+  selectedMediaFiles: MediaFile[];
+  setSelectedMediaFiles: React.Dispatch<React.SetStateAction<MediaFile[]>>;
+  uploading: boolean;
+}
+
+// Strip of picked media above the input, each removable before sending
+export const MediaAttachmentPreview = React.memo(
+  function MediaAttachmentPreview({
+    selectedMediaFiles,
+    setSelectedMediaFiles,
+    uploading,
+  }: MediaAttachmentPreviewProps) {
+    const { theme } = useThemeContext();
+
+    // Don't show preview during upload or if no media selected
+    if (selectedMediaFiles.length === 0 || uploading) return null;
+
+    return (
+      <View
+        style={{
+          backgroundColor: theme.colors.inputBackground,
+          padding: 10,
+          borderTopWidth: 1,
+          borderTopColor: theme.colors.border,
+        }}
+      >
+        {/* Close button */}
+        <TouchableOpacity
+          style={{
+            position: "absolute",
+            top: 5,
+            right: 5,
+            backgroundColor: "#CC0000",
+            borderRadius: 12,
+            width: 24,
+            height: 24,
+            justifyContent: "center",
+            alignItems: "center",
+            zIndex: 10,
+          }}
+          onPress={() => {
+            setSelectedMediaFiles([]);
+          }}
+        >
+          <Ionicons name="close" size={16} color="white" />
+        </TouchableOpacity>
+
+        {/* Media Preview - Optimized with FlatList for better performance */}
+        <FlatList
+          data={selectedMediaFiles}
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          keyExtractor={(item, index) => `media-${index}-${item.uri}`}
+          renderItem={({ item: media, index }) => (
+            <View style={{ margin: 5, position: "relative" }}>
+              {media.type === "file" ? (
+                <View
+                  style={{
+                    width: 80,
+                    height: 80,
+                    borderRadius: 8,
+                    padding: 6,
+                    justifyContent: "center",
+                    alignItems: "center",
+                    backgroundColor: theme.colors.background,
+                  }}
+                >
+                  <Ionicons
+                    name="document"
+                    size={24}
+                    color={theme.colors.primary}
+                  />
+                  <CustomText
+                    fontSize={theme.fonts.sizes.small}
+                    color={theme.colors.text}
+                    numberOfLines={1}
+                    style={{ marginTop: 4 }}
+                  >
+                    {media.fileName}
+                  </CustomText>
+                  <CustomText
+                    fontSize={theme.fonts.sizes.small}
+                    color={theme.colors.secondaryText}
+                  >
+                    {formatFileSize(media.fileSize)}
+                  </CustomText>
+                </View>
+              ) : media.type === "image" ? (
+                <Image
+                  source={{ uri: media.uri }}
+                  style={{ width: 80, height: 80, borderRadius: 8 }}
+                  resizeMode="cover"
+                  // Add fadeDuration to make image loading smoother
+                  fadeDuration={100}
+                />
+              ) : (
+                <View style={{ position: "relative" }}>
+                  <Video
+                    source={{ uri: media.uri }}
+                    style={{ width: 80, height: 80, borderRadius: 8 }}
+                    resizeMode={ResizeMode.COVER}
+                    shouldPlay={false}
+                  />
+                  <View
+                    style={{
+                      position: "absolute",
+                      top: 0,
+                      left: 0,
+                      right: 0,
+                      bottom: 0,
+                      justifyContent: "center",
+                      alignItems: "center",
+                      backgroundColor: "rgba(0,0,0,0.3)",
+                      borderRadius: 8,
+                    }}
+                  >
+                    <Ionicons name="play" size={24} color="white" />
+                  </View>
+                </View>
+              )}
+
+              {/* Remove individual media button */}
+              <TouchableOpacity
+                style={{
+                  position: "absolute",
+                  top: -5,
+                  right: -5,
+                  backgroundColor: "#CC0000",
+                  borderRadius: 12,
+                  width: 20,
+                  height: 20,
+                  justifyContent: "center",
+                  alignItems: "center",
+                }}
+                onPress={() => {
+                  setSelectedMediaFiles((prev) => prev.filter((_, i) => i !== index));
+                }}
+              >
+                <Ionicons name="close" size={12} color="white" />
+              </TouchableOpacity>
+            </View>
+          )}
+          contentContainerStyle={{ paddingRight: 30 }} // Space for close button
+        />
+      </View>
+    );
+  }
+);
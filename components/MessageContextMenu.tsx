@@ -1,11 +1,20 @@
 import { useLanguage } from '@/i18n';
+import type { Message } from '@/utils/chatMessages';
 import { Ionicons } from '@expo/vector-icons';
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Alert, Dimensions, Modal, TouchableOpacity, View } from 'react-native';
-import type { Message } from './ChatRoom';
 import { CustomText } from './CustomText';
 import { useThemeContext } from './ThemeContext';
 
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+const MORE_REACTIONS = [
+  '😀', '😁', '😅', '🤣', '😊', '😍', '😘', '😎',
+  '🤔', '🙄', '😴', '😡', '🤯', '🥳', '🥺', '😭',
+  '👏', '🙌', '👌', '✌️', '💪', '👎', '🔥', '💯',
+  '🎉', '✅', '❌', '💔', '⭐', '👀', '🤝', '🙈',
+];
+
 interface MessageContextMenuProps {
   visible: boolean;
   onClose: () => void;
@@ -17,6 +26,8 @@ interface MessageContextMenuProps {
   onDownload: (message: Message) => void;
   position: { x: number; y: number } | undefined;
   isOwnMessage: boolean;
+  onReact?: (message: Message, emoji: string) => void;
+  currentUserId?: string;
 }
 
 export const MessageContextMenu: React.FC<MessageContextMenuProps> = ({
@@ -30,9 +41,16 @@ export const MessageContextMenu: React.FC<MessageContextMenuProps> = ({
   onDownload,
   position = { x: 0, y: 0 },
   isOwnMessage,
+  onReact,
+  currentUserId,
 }) => {
   const { theme } = useThemeContext();
   const { t } = useLanguage();
+  const [showPicker, setShowPicker] = useState(false);
+
+  useEffect(() => {
+    if (!visible) setShowPicker(false);
+  }, [visible]);
 
   const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -40,7 +58,7 @@ export const MessageContextMenu: React.FC<MessageContextMenuProps> = ({
   const menuWidth = 150;
   
   // Check if message has any media (image, video, or audio)
-  const hasMedia = !!message?.mediaUrl && ['image', 'video', 'audio'].includes(message.mediaType || '');
+  const hasMedia = !!message?.mediaUrl && ['image', 'video', 'audio', 'file'].includes(message.mediaType || '');
   
   // Count menu items that will actually be shown
   const menuItemCount = [
@@ -120,8 +138,22 @@ export const MessageContextMenu: React.FC<MessageContextMenuProps> = ({
     onClose();
   };
 
+  const handleReact = (emoji: string) => {
+    onReact?.(message!, emoji);
+    onClose();
+  };
+
   if (!visible || !message) return null;
 
+  const canReact = !!onReact && !message.isUploading;
+  const reactionBarWidth = (QUICK_REACTIONS.length + 1) * 40 + 16;
+  const reactionBarX = Math.min(
+    Math.max(smartPosition.x, 10),
+    screenWidth - reactionBarWidth - 10
+  );
+  const hasReacted = (emoji: string) =>
+    !!currentUserId && !!message.reactions?.[emoji]?.includes(currentUserId);
+
   const menuItems = [
     {
       icon: 'copy-outline',
@@ -163,56 +195,136 @@ export const MessageContextMenu: React.FC<MessageContextMenuProps> = ({
         activeOpacity={1}
         onPress={onClose}
       >
-        <View
-          style={{
-            position: 'absolute',
-            top: smartPosition.y,
-            left: smartPosition.x,
-            backgroundColor: theme.colors.background,
-            borderRadius: 12,
-            padding: 8,
-            shadowColor: '#000',
-            shadowOffset: { width: 0, height: 4 },
-            shadowOpacity: 0.3,
-            shadowRadius: 8,
-            elevation: 8,
-            borderWidth: 1,
-            borderColor: theme.colors.border,
-            minWidth: menuWidth,
-            maxWidth: menuWidth + 50,
-            zIndex: 1000,
-          }}
-        >
-          {menuItems
-            .filter(item => item.show)
-            .map((item, index) => (
+        {/* Quick reaction bar */}
+        {canReact && (
+          <View
+            style={{
+              position: 'absolute',
+              top: Math.max(40, smartPosition.y - 60),
+              left: reactionBarX,
+              width: reactionBarWidth,
+              backgroundColor: theme.colors.background,
+              borderRadius: 24,
+              paddingHorizontal: 8,
+              paddingVertical: 4,
+              shadowColor: '#000',
+              shadowOffset: { width: 0, height: 4 },
+              shadowOpacity: 0.3,
+              shadowRadius: 8,
+              elevation: 8,
+              borderWidth: 1,
+              borderColor: theme.colors.border,
+              zIndex: 1001,
+            }}
+          >
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              {QUICK_REACTIONS.map((emoji) => (
+                <TouchableOpacity
+                  key={emoji}
+                  onPress={() => handleReact(emoji)}
+                  accessibilityLabel={t('chat.reactWith', { emoji })}
+                  style={{
+                    width: 40,
+                    height: 40,
+                    borderRadius: 20,
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    backgroundColor: hasReacted(emoji) ? theme.colors.primary + '30' : 'transparent',
+                  }}
+                >
+                  <CustomText fontSize={24}>{emoji}</CustomText>
+                </TouchableOpacity>
+              ))}
               <TouchableOpacity
-                key={item.title}
-                style={{
-                  flexDirection: 'row',
-                  alignItems: 'center',
-                  paddingVertical: 12,
-                  paddingHorizontal: 16,
-                  borderRadius: 8,
-                }}
-                onPress={item.onPress}
-                accessibilityLabel={item.title}
+                onPress={() => setShowPicker((prev) => !prev)}
+                accessibilityLabel={t('chat.moreReactions')}
+                style={{ width: 40, height: 40, alignItems: 'center', justifyContent: 'center' }}
               >
                 <Ionicons
-                  name={item.icon as any}
-                  size={20}
-                  color={item.title === t('chat.deleteMessage') ? '#ff4444' : theme.colors.text}
-                  style={{ marginRight: 12 }}
+                  name={showPicker ? 'close-circle-outline' : 'add-circle-outline'}
+                  size={26}
+                  color={theme.colors.secondaryText}
                 />
-                <CustomText
-                  color={item.title === t('chat.deleteMessage') ? '#ff4444' : theme.colors.text}
-                  fontSize={theme.fonts.sizes.regular}
-                >
-                  {item.title}
-                </CustomText>
               </TouchableOpacity>
-            ))}
-        </View>
+            </View>
+
+            {/* Full reaction picker */}
+            {showPicker && (
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', paddingVertical: 4 }}>
+                {MORE_REACTIONS.map((emoji) => (
+                  <TouchableOpacity
+                    key={emoji}
+                    onPress={() => handleReact(emoji)}
+                    accessibilityLabel={t('chat.reactWith', { emoji })}
+                    style={{
+                      width: (reactionBarWidth - 16) / 8,
+                      height: 36,
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      borderRadius: 18,
+                      backgroundColor: hasReacted(emoji) ? theme.colors.primary + '30' : 'transparent',
+                    }}
+                  >
+                    <CustomText fontSize={22}>{emoji}</CustomText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+
+        {!showPicker && (
+          <View
+            style={{
+              position: 'absolute',
+              top: smartPosition.y,
+              left: smartPosition.x,
+              backgroundColor: theme.colors.background,
+              borderRadius: 12,
+              padding: 8,
+              shadowColor: '#000',
+              shadowOffset: { width: 0, height: 4 },
+              shadowOpacity: 0.3,
+              shadowRadius: 8,
+              elevation: 8,
+              borderWidth: 1,
+              borderColor: theme.colors.border,
+              minWidth: menuWidth,
+              maxWidth: menuWidth + 50,
+              zIndex: 1000,
+            }}
+          >
+            {menuItems
+              .filter(item => item.show)
+              .map((item, index) => (
+                <TouchableOpacity
+                  key={item.title}
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    paddingVertical: 12,
+                    paddingHorizontal: 16,
+                    borderRadius: 8,
+                  }}
+                  onPress={item.onPress}
+                  accessibilityLabel={item.title}
+                >
+                  <Ionicons
+                    name={item.icon as any}
+                    size={20}
+                    color={item.title === t('chat.deleteMessage') ? '#ff4444' : theme.colors.text}
+                    style={{ marginRight: 12 }}
+                  />
+                  <CustomText
+                    color={item.title === t('chat.deleteMessage') ? '#ff4444' : theme.colors.text}
+                    fontSize={theme.fonts.sizes.regular}
+                  >
+                    {item.title}
+                  </CustomText>
+                </TouchableOpacity>
+              ))}
+          </View>
+        )}
       </TouchableOpacity>
     </Modal>
   );
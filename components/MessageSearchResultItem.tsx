@@ -0,0 +1,75 @@
+// components/MessageSearchResultItem.tsx
+import { HighlightedText } from '@/components/HighlightedText';
+import { CustomText } from '@/components/CustomText';
+import { useThemeContext } from '@/components/ThemeContext';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Image, StyleSheet, View } from 'react-native';
+
+interface MessageSearchResultItemProps {
+  name: string;
+  avatar?: string;
+  isGroup?: boolean;
+  text: string;
+  query: string;
+  time: string;
+}
+
+// One message hit in the Chats tab search, shown under the matching chats
+export const MessageSearchResultItem: React.FC<MessageSearchResultItemProps> = ({
+  name,
+  avatar,
+  isGroup,
+  text,
+  query,
+  time,
+}) => {
+  const { theme } = useThemeContext();
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      {isGroup && !avatar ? (
+        <View style={[styles.avatar, { backgroundColor: theme.colors.inputBackground, justifyContent: 'center', alignItems: 'center' }]}>
+          <Ionicons name="people" size={22} color={theme.colors.primary} />
+        </View>
+      ) : (
+        <Image source={{ uri: avatar || 'https://via.placeholder.com/44' }} style={styles.avatar} />
+      )}
+      <View style={{ flex: 1 }}>
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          <CustomText fontWeight="bold" color={theme.colors.text} numberOfLines={1} style={{ flex: 1 }}>
+            {name}
+          </CustomText>
+          <CustomText fontSize={theme.fonts.sizes.small} color={theme.colors.secondaryText}>
+            {time}
+          </CustomText>
+        </View>
+        <HighlightedText
+          text={text}
+          query={query}
+          color={theme.colors.secondaryText}
+          highlightColor={theme.colors.primary + '40'}
+          numberOfLines={2}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 10,
+    marginHorizontal: 5,
+    marginVertical: 2,
+    borderRadius: 8,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    marginRight: 12,
+  },
+});
@@ -0,0 +1,187 @@
+import { useLanguage } from '@/i18n';
+import { DEFAULT_USER_SETTINGS, UserService } from '@/services/userService';
+import { PresenceService } from '@/services/presenceService';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Alert, Modal, Switch, TouchableOpacity, View } from 'react-native';
+import { UserSettings } from '../types/models';
+import { CustomText } from './CustomText';
+import { useThemeContext } from './ThemeContext';
+
+interface PrivacySectionProps {
+  userId?: string;
+}
+
+const OPTIONS: { key: keyof UserSettings; icon: keyof typeof Ionicons.glyphMap; label: string; hint: string }[] = [
+  {
+    key: 'allowFriendRequests',
+    icon: 'person-add-outline',
+    label: 'profile.allowFriendRequests',
+    hint: 'profile.allowFriendRequestsHint',
+  },
+  {
+    key: 'showOnlineStatus',
+    icon: 'radio-button-on-outline',
+    label: 'profile.showOnlineStatus',
+    hint: 'profile.showOnlineStatusHint',
+  },
+  {
+    key: 'showLastSeen',
+    icon: 'time-outline',
+    label: 'profile.showLastSeen',
+    hint: 'profile.showLastSeenHint',
+  },
+];
+
+// Settings row that opens the privacy switches stored in users/{uid}.settings
+export const PrivacySection: React.FC<PrivacySectionProps> = ({ userId }) => {
+  const { theme, isDark } = useThemeContext();
+  const { t } = useLanguage();
+  const [isVisible, setIsVisible] = useState(false);
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+
+  useEffect(() => {
+    if (!userId) {
+      setSettings(DEFAULT_USER_SETTINGS);
+      return;
+    }
+    return UserService.subscribeToUserSettings(userId, setSettings);
+  }, [userId]);
+
+  const handleToggle = async (key: keyof UserSettings, value: boolean) => {
+    if (!userId) return;
+    const previous = settings;
+    setSettings({ ...settings, [key]: value });
+    try {
+      await UserService.updateUserSettings(userId, { [key]: value });
+      // Presence is filtered when written, so rewrite it under the new settings
+      if (key !== 'allowFriendRequests') {
+        await PresenceService.goOnline(userId);
+      }
+    } catch {
+      setSettings(previous);
+      Alert.alert(t('common.error'), t('profile.privacyError'));
+    }
+  };
+
+  const settingItemStyle = {
+    flexDirection: 'row' as const,
+    justifyContent: 'space-between' as const,
+    alignItems: 'center' as const,
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    backgroundColor: theme.colors.card,
+    borderRadius: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    width: '100%' as const,
+    elevation: 1,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+  };
+
+  const settingIconStyle = {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: theme.colors.primary + '20',
+    justifyContent: 'center' as const,
+    alignItems: 'center' as const,
+    marginRight: 12,
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={settingItemStyle} onPress={() => setIsVisible(true)}>
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          <View style={settingIconStyle}>
+            <Ionicons name="lock-closed-outline" size={16} color={theme.colors.primary} />
+          </View>
+          <CustomText fontSize={theme.fonts.sizes.regular} color={theme.colors.text}>
+            {t('profile.privacy')}
+          </CustomText>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={theme.colors.secondaryText} />
+      </TouchableOpacity>
+
+      <Modal
+        visible={isVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setIsVisible(false)}
+      >
+        <View style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'center',
+          alignItems: 'center',
+        }}>
+          <View style={{
+            backgroundColor: theme.colors.background,
+            borderRadius: 20,
+            padding: 20,
+            width: '90%',
+            shadowColor: '#000',
+            shadowOffset: { width: 0, height: 4 },
+            shadowOpacity: 0.3,
+            shadowRadius: 8,
+            elevation: 8,
+          }}>
+            {/* Header */}
+            <View style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: 20,
+            }}>
+              <CustomText
+                fontSize={theme.fonts.sizes.title}
+                color={theme.colors.text}
+                style={{ fontWeight: 'bold' }}
+              >
+                {t('profile.privacy')}
+              </CustomText>
+              <TouchableOpacity onPress={() => setIsVisible(false)}>
+                <Ionicons name="close" size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            {OPTIONS.map((option) => (
+              <View
+                key={option.key}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  paddingVertical: 12,
+                  paddingHorizontal: 8,
+                }}
+              >
+                <View style={settingIconStyle}>
+                  <Ionicons name={option.icon} size={16} color={theme.colors.primary} />
+                </View>
+                <View style={{ flex: 1, marginRight: 12 }}>
+                  <CustomText fontSize={theme.fonts.sizes.regular} color={theme.colors.text}>
+                    {t(option.label)}
+                  </CustomText>
+                  <CustomText fontSize={theme.fonts.sizes.small} color={theme.colors.secondaryText}>
+                    {t(option.hint)}
+                  </CustomText>
+                </View>
+                <Switch
+                  value={settings[option.key]}
+                  onValueChange={(value) => handleToggle(option.key, value)}
+                  trackColor={{ false: '#E5E7EB', true: theme.colors.primary + '60' }}
+                  thumbColor={isDark ? theme.colors.primary : '#FFFFFF'}
+                  ios_backgroundColor={theme.colors.surface}
+                />
+              </View>
+            ))}
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+};
@@ -0,0 +1,168 @@
+// components/ReactionDetailsSheet.tsx
+import { useLanguage } from "@/i18n";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  FlatList,
+  Image,
+  Modal,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { CustomText } from "./CustomText";
+import { useThemeContext } from "./ThemeContext";
+
+interface ReactionDetailsSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  reactions: { [emoji: string]: string[] } | undefined;
+  currentUserId?: string;
+  getUserName: (userId: string) => string;
+  getUserPhoto?: (userId: string) => string | undefined;
+  onRemove: (emoji: string) => void;
+}
+
+const ALL = "all";
+
+// "Who reacted" sheet opened from the reaction chips under a bubble
+export const ReactionDetailsSheet: React.FC<ReactionDetailsSheetProps> = ({
+  visible,
+  onClose,
+  reactions,
+  currentUserId,
+  getUserName,
+  getUserPhoto,
+  onRemove,
+}) => {
+  const { theme } = useThemeContext();
+  const { t } = useLanguage();
+  const [filter, setFilter] = useState<string>(ALL);
+
+  useEffect(() => {
+    if (!visible) setFilter(ALL);
+  }, [visible]);
+
+  const emojis = useMemo(
+    () =>
+      Object.entries(reactions || {})
+        .filter(([, userIds]) => userIds.length > 0)
+        .sort((a, b) => b[1].length - a[1].length),
+    [reactions]
+  );
+
+  const rows = useMemo(
+    () =>
+      emojis
+        .filter(([emoji]) => filter === ALL || emoji === filter)
+        .flatMap(([emoji, userIds]) =>
+          userIds.map((userId) => ({ key: `${emoji}_${userId}`, emoji, userId }))
+        ),
+    [emojis, filter]
+  );
+
+  const total = emojis.reduce((sum, [, userIds]) => sum + userIds.length, 0);
+
+  const renderFilter = (key: string, label: string) => (
+    <TouchableOpacity
+      key={key}
+      onPress={() => setFilter(key)}
+      style={{
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        marginRight: 8,
+        backgroundColor:
+          filter === key ? theme.colors.primary + "30" : theme.colors.inputBackground,
+      }}
+    >
+      <CustomText fontSize={theme.fonts.sizes.small} color={theme.colors.text}>
+        {label}
+      </CustomText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={{ flex: 1, backgroundColor: "rgba(0,0,0,0.4)" }}
+        activeOpacity={1}
+        onPress={onClose}
+      />
+      <View
+        style={{
+          backgroundColor: theme.colors.background,
+          borderTopLeftRadius: 16,
+          borderTopRightRadius: 16,
+          paddingTop: 12,
+          paddingBottom: 30,
+          maxHeight: "60%",
+        }}
+      >
+        <View
+          style={{
+            alignSelf: "center",
+            width: 40,
+            height: 4,
+            borderRadius: 2,
+            backgroundColor: theme.colors.inputBackground,
+            marginBottom: 12,
+          }}
+        />
+        <View style={{ flexDirection: "row", paddingHorizontal: 15, marginBottom: 8 }}>
+          {renderFilter(ALL, t("chat.allReactions", { count: total }))}
+          {emojis.map(([emoji, userIds]) =>
+            renderFilter(emoji, `${emoji} ${userIds.length}`)
+          )}
+        </View>
+
+        <FlatList
+          data={rows}
+          keyExtractor={(item) => item.key}
+          renderItem={({ item }) => {
+            const isMine = item.userId === currentUserId;
+            return (
+              <TouchableOpacity
+                disabled={!isMine}
+                onPress={() => {
+                  onRemove(item.emoji);
+                  onClose();
+                }}
+                style={{
+                  flexDirection: "row",
+                  alignItems: "center",
+                  paddingVertical: 10,
+                  paddingHorizontal: 15,
+                }}
+              >
+                <Image
+                  source={{
+                    uri: getUserPhoto?.(item.userId) || "https://via.placeholder.com/40",
+                  }}
+                  style={{ width: 36, height: 36, borderRadius: 18, marginRight: 12 }}
+                />
+                <View style={{ flex: 1 }}>
+                  <CustomText color={theme.colors.text}>
+                    {getUserName(item.userId)}
+                  </CustomText>
+                  {isMine && (
+                    <CustomText
+                      fontSize={theme.fonts.sizes.small}
+                      color={theme.colors.secondaryText}
+                    >
+                      {t("chat.tapToRemoveReaction")}
+                    </CustomText>
+                  )}
+                </View>
+                <CustomText fontSize={22}>{item.emoji}</CustomText>
+              </TouchableOpacity>
+            );
+          }}
+        />
+      </View>
+    </Modal>
+  );
+};
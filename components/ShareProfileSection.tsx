@@ -0,0 +1,73 @@
+import { useLanguage } from '@/i18n';
+import { buildProfileLink } from '@/utils/deepLinks';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Share, TouchableOpacity, View } from 'react-native';
+import { CustomText } from './CustomText';
+import { useThemeContext } from './ThemeContext';
+
+interface ShareProfileSectionProps {
+  userId?: string;
+}
+
+// Settings row that shares a chatappexpo://user/{uid} link; opening it shows Add Friend
+export const ShareProfileSection: React.FC<ShareProfileSectionProps> = ({ userId }) => {
+  const { theme } = useThemeContext();
+  const { t } = useLanguage();
+
+  const handleShare = async () => {
+    if (!userId) return;
+    const link = buildProfileLink(userId);
+    try {
+      await Share.share({
+        message: t('profile.shareProfileMessage', { link }),
+        url: link,
+      });
+    } catch (error) {
+      console.error('❌ Error sharing profile link:', error);
+    }
+  };
+
+  const settingItemStyle = {
+    flexDirection: 'row' as const,
+    justifyContent: 'space-between' as const,
+    alignItems: 'center' as const,
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    backgroundColor: theme.colors.card,
+    borderRadius: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    width: '100%' as const,
+    elevation: 1,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+  };
+
+  const settingIconStyle = {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: theme.colors.primary + '20',
+    justifyContent: 'center' as const,
+    alignItems: 'center' as const,
+    marginRight: 12,
+  };
+
+  return (
+    <TouchableOpacity style={settingItemStyle} onPress={handleShare} disabled={!userId}>
+      <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+        <View style={settingIconStyle}>
+          <Ionicons name="share-social-outline" size={16} color={theme.colors.primary} />
+        </View>
+        <CustomText fontSize={theme.fonts.sizes.regular} color={theme.colors.text}>
+          {t('profile.shareProfile')}
+        </CustomText>
+      </View>
+      <Ionicons name="chevron-forward" size={20} color={theme.colors.secondaryText} />
+    </TouchableOpacity>
+  );
+};
@@ -0,0 +1,129 @@
+// components/ShareTarget.tsx
+import { useLanguage } from '@/i18n';
+import { SharedItem, ShareService } from '@/services/shareService';
+import { formatFileSize } from '@/utils/fileAttachments';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Image, ScrollView, View } from 'react-native';
+import { CustomText } from './CustomText';
+import { ForwardMessagePopup } from './ForwardMessagePopup';
+import { useThemeContext } from './ThemeContext';
+import { useUser } from './UserContext';
+
+interface ShareTargetProps {
+  items: SharedItem[];
+  // Called once the items were sent, or the user backed out
+  onDone: () => void;
+}
+
+const ICONS: Record<SharedItem['kind'], keyof typeof Ionicons.glyphMap> = {
+  text: 'chatbox-ellipses-outline',
+  url: 'link-outline',
+  image: 'image-outline',
+  video: 'videocam-outline',
+  audio: 'musical-notes-outline',
+  file: 'document-outline',
+};
+
+// Friend picker with a preview of what is being sent. Used for camera captures and
+// for content shared into the app from elsewhere.
+export const ShareTarget: React.FC<ShareTargetProps> = ({ items, onDone }) => {
+  const { theme } = useThemeContext();
+  const { t } = useLanguage();
+  const { user } = useUser();
+  const [sending, setSending] = useState(false);
+  // The picker closes itself right after onForward; that close must not end the flow
+  const sendStarted = useRef(false);
+
+  const handleClose = useCallback(() => {
+    if (!sendStarted.current) onDone();
+  }, [onDone]);
+
+  const handleSend = useCallback(
+    async (userIds: string[], caption?: string) => {
+      if (!user?.uid) return onDone();
+      sendStarted.current = true;
+      try {
+        setSending(true);
+        await ShareService.send(items, userIds, user.uid, caption);
+        Alert.alert(t('common.success'), t('chat.shareSent'));
+      } catch (e) {
+        console.error('❌ Share error:', e);
+        Alert.alert(t('common.error'), t('chat.shareError'));
+      } finally {
+        setSending(false);
+        onDone();
+      }
+    },
+    [items, user?.uid, t, onDone]
+  );
+
+  const preview = (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={{ marginBottom: 15, flexGrow: 0 }}
+    >
+      {items.map((item, index) => (
+        <View
+          key={`${item.kind}_${index}`}
+          style={{
+            width: item.kind === 'text' || item.kind === 'url' ? 200 : 90,
+            height: 90,
+            borderRadius: 12,
+            marginRight: 8,
+            overflow: 'hidden',
+            backgroundColor: theme.colors.inputBackground,
+            justifyContent: 'center',
+            alignItems: 'center',
+            padding: item.kind === 'image' ? 0 : 8,
+          }}
+        >
+          {item.kind === 'image' && item.uri ? (
+            <Image source={{ uri: item.uri }} style={{ width: '100%', height: '100%' }} />
+          ) : item.kind === 'text' || item.kind === 'url' ? (
+            <CustomText
+              fontSize={theme.fonts.sizes.small}
+              color={item.kind === 'url' ? theme.colors.primary : theme.colors.text}
+              numberOfLines={4}
+            >
+              {item.text}
+            </CustomText>
+          ) : (
+            <>
+              <Ionicons name={ICONS[item.kind]} size={28} color={theme.colors.primary} />
+              <CustomText
+                fontSize={theme.fonts.sizes.small}
+                color={theme.colors.text}
+                numberOfLines={1}
+                style={{ marginTop: 4 }}
+              >
+                {item.fileName || t(`chat.share_${item.kind}`)}
+              </CustomText>
+              {!!item.size && (
+                <CustomText fontSize={theme.fonts.sizes.small} color={theme.colors.secondaryText}>
+                  {formatFileSize(item.size)}
+                </CustomText>
+              )}
+            </>
+          )}
+        </View>
+      ))}
+    </ScrollView>
+  );
+
+  return (
+    <View style={{ flex: 1, backgroundColor: 'black', justifyContent: 'center', alignItems: 'center' }}>
+      {sending && <ActivityIndicator size="large" color="#fff" />}
+
+      <ForwardMessagePopup
+        visible={!sending && items.length > 0}
+        onClose={handleClose}
+        onForward={handleSend}
+        enableCaption
+        title={t('chat.shareTitle')}
+        preview={preview}
+      />
+    </View>
+  );
+};
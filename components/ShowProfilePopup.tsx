@@ -14,6 +14,10 @@ interface ShowProfilePopupProps {
     designation?: string;
   } | null;
   loading?: boolean;
+  // Friend and block controls are shown only when their handlers are given
+  isBlocked?: boolean;
+  onToggleBlock?: () => void;
+  onUnfriend?: () => void;
 }
 
 export function ShowProfilePopup({
@@ -21,6 +25,9 @@ export function ShowProfilePopup({
   onClose,
   user,
   loading,
+  isBlocked,
+  onToggleBlock,
+  onUnfriend,
 }: ShowProfilePopupProps) {
   const { theme } = useThemeContext();
   const { t } = useLanguage();
@@ -106,6 +113,46 @@ export function ShowProfilePopup({
                     </CustomText>
                   </View>
                 </View>
+
+                {onUnfriend && (
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={onUnfriend}
+                  >
+                    <Ionicons
+                      name="person-remove-outline"
+                      size={20}
+                      color="#FF3B30"
+                      style={styles.icon}
+                    />
+                    <CustomText
+                      fontSize={theme.fonts.sizes.regular}
+                      color="#FF3B30"
+                    >
+                      {t("profile.unfriend")}
+                    </CustomText>
+                  </TouchableOpacity>
+                )}
+
+                {onToggleBlock && (
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={onToggleBlock}
+                  >
+                    <Ionicons
+                      name={isBlocked ? "checkmark-circle-outline" : "ban-outline"}
+                      size={20}
+                      color={isBlocked ? theme.colors.primary : "#FF3B30"}
+                      style={styles.icon}
+                    />
+                    <CustomText
+                      fontSize={theme.fonts.sizes.regular}
+                      color={isBlocked ? theme.colors.primary : "#FF3B30"}
+                    >
+                      {isBlocked ? t("profile.unblockUser") : t("profile.blockUser")}
+                    </CustomText>
+                  </TouchableOpacity>
+                )}
               </>
             ) : (
               <CustomText
@@ -167,6 +214,13 @@ const styles = StyleSheet.create({
   icon: {
     marginRight: 10,
   },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    marginTop: 16,
+    paddingVertical: 8,
+  },
   text: {
     flexShrink: 1,
   },
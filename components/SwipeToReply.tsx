@@ -0,0 +1,128 @@
+// components/SwipeToReply.tsx
+import React, { useRef } from "react";
+import { Animated, PanResponder, View } from "react-native";
+import { CustomText } from "./CustomText";
+import { useThemeContext } from "./ThemeContext";
+
+interface SwipeToReplyProps {
+  children: React.ReactNode;
+  onSwipeReply: () => void;
+  enabled?: boolean;
+}
+
+// Drag a message to the right to reply to it
+export const SwipeToReply: React.FC<SwipeToReplyProps> = ({
+  children,
+  onSwipeReply,
+  enabled = true,
+}) => {
+  const { theme } = useThemeContext();
+  const translateX = useRef(new Animated.Value(0)).current;
+  const isSwiping = useRef(false);
+
+  const panResponder = PanResponder.create({
+    onStartShouldSetPanResponder: () => enabled,
+    onMoveShouldSetPanResponder: (evt, gestureState) => {
+      // Only activate if it's a horizontal swipe (not vertical scrolling)
+      return (
+        Math.abs(gestureState.dx) > Math.abs(gestureState.dy) * 2 &&
+        gestureState.dx > 0
+      );
+    },
+    onPanResponderMove: (evt, gestureState) => {
+      if (!enabled) return;
+
+      isSwiping.current = true;
+      const newTranslateX = Math.min(gestureState.dx, 100); // Limit swipe distance
+      translateX.setValue(newTranslateX);
+    },
+    onPanResponderRelease: (evt, gestureState) => {
+      if (!enabled || !isSwiping.current) {
+        Animated.spring(translateX, {
+          toValue: 0,
+          useNativeDriver: true,
+        }).start();
+        return;
+      }
+
+      if (gestureState.dx > 50) {
+        onSwipeReply();
+      }
+
+      Animated.spring(translateX, {
+        toValue: 0,
+        useNativeDriver: true,
+      }).start();
+      isSwiping.current = false;
+    },
+    onPanResponderTerminate: () => {
+      Animated.spring(translateX, {
+        toValue: 0,
+        useNativeDriver: true,
+      }).start();
+      isSwiping.current = false;
+    },
+  });
+
+  const replyIconStyle = {
+    opacity: translateX.interpolate({
+      inputRange: [20, 50],
+      outputRange: [0, 1],
+      extrapolate: "clamp",
+    }),
+    transform: [
+      {
+        scale: translateX.interpolate({
+          inputRange: [20, 50],
+          outputRange: [0.8, 1],
+          extrapolate: "clamp",
+        }),
+      },
+    ],
+  };
+
+  return (
+    <View style={{ position: "relative" }}>
+      {/* Reply icon that appears during swipe */}
+      <Animated.View
+        style={[
+          {
+            position: "absolute",
+            left: 20,
+            top: 0,
+            bottom: 0,
+            justifyContent: "center",
+            alignItems: "center",
+            zIndex: 1,
+          },
+          replyIconStyle,
+        ]}
+      >
+        <View
+          style={{
+            width: 32,
+            height: 32,
+            borderRadius: 16,
+            backgroundColor: theme.colors.primary,
+            justifyContent: "center",
+            alignItems: "center",
+          }}
+        >
+          <CustomText color="white" fontSize={16}>
+            ↩
+          </CustomText>
+        </View>
+      </Animated.View>
+
+      {/* Message content */}
+      <Animated.View
+        style={{
+          transform: [{ translateX }],
+        }}
+        {...panResponder.panHandlers}
+      >
+        {children}
+      </Animated.View>
+    </View>
+  );
+};
@@ -1,15 +1,16 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { User } from '../types/models';
-// import { UserService } from '../services/userService';
-import { UserServiceSimple } from '../services/userServiceSimple';
+import { FriendService } from '../services/friendService';
+import { SchemaMigration } from '../services/schemaMigration';
 import { ServiceInitializer } from '../services/serviceInitializer';
+import { UserService } from '../services/userService';
 
 // Extended user type for authentication data
 interface AuthUser extends User {
   displayName?: string;
   photoURL?: string;
-  friends?: string[];
+  friends?: string[]; // Friend ids, read through FriendService.getFriendIds
 }
 
 interface UserContextType {
@@ -54,7 +55,7 @@ export const UserProvider = ({ children }: { children: React.ReactNode }) => {
               console.log('🔍 UserContext DEBUG: Verifying user exists in Firestore:', userData.uid);
               // Use simple service to avoid exists check issues
               console.log('✅ UserContext DEBUG: Ensuring user exists and updating online status');
-              await UserServiceSimple.createOrUpdateUser({
+              await UserService.createOrUpdateUser({
                 uid: userData.uid,
                 name: userData.name || userData.displayName || 'Anonymous',
                 email: userData.email || '',
@@ -78,6 +79,26 @@ export const UserProvider = ({ children }: { children: React.ReactNode }) => {
     loadUser();
   }, []);
 
+  // Older accounts are rewritten to the current document format once, then the
+  // friend ids are read back from what it wrote
+  useEffect(() => {
+    const uid = user?.uid;
+    if (!uid) return;
+    let cancelled = false;
+
+    SchemaMigration.run(uid)
+      .then(() => FriendService.getFriendIds(uid))
+      .then((friends) => {
+        if (cancelled) return;
+        setUser((prev) => (prev?.uid === uid ? { ...prev, friends } : prev));
+      })
+      .catch((error) => console.error('❌ Failed to load friends:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.uid]);
+
   const saveUserToStorage = async (userData: AuthUser) => {
     try {
       await AsyncStorage.setItem('user', JSON.stringify(userData));
@@ -90,7 +111,7 @@ export const UserProvider = ({ children }: { children: React.ReactNode }) => {
   const clearUserFromStorage = async () => {
     try {
       if (user?.uid) {
-        await UserServiceSimple.updateOnlineStatus(user.uid, false);
+        await UserService.updateOnlineStatus(user.uid, false);
       }
       await AsyncStorage.removeItem('user');
       setUser(null);
@@ -102,7 +123,7 @@ export const UserProvider = ({ children }: { children: React.ReactNode }) => {
   const updateUserOnlineStatus = async (isOnline: boolean) => {
     if (user?.uid) {
       try {
-        await UserServiceSimple.updateOnlineStatus(user.uid, isOnline);
+        await UserService.updateOnlineStatus(user.uid, isOnline);
         setUser(prev => prev ? { ...prev, isOnline } : null);
       } catch (error) {
         console.error('Failed to update online status:', error);
@@ -113,9 +134,12 @@ export const UserProvider = ({ children }: { children: React.ReactNode }) => {
   const refreshUserData = async () => {
     if (user?.uid) {
       try {
-        const updatedUser = await UserServiceSimple.getUserById(user.uid);
+        const [updatedUser, friends] = await Promise.all([
+          UserService.getUserById(user.uid),
+          FriendService.getFriendIds(user.uid),
+        ]);
         if (updatedUser) {
-          const mergedUser = { ...user, ...updatedUser };
+          const mergedUser = { ...user, ...updatedUser, friends };
           setUser(mergedUser);
           await AsyncStorage.setItem('user', JSON.stringify(mergedUser));
         }
@@ -0,0 +1,115 @@
+// components/VoiceMiniPlayer.tsx
+import { useVoicePlayer } from '@/hooks/useVoicePlayer';
+import { useLanguage } from '@/i18n';
+import { VoicePlayerService } from '@/services/voicePlayerService';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { TouchableOpacity, View } from 'react-native';
+import { CustomText } from './CustomText';
+import { useThemeContext } from './ThemeContext';
+import { formatMsToClock, formatRate } from './VoiceNoteBubble';
+
+interface VoiceMiniPlayerProps {
+  visibleIds: Set<string>; // Messages on screen; hidden while the playing one is
+  onPress: (messageId: string) => void; // Jump back to the note
+}
+
+// Keeps the current voice note controllable after it has been scrolled out of view
+export const VoiceMiniPlayer: React.FC<VoiceMiniPlayerProps> = ({ visibleIds, onPress }) => {
+  const { theme } = useThemeContext();
+  const { t } = useLanguage();
+  const { track, isPlaying, positionMillis, durationMillis, rate } = useVoicePlayer();
+
+  if (!track || visibleIds.has(track.id)) return null;
+
+  const progress = durationMillis > 0 ? Math.min(1, positionMillis / durationMillis) : 0;
+
+  return (
+    <TouchableOpacity
+      activeOpacity={0.9}
+      onPress={() => onPress(track.id)}
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        backgroundColor: theme.colors.card,
+        borderBottomWidth: 1,
+        borderBottomColor: theme.colors.border,
+      }}
+    >
+      <TouchableOpacity
+        onPress={() =>
+          isPlaying ? VoicePlayerService.pause() : VoicePlayerService.toggle(track)
+        }
+        accessibilityLabel={t(isPlaying ? 'chat.pauseVoiceNote' : 'chat.playVoiceNote')}
+        style={{
+          width: 32,
+          height: 32,
+          borderRadius: 16,
+          alignItems: 'center',
+          justifyContent: 'center',
+          backgroundColor: theme.colors.primary,
+          marginRight: 10,
+        }}
+      >
+        <Ionicons name={isPlaying ? 'pause' : 'play'} size={16} color="white" />
+      </TouchableOpacity>
+
+      <View style={{ flex: 1 }}>
+        <CustomText numberOfLines={1} fontWeight="600" color={theme.colors.text}>
+          {track.title || t('chat.voiceNote')}
+        </CustomText>
+        <View
+          style={{
+            height: 3,
+            borderRadius: 2,
+            marginTop: 6,
+            backgroundColor: theme.colors.border,
+            overflow: 'hidden',
+          }}
+        >
+          <View
+            style={{
+              height: 3,
+              width: `${Math.round(progress * 100)}%`,
+              backgroundColor: theme.colors.primary,
+            }}
+          />
+        </View>
+      </View>
+
+      <CustomText
+        fontSize={theme.fonts.sizes.small}
+        color={theme.colors.secondaryText}
+        style={{ marginLeft: 10, fontVariant: ['tabular-nums'] }}
+      >
+        {formatMsToClock(positionMillis)}
+      </CustomText>
+
+      <TouchableOpacity
+        onPress={() => VoicePlayerService.cycleRate()}
+        accessibilityLabel={t('chat.playbackSpeed')}
+        style={{
+          marginLeft: 8,
+          paddingHorizontal: 6,
+          paddingVertical: 2,
+          borderRadius: 8,
+          backgroundColor: theme.colors.primary + '20',
+        }}
+      >
+        <CustomText color={theme.colors.primary} fontSize={12} fontWeight="600">
+          {formatRate(rate)}
+        </CustomText>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        onPress={() => VoicePlayerService.stop()}
+        accessibilityLabel={t('chat.closePlayer')}
+        style={{ padding: 4, marginLeft: 6 }}
+      >
+        <Ionicons name="close" size={20} color={theme.colors.secondaryText} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+};
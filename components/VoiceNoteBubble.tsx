@@ -0,0 +1,161 @@
+// components/VoiceNoteBubble.tsx
+import { useVoicePlayer } from '@/hooks/useVoicePlayer';
+import { useLanguage } from '@/i18n';
+import { VoicePlayerService, VoiceTrack } from '@/services/voicePlayerService';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Alert, TouchableOpacity, View } from 'react-native';
+import { CustomText } from './CustomText';
+import { useThemeContext } from './ThemeContext';
+import { VoiceWaveform } from './VoiceWaveform';
+
+// Notes sent before waveforms were recorded get a gentle placeholder shape
+const PLACEHOLDER_LEVELS = [0.3, 0.55, 0.8, 1, 0.8, 0.55, 0.3, 0.45, 0.7, 0.5];
+
+export const formatMsToClock = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+export const formatRate = (rate: number) => `${rate}×`;
+
+interface VoiceNoteBubbleProps {
+  track: VoiceTrack;
+  getNext: () => VoiceTrack[]; // Voice notes right after this one, for auto-play
+  levels?: number[];
+  durationMillis?: number; // Stored or probed; the player's value wins once loaded
+  isUser: boolean;
+  isUploading?: boolean;
+  uploadProgress?: number;
+  onCancel?: () => void;
+}
+
+// Voice note: play/pause, a scrubbable waveform, elapsed/total time and speed
+export const VoiceNoteBubble: React.FC<VoiceNoteBubbleProps> = ({
+  track,
+  getNext,
+  levels,
+  durationMillis,
+  isUser,
+  isUploading,
+  uploadProgress,
+  onCancel,
+}) => {
+  const { theme } = useThemeContext();
+  const { t } = useLanguage();
+  const player = useVoicePlayer();
+
+  const isCurrent = player.track?.id === track.id;
+  const isPlaying = isCurrent && player.isPlaying;
+  const duration = (isCurrent && player.durationMillis) || durationMillis || 0;
+  const position = isCurrent ? player.positionMillis : 0;
+  const progress = duration > 0 ? Math.min(1, position / duration) : 0;
+
+  const accent = isUser ? 'white' : theme.colors.primary;
+  const dimmed = isUser ? 'rgba(255,255,255,0.45)' : theme.colors.primary + '55';
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch {
+      Alert.alert(t('common.error'), t('chat.audioPlaybackError'));
+    }
+  };
+
+  const handleSeek = (fraction: number) => {
+    if (duration <= 0) return;
+    run(() => VoicePlayerService.seek(track, fraction * duration, getNext()));
+  };
+
+  const label = isUploading
+    ? uploadProgress !== undefined
+      ? `${Math.round(uploadProgress * 100)}%`
+      : t('chat.uploading')
+    : formatMsToClock(isCurrent && position > 0 ? position : duration);
+
+  return (
+    <View
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 8,
+        borderRadius: 16,
+        backgroundColor: isUser ? theme.colors.primary : 'rgba(255,255,255,0.06)',
+        minWidth: 200,
+        maxWidth: 280,
+      }}
+    >
+      <TouchableOpacity
+        onPress={() => run(() => VoicePlayerService.toggle(track, getNext()))}
+        activeOpacity={0.8}
+        disabled={isUploading}
+        accessibilityLabel={t(isPlaying ? 'chat.pauseVoiceNote' : 'chat.playVoiceNote')}
+        style={{
+          width: 36,
+          height: 36,
+          borderRadius: 18,
+          alignItems: 'center',
+          justifyContent: 'center',
+          backgroundColor: isUser ? 'rgba(255,255,255,0.2)' : theme.colors.primary,
+          marginRight: 10,
+          opacity: isUploading ? 0.5 : 1,
+        }}
+      >
+        <Ionicons name={isPlaying ? 'pause' : 'play'} size={18} color="white" />
+      </TouchableOpacity>
+
+      <View style={{ flex: 1, marginRight: 8, opacity: isUploading ? 0.5 : 1 }}>
+        <VoiceWaveform
+          levels={levels?.length ? levels : PLACEHOLDER_LEVELS}
+          progress={progress}
+          color={dimmed}
+          playedColor={accent}
+          disabled={isUploading || duration <= 0}
+          onSeek={handleSeek}
+        />
+        <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: 4 }}>
+          <CustomText
+            color={isUser ? 'white' : theme.colors.text}
+            fontSize={theme.fonts.sizes.small}
+            style={{ fontVariant: ['tabular-nums'], opacity: 0.85 }}
+          >
+            {label}
+          </CustomText>
+          {isCurrent && (
+            <TouchableOpacity
+              onPress={() => VoicePlayerService.cycleRate()}
+              accessibilityLabel={t('chat.playbackSpeed')}
+              style={{
+                marginLeft: 8,
+                paddingHorizontal: 6,
+                paddingVertical: 1,
+                borderRadius: 8,
+                backgroundColor: isUser ? 'rgba(255,255,255,0.2)' : theme.colors.primary + '20',
+              }}
+            >
+              <CustomText
+                color={isUser ? 'white' : theme.colors.primary}
+                fontSize={12}
+                fontWeight="600"
+              >
+                {formatRate(player.rate)}
+              </CustomText>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {isUploading && onCancel && (
+        <TouchableOpacity
+          onPress={onCancel}
+          accessibilityLabel={t('chat.cancelUpload')}
+          style={{ padding: 4, marginRight: 4 }}
+        >
+          <Ionicons name="close-circle" size={22} color={accent} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
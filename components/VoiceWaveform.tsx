@@ -0,0 +1,128 @@
+// components/VoiceWaveform.tsx
+import { meteringToLevel, resampleWaveform } from '@/utils/waveform';
+import { Audio } from 'expo-av';
+import React, { useEffect, useState } from 'react';
+import { GestureResponderEvent, LayoutChangeEvent, View } from 'react-native';
+
+const BAR_WIDTH = 2;
+const BAR_SPACING = 2;
+const MIN_BAR = 0.12; // Silence still shows as a short bar
+
+const barCount = (width: number) =>
+  width > 0 ? Math.max(1, Math.floor((width + BAR_SPACING) / (BAR_WIDTH + BAR_SPACING))) : 0;
+
+const Bars: React.FC<{
+  levels: number[];
+  height: number;
+  color: string;
+  playedColor: string;
+  playedBars: number;
+}> = ({ levels, height, color, playedColor, playedBars }) => (
+  <>
+    {levels.map((level, i) => (
+      <View
+        key={i}
+        style={{
+          width: BAR_WIDTH,
+          height: Math.max(2, Math.round(Math.max(MIN_BAR, level) * height)),
+          borderRadius: 1,
+          marginRight: i === levels.length - 1 ? 0 : BAR_SPACING,
+          backgroundColor: i < playedBars ? playedColor : color,
+        }}
+      />
+    ))}
+  </>
+);
+
+interface VoiceWaveformProps {
+  levels: number[]; // Stored 0–1 levels, resampled to fit the width
+  progress: number; // 0–1, bars before this are drawn in playedColor
+  color: string;
+  playedColor: string;
+  height?: number;
+  disabled?: boolean;
+  onSeek?: (fraction: number) => void; // Fired on tap and while dragging
+}
+
+// A voice note's waveform; tap or drag along it to scrub
+export const VoiceWaveform: React.FC<VoiceWaveformProps> = ({
+  levels,
+  progress,
+  color,
+  playedColor,
+  height = 24,
+  disabled,
+  onSeek,
+}) => {
+  const [width, setWidth] = useState(0);
+  const bars = resampleWaveform(levels, barCount(width));
+
+  const seekTo = (event: GestureResponderEvent) => {
+    if (width <= 0) return;
+    onSeek?.(Math.max(0, Math.min(1, event.nativeEvent.locationX / width)));
+  };
+
+  return (
+    <View
+      onLayout={(e: LayoutChangeEvent) => setWidth(Math.floor(e.nativeEvent.layout.width))}
+      onStartShouldSetResponder={() => !disabled && !!onSeek}
+      onMoveShouldSetResponder={() => !disabled && !!onSeek}
+      // Keep the gesture while dragging instead of handing it to the list
+      onResponderTerminationRequest={() => false}
+      onResponderGrant={seekTo}
+      onResponderMove={seekTo}
+      style={{ height, flex: 1, flexDirection: 'row', alignItems: 'center' }}
+    >
+      <Bars
+        levels={bars}
+        height={height}
+        color={color}
+        playedColor={playedColor}
+        playedBars={Math.round(progress * bars.length)}
+      />
+    </View>
+  );
+};
+
+interface RecordingWaveformProps {
+  recording: Audio.Recording;
+  color: string;
+  height?: number;
+  onLevel: (level: number) => void; // Every metering sample, for storing with the note
+}
+
+// Live levels while recording, newest on the right. Metering updates stay in here
+// so the chat screen doesn't re-render ten times a second.
+export const RecordingWaveform: React.FC<RecordingWaveformProps> = ({
+  recording,
+  color,
+  height = 20,
+  onLevel,
+}) => {
+  const [width, setWidth] = useState(0);
+  const [levels, setLevels] = useState<number[]>([]);
+  const count = barCount(width);
+
+  useEffect(() => {
+    recording.setProgressUpdateInterval(100);
+    recording.setOnRecordingStatusUpdate((status) => {
+      if (!status.isRecording) return;
+      const level = meteringToLevel(status.metering);
+      onLevel(level);
+      setLevels((prev) => [...prev, level].slice(-Math.max(1, count)));
+    });
+    return () => recording.setOnRecordingStatusUpdate(null);
+  }, [recording, count, onLevel]);
+
+  // Pad on the left so the first samples start at the right edge
+  const bars = [...Array.from({ length: Math.max(0, count - levels.length) }, () => 0), ...levels];
+
+  return (
+    <View
+      onLayout={(e: LayoutChangeEvent) => setWidth(Math.floor(e.nativeEvent.layout.width))}
+      style={{ height, flex: 1, flexDirection: 'row', alignItems: 'center', overflow: 'hidden' }}
+    >
+      <Bars levels={bars} height={height} color={color} playedColor={color} playedBars={0} />
+    </View>
+  );
+};
@@ -14,6 +14,11 @@ interface ChatItem {
   verified?: boolean;
   online?: boolean;
   emoji?: string;
+  isGroup?: boolean;
+  typing?: string; // Replaces the message preview while someone is typing
+  pinned?: boolean;
+  muted?: boolean;
+  favorite?: boolean;
 }
 
 interface ChatItemProps extends Partial<ChatItem> {
@@ -32,37 +37,61 @@ export const CustomChatItem: React.FC<ChatItemProps> = (props) => {
     verified,
     online,
     emoji,
+    isGroup,
+    typing,
+    pinned,
+    muted,
+    favorite,
   } = source;
 
   return (
     <View style={[styles.container, { backgroundColor: theme.colors.background, borderBottomColor: theme.colors.background }]}>
       <View style={{ position: 'relative', marginRight: 12 }}>
-        <Image source={{ uri: avatar || 'https://via.placeholder.com/50' }} style={{ width: 50, height: 50, borderRadius: 25 }} />
+        {isGroup && !avatar ? (
+          <View style={{ width: 50, height: 50, borderRadius: 25, backgroundColor: theme.colors.inputBackground, justifyContent: 'center', alignItems: 'center' }}>
+            <Ionicons name="people" size={26} color={theme.colors.primary} />
+          </View>
+        ) : (
+          <Image source={{ uri: avatar || 'https://via.placeholder.com/50' }} style={{ width: 50, height: 50, borderRadius: 25 }} />
+        )}
         {online && <View style={{ position: 'absolute', bottom: 0, right: 0, width: 12, height: 12, borderRadius: 6, backgroundColor: '#00FF00', borderWidth: 2, borderColor: theme.colors.background }} />}
       </View>
       <View style={{ flex: 1 }}>
         <View style={{ flexDirection: 'row', alignItems: 'center' }}>
           <CustomText fontWeight="bold" color={theme.colors.text}>{name}{emoji ? ` ${emoji}` : ''}</CustomText>
           {verified && <Ionicons name="checkmark-circle" size={16} color={theme.colors.primary} style={{ marginLeft: 5 }} />}
+          {favorite && <Ionicons name="star" size={14} color="#FFCC00" style={{ marginLeft: 5 }} />}
         </View>
+        {typing ? (
+          <CustomText color={theme.colors.primary} numberOfLines={1} style={{ fontStyle: 'italic' }}>
+            {typing}
+          </CustomText>
+        ) : (
         <View style={{ flexDirection: 'row', alignItems: 'center' }}>
           {message.startsWith('📷') ? (
             <Ionicons name="camera" size={16} color={theme.colors.secondaryText} style={{ marginRight: 4 }} />
           ) : message.startsWith('🎥') ? (
             <Ionicons name="videocam" size={16} color={theme.colors.secondaryText} style={{ marginRight: 4 }} />
+          ) : message.startsWith('📎') ? (
+            <Ionicons name="document-attach" size={16} color={theme.colors.secondaryText} style={{ marginRight: 4 }} />
           ) : null}
           <CustomText color={theme.colors.secondaryText} numberOfLines={1} style={{ flex: 1 }}>
-            {message.startsWith('📷') ? 'Photo' : message.startsWith('🎥') ? 'Video' : message}
+            {message.startsWith('📷') ? 'Photo' : message.startsWith('🎥') ? 'Video' : message.startsWith('📎') ? 'File' : message}
           </CustomText>
         </View>
+        )}
       </View>
       <View style={{ alignItems: 'flex-end', marginLeft: 8 }}>
         <CustomText fontSize={theme.fonts.sizes.small} color={theme.colors.secondaryText}>{time}</CustomText>
-        {!!unread && (
-          <View style={{ backgroundColor: theme.colors.primary, borderRadius: 15, paddingHorizontal: 8, paddingVertical: 2, marginTop: 5 }}>
-            <CustomText fontSize={theme.fonts.sizes.small} color={theme.colors.background}>{unread}</CustomText>
-          </View>
-        )}
+        <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: 5 }}>
+          {muted && <Ionicons name="volume-mute" size={16} color={theme.colors.secondaryText} style={{ marginLeft: 4 }} />}
+          {pinned && <Ionicons name="pin" size={16} color={theme.colors.secondaryText} style={{ marginLeft: 4 }} />}
+          {!!unread && (
+            <View style={{ backgroundColor: muted ? theme.colors.secondaryText : theme.colors.primary, borderRadius: 15, paddingHorizontal: 8, paddingVertical: 2, marginLeft: 4 }}>
+              <CustomText fontSize={theme.fonts.sizes.small} color={theme.colors.background}>{unread}</CustomText>
+            </View>
+          )}
+        </View>
       </View>
     </View>
   );
@@ -0,0 +1,402 @@
+// viewmodels/useChatRoomViewModel.ts
+import { cacheService } from "@/services/cacheService";
+import { ChatService, MessageCursor } from "@/services/chatService";
+import {
+  OutboxItem,
+  OutboxMedia,
+  OutboxReply,
+  OutboxService,
+} from "@/services/outboxService";
+import { Repositories } from "@/services/repositories";
+import { UploadService } from "@/services/uploadService";
+import {
+  addDateHeaders,
+  applyOutbox,
+  FirebaseChatMessage,
+  formatFirebaseMessage,
+  mergeMessagePages,
+  Message,
+  MessageWithHeader,
+} from "@/utils/chatMessages";
+import { useFocusEffect } from "expo-router";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { AppState } from "react-native";
+
+export interface FriendProfile {
+  avatar?: string;
+  name?: string;
+  email?: string;
+  designation?: string;
+}
+
+interface ChatRoomViewModelOptions {
+  userId?: string;
+  chatId: string;
+  isGroup: boolean;
+  friendUserId?: string;
+  // Runs after every live snapshot has been published (scrolling, jumping to a message)
+  onLiveMessages?: (formatted: Message[]) => void;
+  // The partner's profile could not be loaded
+  onProfileError?: (error: unknown) => void;
+}
+
+export interface ChatRoomViewModel {
+  messages: MessageWithHeader[]; // Acknowledged by the server, newest first, with date headers
+  displayMessages: MessageWithHeader[]; // messages plus queued, edited and deleted outbox state
+  loading: boolean;
+  loadingOlder: boolean;
+  outboxItems: OutboxItem[];
+  friendProfile: FriendProfile | null; // Direct chats only
+  profileLoading: boolean;
+  loadFriendProfile(): Promise<void>;
+  loadOlderMessages(): Promise<boolean>;
+  isMessageLoaded(messageId: string): boolean;
+  getLoadedMessages(): Message[]; // Older pages and the live window, oldest first
+  sendMessage(
+    text: string,
+    replyTo: OutboxReply | null,
+    media?: Omit<OutboxMedia, "remoteUrl">
+  ): Promise<void>;
+  editMessage(messageId: string, text: string): Promise<void>;
+  deleteMessage(messageId: string): Promise<void>;
+  cancelUpload(messageId: string): Promise<void>;
+  failedOperationFor(messageId: string): OutboxItem | undefined;
+}
+
+export const useChatRoomViewModel = ({
+  userId,
+  chatId,
+  isGroup,
+  friendUserId,
+  onLiveMessages,
+  onProfileError,
+}: ChatRoomViewModelOptions): ChatRoomViewModel => {
+  const [messages, setMessages] = useState<MessageWithHeader[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [outboxItems, setOutboxItems] = useState<OutboxItem[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>(
+    {}
+  );
+  const [friendProfile, setFriendProfile] = useState<FriendProfile | null>(null);
+  const [profileLoading, setProfileLoading] = useState(false);
+
+  // Live window and older pages are kept apart and merged in publishMessages
+  const liveMessagesRef = useRef<Message[]>([]);
+  const olderMessagesRef = useRef<Message[]>([]);
+  const olderCursorRef = useRef<MessageCursor | null>(null);
+  const loadingOlderRef = useRef(false);
+  const hasMoreOlderRef = useRef(false);
+  const onLiveMessagesRef = useRef(onLiveMessages);
+  onLiveMessagesRef.current = onLiveMessages;
+  const onProfileErrorRef = useRef(onProfileError);
+  onProfileErrorRef.current = onProfileError;
+  const isScreenFocused = useRef(false);
+
+  // Headers are added over the merged list, so a day that straddles a page
+  // boundary still gets exactly one header
+  const publishMessages = useCallback(() => {
+    const merged = mergeMessagePages(
+      olderMessagesRef.current,
+      liveMessagesRef.current
+    );
+    // For inverted FlatList, we need to reverse the array
+    setMessages([...addDateHeaders(merged)].reverse());
+    cacheService.setChatMessages(chatId, merged);
+  }, [chatId]);
+
+  const loadFriendProfile = useCallback(async () => {
+    if (!friendUserId) return;
+
+    setProfileLoading(true);
+    try {
+      const data = await Repositories.users.get(friendUserId);
+      setFriendProfile(
+        data
+          ? {
+              avatar: data.photo,
+              name: data.name,
+              email: data.email,
+              designation: data.designation,
+            }
+          : null
+      );
+    } catch (error) {
+      console.error("Error fetching friend profile:", error);
+      setFriendProfile(null);
+      onProfileErrorRef.current?.(error);
+    } finally {
+      setProfileLoading(false);
+    }
+  }, [friendUserId]);
+
+  // Header name and avatar, also when opened via quick actions without them
+  useEffect(() => {
+    if (friendUserId && !isGroup) {
+      loadFriendProfile();
+    }
+  }, [friendUserId, isGroup, loadFriendProfile]);
+
+  // Only direct messages to this user carry a receipt to flip. Group and legacy
+  // messages never reach 'read', so counting them would write on every snapshot.
+  // And only while the conversation is actually on screen.
+  const markIncomingRead = useCallback(
+    (incoming: FirebaseChatMessage[]) => {
+      if (!userId) return;
+      const hasUnreadIncoming = incoming.some(
+        (msg) =>
+          msg.receiverId === userId &&
+          (msg.status === "sent" || msg.status === "delivered")
+      );
+      if (
+        !hasUnreadIncoming ||
+        !isScreenFocused.current ||
+        AppState.currentState !== "active"
+      ) {
+        return;
+      }
+
+      ChatService.markMessagesAsRead(chatId, userId)
+        .then(() => console.log("✅ Messages marked as read successfully"))
+        .catch((error) => {
+          if (isGroup || !friendUserId) throw error;
+          console.log("⚠️ Fallback: using markIncomingFromSenderAsRead");
+          return ChatService.markIncomingFromSenderAsRead(
+            chatId,
+            userId,
+            friendUserId
+          );
+        })
+        .catch((error) =>
+          console.error("❌ Failed to mark messages as read:", error)
+        );
+    },
+    [userId, chatId, isGroup, friendUserId]
+  );
+
+  // Mark as read whenever the chat gains focus or the app returns to the foreground
+  useFocusEffect(
+    useCallback(() => {
+      if (!userId || !chatId) return;
+      isScreenFocused.current = true;
+
+      const markRead = () => {
+        ChatService.markMessagesAsRead(chatId, userId).catch((error) => {
+          console.log("Mark as read failed (non-critical):", error);
+        });
+      };
+      markRead();
+
+      const subscription = AppState.addEventListener("change", (state) => {
+        if (state === "active") markRead();
+      });
+
+      return () => {
+        isScreenFocused.current = false;
+        subscription.remove();
+      };
+    }, [userId, chatId])
+  );
+
+  // -------- Realtime subscription --------
+  useEffect(() => {
+    setMessages([]);
+    liveMessagesRef.current = [];
+    olderMessagesRef.current = [];
+    olderCursorRef.current = null;
+    hasMoreOlderRef.current = false;
+
+    if (!userId || !chatId) {
+      console.log("❌ Missing user or chatId:", { user: userId, chatId });
+      setLoading(false);
+      return;
+    }
+
+    console.log("🔄 Setting up message subscription for:", { user: userId, chatId });
+    let unsubscribe: (() => void) | null = null;
+    setLoading(true);
+
+    try {
+      unsubscribe = ChatService.subscribeToChatMessages(
+        chatId,
+        (firebaseMessages: FirebaseChatMessage[], page) => {
+          const formatted = firebaseMessages.map((msg) =>
+            formatFirebaseMessage(msg, userId)
+          );
+
+          // The live anchor is fixed for the subscription; once older pages are
+          // loaded their own cursor takes over
+          if (olderMessagesRef.current.length === 0) {
+            olderCursorRef.current = page.cursor;
+            hasMoreOlderRef.current = page.hasMore;
+          }
+
+          liveMessagesRef.current = formatted;
+          publishMessages();
+          setLoading(false);
+          onLiveMessagesRef.current?.(formatted);
+          markIncomingRead(firebaseMessages);
+        },
+        userId
+      );
+    } catch (e) {
+      console.error("Error setting up message listener:", e);
+      setLoading(false);
+    }
+
+    return () => unsubscribe?.();
+  }, [userId, chatId, publishMessages, markIncomingRead]);
+
+  // Queued sends, edits and deletes for this chat; replay anything left from earlier
+  useEffect(() => {
+    if (!userId || !chatId) return;
+    const unsubscribe = OutboxService.subscribe(chatId, setOutboxItems);
+    OutboxService.flush(userId);
+    return unsubscribe;
+  }, [userId, chatId]);
+
+  // Upload progress of queued media, keyed by message id
+  useEffect(() => UploadService.subscribe(setUploadProgress), []);
+
+  const displayMessages = useMemo(
+    () => applyOutbox(messages, outboxItems, uploadProgress),
+    [messages, outboxItems, uploadProgress]
+  );
+
+  const findQueuedSend = (messageId: string) =>
+    outboxItems.find((item) => item.kind === "send" && item.id === messageId);
+
+  // Called when the inverted list is scrolled to its top (the oldest message).
+  // Resolves true when a page was added.
+  const loadOlderMessages = async (): Promise<boolean> => {
+    const cursor = olderCursorRef.current;
+    if (
+      !chatId ||
+      !userId ||
+      !cursor ||
+      !hasMoreOlderRef.current ||
+      loadingOlderRef.current
+    ) {
+      return false;
+    }
+
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    try {
+      const page = await ChatService.loadOlderMessages(chatId, cursor);
+      // Chat switched while the page was loading
+      if (olderCursorRef.current !== cursor) return false;
+
+      olderMessagesRef.current = [
+        ...page.messages.map((msg) =>
+          formatFirebaseMessage(msg as FirebaseChatMessage, userId)
+        ),
+        ...olderMessagesRef.current,
+      ];
+      olderCursorRef.current = page.cursor;
+      hasMoreOlderRef.current = page.hasMore;
+      publishMessages();
+      return page.messages.length > 0;
+    } catch (error) {
+      console.error("❌ Failed to load older messages:", error);
+      return false;
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  };
+
+  const isMessageLoaded = (messageId: string) =>
+    liveMessagesRef.current.some((m) => m.id === messageId) ||
+    olderMessagesRef.current.some((m) => m.id === messageId);
+
+  const getLoadedMessages = () => [
+    ...olderMessagesRef.current,
+    ...liveMessagesRef.current,
+  ];
+
+  // Sends go through the outbox so they survive being offline and app restarts
+  const sendMessage: ChatRoomViewModel["sendMessage"] = async (
+    text,
+    replyTo,
+    media
+  ) => {
+    if (!userId) throw new Error("Not signed in");
+    if (!isGroup && !friendUserId) throw new Error("Missing friendUserId");
+    await OutboxService.enqueue({
+      kind: "send",
+      chatId,
+      senderId: userId,
+      receiverId: isGroup ? undefined : friendUserId,
+      isGroup,
+      text,
+      replyTo,
+      media,
+    });
+  };
+
+  // A send still in the outbox is edited in place; anything else queues an edit
+  const editMessage = async (messageId: string, text: string) => {
+    if (!userId || !chatId) return;
+    const queuedSend = findQueuedSend(messageId);
+    if (queuedSend) {
+      await OutboxService.updateText(queuedSend.id, text);
+    } else {
+      await OutboxService.enqueue({
+        kind: "edit",
+        chatId,
+        senderId: userId,
+        messageId,
+        text,
+      });
+    }
+  };
+
+  // Never-sent messages are simply dropped from the outbox
+  const deleteMessage = async (messageId: string) => {
+    if (!userId || !chatId) return;
+    const queuedSend = findQueuedSend(messageId);
+    if (queuedSend) {
+      await OutboxService.cancel(queuedSend.id);
+    } else {
+      await OutboxService.enqueue({
+        kind: "delete",
+        chatId,
+        senderId: userId,
+        messageId,
+      });
+    }
+  };
+
+  // Stops the upload and drops the queued send; nothing reaches the chat
+  const cancelUpload = (messageId: string) => OutboxService.cancel(messageId);
+
+  // Failed outbox operations surface on the bubble so they can be retried or discarded
+  const failedOperationFor = (messageId: string) =>
+    outboxItems.find(
+      (item) =>
+        item.status === "failed" &&
+        (item.kind === "send"
+          ? item.id === messageId
+          : item.messageId === messageId)
+    );
+
+  return {
+    messages,
+    displayMessages,
+    loading,
+    loadingOlder,
+    outboxItems,
+    friendProfile,
+    profileLoading,
+    loadFriendProfile,
+    loadOlderMessages,
+    isMessageLoaded,
+    getLoadedMessages,
+    sendMessage,
+    editMessage,
+    deleteMessage,
+    cancelUpload,
+    failedOperationFor,
+  };
+};
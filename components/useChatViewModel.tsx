@@ -1,17 +1,11 @@
 // viewmodels/useChatViewModel.ts
-import { UserServiceSimple } from "@/services/userServiceSimple";
-import {
-  collection,
-  getDocs,
-  getFirestore,
-  limit,
-  orderBy,
-  query,
-  where,
-} from "@react-native-firebase/firestore";
-import { useEffect, useState } from "react";
+import { ChatListMigration } from "@/services/chatListMigration";
+import { FavoritesService } from "@/services/favoritesService";
+import { ChatListService } from "@/services/chatListService";
+import { UserService } from "@/services/userService";
+import { useEffect, useMemo, useState } from "react";
 import { ChatService } from "../services/chatService";
-import { Chat, ChatListItem, ChatSimple } from "../types/models";
+import { ChatListItem } from "../types/models";
 import { useUser } from "./UserContext";
 
 interface ChatCounts {
@@ -21,423 +15,185 @@ interface ChatCounts {
   groupsTab: number | null;
 }
 
+interface FriendProfile {
+  name: string;
+  photo: string;
+  isOnline: boolean;
+}
+
 export const useChatViewModel = () => {
   const { user } = useUser();
   const [selectedTab, setSelectedTab] = useState("All");
-  const [chats, setChats] = useState<ChatListItem[]>([]);
+  const [chatListItems, setChatListItems] = useState<ChatListItem[]>([]);
+  const [friendProfiles, setFriendProfiles] = useState<
+    Record<string, FriendProfile | null>
+  >({});
+  const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(false);
   const [tab, setTab] = useState("allTab");
   const [search, setSearch] = useState("");
   const [refreshing, setRefreshing] = useState(false);
   const [updating, setUpdating] = useState(false);
 
-  // Load chats from Firebase and combine with friends list
-  // In useChatViewModel.ts - Replace the useEffect with this optimized version
+  // The denormalized /users/{uid}/chatList is kept in sync by every write path,
+  // so the list is one query with no per-chat lookups
   useEffect(() => {
     if (!user?.uid) {
-      setChats([]);
+      setChatListItems([]);
       setLoading(false);
       return;
     }
 
     setLoading(true);
-    let unsubscribeChats: (() => void) | null = null;
-    let isMounted = true;
-
-    const loadChats = async () => {
-      try {
-        console.log(
-          "🔄 Setting up real-time chat subscription for user:",
-          user.uid
-        );
-
-        // First, get initial chats to populate the list quickly
-        const db = getFirestore();
-        const chatsRef = collection(db, "chats");
-        const chatsQuery = query(
-          chatsRef,
-          where("participants", "array-contains", user.uid),
-          // orderBy("lastMessageTime", "desc")
-        );
-
-        const initialSnapshot = await getDocs(chatsQuery);
-        const initialChats: ChatSimple[] = initialSnapshot.docs.map(
-          (d: any) => ({
-            id: d.id,
-            ...d.data(),
-          })
-        );
-
-        if (isMounted) {
-          processChats(initialChats);
-        }
-
-        // Then set up real-time listener for updates
-        unsubscribeChats = ChatService.subscribeToUserChats(
-          user.uid,
-          (firebaseChats: ChatSimple[]) => {
-            if (isMounted) {
-              processChats(firebaseChats);
-            }
-          }
-        );
-      } catch (error: any) {
-        if (error.code === 'permission-denied') {
-          console.log('Firestore permission denied. Please check security rules.');
-          // You might want to show a user-friendly message here
-        } else {
-          console.error('Error loading chats:', error);
-        }
-        if (isMounted) {
-          setLoading(false);
-        }
+    // No-op once this user's list has been backfilled
+    ChatListMigration.run(user.uid);
+
+    console.log("🔄 Setting up chat list subscription for user:", user.uid);
+    const unsubscribe = ChatListService.subscribeToUserChatList(
+      user.uid,
+      (items) => {
+        setChatListItems(items);
+        setLoading(false);
+        setUpdating(false);
       }
-    
-    };
-
-    const processChats = async (firebaseChats: ChatSimple[]) => {
-      try {
-        console.log("🔄 Processing", firebaseChats.length, "Firebase chats");
-
-        const existingChatItems: ChatListItem[] = [];
-
-        // Process chats in parallel for better performance
-        const chatPromises = firebaseChats.map(async (chat) => {
-          const otherParticipantId = chat.participants.find(
-            (id) => id !== user.uid
-          );
-          if (!otherParticipantId) return null;
-
-          try {
-            const otherUser = await UserServiceSimple.getUserById(
-              otherParticipantId
-            );
-            if (!otherUser) return null;
-
-            // Use denormalized data for instant display
-            const lastMessage = chat.lastMessage || "Start a conversation";
-            let timeString = "";
-            let sortTs = 0;
-
-            if (chat.lastMessageTime) {
-              const date = chat.lastMessageTime.toDate
-                ? chat.lastMessageTime.toDate()
-                : new Date(chat.lastMessageTime);
-              sortTs = date.getTime();
-              timeString = formatMessageTime(date);
-            }
-
-            const unread = chat.unreadCount?.[user.uid] ?? 0;
-
-            const item: ChatListItem = {
-              id: chat.id,
-              name: otherUser.name,
-              avatar: otherUser.photo || "",
-              lastMessage,
-              time: timeString,
-              unreadCount: unread,
-              isOnline: otherUser.isOnline || false,
-            };
-            (item as any).__sortTs = sortTs;
-            return item;
-          } catch (error) {
-            console.error("Error processing chat:", error);
-            return null;
-          }
-        });
-
-        const resolvedChats = await Promise.all(chatPromises);
-        existingChatItems.push(
-          ...(resolvedChats.filter(Boolean) as ChatListItem[])
-        );
-
-        // Get user's friends and create chat items for friends without existing chats
-        const friendsList: string[] = (user as any).friends || [];
-        const existingChatUserIds = new Set(
-          existingChatItems.map((chat) => {
-            const parts = chat.id.split("_");
-            return parts.find((id) => id !== user.uid);
-          })
-        );
-
-        const friendPromises = friendsList
-          .filter((friendId) => !existingChatUserIds.has(friendId))
-          .map(async (friendId) => {
-            try {
-              const friendUser = await UserServiceSimple.getUserById(friendId);
-              if (!friendUser) return null;
+    );
 
-              const chatId = ChatService.generateChatId(user.uid, friendId);
-
-              return {
-                id: chatId,
-                name: friendUser.name,
-                avatar: friendUser.photo || "",
-                lastMessage: "Start a conversation",
-                time: "",
-                unreadCount: 0,
-                isOnline: friendUser.isOnline || false,
-              };
-            } catch (error) {
-              console.error("Error creating friend chat item:", error);
-              return null;
-            }
-          });
-
-        const friendChatItems = await Promise.all(friendPromises);
-        const validFriendChats = friendChatItems.filter(
-          Boolean
-        ) as ChatListItem[];
+    return unsubscribe;
+  }, [user?.uid]);
 
-        // Combine and sort chats
-        const allChats = [...existingChatItems, ...validFriendChats].sort(
-          (a: any, b: any) => {
-            const ta = a.__sortTs || 0;
-            const tb = b.__sortTs || 0;
-            return tb - ta;
-          }
-        );
+  useEffect(() => {
+    if (!user?.uid) {
+      setFavoriteIds(new Set());
+      return;
+    }
+    return FavoritesService.subscribeToFavorites(user.uid, (favorites) =>
+      setFavoriteIds(new Set(favorites.map((favorite) => favorite.chatId)))
+    );
+  }, [user?.uid]);
 
-        console.log("✅ Processed chats:", allChats.length, "total chats");
-        setChats(allChats);
-      } catch (error) {
-        console.error("Error processing chats:", error);
-      } finally {
-        if (isMounted) {
-          setUpdating(false);
-          setRefreshing(false);
-          setLoading(false);
+  // Friends without a chat yet still get a "Start a conversation" row. Profiles are
+  // fetched once per friend, not on every chat list snapshot.
+  const friendIds: string[] = useMemo(() => user?.friends ?? [], [user]);
+  const friendIdsKey = friendIds.join(",");
+  useEffect(() => {
+    if (!friendIdsKey) return;
+    let cancelled = false;
+
+    const missing = friendIdsKey
+      .split(",")
+      .filter((id) => !(id in friendProfiles));
+    if (missing.length === 0) return;
+
+    Promise.all(
+      missing.map(async (friendId) => {
+        try {
+          const friendUser = await UserService.getUserById(friendId);
+          return [friendId, friendUser] as const;
+        } catch (error) {
+          console.error("Error loading friend profile:", error);
+          return [friendId, null] as const;
         }
-      }
-    };
-
-    // Helper function to format message time
-    const formatMessageTime = (date: Date): string => {
-      const now = new Date();
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const messageDate = new Date(
-        date.getFullYear(),
-        date.getMonth(),
-        date.getDate()
-      );
-
-      if (messageDate.getTime() === today.getTime()) {
-        return date.toLocaleTimeString([], {
-          hour: "2-digit",
-          minute: "2-digit",
+      })
+    ).then((results) => {
+      if (cancelled) return;
+      setFriendProfiles((prev) => {
+        const next = { ...prev };
+        // Misses are stored as null so they are not refetched on every render
+        results.forEach(([friendId, friendUser]) => {
+          next[friendId] = friendUser && {
+            name: friendUser.name,
+            photo: friendUser.photo || "",
+            isOnline: friendUser.isOnline || false,
+          };
         });
-      } else {
-        const yesterday = new Date(today);
-        yesterday.setDate(yesterday.getDate() - 1);
-        if (messageDate.getTime() === yesterday.getTime()) {
-          return "Yesterday";
-        } else {
-          return date.toLocaleDateString([], {
-            month: "short",
-            day: "numeric",
-          });
-        }
-      }
-    };
-
-    loadChats();
+        return next;
+      });
+    });
 
     return () => {
-      isMounted = false;
-      if (unsubscribeChats) {
-        unsubscribeChats();
-      }
+      cancelled = true;
     };
-  }, [user?.uid]);
+  }, [friendIdsKey, friendProfiles]);
 
-  // Manual refresh: one-off fetch to rebuild chat list with latest snapshots
+  // Timed mutes lapse on their own; re-evaluate when the next one runs out
+  const [muteClock, setMuteClock] = useState(() => Date.now());
+  useEffect(() => {
+    const nextExpiry = chatListItems.reduce(
+      (next, chat) =>
+        chat.isMuted && chat.mutedUntil && chat.mutedUntil > muteClock
+          ? Math.min(next, chat.mutedUntil)
+          : next,
+      Number.POSITIVE_INFINITY
+    );
+    if (nextExpiry === Number.POSITIVE_INFINITY) return;
+
+    const timer = setTimeout(
+      () => setMuteClock(Date.now()),
+      nextExpiry - Date.now() + 50
+    );
+    return () => clearTimeout(timer);
+  }, [chatListItems, muteClock]);
+
+  const allChats = useMemo(() => {
+    const listed = chatListItems.map((chat) => ({
+      ...chat,
+      isMuted:
+        !!chat.isMuted && (!chat.mutedUntil || chat.mutedUntil > muteClock),
+      isFavorite: favoriteIds.has(chat.id),
+    }));
+    if (!user?.uid) return listed;
+
+    const listedChatIds = new Set(chatListItems.map((chat) => chat.id));
+    const friendChats: ChatListItem[] = friendIds.flatMap((friendId) => {
+      const chatId = ChatService.generateChatId(user.uid, friendId);
+      const profile = friendProfiles[friendId];
+      if (listedChatIds.has(chatId) || !profile) return [];
+      return [
+        {
+          id: chatId,
+          name: profile.name,
+          avatar: profile.photo,
+          lastMessage: "Start a conversation",
+          time: "",
+          unreadCount: 0,
+          isOnline: profile.isOnline,
+          isPlaceholder: true,
+          isFavorite: favoriteIds.has(chatId),
+        },
+      ];
+    });
+
+    return [...listed, ...friendChats];
+  }, [
+    chatListItems,
+    favoriteIds,
+    friendIds,
+    friendProfiles,
+    muteClock,
+    user?.uid,
+  ]);
+
+  // Entries arrive newest first, so a stable sort keeps recency within each group
+  const chats = useMemo(
+    () =>
+      allChats
+        .filter((chat) => !chat.isArchived)
+        .sort((a, b) => Number(!!b.isPinned) - Number(!!a.isPinned)),
+    [allChats]
+  );
+  const archivedChats = useMemo(
+    () => allChats.filter((chat) => chat.isArchived),
+    [allChats]
+  );
+
+  // Manual refresh rebuilds this user's entries from the chat documents, which
+  // also repairs anything a failed sync left behind
   const refreshNow = async () => {
     if (!user?.uid) return;
     try {
       setRefreshing(true);
       setUpdating(true);
-      const chatsRef = collection(getFirestore(), "chats");
-      const chatsQuery = query(
-        chatsRef,
-        where("participants", "array-contains", user.uid)
-      );
-      const snap = await getDocs(chatsQuery);
-      const firebaseChats: Chat[] = snap.docs.map((d: any) => ({
-        id: d.id,
-        ...(d.data() as any),
-      }));
-      // Reuse core of mapping by simulating a one-time callback
-      const items = await Promise.all(
-        firebaseChats.map(async (chat) => {
-          const otherParticipantId = chat.participants.find(
-            (id) => id !== user.uid
-          );
-          if (!otherParticipantId) return null as any;
-          const otherUser = await UserServiceSimple.getUserById(
-            otherParticipantId
-          );
-          if (!otherUser) return null as any;
-          let lastMessage = "Start a conversation";
-          let timeString = "";
-          let sortTs = 0;
-          try {
-            const messagesRef = collection(
-              getFirestore(),
-              "chats",
-              chat.id,
-              "messages"
-            );
-            const messagesQuery = query(
-              messagesRef,
-              orderBy("timestamp", "desc"),
-              limit(1)
-            );
-            const ms = await getDocs(messagesQuery);
-            if (!ms.empty) {
-              const data: any = ms.docs[0].data();
-              lastMessage =
-                data.message ||
-                data.text ||
-                data.content?.text ||
-                data.content?.message ||
-                lastMessage;
-              if (data.timestamp) {
-                const date = data.timestamp.toDate
-                  ? data.timestamp.toDate()
-                  : new Date(data.timestamp);
-                sortTs = date.getTime();
-                const now = new Date();
-                const today = new Date(
-                  now.getFullYear(),
-                  now.getMonth(),
-                  now.getDate()
-                );
-                const d0 = new Date(
-                  date.getFullYear(),
-                  date.getMonth(),
-                  date.getDate()
-                );
-                timeString =
-                  d0.getTime() === today.getTime()
-                    ? date.toLocaleTimeString([], {
-                        hour: "2-digit",
-                        minute: "2-digit",
-                      })
-                    : date.toLocaleDateString([], {
-                        month: "short",
-                        day: "numeric",
-                      });
-              }
-            }
-          } catch {}
-          const unread =
-            (chat as any)?.unreadCount?.[user.uid] ??
-            (chat as any)?.participantData?.[user.uid]?.unreadCount ??
-            0;
-          const item: any = {
-            id: chat.id,
-            name: otherUser.name,
-            avatar: otherUser.photo || "",
-            lastMessage,
-            time: timeString,
-            unreadCount: unread,
-            isOnline: otherUser.isOnline || false,
-          } as ChatListItem;
-          item.__sortTs = sortTs;
-          return item;
-        })
-      );
-      const valid = items.filter(Boolean) as any[];
-
-      // Friend fallback for users without existing chat docs
-      const friendsList: string[] = ((user as any).friends || []) as string[];
-      const existingChatUserIds = new Set(
-        valid.map((c: any) =>
-          (c.id as string).split("_").find((id: string) => id !== user.uid)
-        )
-      );
-      const friendFallback = await Promise.all(
-        friendsList
-          .filter((fid) => !existingChatUserIds.has(fid))
-          .map(async (fid) => {
-            try {
-              const friendUser = await UserServiceSimple.getUserById(fid);
-              if (!friendUser) return null as any;
-              const chatId = ChatService.generateChatId(user.uid, fid);
-              // Try to fetch last message if any exists
-              let lastMessage = "Start a conversation";
-              let timeString = "";
-              let sortTs = 0;
-              try {
-                const messagesRef = collection(
-                  getFirestore(),
-                  "chats",
-                  chatId,
-                  "messages"
-                );
-                const messagesQuery = query(
-                  messagesRef,
-                  orderBy("timestamp", "desc"),
-                  limit(1)
-                );
-                const ms = await getDocs(messagesQuery);
-                if (!ms.empty) {
-                  const data: any = ms.docs[0].data();
-                  lastMessage =
-                    data.message ||
-                    data.text ||
-                    data.content?.text ||
-                    data.content?.message ||
-                    lastMessage;
-                  if (data.timestamp) {
-                    const date = data.timestamp.toDate
-                      ? data.timestamp.toDate()
-                      : new Date(data.timestamp);
-                    sortTs = date.getTime();
-                    const now = new Date();
-                    const today = new Date(
-                      now.getFullYear(),
-                      now.getMonth(),
-                      now.getDate()
-                    );
-                    const d0 = new Date(
-                      date.getFullYear(),
-                      date.getMonth(),
-                      date.getDate()
-                    );
-                    timeString =
-                      d0.getTime() === today.getTime()
-                        ? date.toLocaleTimeString([], {
-                            hour: "2-digit",
-                            minute: "2-digit",
-                          })
-                        : date.toLocaleDateString([], {
-                            month: "short",
-                            day: "numeric",
-                          });
-                  }
-                }
-              } catch {}
-              const fallback: any = {
-                id: chatId,
-                name: friendUser.name,
-                avatar: friendUser.photo || "",
-                lastMessage,
-                time: timeString,
-                unreadCount: 0,
-                isOnline: friendUser.isOnline || false,
-              } as ChatListItem;
-              fallback.__sortTs = sortTs;
-              return fallback;
-            } catch {
-              return null as any;
-            }
-          })
-      );
-
-      const combined = [...valid, ...friendFallback.filter(Boolean)] as any[];
-      combined.sort((a: any, b: any) => (b.__sortTs || 0) - (a.__sortTs || 0));
-      setChats(combined as ChatListItem[]);
+      await ChatListMigration.run(user.uid, { force: true });
     } catch (e) {
       console.error("Manual refresh failed:", e);
     } finally {
@@ -449,16 +205,21 @@ export const useChatViewModel = () => {
   // Calculate counts
   const counts: ChatCounts = {
     allTab: chats.length,
-    unreadTab: chats.reduce((sum, chat) => sum + chat.unreadCount, 0),
-    favoritesTab: null, // Can implement favorites later
-    groupsTab: null, // Can implement groups later
+    // Also drives the tab bar badge, so muted chats stay quiet
+    unreadTab: allChats.reduce(
+      (sum, chat) => (chat.isMuted ? sum : sum + chat.unreadCount),
+      0
+    ),
+    favoritesTab: chats.filter((chat) => chat.isFavorite).length,
+    groupsTab: chats.filter((chat) => chat.isGroup).length,
   };
 
   // Check if chats are empty (avoid flashing empty state during manual refresh)
-  const isEmptyChat = chats.length === 0 && !loading && !refreshing;
+  const isEmptyChat = allChats.length === 0 && !loading && !refreshing;
 
   return {
     chats,
+    archivedChats,
     selectedTab,
     setSelectedTab,
     isEmptyChat,
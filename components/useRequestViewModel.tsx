@@ -3,7 +3,7 @@ import { useState, useEffect } from 'react';
 import { Alert } from 'react-native';
 import { RequestListItem, FriendRequest } from '../types/models';
 import { useUser } from './UserContext';
-import { FriendRequestService } from '@/services/friendRequestService';
+import { FriendService } from '@/services/friendService';
 
 export const useRequestViewModel = () => {
   const { user, refreshUserData } = useUser();
@@ -31,7 +31,7 @@ export const useRequestViewModel = () => {
       setLoading(true);
 
       // Subscribe to received friend requests
-      unsubscribeReceived = FriendRequestService.subscribeToReceivedRequests(
+      unsubscribeReceived = FriendService.subscribeToReceivedRequests(
         user.uid,
         (firebaseRequests: FriendRequest[]) => {
           const requestItems: RequestListItem[] = firebaseRequests.map((req) => {
@@ -71,7 +71,7 @@ export const useRequestViewModel = () => {
       );
 
       // Subscribe to sent friend requests
-      unsubscribeSent = FriendRequestService.subscribeToSentRequests(
+      unsubscribeSent = FriendService.subscribeToSentRequests(
         user.uid,
         (firebaseRequests: FriendRequest[]) => {
           const requestItems: RequestListItem[] = firebaseRequests.map((req) => {
@@ -127,7 +127,7 @@ export const useRequestViewModel = () => {
 
     try {
       setAcceptingId(id);
-      await FriendRequestService.acceptFriendRequest(id, user.uid, refreshUserData);
+      await FriendService.acceptFriendRequest(id, user.uid, refreshUserData);
       Alert.alert('Success', 'Friend request accepted');
       // The request will be automatically removed from the list via the real-time listener
     } catch (error: any) {
@@ -140,7 +140,7 @@ export const useRequestViewModel = () => {
 
   const rejectRequest = async (id: string) => {
     try {
-      await FriendRequestService.rejectFriendRequest(id);
+      await FriendService.rejectFriendRequest(id);
       // The request will be automatically removed from the list via the real-time listener
     } catch (error) {
       console.error('Error rejecting friend request:', error);
@@ -149,7 +149,7 @@ export const useRequestViewModel = () => {
 
   const cancelRequest = async (id: string) => {
     try {
-      await FriendRequestService.cancelFriendRequest(id);
+      await FriendService.cancelFriendRequest(id);
       // The request will be automatically removed from the list via the real-time listener
     } catch (error) {
       console.error('Error canceling friend request:', error);
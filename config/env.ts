@@ -2,4 +2,6 @@ export const CLOUDINARY = {
     CLOUD_NAME: "dtwqn1r7v",
     UPLOAD_PRESET: "chatsupp_Preset", 
     API_URL: "https://api.cloudinary.com/v1_1/dtwqn1r7v/upload",
+    // Documents are stored as-is instead of being treated as images
+    RAW_API_URL: "https://api.cloudinary.com/v1_1/dtwqn1r7v/raw/upload",
   };
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { VoicePlayerService, VoicePlayerState } from '@/services/voicePlayerService';
+
+/**
+ * Current voice note playback, re-rendering on every progress tick while playing
+ */
+export function useVoicePlayer(): VoicePlayerState {
+  const [state, setState] = useState(VoicePlayerService.getState());
+  useEffect(() => VoicePlayerService.subscribe(setState), []);
+  return state;
+}
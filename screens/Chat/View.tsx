@@ -1,38 +1,147 @@
 // app/(tabs)/index.tsx
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
+import { useShareIntentContext } from 'expo-share-intent';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
     Alert,
     Animated,
     FlatList,
+    PanResponder,
     StatusBar,
     RefreshControl,
     TouchableOpacity,
     View
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useLanguage } from '../../i18n';
 import { AddFriendPopup } from '../../components/AddFriendPopup';
+import { ChatAction, ChatActionsSheet } from '../../components/ChatActionsSheet';
+import { CreateGroupPopup } from '../../components/CreateGroupPopup';
 import { CustomChatItem } from '../../components/customChatItem';
+import { MessageSearchResultItem } from '../../components/MessageSearchResultItem';
 import { CustomSearchInput } from '../../components/customSearchInput';
 import { CustomText } from '../../components/CustomText';
 import { useThemeContext } from '../../components/ThemeContext';
 import { useChatViewModel } from '../../components/useChatViewModel';
 import { useUser } from '../../components/UserContext';
 import { ChatService } from '../../services/chatService';
-import { User, UserServiceSimple } from '../../services/userServiceSimple';
+import { FavoritesService } from '../../services/favoritesService';
+import { GroupService } from '../../services/groupService';
+import { ChatListService, MAX_PINNED_CHATS, MuteDuration } from '../../services/chatListService';
+import { PresenceService } from '../../services/presenceService';
+import { IndexedMessage, SearchIndexService } from '../../services/searchIndexService';
+import { TypingService } from '../../services/typingService';
+import { DEFAULT_USER_SETTINGS, UserService } from '../../services/userService';
+import { setDeepLinkHandler } from '../../utils/deepLinks';
+
+type SwipeAction = 'pin' | 'mute' | 'archive';
+
+const SWIPE_ACTION_WIDTH = 70;
+const SWIPE_ACTIONS: SwipeAction[] = ['pin', 'mute', 'archive'];
+
+// ✅ Swipe a row left to reveal pin / mute / archive
+const SwipeableChatRow: React.FC<{
+  children: React.ReactNode;
+  item: any;
+  onAction: (action: SwipeAction) => void;
+  theme: any;
+}> = ({ children, item, onAction, theme }) => {
+  const translateX = useRef(new Animated.Value(0)).current;
+  const isOpen = useRef(false);
+  const openOffset = -SWIPE_ACTION_WIDTH * SWIPE_ACTIONS.length;
+
+  const snapTo = (open: boolean) => {
+    isOpen.current = open;
+    Animated.spring(translateX, {
+      toValue: open ? openOffset : 0,
+      useNativeDriver: true,
+    }).start();
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Only claim clearly horizontal drags so the list keeps scrolling
+      onMoveShouldSetPanResponder: (evt, gestureState) =>
+        Math.abs(gestureState.dx) > Math.abs(gestureState.dy) * 2 &&
+        Math.abs(gestureState.dx) > 10,
+      onPanResponderMove: (evt, gestureState) => {
+        const start = isOpen.current ? openOffset : 0;
+        translateX.setValue(Math.max(openOffset, Math.min(0, start + gestureState.dx)));
+      },
+      onPanResponderRelease: (evt, gestureState) => {
+        const start = isOpen.current ? openOffset : 0;
+        snapTo(start + gestureState.dx < openOffset / 2);
+      },
+      onPanResponderTerminate: () => snapTo(isOpen.current),
+    })
+  ).current;
+
+  const actionStyle = (action: SwipeAction) => {
+    switch (action) {
+      case 'pin':
+        return { icon: item.isPinned ? 'pin' : 'pin-outline', color: theme.colors.primary };
+      case 'mute':
+        return {
+          icon: item.isMuted ? 'volume-high-outline' : 'volume-mute-outline',
+          color: theme.colors.secondaryText,
+        };
+      case 'archive':
+        return { icon: 'archive-outline', color: '#FF9500' };
+    }
+  };
+
+  return (
+    <View style={{ position: 'relative' }}>
+      <View
+        style={{
+          position: 'absolute',
+          top: 2,
+          bottom: 2,
+          right: 5,
+          flexDirection: 'row',
+        }}
+      >
+        {SWIPE_ACTIONS.map(action => {
+          const { icon, color } = actionStyle(action);
+          return (
+            <TouchableOpacity
+              key={action}
+              onPress={() => {
+                snapTo(false);
+                onAction(action);
+              }}
+              style={{
+                width: SWIPE_ACTION_WIDTH,
+                justifyContent: 'center',
+                alignItems: 'center',
+                backgroundColor: color,
+              }}
+            >
+              <Ionicons name={icon as any} size={22} color="white" />
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Animated.View style={{ transform: [{ translateX }] }} {...panResponder.panHandlers}>
+        {children}
+      </Animated.View>
+    </View>
+  );
+};
 
 // ✅ Optimized Chat Item Component
 const AnimatedChatItem = React.memo(
-  ({ item, onPress, onLongPress, theme }: { 
+  ({ item, onPress, onLongPress, onSwipeAction, theme }: { 
     item: any; 
     onPress: (item: any, animatedValue: Animated.Value) => void;
     onLongPress: (item: any) => void;
+    onSwipeAction: (item: any, action: SwipeAction) => void;
     theme: any;
   }) => {
     const animatedValue = useRef(new Animated.Value(1)).current;
 
-    return (
+    const row = (
       <Animated.View style={{ transform: [{ scale: animatedValue }] }}>
         <TouchableOpacity
           onPress={() => onPress(item, animatedValue)}
@@ -45,10 +154,28 @@ const AnimatedChatItem = React.memo(
             time={item.time}
             unread={item.unreadCount}
             online={item.isOnline} // This will show real-time status
+            isGroup={item.isGroup}
+            typing={item.typing}
+            pinned={item.isPinned}
+            muted={item.isMuted}
+            favorite={item.isFavorite}
           />
         </TouchableOpacity>
       </Animated.View>
     );
+
+    // Friends without a chat have no entry to pin, mute or archive
+    if (item.isPlaceholder) return row;
+
+    return (
+      <SwipeableChatRow
+        item={item}
+        onAction={action => onSwipeAction(item, action)}
+        theme={theme}
+      >
+        {row}
+      </SwipeableChatRow>
+    );
   }
 );
 
@@ -57,6 +184,7 @@ export default function ChatScreen() {
     selectedTab,
     setSelectedTab,
     chats,
+    archivedChats,
     isEmptyChat,
     tab,
     setTab,
@@ -70,15 +198,77 @@ export default function ChatScreen() {
 
   const { theme, isDark } = useThemeContext();
   const { user } = useUser();
+  const { t } = useLanguage();
   const router = useRouter();
   const [showAddFriendPopup, setShowAddFriendPopup] = useState(false);
+  const [addFriendUserId, setAddFriendUserId] = useState<string | undefined>(undefined);
+  const [showCreateGroupPopup, setShowCreateGroupPopup] = useState(false);
   const [onlineStatuses, setOnlineStatuses] = useState<Record<string, boolean>>({});
+  const [mySettings, setMySettings] = useState(DEFAULT_USER_SETTINGS);
   const [userStatusListeners, setUserStatusListeners] = useState<(() => void)[]>([]);
+  const [typingByChat, setTypingByChat] = useState<Record<string, string>>({});
+  const [messageHits, setMessageHits] = useState<IndexedMessage[]>([]);
+  const [actionChat, setActionChat] = useState<any | null>(null);
+  const [actionMode, setActionMode] = useState<'actions' | 'mute'>('actions');
+  const [showArchived, setShowArchived] = useState(false);
   const insets = useSafeAreaInsets();
 
+  const listedChats = useMemo(() => [...chats, ...archivedChats], [chats, archivedChats]);
+
+  // ✅ Deep links open from here: this screen only exists for a signed-in user, so
+  // links that arrived before login wait until it mounts
+  const friendIds = user?.friends;
+  useEffect(() => {
+    if (!user?.uid) return;
+    const uid = user.uid;
+
+    const showProfile = (profileUid: string) => {
+      router.navigate('/(tabs)');
+      setAddFriendUserId(profileUid);
+      setShowAddFriendPopup(true);
+    };
+
+    return setDeepLinkHandler(async (link) => {
+      if (link.type === 'user') {
+        if (link.uid !== uid) showProfile(link.uid);
+        return;
+      }
+
+      if (link.friendUserId === uid) return;
+      // Only friends can chat; anyone else gets the add-friend view instead
+      if (!friendIds?.includes(link.friendUserId)) {
+        showProfile(link.friendUserId);
+        return;
+      }
+      const friend = await UserService.getUserById(link.friendUserId);
+      router.push({
+        pathname: '/(screens)/chatroom',
+        params: {
+          name: friend?.name || '',
+          avatar: friend?.photo || '',
+          currentUserId: uid,
+          friendUserId: link.friendUserId,
+        },
+      });
+    });
+  }, [user?.uid, friendIds, router]);
+
+  // ✅ Content shared in from another app waits here for the same reason
+  const { hasShareIntent } = useShareIntentContext();
+  useEffect(() => {
+    if (!user?.uid || !hasShareIntent) return;
+    router.push('/(screens)/share');
+  }, [user?.uid, hasShareIntent, router]);
+
+  // Own privacy settings; hiding your online status hides everyone else's too
+  useEffect(() => {
+    if (!user?.uid) return;
+    return UserService.subscribeToUserSettings(user.uid, setMySettings);
+  }, [user?.uid]);
+
   // ✅ Listen for online status changes of users in chats
   useEffect(() => {
-    if (!user?.uid || chats.length === 0) return;
+    if (!user?.uid || listedChats.length === 0) return;
 
     // Clear previous listeners
     userStatusListeners.forEach(unsubscribe => unsubscribe());
@@ -87,18 +277,17 @@ export default function ChatScreen() {
     const statusMap: Record<string, boolean> = {};
 
     // Set up listeners for each chat's friend user
-    chats.forEach(chat => {
+    listedChats.forEach(chat => {
+      if (chat.isGroup) return;
       const chatUserIds = chat.id.split('_');
       const friendId = chatUserIds.find((id: string) => id !== user.uid);
       
       if (friendId) {
-        const unsubscribe = UserServiceSimple.onUserStatusChange(friendId, (userData: User | null) => {
-          if (userData) {
-            setOnlineStatuses(prev => ({
-              ...prev,
-              [friendId]: userData.isOnline || false
-            }));
-          }
+        const unsubscribe = PresenceService.subscribeToPresence(friendId, presence => {
+          setOnlineStatuses(prev => ({
+            ...prev,
+            [friendId]: presence.isOnline
+          }));
         });
         
         newListeners.push(unsubscribe);
@@ -110,34 +299,95 @@ export default function ChatScreen() {
     return () => {
       newListeners.forEach(unsubscribe => unsubscribe());
     };
-  }, [user?.uid, chats]);
+  }, [user?.uid, listedChats]);
+
+  // ✅ Listen for typing indicators in each chat
+  const chatIdsKey = listedChats.map(chat => chat.id).join(',');
+  const groupIdsKey = listedChats.filter(chat => chat.isGroup).map(chat => chat.id).join(',');
+  useEffect(() => {
+    if (!user?.uid || !chatIdsKey) return;
+
+    const groupIds = new Set(groupIdsKey.split(','));
+    const listeners = chatIdsKey.split(',').map(chatId =>
+      TypingService.subscribeToTyping(chatId, user.uid, typing => {
+        let label = '';
+        if (typing.length === 1 && groupIds.has(chatId)) {
+          label = t('chat.userTyping', { name: typing[0].userName || t('group.member') });
+        } else if (typing.length > 1) {
+          label = t('chat.severalTyping', { count: typing.length });
+        } else if (typing.length === 1) {
+          label = t('chat.typing');
+        }
+        setTypingByChat(prev => {
+          if ((prev[chatId] || '') === label) return prev;
+          const next = { ...prev };
+          if (label) next[chatId] = label;
+          else delete next[chatId];
+          return next;
+        });
+      })
+    );
+
+    return () => {
+      listeners.forEach(unsubscribe => unsubscribe());
+    };
+  }, [user?.uid, chatIdsKey, groupIdsKey, t]);
 
 // ✅ Enhance chats with real-time online status
 const chatsWithOnlineStatus = useMemo(() => {
-  const enhancedChats = chats.map(chat => {
+  const enhancedChats = listedChats.map(chat => {
+    const typing = typingByChat[chat.id];
+    if (chat.isGroup) return { ...chat, typing };
     const chatUserIds = chat.id.split('_');
     const friendId = chatUserIds.find((id: string) => id !== user?.uid);
-    const isOnline = friendId ? onlineStatuses[friendId] || false : false;
+    const isOnline =
+      mySettings.showOnlineStatus && friendId ? onlineStatuses[friendId] || false : false;
     
     return {
       ...chat,
-      isOnline: isOnline
+      isOnline: isOnline,
+      typing
     };
   });
   
   return enhancedChats;
-}, [chats, onlineStatuses, user?.uid]);
+}, [listedChats, onlineStatuses, mySettings.showOnlineStatus, typingByChat, user?.uid]);
 
   // ✅ Delete chat
-  const handleChatLongPress = useCallback(
+  const confirmDeleteChat = useCallback(
     (chat: any) => {
+      // Deleting a group would remove it for every member, so offer to leave instead
+      if (chat.isGroup) {
+        Alert.alert(
+          t('group.leaveGroup'),
+          t('group.leaveNamedConfirm', { name: chat.name }),
+          [
+            { text: t('common.cancel'), style: 'cancel' },
+            {
+              text: t('group.leave'),
+              style: 'destructive',
+              onPress: async () => {
+                try {
+                  if (!user?.uid) return;
+                  await GroupService.leaveGroup(chat.id, user.uid);
+                  if (refreshNow) refreshNow();
+                } catch (error) {
+                  console.error('Error leaving group:', error);
+                  Alert.alert(t('common.error'), t('group.leaveError'));
+                }
+              },
+            },
+          ]
+        );
+        return;
+      }
       Alert.alert(
-        'Delete Chat',
-        `Are you sure you want to delete the chat with ${chat.name}?`,
+        t('chat.deleteChat'),
+        t('chat.deleteChatConfirm', { name: chat.name }),
         [
-          { text: 'Cancel', style: 'cancel' },
+          { text: t('common.cancel'), style: 'cancel' },
           {
-            text: 'Delete',
+            text: t('common.delete'),
             style: 'destructive',
             onPress: async () => {
               try {
@@ -145,28 +395,169 @@ const chatsWithOnlineStatus = useMemo(() => {
                 if (refreshNow) refreshNow();
               } catch (error) {
                 console.error('Error deleting chat:', error);
-                Alert.alert('Error', 'Failed to delete chat. Please try again.');
+                Alert.alert(t('common.error'), t('chat.deleteChatError'));
               }
             },
           },
         ]
       );
     },
-    [refreshNow]
+    [refreshNow, user?.uid, t]
+  );
+
+  // ✅ Pin / archive / mute (stored on the user's chatList entry)
+  const togglePinned = useCallback(
+    async (chat: any) => {
+      if (!user?.uid) return;
+      const pinnedCount = chats.filter(c => c.isPinned).length;
+      if (!chat.isPinned && pinnedCount >= MAX_PINNED_CHATS) {
+        Alert.alert(t('chat.pinChat'), t('chat.pinLimit', { count: MAX_PINNED_CHATS }));
+        return;
+      }
+      try {
+        await ChatListService.setChatPinned(user.uid, chat.id, !chat.isPinned);
+      } catch (error) {
+        console.error('Error pinning chat:', error);
+        Alert.alert(t('common.error'), t('chat.chatActionError'));
+      }
+    },
+    [chats, t, user?.uid]
+  );
+
+  const toggleArchived = useCallback(
+    async (chat: any) => {
+      if (!user?.uid) return;
+      try {
+        await ChatListService.setChatArchived(user.uid, chat.id, !chat.isArchived);
+      } catch (error) {
+        console.error('Error archiving chat:', error);
+        Alert.alert(t('common.error'), t('chat.chatActionError'));
+      }
+    },
+    [t, user?.uid]
   );
 
+  const setMuted = useCallback(
+    async (chat: any, duration: MuteDuration | null) => {
+      if (!user?.uid) return;
+      try {
+        await ChatListService.setChatMuted(user.uid, chat.id, duration);
+      } catch (error) {
+        console.error('Error muting chat:', error);
+        Alert.alert(t('common.error'), t('chat.chatActionError'));
+      }
+    },
+    [t, user?.uid]
+  );
+
+  const toggleFavorite = useCallback(
+    async (chat: any) => {
+      if (!user?.uid) return;
+      try {
+        if (chat.isFavorite) {
+          await FavoritesService.removeFavorite(user.uid, chat.id);
+        } else {
+          const partnerId = chat.isGroup
+            ? undefined
+            : chat.id.split('_').find((id: string) => id !== user.uid);
+          await FavoritesService.addFavorite(user.uid, chat.id, partnerId);
+        }
+      } catch (error) {
+        console.error('Error updating favorite:', error);
+        Alert.alert(t('common.error'), t('chat.chatActionError'));
+      }
+    },
+    [t, user?.uid]
+  );
+
+  const openActions = useCallback((chat: any, mode: 'actions' | 'mute') => {
+    setActionMode(mode);
+    setActionChat(chat);
+  }, []);
+
+  const handleChatLongPress = useCallback(
+    (chat: any) => openActions(chat, 'actions'),
+    [openActions]
+  );
+
+  const handleSwipeAction = useCallback(
+    (chat: any, action: SwipeAction) => {
+      if (action === 'pin') togglePinned(chat);
+      else if (action === 'archive') toggleArchived(chat);
+      else if (chat.isMuted) setMuted(chat, null);
+      else openActions(chat, 'mute');
+    },
+    [openActions, setMuted, toggleArchived, togglePinned]
+  );
+
+  const handleSheetAction = useCallback(
+    (action: ChatAction) => {
+      if (!actionChat) return;
+      if (action === 'favorite') toggleFavorite(actionChat);
+      else if (action === 'pin') togglePinned(actionChat);
+      else if (action === 'archive') toggleArchived(actionChat);
+      else confirmDeleteChat(actionChat);
+    },
+    [actionChat, confirmDeleteChat, toggleArchived, toggleFavorite, togglePinned]
+  );
+
+  // Leave the archive view once it has been emptied
+  useEffect(() => {
+    if (showArchived && archivedChats.length === 0) setShowArchived(false);
+  }, [showArchived, archivedChats.length]);
+
   // ✅ Filter chats
   const filteredChats = useMemo(
     () =>
       chatsWithOnlineStatus.filter(
         (chat) =>
+          !!chat.isArchived === showArchived &&
           chat.name.toLowerCase().includes(search.toLowerCase()) &&
           (tab === 'allTab' ||
-            (tab === 'unreadTab' && (chat.unreadCount ?? 0) > 0))
+            (tab === 'unreadTab' && (chat.unreadCount ?? 0) > 0) ||
+            (tab === 'favoritesTab' && chat.isFavorite) ||
+            (tab === 'groupsTab' && chat.isGroup))
       ),
-    [chatsWithOnlineStatus, search, tab]
+    [chatsWithOnlineStatus, search, showArchived, tab]
   );
 
+  const archivedUnread = archivedChats.reduce(
+    (sum, chat) => (chat.isMuted ? sum : sum + (chat.unreadCount || 0)),
+    0
+  );
+
+  // ✅ Search message history seen on this device
+  useEffect(() => {
+    const query = search.trim();
+    if (query.length < 2) {
+      setMessageHits([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      SearchIndexService.search(query)
+        .then(hits => {
+          if (!cancelled) setMessageHits(hits);
+        })
+        .catch(error => console.error('❌ Error searching messages:', error));
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search]);
+
+  // Only show hits from chats the user is still in
+  const messageResults = useMemo(() => {
+    const chatsById = new Map(listedChats.map(chat => [chat.id, chat]));
+    return messageHits.flatMap(hit => {
+      const chat = chatsById.get(hit.chatId);
+      return chat ? [{ hit, chat }] : [];
+    });
+  }, [messageHits, listedChats]);
+
   // ✅ Tab change
   const handleTabPress = (tabKey: string) => {
     setTab(tabKey);
@@ -179,6 +570,41 @@ const chatsWithOnlineStatus = useMemo(() => {
     setSelectedTab(tabLabels[tabKey as keyof typeof tabLabels]);
   };
 
+  // ✅ Open a chat, optionally scrolled to one message
+  const openChat = useCallback(
+    (chat: any, messageId?: string) => {
+      if (chat.isGroup) {
+        router.push({
+          pathname: '/(screens)/chatroom',
+          params: {
+            name: chat.name,
+            avatar: chat.avatar,
+            currentUserId: user?.uid,
+            chatId: chat.id,
+            ...(messageId ? { messageId } : {}),
+          },
+        });
+        return;
+      }
+
+      const friendUserId = chat.id
+        .split('_')
+        .find((id: string) => id !== user?.uid);
+
+      router.push({
+        pathname: '/(screens)/chatroom',
+        params: {
+          name: chat.name,
+          avatar: chat.avatar,
+          currentUserId: user?.uid,
+          friendUserId,
+          ...(messageId ? { messageId } : {}),
+        },
+      });
+    },
+    [router, user?.uid]
+  );
+
   // ✅ Chat press → Go to Chatroom
   const handleChatPress = useCallback(
     (chat: any, animatedValue: Animated.Value) => {
@@ -195,18 +621,16 @@ const chatsWithOnlineStatus = useMemo(() => {
         }),
       ]).start();
 
-      const friendUserId = chat.id
-        .split('_')
-        .find((id: string) => id !== user?.uid);
+      openChat(chat);
+    },
+    [openChat]
+  );
 
+  const handleGroupCreated = useCallback(
+    (chatId: string, name: string) => {
       router.push({
         pathname: '/(screens)/chatroom',
-        params: {
-          name: chat.name,
-          avatar: chat.avatar,
-          currentUserId: user?.uid,
-          friendUserId,
-        },
+        params: { name, currentUserId: user?.uid, chatId },
       });
     },
     [router, user?.uid]
@@ -269,6 +693,24 @@ const chatsWithOnlineStatus = useMemo(() => {
         })}
       </View>
 
+      {/* ✅ New Group */}
+      {tab === 'groupsTab' && (
+        <TouchableOpacity
+          onPress={() => setShowCreateGroupPopup(true)}
+          style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            paddingHorizontal: 15,
+            paddingVertical: 10,
+          }}
+        >
+          <Ionicons name="people-circle-outline" size={28} color={theme.colors.primary} />
+          <CustomText color={theme.colors.primary} style={{ marginLeft: 10 }}>
+            {t('group.newGroup')}
+          </CustomText>
+        </TouchableOpacity>
+      )}
+
       {/* ✅ Chat List */}
       {isEmptyChat ? (
         <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
@@ -309,6 +751,7 @@ const chatsWithOnlineStatus = useMemo(() => {
                 item={item}
                 onPress={handleChatPress}
                 onLongPress={handleChatLongPress}
+                onSwipeAction={handleSwipeAction}
                 theme={theme}
               />
             )}
@@ -331,19 +774,75 @@ const chatsWithOnlineStatus = useMemo(() => {
               offset: 80 * index,
               index,
             })}
+            ListHeaderComponent={
+              showArchived ? (
+                <TouchableOpacity
+                  onPress={() => setShowArchived(false)}
+                  style={{ flexDirection: 'row', alignItems: 'center', paddingHorizontal: 15, paddingVertical: 12 }}
+                >
+                  <Ionicons name="arrow-back" size={22} color={theme.colors.text} />
+                  <CustomText fontWeight="bold" color={theme.colors.text} style={{ marginLeft: 12 }}>
+                    {t('chat.archived')}
+                  </CustomText>
+                </TouchableOpacity>
+              ) : archivedChats.length > 0 && !search ? (
+                <TouchableOpacity
+                  onPress={() => setShowArchived(true)}
+                  style={{ flexDirection: 'row', alignItems: 'center', paddingHorizontal: 20, paddingVertical: 12 }}
+                >
+                  <Ionicons name="archive-outline" size={22} color={theme.colors.secondaryText} />
+                  <CustomText color={theme.colors.text} style={{ flex: 1, marginLeft: 20 }}>
+                    {t('chat.archived')}
+                  </CustomText>
+                  <CustomText fontSize={theme.fonts.sizes.small} color={theme.colors.primary}>
+                    {archivedUnread > 0 ? archivedUnread : archivedChats.length}
+                  </CustomText>
+                </TouchableOpacity>
+              ) : null
+            }
+            ListFooterComponent={
+              messageResults.length > 0 ? (
+                <View>
+                  <CustomText
+                    fontSize={theme.fonts.sizes.small}
+                    color={theme.colors.secondaryText}
+                    style={{ paddingHorizontal: 15, paddingTop: 15, paddingBottom: 5 }}
+                  >
+                    Messages
+                  </CustomText>
+                  {messageResults.map(({ hit, chat }) => (
+                    <TouchableOpacity
+                      key={`${hit.chatId}_${hit.id}`}
+                      onPress={() => openChat(chat, hit.id)}
+                    >
+                      <MessageSearchResultItem
+                        name={chat.name}
+                        avatar={chat.avatar}
+                        isGroup={chat.isGroup}
+                        text={hit.text}
+                        query={search}
+                        time={new Date(hit.timestamp).toLocaleDateString()}
+                      />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              ) : null
+            }
             ListEmptyComponent={
-              <View
-                style={{
-                  flex: 1,
-                  justifyContent: 'center',
-                  alignItems: 'center',
-                  paddingVertical: 50,
-                }}
-              >
-                <CustomText color={theme.colors.secondaryText}>
-                  No chats found
-                </CustomText>
-              </View>
+              messageResults.length > 0 ? null : (
+                <View
+                  style={{
+                    flex: 1,
+                    justifyContent: 'center',
+                    alignItems: 'center',
+                    paddingVertical: 50,
+                  }}
+                >
+                  <CustomText color={theme.colors.secondaryText}>
+                    No chats found
+                  </CustomText>
+                </View>
+              )
             }
             contentContainerStyle={{ paddingBottom: 120 }}
           />
@@ -353,7 +852,28 @@ const chatsWithOnlineStatus = useMemo(() => {
       {/* ✅ Add Friend Popup */}
       <AddFriendPopup
         visible={showAddFriendPopup}
-        onClose={() => setShowAddFriendPopup(false)}
+        initialUserId={addFriendUserId}
+        onClose={() => {
+          setShowAddFriendPopup(false);
+          setAddFriendUserId(undefined);
+        }}
+      />
+
+      {/* ✅ Pin / mute / archive / delete */}
+      <ChatActionsSheet
+        visible={!!actionChat}
+        onClose={() => setActionChat(null)}
+        chat={actionChat}
+        initialMode={actionMode}
+        onAction={handleSheetAction}
+        onMute={duration => actionChat && setMuted(actionChat, duration)}
+      />
+
+      {/* ✅ Create Group Popup */}
+      <CreateGroupPopup
+        visible={showCreateGroupPopup}
+        onClose={() => setShowCreateGroupPopup(false)}
+        onCreated={handleGroupCreated}
       />
     </View>
   </SafeAreaView>
@@ -1,12 +1,16 @@
 import { useNavigateToLogin } from "@/app/(services)/navigationService";
+import { BlockedUsersSection } from "@/components/BlockedUsersSection";
 import { CustomText } from "@/components/CustomText";
 import { signOutGoogle } from "@/components/googleSignIn";
 import { LanguageSelector } from "@/components/LanguageSelector";
 import { PopupEditProfile } from "@/components/PopupEditProfile";
+import { PrivacySection } from "@/components/PrivacySection";
+import { ShareProfileSection } from "@/components/ShareProfileSection";
 import { useThemeContext } from "@/components/ThemeContext";
 import { useLanguage } from "@/i18n";
-import { uploadToCloudinary } from "@/services/cloudinary";
-import { UserServiceSimple } from "@/services/userServiceSimple";
+import { SearchIndexService } from "@/services/searchIndexService";
+import { AVATAR_MAX_DIMENSION, UploadService } from "@/services/uploadService";
+import { UserService } from "@/services/userService";
 import { Ionicons } from "@expo/vector-icons";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as ImagePicker from "expo-image-picker";
@@ -143,7 +147,7 @@ export default function ProfileScreen() {
         const updated = { ...user, photoURL: newAvatar };
         await AsyncStorage.setItem("user", JSON.stringify(updated));
         // Update Firestore
-        await UserServiceSimple.updateProfileImage(user.uid, newAvatar);
+        await UserService.updateProfileImage(user.uid, newAvatar);
         setUser(updated);
       } catch (error) {
         console.error("Error updating profile image:", error);
@@ -168,9 +172,10 @@ export default function ProfileScreen() {
     if (!result.canceled && result.assets[0]) {
       try {
         setUploading(true);
-        const cloudinaryUrl = await uploadToCloudinary(
+        const cloudinaryUrl = await UploadService.upload(
           result.assets[0].uri,
-          "image"
+          "image",
+          { maxDimension: AVATAR_MAX_DIMENSION }
         );
         await handleImageUpdate(cloudinaryUrl);
       } catch (error) {
@@ -193,9 +198,10 @@ export default function ProfileScreen() {
     if (!result.canceled && result.assets[0]) {
       try {
         setUploading(true);
-        const cloudinaryUrl = await uploadToCloudinary(
+        const cloudinaryUrl = await UploadService.upload(
           result.assets[0].uri,
-          "image"
+          "image",
+          { maxDimension: AVATAR_MAX_DIMENSION }
         );
         await handleImageUpdate(cloudinaryUrl);
       } catch (error) {
@@ -260,7 +266,7 @@ export default function ProfileScreen() {
           ? JSON.parse(existingUserStr)
           : null;
         if (existingUser?.uid) {
-          await UserServiceSimple.updateOnlineStatus(existingUser.uid, false);
+          await UserService.updateOnlineStatus(existingUser.uid, false);
           console.log("✅ User online status updated to offline");
         }
       } catch (statusError) {
@@ -275,6 +281,9 @@ export default function ProfileScreen() {
       await signOutGoogle();
       console.log("✅ Sign out completed");
 
+      // Message text indexed for search must not outlive the session
+      await SearchIndexService.clear();
+
       // Clear local storage except preserved preferences (theme & language)
       try {
         const PRESERVED_KEYS = [
@@ -535,6 +544,15 @@ export default function ProfileScreen() {
       {/* Language Selector */}
       <LanguageSelector />
 
+      {/* Share my profile */}
+      <ShareProfileSection userId={user?.uid} />
+
+      {/* Privacy */}
+      <PrivacySection userId={user?.uid} />
+
+      {/* Blocked Users */}
+      <BlockedUsersSection userId={user?.uid} />
+
       <TouchableOpacity
         onPress={handleLogout}
         style={{
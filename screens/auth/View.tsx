@@ -5,9 +5,10 @@ import { getText } from '@/components/texts';
 import { useThemeContext } from '@/components/ThemeContext';
 import { useUser } from '@/components/UserContext';
 import { ChatService } from '@/services/chatService';
-import { UserServiceSimple } from '@/services/userServiceSimple';
+import { FriendService } from '@/services/friendService';
+import { PresenceService } from '@/services/presenceService';
+import { UserService } from '@/services/userService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { doc, getFirestore, setDoc } from '@react-native-firebase/firestore';
 import React, { useEffect, useMemo, useState } from 'react';
 import { ActivityIndicator, Alert, Image, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -53,7 +54,7 @@ export const LoginScreen: React.FC = () => {
       // Create or update user using the UserService
       console.log('🔍 DEBUG: Creating/updating user document...');
       try {
-        const user = await UserServiceSimple.createOrUpdateUser({
+        const user = await UserService.createOrUpdateUser({
           uid: userData.uid,
           name: userData.displayName || 'Anonymous',
           email: userData.email || '',
@@ -73,7 +74,7 @@ export const LoginScreen: React.FC = () => {
           isOnline: true,
           displayName: userData.displayName || user.name,
           photoURL: userData.photoURL || user.photo,
-          friends: user.friends || [],
+          friends: await FriendService.getFriendIds(user.uid),
         } as any);
         console.log('✅ DEBUG: User saved to UserContext and storage successfully');
         
@@ -105,8 +106,7 @@ export const LoginScreen: React.FC = () => {
     try {
       setLoading(true);
       if (user) {
-        const userDocRef = doc(getFirestore(), 'users', (user as any).uid);
-        await setDoc(userDocRef, { isOnline: false }, { merge: true });
+        await PresenceService.goOffline((user as any).uid);
       }
       await signOutGoogle();
       setUser(null);
@@ -0,0 +1,152 @@
+// services/blockService.ts
+import { UserRelationship } from '../types/models';
+import { FieldValues } from './dataStore';
+import { Paths, Repositories } from './repositories';
+
+type Unsubscribe = () => void;
+
+export interface BlockStatus {
+  blockedByMe: boolean; // I blocked them
+  blockedMe: boolean; // They blocked me
+}
+
+const isBlocked = (relationship: UserRelationship | null): relationship is UserRelationship =>
+  relationship?.type === 'blocked';
+
+export const BlockService = {
+  /**
+   * Block a user. Their pending friend requests to this user are rejected, and
+   * messages are refused both ways until unblocked. A friendship is suspended,
+   * not ended: the block takes the place of this user's side of it, and
+   * unblocking puts it back.
+   */
+  async blockUser(
+    userId: string,
+    target: { uid: string; name: string; photo?: string }
+  ): Promise<void> {
+    try {
+      const [pending, existing] = await Promise.all([
+        Repositories.friendRequests.find({
+          senderId: target.uid,
+          receiverId: userId,
+          status: ['pending'],
+        }),
+        Repositories.users.getRelationship(userId, target.uid),
+      ]);
+
+      const relationship: UserRelationship = {
+        id: target.uid,
+        type: 'blocked',
+        createdAt: FieldValues.serverTimestamp(),
+        name: target.name,
+        photo: target.photo || '',
+        isOnline: false,
+        lastSeen: null,
+      };
+      if (existing?.type === 'friend') {
+        relationship.friendSince = existing.createdAt ?? null;
+      } else if (isBlocked(existing) && existing.friendSince !== undefined) {
+        relationship.friendSince = existing.friendSince;
+      }
+
+      const batch = Repositories.batch();
+      batch.set(Paths.relationship(userId, target.uid), relationship);
+      pending.forEach((request) =>
+        batch.update(Paths.request(request.id), {
+          status: 'rejected',
+          rejectedAt: FieldValues.serverTimestamp(),
+        })
+      );
+      await batch.commit();
+      console.log('🚫 Blocked user:', target.uid);
+    } catch (error) {
+      console.error('❌ Error blocking user:', error);
+      throw error;
+    }
+  },
+
+  async unblockUser(userId: string, targetId: string): Promise<void> {
+    try {
+      // Only a block is removed, and a friendship it suspended comes back
+      const block = await Repositories.users.getRelationship(userId, targetId);
+      if (isBlocked(block) && block.friendSince !== undefined) {
+        const { friendSince, ...rest } = block;
+        await Repositories.users.setRelationship(userId, {
+          ...rest,
+          type: 'friend',
+          createdAt: friendSince,
+        });
+      } else if (isBlocked(block)) {
+        await Repositories.users.deleteRelationship(userId, targetId);
+      }
+      console.log('✅ Unblocked user:', targetId);
+    } catch (error) {
+      console.error('❌ Error unblocking user:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * True when userId has blocked otherId
+   */
+  async hasBlocked(userId: string, otherId: string): Promise<boolean> {
+    return isBlocked(await Repositories.users.getRelationship(userId, otherId));
+  },
+
+  /**
+   * True when either user has blocked the other
+   */
+  async isBlockedBetween(userA: string, userB: string): Promise<boolean> {
+    const [aToB, bToA] = await Promise.all([
+      BlockService.hasBlocked(userA, userB),
+      BlockService.hasBlocked(userB, userA),
+    ]);
+    return aToB || bToA;
+  },
+
+  async getBlockedUsers(userId: string): Promise<UserRelationship[]> {
+    try {
+      return await Repositories.users.listRelationships(userId, 'blocked');
+    } catch (error) {
+      console.error('❌ Error loading blocked users:', error);
+      return [];
+    }
+  },
+
+  subscribeToBlockedUsers(
+    userId: string,
+    onChange: (blocked: UserRelationship[]) => void
+  ): Unsubscribe {
+    return Repositories.users.watchRelationships(userId, 'blocked', onChange, (error) => {
+      console.error('❌ Error subscribing to blocked users:', error);
+      onChange([]);
+    });
+  },
+
+  /**
+   * Watch whether a one-to-one conversation is blocked from either side
+   */
+  subscribeToBlockStatus(
+    userId: string,
+    otherId: string,
+    onChange: (status: BlockStatus) => void
+  ): Unsubscribe {
+    const status: BlockStatus = { blockedByMe: false, blockedMe: false };
+    const watch = (from: string, to: string, key: keyof BlockStatus) =>
+      Repositories.users.watchRelationship(
+        from,
+        to,
+        (relationship) => {
+          status[key] = isBlocked(relationship);
+          onChange({ ...status });
+        },
+        (error) => console.error('❌ Error subscribing to block status:', error)
+      );
+
+    const unsubscribers = [
+      watch(userId, otherId, 'blockedByMe'),
+      watch(otherId, userId, 'blockedMe'),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  },
+};
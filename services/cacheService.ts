@@ -1,4 +1,5 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SearchIndexService } from './searchIndexService';
 
 interface CacheItem<T> {
   data: T;
@@ -90,6 +91,10 @@ class CacheService {
   }
 
   async setChatMessages(chatId: string, messages: any[]): Promise<void> {
+    // Keep the message search index in step with whatever history we have seen
+    SearchIndexService.indexChatMessages(chatId, messages).catch((error) =>
+      console.warn('Failed to index messages for search:', error)
+    );
     await this.set(`messages_${chatId}`, messages, 15 * 60 * 1000); // 15 minutes
     // Cache recent messages in memory for instant loading
     this.setMemory(`messages_${chatId}`, messages, 2 * 60 * 1000); // 2 minutes in memory
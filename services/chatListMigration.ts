@@ -0,0 +1,68 @@
+// services/chatListMigration.ts
+import { normalizeChat } from '../utils/legacySchema';
+import { ChatListService } from './chatListService';
+import { Paths, QueuedWrite, Repositories } from './repositories';
+
+// Bump to make every user rebuild their chat list on next launch
+const CHAT_LIST_VERSION = 1;
+
+let running: Promise<number> | null = null;
+
+const backfill = async (uid: string): Promise<number> => {
+  const [chats, entries] = await Promise.all([
+    Repositories.chats.listForParticipant(uid),
+    Repositories.chatLists.list(uid),
+  ]);
+
+  const chatIds = new Set<string>();
+  for (const chat of chats) {
+    chatIds.add(chat.id);
+    await ChatListService.syncChatList(chat.id, {
+      userIds: [uid],
+      chat: normalizeChat(chat.id, chat),
+    });
+  }
+
+  // Entries for chats that were deleted or left while nothing kept the list in sync
+  const stale = entries.filter((entry) => !chatIds.has(entry.chatId));
+  const writes: QueuedWrite[] = stale.map(
+    (entry) => (batch) => batch.delete(Paths.chatListEntry(uid, entry.chatId))
+  );
+  writes.push((batch) =>
+    batch.set(Paths.user(uid), { chatListVersion: CHAT_LIST_VERSION }, { merge: true })
+  );
+  await Repositories.commitInChunks(writes);
+
+  console.log(`✅ Chat list backfilled for ${uid}: ${chatIds.size} chats, ${stale.length} stale removed`);
+  return chatIds.size;
+};
+
+export const ChatListMigration = {
+  /**
+   * One-time backfill of /users/{uid}/chatList from the user's /chats documents.
+   * Skipped once the user doc records the current version; pass force to rebuild
+   * anyway (pull-to-refresh uses this to repair drift). Resolves to the number of
+   * chats written.
+   */
+  async run(uid: string, options: { force?: boolean } = {}): Promise<number> {
+    if (running) return running;
+
+    running = (async () => {
+      try {
+        if (!options.force) {
+          const user = (await Repositories.users.get(uid)) as { chatListVersion?: number } | null;
+          const version = user?.chatListVersion || 0;
+          if (version >= CHAT_LIST_VERSION) return 0;
+        }
+        return await backfill(uid);
+      } catch (error) {
+        console.error('❌ Chat list migration failed:', error);
+        return 0;
+      } finally {
+        running = null;
+      }
+    })();
+
+    return running;
+  },
+};
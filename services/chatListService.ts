@@ -0,0 +1,341 @@
+// services/chatListService.ts
+import { Chat, UserChatListItem, ChatListItem } from '../types/models';
+import { unreadCountFor } from '../utils/legacySchema';
+import { Converters } from './converters';
+import { FieldValues } from './dataStore';
+import { Paths, Repositories } from './repositories';
+
+type Unsubscribe = () => void;
+
+// Pinned chats beyond this would push everything else off the first screen
+export const MAX_PINNED_CHATS = 3;
+
+export type MuteDuration = '8h' | '1w' | 'forever';
+
+const MUTE_DURATION_MS: Record<Exclude<MuteDuration, 'forever'>, number> = {
+  '8h': 8 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000,
+};
+
+interface ProfileSummary {
+  name: string;
+  photo: string;
+  isOnline: boolean;
+}
+
+const toMillis = (value: any): number => {
+  if (!value) return 0;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (typeof value.toDate === 'function') return value.toDate().getTime();
+  const time = new Date(value).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+const formatChatTime = (date: Date): string => {
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const messageDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+  if (messageDate.getTime() === today.getTime()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+  if (messageDate.getTime() === yesterday.getTime()) {
+    return 'Yesterday';
+  }
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+// The chat document only stores the preview text, so the type is read back from its prefix
+const previewType = (preview: string): UserChatListItem['lastMessageType'] => {
+  if (preview.startsWith('📷')) return 'image';
+  if (preview.startsWith('🎥')) return 'video';
+  if (preview.startsWith('🎙️')) return 'audio';
+  if (preview.startsWith('📎')) return 'file';
+  return 'text';
+};
+
+const loadProfiles = async (userIds: string[]): Promise<Record<string, ProfileSummary>> => {
+  const ids = Array.from(new Set(userIds.filter(Boolean)));
+  const users = await Promise.all(ids.map(id => Repositories.users.get(id)));
+  const profiles: Record<string, ProfileSummary> = {};
+  users.forEach((data, index) => {
+    if (!data) return;
+    profiles[ids[index]] = {
+      name: data.name || '',
+      photo: data.photo || '',
+      isOnline: !!data.isOnline,
+    };
+  });
+  return profiles;
+};
+
+/**
+ * Build one user's chatList entry from the chat document. Per-user flags
+ * (isPinned, isArchived, isMuted, lastReadAt) are deliberately left out so a
+ * merge write never resets them.
+ */
+const buildChatListEntry = (
+  chatId: string,
+  chat: Chat,
+  userId: string,
+  profiles: Record<string, ProfileSummary>
+): { [key: string]: any } => {
+  const isGroup = chat.type === 'group';
+  const partnerId = isGroup ? '' : chat.participants.find(id => id !== userId) || '';
+  const partner = profiles[partnerId];
+  const lastMessage = chat.lastMessage || '';
+  const lastMessageTime = chat.lastMessageTime || null;
+  let updatedAt = lastMessageTime || FieldValues.serverTimestamp();
+
+  // Only the author of the reacted-to message sees the reaction preview
+  const reaction = chat.lastReaction;
+  let lastReaction: any = FieldValues.delete();
+  if (reaction && reaction.messageSenderId === userId && reaction.userId !== userId) {
+    lastReaction = {
+      emoji: reaction.emoji,
+      userId: reaction.userId,
+      userName: profiles[reaction.userId]?.name || '',
+      timestamp: reaction.timestamp || null,
+    };
+    if (toMillis(reaction.timestamp) > toMillis(lastMessageTime)) {
+      updatedAt = reaction.timestamp;
+    }
+  }
+
+  return {
+    chatId,
+    isGroup,
+    partnerId,
+    partnerName: isGroup ? chat.groupInfo?.name || 'Group' : partner?.name || '',
+    partnerPhoto: isGroup ? chat.groupInfo?.photo || '' : partner?.photo || '',
+    partnerOnline: !isGroup && !!partner?.isOnline,
+    lastMessage,
+    lastMessageTime,
+    lastMessageSender: chat.lastMessageSender || '',
+    lastMessageSenderName: profiles[chat.lastMessageSender || '']?.name || '',
+    lastMessageType: previewType(lastMessage),
+    unreadCount: unreadCountFor(chat, userId),
+    lastReaction,
+    updatedAt,
+  };
+};
+
+/**
+ * Turn a stored entry into what the chat list renders: preview text with group
+ * sender prefixes and reaction previews, plus a formatted time
+ */
+const toChatListItem = (data: UserChatListItem, userId: string): ChatListItem => {
+  let lastMessage = data.lastMessage || 'Start a conversation';
+  let previewTime = toMillis(data.lastMessageTime);
+
+  if (data.isGroup && data.lastMessage && data.lastMessageSender) {
+    const senderName =
+      data.lastMessageSender === userId ? 'You' : data.lastMessageSenderName;
+    if (senderName) lastMessage = `${senderName}: ${data.lastMessage}`;
+  }
+
+  const reactionTime = toMillis(data.lastReaction?.timestamp);
+  if (data.lastReaction && reactionTime >= previewTime) {
+    const name = data.lastReaction.userName || 'Someone';
+    lastMessage = `${name} reacted ${data.lastReaction.emoji} to your message`;
+    previewTime = reactionTime;
+  }
+
+  return {
+    id: data.chatId,
+    name: data.partnerName,
+    avatar: data.partnerPhoto,
+    lastMessage,
+    time: previewTime ? formatChatTime(new Date(previewTime)) : '',
+    unreadCount: data.unreadCount || 0,
+    isOnline: data.partnerOnline,
+    isPinned: data.isPinned,
+    isArchived: data.isArchived,
+    isMuted: data.isMuted,
+    mutedUntil: data.isMuted && data.mutedUntil ? toMillis(data.mutedUntil) : null,
+    isGroup: !!data.isGroup,
+  };
+};
+
+/**
+ * The denormalized chat list in /users/{userId}/chatList: one entry per chat,
+ * so the list loads with a single query. ChatService owns /chats and calls
+ * syncChatList after every write that changes what the list shows.
+ */
+export const ChatListService = {
+  // =============================================================================
+  // CHAT LIST OPERATIONS (Using Denormalized Data)
+  // =============================================================================
+
+  /**
+   * Subscribe to user's chat list - SUPER FAST (single query)
+   * Uses denormalized data from /users/{userId}/chatList subcollection
+   */
+  subscribeToUserChatList(
+    userId: string,
+    onChange: (chats: ChatListItem[]) => void
+  ): Unsubscribe {
+    console.log('📱 Subscribing to chat list for user:', userId);
+    
+    // Archived entries are included; the caller shows them in their own section.
+    // Filtering on the flags in the query would miss entries the sync created,
+    // which never set them.
+    return Repositories.chatLists.watchRecent(
+      userId,
+      100, // Limit for performance
+      entries => {
+        const chatItems: ChatListItem[] = entries.map(entry => toChatListItem(entry, userId));
+
+        console.log('📱 Loaded', chatItems.length, 'chats from denormalized list');
+        onChange(chatItems);
+      },
+      error => {
+        console.error('❌ Chat list subscription error:', error);
+        onChange([]);
+      }
+    );
+  },
+
+  // =============================================================================
+  // CHAT LIST PREFERENCES (per-user flags the sync never overwrites)
+  // =============================================================================
+
+  /**
+   * Pin or unpin a chat. Pinning takes a chat out of the archive and is refused
+   * once MAX_PINNED_CHATS are pinned.
+   */
+  async setChatPinned(userId: string, chatId: string, pinned: boolean): Promise<void> {
+    try {
+      if (pinned) {
+        const pinnedEntries = await Repositories.chatLists.listPinned(userId);
+        const others = pinnedEntries.filter(entry => entry.chatId !== chatId);
+        if (others.length >= MAX_PINNED_CHATS) {
+          throw new Error(`You can only pin up to ${MAX_PINNED_CHATS} chats`);
+        }
+      }
+
+      await Repositories.chatLists.update(userId, chatId, {
+        isPinned: pinned,
+        ...(pinned ? { isArchived: false } : {}),
+      });
+      console.log(`📌 Chat ${pinned ? 'pinned' : 'unpinned'}:`, chatId);
+    } catch (error) {
+      console.error('❌ Error updating pinned chat:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Move a chat into or out of the archive. Archived chats are unpinned.
+   */
+  async setChatArchived(userId: string, chatId: string, archived: boolean): Promise<void> {
+    try {
+      await Repositories.chatLists.update(userId, chatId, {
+        isArchived: archived,
+        ...(archived ? { isPinned: false } : {}),
+      });
+      console.log(`🗄️ Chat ${archived ? 'archived' : 'unarchived'}:`, chatId);
+    } catch (error) {
+      console.error('❌ Error updating archived chat:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Mute a chat for a while or until turned off; pass null to unmute
+   */
+  async setChatMuted(userId: string, chatId: string, duration: MuteDuration | null): Promise<void> {
+    try {
+      const mutedUntil = !duration
+        ? FieldValues.delete()
+        : duration === 'forever'
+          ? null
+          : new Date(Date.now() + MUTE_DURATION_MS[duration]);
+
+      await Repositories.chatLists.update(userId, chatId, {
+        isMuted: !!duration,
+        mutedUntil,
+      });
+      console.log(`🔕 Chat mute set to ${duration ?? 'off'}:`, chatId);
+    } catch (error) {
+      console.error('❌ Error updating muted chat:', error);
+      throw error;
+    }
+  },
+
+  // =============================================================================
+  // CHAT LIST SYNC (keeps /users/{uid}/chatList in step with /chats)
+  // =============================================================================
+
+  /**
+   * Rewrite the chatList entries of a chat from its /chats document. Call after
+   * anything that changes the preview, unread counts, members or group info.
+   * Pass userIds to only touch some participants (the migration backfills just its own user).
+   */
+  async syncChatList(
+    chatId: string,
+    options: { userIds?: string[]; chat?: Chat } = {}
+  ): Promise<void> {
+    let chat = options.chat;
+    if (!chat) {
+      const stored = await Repositories.chats.get(chatId);
+      if (!stored) return;
+      chat = Converters.chat.fromFirestore(chatId, stored);
+    }
+
+    const participants = chat.participants || [];
+    const targets = options.userIds
+      ? participants.filter(id => options.userIds!.includes(id))
+      : participants;
+    if (targets.length === 0) return;
+
+    // Direct chats need both sides (each is the other's partner); groups only need
+    // the names shown in the preview
+    const profileIds = chat.type === 'group' ? [] : [...participants];
+    if (chat.lastMessageSender) profileIds.push(chat.lastMessageSender);
+    if (chat.lastReaction) profileIds.push(chat.lastReaction.userId);
+    const profiles = await loadProfiles(profileIds);
+
+    const batch = Repositories.batch();
+    targets.forEach(userId => {
+      batch.set(
+        Paths.chatListEntry(userId, chatId),
+        Converters.chatListItem.toFirestore(buildChatListEntry(chatId, chat!, userId, profiles), {
+          merge: true,
+        }),
+        { merge: true }
+      );
+    });
+    await batch.commit();
+  },
+
+  /**
+   * Push a user's new name or photo into the chatList entries their chat partners see
+   */
+  async updatePartnerProfile(
+    userId: string,
+    changes: { name?: string; photo?: string }
+  ): Promise<void> {
+    const update: { [key: string]: any } = {};
+    if (changes.name !== undefined) update.partnerName = changes.name;
+    if (changes.photo !== undefined) update.partnerPhoto = changes.photo;
+    if (Object.keys(update).length === 0) return;
+
+    const chats = await Repositories.chats.listForParticipant(userId);
+    const batch = Repositories.batch();
+    chats.forEach(stored => {
+      const chat = Converters.chat.fromFirestore(stored.id, stored);
+      if (chat.type === 'group') return;
+      chat.participants
+        .filter(id => id !== userId)
+        .forEach(partnerId => {
+          batch.set(Paths.chatListEntry(partnerId, chat.id), update, { merge: true });
+        });
+    });
+    await batch.commit();
+  },
+};
+
+export type { ChatListItem };
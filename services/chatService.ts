@@ -1,76 +1,80 @@
-import {
-  collection,
-  deleteDoc,
-  doc,
-  getDoc,
-  getDocs,
-  getFirestore,
-  increment,
-  limit,
-  onSnapshot,
-  orderBy,
-  query,
-  serverTimestamp,
-  setDoc,
-  updateDoc,
-  where,
-  writeBatch,
-} from "@react-native-firebase/firestore";
+import type { Message } from "@/utils/chatMessages";
+import { StoredChat, typeForMedia, unreadCountFor } from "@/utils/legacySchema";
 import { addRecentChat } from "@/utils/quickActions";
-import { Chat, ChatMessage, ChatSimple } from "../types/models";
-import { UserServiceSimple } from "./userServiceSimple";
+import { Chat, ChatMessage } from "../types/models";
+import { BlockService } from "./blockService";
+import { ChatListService } from "./chatListService";
+import { Converters } from "./converters";
+import { FieldValues } from "./dataStore";
+import { MessageStatusService } from "./messageStatusService";
+import {
+  MessageCursor,
+  MessageDocument,
+  Paths,
+  QueuedWrite,
+  Repositories,
+} from "./repositories";
+import { UserService } from "./userService";
 
 type Unsubscribe = () => void;
 
-const CHATS = "chats";
-const MESSAGES = "messages";
-const USERS = "users";
-
-export const ChatService = {
-  // Test function to check user documents
-  async testUserDocuments(senderId: string, receiverId: string): Promise<void> {
-    console.log("🧪 Testing user documents:", { senderId, receiverId });
+// How many messages a chat opens with, and how many each "load older" fetches
+export const MESSAGE_PAGE_SIZE = 30;
+
+// A message as the chat room shows it, or content shared in from another app
+export type ForwardableMessage = Pick<Message, "id" | "text"> &
+  Partial<
+    Pick<
+      Message,
+      "mediaUrl" | "mediaType" | "fileName" | "fileSize" | "waveform" | "durationMillis" | "replyTo"
+    >
+  >;
+
+type MessageMedia = Required<Pick<ChatMessage["content"], "mediaUrl" | "mediaType">> &
+  Pick<ChatMessage["content"], "fileName" | "fileSize" | "waveform" | "durationMillis">;
+
+export interface MessagePage {
+  messages: ChatMessage[]; // Oldest first
+  cursor: MessageCursor | null; // Oldest message loaded so far; pass to loadOlderMessages
+  hasMore: boolean;
+}
 
-    try {
-      const db = getFirestore();
-      const senderDocRef = doc(db, "users", senderId);
-      const receiverDocRef = doc(db, "users", receiverId);
-      const [senderDoc, receiverDoc] = await Promise.all([
-        getDoc(senderDocRef),
-        getDoc(receiverDocRef),
-      ]);
-
-      console.log("🧪 Sender document:", {
-        exists: senderDoc.exists(),
-        data: senderDoc.data(),
-        id: senderDoc.id,
-      });
+// The chat document stays the source of truth; a failed sync is repaired by the next one
+const syncChatList = (chatId: string) => {
+  ChatListService.syncChatList(chatId).catch((error) =>
+    console.error("❌ Error syncing chat list:", chatId, error)
+  );
+};
 
-      console.log("🧪 Receiver document:", {
-        exists: receiverDoc.exists(),
-        data: receiverDoc.data(),
-        id: receiverDoc.id,
-      });
+// Every member starts with nothing unread
+const newParticipantData = (participants: string[]): Chat["participantData"] =>
+  Object.fromEntries(participants.map((id) => [id, { unreadCount: 0 }]));
+
+// A message's text plus any attachment, as stored in its content
+const messageContent = (
+  text: string,
+  media: MessageMedia | undefined,
+  messageId: string
+): ChatMessage["content"] => {
+  const content: ChatMessage["content"] = { text: text || "" };
+  if (media) {
+    content.mediaUrl = media.mediaUrl;
+    content.mediaType = media.mediaType;
+    content.fileName = media.fileName || `${media.mediaType}_${messageId}`;
+    if (media.fileSize) content.fileSize = media.fileSize;
+    if (media.waveform?.length) content.waveform = media.waveform;
+    if (media.durationMillis) content.durationMillis = media.durationMillis;
+  }
+  return content;
+};
 
-      if (senderDoc.exists() && receiverDoc.exists()) {
-        const senderFriends = senderDoc.data()?.friends || [];
-        const receiverFriends = receiverDoc.data()?.friends || [];
+const toChatMessages = (docs: MessageDocument[]): ChatMessage[] =>
+  docs.map((message) => Converters.message.fromFirestore(message.id, message));
 
-        console.log("🧪 Friendship status:", {
-          senderFriends,
-          receiverFriends,
-          senderHasReceiver: senderFriends.includes(receiverId),
-          receiverHasSender: receiverFriends.includes(senderId),
-        });
-      } else {
-        throw new Error(
-          `User document(s) not found: sender=${senderDoc.exists()}, receiver=${receiverDoc.exists()}`
-        );
-      }
-    } catch (error) {
-      console.error("🧪 Error testing user documents:", error);
-      throw error;
-    }
+export const ChatService = {
+  // Refresh every participant's chatList entry after another service changed a chat document
+  syncChatList(chatId: string): void {
+    syncChatList(chatId);
   },
 
   generateChatId(userA: string, userB: string): string {
@@ -84,30 +88,16 @@ export const ChatService = {
 
   subscribeToUserChats(
     userId: string,
-    onChange: (chats: ChatSimple[]) => void
+    onChange: (chats: Chat[]) => void
   ): Unsubscribe {
-    const db = getFirestore();
-    const chatQuery = query(
-      collection(db, CHATS),
-      where("participants", "array-contains", userId)
-      // REMOVE the orderBy if lastMessageTime doesn't exist in all documents
-      // orderBy("lastMessageTime", "desc")
-    );
-
-    const unsubscribe = onSnapshot(chatQuery, {
-      next: (snapshot) => {
-        const firebaseChats: ChatSimple[] = snapshot.docs.map((d: any) => ({
-          id: d.id,
-          ...d.data(),
-        }));
-        onChange(firebaseChats);
-      },
-      error: (error) => {
+    return Repositories.chats.watchForParticipant(
+      userId,
+      (chats) => onChange(chats.map((chat) => Converters.chat.fromFirestore(chat.id, chat))),
+      (error) => {
         console.error("subscribeToUserChats error:", error);
         onChange([]);
-      },
-    });
-    return unsubscribe;
+      }
+    );
   },
 
   subscribeToMessages(
@@ -116,25 +106,239 @@ export const ChatService = {
     onChange: (messages: ChatMessage[]) => void
   ): Unsubscribe {
     const chatId = this.generateChatId(userId, friendUserId);
-    const db = getFirestore();
-    const messagesRef = collection(db, CHATS, chatId, MESSAGES);
-    
-    // Use a simple query without complex where clauses
-    const messagesQuery = query(messagesRef, orderBy("timestamp", "asc"));
-  
-    return onSnapshot(messagesQuery, {
-      next: (snapshot) => {
-        const items: ChatMessage[] = snapshot.docs.map((docSnap: any) => ({
-          id: docSnap.id,
-          ...docSnap.data(),
-        }));
-        onChange(items);
-      },
-      error: (error) => {
-        console.error("subscribeToMessages error:", error);
-        onChange([]);
-      },
-    });
+    return this.subscribeToChatMessages(chatId, onChange, userId);
+  },
+
+  // Subscribe by chat document id (direct chats and groups alike).
+  // Pass viewerId to mark messages addressed to that user as delivered on first sight.
+  //
+  // Only the newest pageSize messages are fetched up front. The live listener is then
+  // anchored on the oldest of those, so the window grows with new messages instead of
+  // sliding (a sliding limit() query would drop messages off its far end). Older history
+  // is fetched on demand with loadOlderMessages, starting from page.cursor.
+  subscribeToChatMessages(
+    chatId: string,
+    onChange: (messages: ChatMessage[], page: Omit<MessagePage, "messages">) => void,
+    viewerId?: string,
+    pageSize: number = MESSAGE_PAGE_SIZE
+  ): Unsubscribe {
+    let unsubscribe: Unsubscribe | null = null;
+    let cancelled = false;
+
+    const listen = (anchor: MessageCursor | null) => {
+      unsubscribe = Repositories.messages.watchFrom(
+        chatId,
+        anchor,
+        (docs) => {
+          const items = toChatMessages(docs);
+
+          // Queued before onChange so a read receipt written in response lands after it
+          if (viewerId) {
+            const undelivered = items
+              .filter((m) => m.receiverId === viewerId && m.status === "sent")
+              .map((m) => m.id);
+            if (undelivered.length > 0) {
+              MessageStatusService.markMessagesAsDelivered(chatId, undelivered);
+            }
+          }
+
+          onChange(items, { cursor: anchor, hasMore: !!anchor });
+        },
+        (error) => {
+          console.error("subscribeToMessages error:", error);
+          onChange([], { cursor: null, hasMore: false });
+        }
+      );
+    };
+
+    Repositories.messages
+      .listLatest(chatId, pageSize)
+      .then((docs) => {
+        if (cancelled) return;
+        // A short first page means there is no older history to anchor on
+        listen(docs.length === pageSize ? docs[docs.length - 1].timestamp : null);
+      })
+      .catch((error) => {
+        console.error("❌ Error loading latest messages:", error);
+        if (!cancelled) onChange([], { cursor: null, hasMore: false });
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  },
+
+  /**
+   * Fetch the page of messages sent before the cursor (one-off read, not live)
+   */
+  async loadOlderMessages(
+    chatId: string,
+    cursor: MessageCursor,
+    pageSize: number = MESSAGE_PAGE_SIZE
+  ): Promise<MessagePage> {
+    try {
+      const docs = await Repositories.messages.listLatest(chatId, pageSize, cursor);
+
+      return {
+        messages: toChatMessages(docs).reverse(),
+        cursor: docs.length > 0 ? docs[docs.length - 1].timestamp : cursor,
+        hasMore: docs.length === pageSize,
+      };
+    } catch (error) {
+      console.error("❌ Error loading older messages:", error);
+      throw error;
+    }
+  },
+
+  subscribeToChat(
+    chatId: string,
+    onChange: (chat: Chat | null) => void
+  ): Unsubscribe {
+    return Repositories.chats.watch(
+      chatId,
+      (chat) => onChange(chat ? Converters.chat.fromFirestore(chat.id, chat) : null),
+      (error) => {
+        console.error("subscribeToChat error:", error);
+        onChange(null);
+      }
+    );
+  },
+
+  // Group chats use an auto-generated id since the member set can change
+  async createGroupChat(
+    creatorId: string,
+    name: string,
+    memberIds: string[],
+    photo?: string
+  ): Promise<string> {
+    try {
+      const chatId = Repositories.chats.newId();
+      const participants = Array.from(new Set([creatorId, ...memberIds]));
+
+      const batch = Repositories.batch();
+      batch.set(Paths.chat(chatId), Converters.chat.toFirestore({
+        type: "group",
+        participants,
+        participantCount: participants.length,
+        groupInfo: {
+          name: name.trim(),
+          photo: photo || "",
+          adminIds: [creatorId],
+        },
+        lastMessage: "",
+        lastMessageTime: FieldValues.serverTimestamp(),
+        lastMessageSender: "",
+        participantData: newParticipantData(participants),
+        createdBy: creatorId,
+        createdAt: FieldValues.serverTimestamp(),
+      }));
+      batch.set(
+        Paths.message(chatId, Repositories.messages.newId(chatId)),
+        Converters.message.toFirestore({
+          senderId: creatorId,
+          timestamp: FieldValues.serverTimestamp(),
+          chatId,
+          type: "system",
+          content: { text: "" },
+          systemData: {
+            action: "chat_created",
+            actorId: creatorId,
+            targetIds: participants.filter((id) => id !== creatorId),
+          },
+        })
+      );
+      await batch.commit();
+      syncChatList(chatId);
+
+      console.log(`✅ Group chat created: ${chatId}`);
+      return chatId;
+    } catch (error) {
+      console.error("❌ Error creating group chat:", error);
+      throw error;
+    }
+  },
+
+  async sendGroupMessage(
+    chatId: string,
+    senderId: string,
+    message: string,
+    replyTo?: {
+      messageId: string;
+      text: string;
+      senderId: string;
+      senderName: string;
+    } | null,
+    media?: {
+      mediaUrl: string;
+      mediaType: "image" | "video" | "audio" | "file";
+      fileName?: string;
+      fileSize?: number;
+      waveform?: number[];
+      durationMillis?: number;
+    },
+    messageId?: string // Client-chosen id makes retries idempotent
+  ): Promise<string> {
+    try {
+      const chat = await Repositories.chats.get(chatId);
+      if (!chat) throw new Error(`Group chat not found: ${chatId}`);
+
+      const participants: string[] = chat.participants || [];
+      if (!participants.includes(senderId)) {
+        throw new Error("Sender is not a member of this group");
+      }
+
+      const newMessageId = messageId || Repositories.messages.newId(chatId);
+      const messageData: Omit<ChatMessage, "id"> = {
+        senderId,
+        timestamp: FieldValues.serverTimestamp(),
+        chatId,
+        content: messageContent(message, media, newMessageId),
+        type: typeForMedia(media?.mediaType),
+        status: "sent",
+      };
+
+      if (replyTo) {
+        messageData.replyTo = {
+          messageId: replyTo.messageId,
+          text: replyTo.text,
+          senderId: replyTo.senderId,
+          senderName: replyTo.senderName,
+        };
+      }
+
+      let lastMessage = message;
+      if (media) {
+        if (media.mediaType === "image") lastMessage = "📷 Image";
+        else if (media.mediaType === "video") lastMessage = "🎥 Video";
+        else if (media.mediaType === "audio") lastMessage = "🎙️ Voice message";
+        else if (media.mediaType === "file") lastMessage = "📎 File";
+      }
+
+      // Fan out unread counts to every member except the sender
+      const chatUpdate: { [key: string]: any } = {
+        lastMessage: lastMessage || "",
+        lastMessageTime: FieldValues.serverTimestamp(),
+        lastMessageSender: senderId,
+        lastMessageId: newMessageId,
+      };
+      participants
+        .filter((id) => id !== senderId)
+        .forEach((id) => {
+          chatUpdate[`participantData.${id}.unreadCount`] = FieldValues.increment(1);
+        });
+
+      const batch = Repositories.batch();
+      batch.set(Paths.message(chatId, newMessageId), Converters.message.toFirestore(messageData));
+      batch.update(Paths.chat(chatId), chatUpdate);
+      await batch.commit();
+      syncChatList(chatId);
+
+      return newMessageId;
+    } catch (error) {
+      console.error("❌ Error sending group message:", error);
+      throw error;
+    }
   },
 
   async ensureChatExists(
@@ -142,12 +346,10 @@ export const ChatService = {
     otherUserId: string
   ): Promise<string> {
     const chatId = this.generateChatId(currentUserId, otherUserId);
-    const db = getFirestore();
-    const chatRef = doc(db, CHATS, chatId);
 
     try {
-      const snap = await getDoc(chatRef);
-      if (!snap.exists()) {
+      const existing = await Repositories.chats.get(chatId);
+      if (!existing) {
         const participants = [currentUserId, otherUserId].sort();
 
         console.log(
@@ -155,21 +357,20 @@ export const ChatService = {
           participants
         );
 
-        const initialUnreadCount: { [key: string]: number } = {};
-        initialUnreadCount[currentUserId] = 0;
-        initialUnreadCount[otherUserId] = 0;
-
-        const chatData = {
+        const chatData: Omit<Chat, "id"> = {
+          type: "direct",
           participants,
+          participantCount: participants.length,
           lastMessage: "",
-          lastMessageTime: serverTimestamp(),
+          lastMessageTime: FieldValues.serverTimestamp(),
           lastMessageSender: "",
-          unreadCount: initialUnreadCount,
+          participantData: newParticipantData(participants),
           createdBy: currentUserId,
-          createdAt: serverTimestamp(),
+          createdAt: FieldValues.serverTimestamp(),
         };
 
-        await setDoc(chatRef, chatData);
+        await Repositories.chats.create(chatId, Converters.chat.toFirestore(chatData));
+        syncChatList(chatId);
         console.log(`✅ Chat created successfully: ${chatId}`);
       } else {
         console.log(`✅ Chat already exists: ${chatId}`);
@@ -177,8 +378,8 @@ export const ChatService = {
     } catch (error) {
       console.error(`❌ Error creating chat ${chatId}:`, error);
       try {
-        const retrySnap = await getDoc(chatRef);
-        if (!retrySnap.exists()) {
+        const retried = await Repositories.chats.get(chatId);
+        if (!retried) {
           console.warn(`❌ Chat creation failed, but continuing`);
         } else {
           console.log(`✅ Chat found on retry: ${chatId}`);
@@ -191,41 +392,13 @@ export const ChatService = {
     return chatId;
   },
 
-  // REPLACE your markMessagesAsRead and markIncomingFromSenderAsRead methods with these:
-
+  // Flip incoming messages to 'read' and reset this user's unread counter
   async markMessagesAsRead(chatId: string, userId: string): Promise<void> {
     try {
-      const db = getFirestore();
-      const chatRef = doc(db, CHATS, chatId);
-      
-      // REMOVE ALL THIS DUPLICATE CODE:
-      /*
-      const messagesQuery = query(
-        collection(db, CHATS, chatId, MESSAGES),
-        where("receiverId", "==", userId),
-        where("status", "in", ["sent", "delivered"])
-      );
-  
-      const snapshot = await getDocs(messagesQuery);
-      const batch = writeBatch(getFirestore());
-      snapshot.docs.forEach((docSnap: any) => {
-        batch.update(docSnap.ref, { status: "read" });
-      });
-  
-      const updateData: { [key: string]: any } = {};
-      updateData[`unreadCount.${userId}`] = 0;
-      updateData[`participantData.${userId}`] = { unreadCount: 0 };
-      batch.set(chatRef, updateData, { merge: true });
-  
-      await batch.commit();
-      */
-      
-      // KEEP ONLY THIS SIMPLE VERSION:
-      await updateDoc(chatRef, {
-        [`unreadCount.${userId}`]: 0
-      });
+      await MessageStatusService.markChatAsRead(chatId, userId);
     } catch (error) {
       console.error('Failed to mark messages as read:', error);
+      throw error;
     }
   },
 
@@ -235,44 +408,10 @@ async markIncomingFromSenderAsRead(
   friendUserId: string
 ): Promise<void> {
   try {
-    const db = getFirestore();
-    const chatRef = doc(db, CHATS, chatId);
-    
-    // REMOVE ALL THE COMPLEX BATCH CODE:
-    /*
-    const messagesQuery = query(
-      collection(db, CHATS, chatId, MESSAGES),
-      where("senderId", "==", friendUserId),
-      where("status", "in", ["sent", "delivered"])
-    );
-
-    const snap = await getDocs(messagesQuery);
-    if (!snap.empty) {
-      const batch = writeBatch(getFirestore());
-      snap.docs.forEach((docSnap: any) =>
-        batch.update(docSnap.ref, { status: "read" })
-      );
-      const updateData: { [key: string]: any } = {};
-      updateData[`unreadCount.${currentUserId}`] = 0;
-      updateData[`participantData.${currentUserId}`] = { unreadCount: 0 };
-      batch.set(chatRef, updateData, { merge: true });
-      await batch.commit();
-    } else {
-      await setDoc(
-        chatRef,
-        {
-          [`unreadCount.${currentUserId}`]: 0,
-          [`participantData.${currentUserId}`]: { unreadCount: 0 },
-        },
-        { merge: true }
-      );
-    }
-    */
-    
-    // KEEP ONLY THIS SIMPLE VERSION:
-    await updateDoc(chatRef, {
-      [`unreadCount.${currentUserId}`]: 0
+    await Repositories.chats.update(chatId, {
+      [`participantData.${currentUserId}.unreadCount`]: 0
     });
+    syncChatList(chatId);
   } catch (error) {
     console.error('Failed to mark incoming messages as read:', error);
   }
@@ -290,34 +429,41 @@ async markIncomingFromSenderAsRead(
     } | null,
     media?: {
       mediaUrl: string;
-      mediaType: "image" | "video" | "audio";
+      mediaType: "image" | "video" | "audio" | "file";
       fileName?: string;
-    }
+      fileSize?: number;
+      waveform?: number[];
+      durationMillis?: number;
+    },
+    messageId?: string // Client-chosen id makes retries idempotent
   ): Promise<string> {
     try {
-      // Generate chatId and set up Firestore references
+      // Blocking from either side stops the conversation
+      if (await BlockService.isBlockedBetween(senderId, receiverId)) {
+        throw new Error("You can't send messages to this user");
+      }
+
+      // Generate chatId and the new message's id
       const chatId = this.generateChatId(senderId, receiverId);
-      const db = getFirestore();
-      const chatRef = doc(db, "chats", chatId);
-      const messagesRef = collection(db, "chats", chatId, "messages");
-      const newMessageRef = doc(messagesRef);
+      const newMessageId = messageId || Repositories.messages.newId(chatId);
+
+      // After an unfriend the conversation stays readable but takes no new messages
+      const existingChat = await Repositories.chats.get(chatId);
+      if (existingChat?.readOnly) {
+        throw new Error("This conversation is read-only");
+      }
   
       // Prepare message data
-      const messageData: any = {
+      const messageData: Omit<ChatMessage, "id"> = {
         senderId,
-        timestamp: serverTimestamp(),
+        receiverId,
+        timestamp: FieldValues.serverTimestamp(),
         chatId,
+        content: messageContent(message, media, newMessageId),
+        type: typeForMedia(media?.mediaType),
+        status: "sent",
       };
   
-      if (media) {
-        messageData.mediaUrl = media.mediaUrl;
-        messageData.mediaType = media.mediaType;
-        messageData.fileName = media.fileName || `${media.mediaType}_${newMessageRef.id}`;
-        messageData.text = message || "";
-      } else {
-        messageData.text = message || "";
-      }
-  
       if (replyTo) {
         messageData.replyTo = {
           messageId: replyTo.messageId,
@@ -327,45 +473,65 @@ async markIncomingFromSenderAsRead(
         };
       }
   
-      // Create message
-      await setDoc(newMessageRef, messageData);
-  
-      // Update chat document
-      const chatSnap = await getDoc(chatRef);
       let lastMessage = message;
       if (media) {
         if (media.mediaType === "image") lastMessage = "📷 Image";
         else if (media.mediaType === "video") lastMessage = "🎥 Video";
         else if (media.mediaType === "audio") lastMessage = "🎙️ Voice message";
+        else if (media.mediaType === "file") lastMessage = "📎 File";
       }
-  
-      if (chatSnap.exists()) {
-        const currentUnreadCount = chatSnap.data()?.unreadCount || {};
-        await updateDoc(chatRef, {
-          lastMessage: lastMessage || "",
-          lastMessageTime: serverTimestamp(),
-          lastMessageSender: senderId,
-          lastMessageId: newMessageRef.id,
-          [`unreadCount.${receiverId}`]: (currentUnreadCount[receiverId] || 0) + 1,
-        });
-      } else {
-        const chatData = {
-          participants: [senderId, receiverId].sort(),
-          lastMessage: lastMessage || "",
-          lastMessageTime: serverTimestamp(),
-          lastMessageSender: senderId,
-          lastMessageId: newMessageRef.id,
-          unreadCount: { [senderId]: 0, [receiverId]: 1 },
-          createdBy: senderId,
-          createdAt: serverTimestamp(),
-        };
-        await setDoc(chatRef, chatData);
-      }
+
+      // The message and the chat update land together, and a replay of a send that
+      // already landed (the outbox retries with the same id) writes nothing, so the
+      // receiver's unread count goes up exactly once
+      const chatPath = Paths.chat(chatId);
+      const messagePath = Paths.message(chatId, newMessageId);
+      await Repositories.runTransaction(async (transaction) => {
+        if (await transaction.get(messagePath)) return;
+        const chatDoc = await transaction.get<StoredChat>(chatPath);
+
+        transaction.set(messagePath, Converters.message.toFirestore(messageData));
+
+        if (chatDoc) {
+          // A legacy unreadCount map is carried over the first time
+          const stored = chatDoc.data.participantData?.[receiverId]?.unreadCount;
+          const chat = Converters.chat.fromFirestore(chatId, chatDoc.data);
+          transaction.update(chatPath, {
+            lastMessage: lastMessage || "",
+            lastMessageTime: FieldValues.serverTimestamp(),
+            lastMessageSender: senderId,
+            lastMessageId: newMessageId,
+            [`participantData.${receiverId}.unreadCount`]:
+              typeof stored === "number"
+                ? FieldValues.increment(1)
+                : unreadCountFor(chat, receiverId) + 1,
+          });
+        } else {
+          const participants = [senderId, receiverId].sort();
+          const chatData: Omit<Chat, "id"> = {
+            type: "direct",
+            participants,
+            participantCount: participants.length,
+            lastMessage: lastMessage || "",
+            lastMessageTime: FieldValues.serverTimestamp(),
+            lastMessageSender: senderId,
+            lastMessageId: newMessageId,
+            participantData: {
+              ...newParticipantData(participants),
+              [receiverId]: { unreadCount: 1 },
+            },
+            createdBy: senderId,
+            createdAt: FieldValues.serverTimestamp(),
+          };
+          transaction.set(chatPath, Converters.chat.toFirestore(chatData));
+        }
+      });
+      syncChatList(chatId);
   
       const chatName = "Chat Name"; 
       await this.updateRecentChats(senderId, chatId, chatName, message);
       
-      return newMessageRef.id;
+      return newMessageId;
     } catch (error) {
       console.error("Error sending message:", error);
       throw error;
@@ -378,8 +544,11 @@ async markIncomingFromSenderAsRead(
     receiverId: string,
     mediaItems: Array<{
       mediaUrl: string;
-      mediaType: "image" | "video" | "audio";
+      mediaType: "image" | "video" | "audio" | "file";
       fileName?: string;
+      fileSize?: number;
+      waveform?: number[];
+      durationMillis?: number;
     }>,
     caption?: string,
     replyTo?: {
@@ -413,54 +582,43 @@ async markIncomingFromSenderAsRead(
   async deleteMessage(chatId: string, messageId: string): Promise<void> {
     try {
       console.log("🗑️ Deleting message:", { chatId, messageId });
-      const messageRef = doc(
-        getFirestore(),
-        CHATS,
-        chatId,
-        MESSAGES,
-        messageId
-      );
-      const messageDoc = await getDoc(messageRef);
-      if (!messageDoc.exists()) throw new Error("Message not found");
-      await deleteDoc(messageRef);
+      const messageDoc = await Repositories.messages.get(chatId, messageId);
+      if (!messageDoc) throw new Error("Message not found");
+      await Repositories.messages.delete(chatId, messageId);
       console.log("✅ Message deleted successfully");
 
-      const db = getFirestore();
-      const chatRef = doc(db, CHATS, chatId);
-      const remainingMessagesQuery = query(
-        collection(db, CHATS, chatId, MESSAGES),
-        orderBy("timestamp", "desc"),
-        limit(1)
-      );
-      const remainingMessagesSnap = await getDocs(remainingMessagesQuery);
+      const [lastMessageDoc] = await Repositories.messages.listLatest(chatId, 1);
 
-      if (remainingMessagesSnap.empty) {
-        await updateDoc(chatRef, {
+      if (!lastMessageDoc) {
+        await Repositories.chats.update(chatId, {
           lastMessage: "",
-          lastMessageTime: serverTimestamp(),
+          lastMessageTime: FieldValues.serverTimestamp(),
           lastMessageSender: "",
         });
       } else {
-        const lastMessageDoc = remainingMessagesSnap.docs[0];
-        const lastMessageData = lastMessageDoc.data();
+        const lastMessageData = Converters.message.fromFirestore(
+          lastMessageDoc.id,
+          lastMessageDoc
+        );
+        const { mediaType, text } = lastMessageData.content;
         let lastMessage: string;
-        if (lastMessageData.mediaType) {
-          if (lastMessageData.mediaType === "image") lastMessage = "📷 Image";
-          else if (lastMessageData.mediaType === "video")
-            lastMessage = "🎥 Video";
-          else if (lastMessageData.mediaType === "audio")
-            lastMessage = "🎙️ Audio";
+        if (mediaType) {
+          if (mediaType === "image") lastMessage = "📷 Image";
+          else if (mediaType === "video") lastMessage = "🎥 Video";
+          else if (mediaType === "audio") lastMessage = "🎙️ Audio";
+          else if (mediaType === "file") lastMessage = "📎 File";
           else lastMessage = "Media";
         } else {
-          lastMessage = lastMessageData.text || "";
+          lastMessage = text || "";
         }
-        await updateDoc(chatRef, {
+        await Repositories.chats.update(chatId, {
           lastMessage,
-          lastMessageTime: lastMessageData.timestamp || serverTimestamp(),
+          lastMessageTime: lastMessageData.timestamp || FieldValues.serverTimestamp(),
           lastMessageSender: lastMessageData.senderId || "",
           lastMessageId: lastMessageDoc.id,
         });
       }
+      syncChatList(chatId);
     } catch (error) {
       console.error("Error deleting message:", error);
       throw error;
@@ -469,15 +627,18 @@ async markIncomingFromSenderAsRead(
 
   async deleteChat(chatId: string): Promise<void> {
     try {
-      const batch = writeBatch(getFirestore());
-      const messagesRef = collection(getFirestore(), CHATS, chatId, MESSAGES);
-      const messagesSnapshot = await getDocs(messagesRef);
-      messagesSnapshot.docs.forEach((docSnap: any) =>
-        batch.delete(docSnap.ref)
+      const messages = await Repositories.messages.list(chatId);
+      const writes: QueuedWrite[] = messages.map((message) => (batch) =>
+        batch.delete(Paths.message(chatId, message.id))
       );
-      const chatRef = doc(getFirestore(), CHATS, chatId);
-      batch.delete(chatRef);
-      await batch.commit();
+      // The chat goes last, so a delete cut short can be run again
+      const chat = await Repositories.chats.get(chatId);
+      const participants: string[] = chat?.participants || [];
+      participants.forEach((userId) =>
+        writes.push((batch) => batch.delete(Paths.chatListEntry(userId, chatId)))
+      );
+      writes.push((batch) => batch.delete(Paths.chat(chatId)));
+      await Repositories.commitInChunks(writes);
     } catch (error) {
       console.error("Error deleting chat:", error);
       throw error;
@@ -490,36 +651,23 @@ async markIncomingFromSenderAsRead(
     newMessage: string
   ): Promise<void> {
     try {
-      const messageRef = doc(
-        getFirestore(),
-        CHATS,
+      await Repositories.messages.update(
         chatId,
-        MESSAGES,
-        messageId
+        messageId,
+        Converters.message.toFirestore(
+          { "content.text": newMessage, edited: true, editedAt: FieldValues.serverTimestamp() },
+          { merge: true }
+        )
       );
-      await updateDoc(messageRef, {
-        text: newMessage, // Use 'text' to match messageData structure
-        edited: true,
-        editedAt: serverTimestamp(),
-      });
 
-      const messagesRef = collection(getFirestore(), CHATS, chatId, MESSAGES);
-      const lastMessageQuery = query(
-        messagesRef,
-        orderBy("timestamp", "desc"),
-        limit(1)
-      );
-      const lastMessageSnapshot = await getDocs(lastMessageQuery);
-
-      if (
-        !lastMessageSnapshot.empty &&
-        lastMessageSnapshot.docs[0].id === messageId
-      ) {
-        const chatRef = doc(getFirestore(), CHATS, chatId);
-        await updateDoc(chatRef, {
+      const [lastMessage] = await Repositories.messages.listLatest(chatId, 1);
+
+      if (lastMessage?.id === messageId) {
+        await Repositories.chats.update(chatId, {
           lastMessage: newMessage,
           lastMessageId: messageId,
         });
+        syncChatList(chatId);
       }
     } catch (error) {
       console.error("Error editing message:", error);
@@ -527,11 +675,75 @@ async markIncomingFromSenderAsRead(
     }
   },
 
+  /**
+   * Toggle the user's reaction on a message. Returns true if the reaction is now set.
+   * The read decides the direction; arrayUnion/arrayRemove keep concurrent reactors from clobbering each other.
+   */
+  async toggleReaction(
+    chatId: string,
+    messageId: string,
+    userId: string,
+    emoji: string
+  ): Promise<boolean> {
+    try {
+      const chatPath = Paths.chat(chatId);
+      const messagePath = Paths.message(chatId, messageId);
+
+      const added = await Repositories.runTransaction(async (transaction) => {
+        const messageDoc = await transaction.get(messagePath);
+        if (!messageDoc) {
+          throw new Error(`Message not found: ${messageId}`);
+        }
+        const chatDoc = await transaction.get<StoredChat>(chatPath);
+
+        const messageData = Converters.message.fromFirestore(messageId, messageDoc.data);
+        const reactors = messageData.reactions?.[emoji] || [];
+        const adding = !reactors.includes(userId);
+
+        transaction.update(messagePath, {
+          [`reactions.${emoji}`]: adding
+            ? FieldValues.arrayUnion(userId)
+            : FieldValues.arrayRemove(userId),
+        });
+
+        const lastReaction = chatDoc?.data.lastReaction;
+        if (adding && messageData.senderId !== userId) {
+          transaction.update(chatPath, {
+            lastReaction: {
+              emoji,
+              userId,
+              messageId,
+              messageSenderId: messageData.senderId,
+              timestamp: FieldValues.serverTimestamp(),
+            },
+          });
+        } else if (
+          !adding &&
+          lastReaction?.userId === userId &&
+          lastReaction?.messageId === messageId &&
+          lastReaction?.emoji === emoji
+        ) {
+          transaction.update(chatPath, { lastReaction: FieldValues.delete() });
+        }
+
+        return adding;
+      });
+      syncChatList(chatId);
+      return added;
+    } catch (error) {
+      console.error("❌ Error toggling reaction:", error);
+      throw error;
+    }
+  },
+
   async forwardMessage(
-    message: any,
+    message: ForwardableMessage,
     userIds: string[],
-    senderId: string
+    senderId: string,
+    // Content shared from outside the app is sent as new, not marked forwarded
+    options: { forwarded?: boolean } = {}
   ): Promise<void> {
+    const { forwarded = true } = options;
     try {
       console.log("🔍 Forwarding message:", {
         messageId: message.id,
@@ -543,34 +755,39 @@ async markIncomingFromSenderAsRead(
         userIds,
       });
 
-      const forwardPromises = userIds.map(async (receiverId) => {
+      // Blocked recipients (either way round) are skipped, and so are read-only
+      // conversations, which stay readable after an unfriend but take no new messages
+      const refused = await Promise.all(
+        userIds.map(async (receiverId) => {
+          if (await BlockService.isBlockedBetween(senderId, receiverId)) return true;
+          const chat = await Repositories.chats.get(ChatService.generateChatId(senderId, receiverId));
+          return !!chat?.readOnly;
+        })
+      );
+      const recipients = userIds.filter((_, index) => !refused[index]);
+      if (recipients.length === 0) {
+        throw new Error("You can't forward messages to these users");
+      }
+
+      const forwardPromises = recipients.map(async (receiverId) => {
         const chatId = ChatService.generateChatId(senderId, receiverId);
         await ChatService.ensureChatExists(senderId, receiverId);
-        const messagesRef = collection(getFirestore(), CHATS, chatId, MESSAGES);
-        const messageRef = doc(messagesRef);
+        const newMessageId = Repositories.messages.newId(chatId);
 
-        const forwardedMessage: any = {
-          id: messageRef.id,
-          text: message.text || "",
+        const media: MessageMedia | undefined = message.mediaUrl
+          ? { ...message, mediaUrl: message.mediaUrl, mediaType: message.mediaType || "file" }
+          : undefined;
+        const forwardedMessage: Omit<ChatMessage, "id"> = {
           senderId,
           receiverId,
-          timestamp: serverTimestamp(),
+          timestamp: FieldValues.serverTimestamp(),
           status: "sent",
           chatId,
-          forwarded: true,
-          originalMessageId: message.id,
+          content: messageContent(message.text, media, newMessageId),
+          type: typeForMedia(media?.mediaType),
+          ...(forwarded ? { forwarded: true, originalMessageId: message.id } : {}),
         };
 
-        if (message.mediaUrl) {
-          forwardedMessage.mediaUrl = message.mediaUrl;
-          forwardedMessage.mediaType = message.mediaType || "text";
-          forwardedMessage.fileName =
-            message.fileName || `${message.mediaType}_${messageRef.id}`;
-          forwardedMessage.type = message.mediaType; // Set type to image, video, or audio
-        } else {
-          forwardedMessage.type = "text";
-        }
-
         if (message.replyTo) {
           forwardedMessage.replyTo = {
             messageId: message.replyTo.messageId,
@@ -584,44 +801,55 @@ async markIncomingFromSenderAsRead(
           "🔍 Creating forwarded message document:",
           forwardedMessage
         );
-        await setDoc(messageRef, forwardedMessage);
+        await Repositories.messages.create(
+          chatId,
+          newMessageId,
+          Converters.message.toFirestore(forwardedMessage)
+        );
 
-        const chatRef = doc(getFirestore(), CHATS, chatId);
-        const chatDoc = await getDoc(chatRef);
+        const chatDoc = await Repositories.chats.get(chatId);
 
         let lastMessage: string;
         if (message.mediaUrl) {
           if (message.mediaType === "image") lastMessage = "📷 Image";
           else if (message.mediaType === "video") lastMessage = "🎥 Video";
           else if (message.mediaType === "audio") lastMessage = "🎙️ Audio";
+          else if (message.mediaType === "file") lastMessage = "📎 File";
           else lastMessage = "Media";
         } else {
           lastMessage = message.text || "";
         }
 
-        if (chatDoc.exists()) {
+        if (chatDoc) {
           console.log("🔍 Updating existing chat document:", chatId);
-          await updateDoc(chatRef, {
+          await Repositories.chats.update(chatId, {
             lastMessage,
-            lastMessageTime: serverTimestamp(),
+            lastMessageTime: FieldValues.serverTimestamp(),
             lastMessageSender: senderId,
-            lastMessageId: messageRef.id,
-            [`unreadCount.${receiverId}`]: increment(1),
+            lastMessageId: newMessageId,
+            [`participantData.${receiverId}.unreadCount`]: FieldValues.increment(1),
           });
         } else {
           console.log("🔍 Creating new chat document:", chatId);
-          const chatData = {
-            participants: [senderId, receiverId].sort(),
+          const participants = [senderId, receiverId].sort();
+          const chatData: Omit<Chat, "id"> = {
+            type: "direct",
+            participants,
+            participantCount: participants.length,
             lastMessage,
-            lastMessageTime: serverTimestamp(),
+            lastMessageTime: FieldValues.serverTimestamp(),
             lastMessageSender: senderId,
-            lastMessageId: messageRef.id,
-            unreadCount: { [senderId]: 0, [receiverId]: 1 },
+            lastMessageId: newMessageId,
+            participantData: {
+              ...newParticipantData(participants),
+              [receiverId]: { unreadCount: 1 },
+            },
             createdBy: senderId,
-            createdAt: serverTimestamp(),
+            createdAt: FieldValues.serverTimestamp(),
           };
-          await setDoc(chatRef, chatData);
+          await Repositories.chats.create(chatId, Converters.chat.toFirestore(chatData));
         }
+        syncChatList(chatId);
 
         // Update recent chats for quick actions (top-3)
         try {
@@ -632,7 +860,7 @@ async markIncomingFromSenderAsRead(
       });
 
       await Promise.all(forwardPromises);
-      console.log("✅ Message forwarded successfully to:", userIds);
+      console.log("✅ Message forwarded successfully to:", recipients);
     } catch (error) {
       console.error("❌ Error forwarding message:", error);
       throw error;
@@ -649,7 +877,7 @@ async updateRecentChats(userId: string, chatId: string, chatName: string, lastMe
     // Get friend's name from Firestore or use the provided chatName
     let friendName = chatName;
     try {
-      const friendUser = await UserServiceSimple.getUserById(friendUserId);
+      const friendUser = await UserService.getUserById(friendUserId);
       if (friendUser && friendUser.name) {
         friendName = friendUser.name;
       }
@@ -670,4 +898,4 @@ async updateRecentChats(userId: string, chatId: string, chatName: string, lastMe
 }
 };
 
-export type { Chat, ChatMessage };
+export type { Chat, ChatMessage, MessageCursor };
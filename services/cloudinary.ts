@@ -1,46 +1,77 @@
 import { CLOUDINARY } from "../config/env";
+import type { UploadBackend, UploadType } from "./uploadService";
 
-export const uploadToCloudinary = async (fileUri: string, type: "image" | "video" = "image") => {
-  try {
-    console.log("🔄 Starting Cloudinary upload:", { fileUri, type });
-    
-    const data = new FormData();
-    data.append("file", {
-      uri: fileUri,
-      type: type === "image" ? "image/jpeg" : "video/mp4",
-      name: `upload.${type === "image" ? "jpg" : "mp4"}`,
-    } as any);
-
-    data.append("upload_preset", CLOUDINARY.UPLOAD_PRESET);
-    
-    console.log("📤 Uploading to:", CLOUDINARY.API_URL);
-    console.log("🔧 Upload preset:", CLOUDINARY.UPLOAD_PRESET);
-
-    const res = await fetch(CLOUDINARY.API_URL, {
-      method: "POST",
-      body: data,
-    });
+// Cloudinary's per-file limits on our plan; audio is stored as video
+export const UPLOAD_LIMITS: Record<UploadType, number> = {
+  image: 10 * 1024 * 1024,
+  video: 100 * 1024 * 1024,
+  audio: 100 * 1024 * 1024,
+  file: 10 * 1024 * 1024,
+};
+
+/**
+ * Unsigned uploads through our preset. XMLHttpRequest rather than fetch, because
+ * fetch reports no upload progress and can't be aborted mid-body in React Native.
+ */
+export const CloudinaryUploadBackend: UploadBackend = {
+  limits: UPLOAD_LIMITS,
+
+  upload(file, { onProgress, signal }) {
+    return new Promise<string>((resolve, reject) => {
+      const data = new FormData();
+      data.append("file", {
+        uri: file.uri,
+        type: file.mimeType,
+        name: file.fileName,
+      } as any);
+      data.append("upload_preset", CLOUDINARY.UPLOAD_PRESET);
+
+      const apiUrl = file.type === "file" ? CLOUDINARY.RAW_API_URL : CLOUDINARY.API_URL;
+      console.log("📤 Uploading to:", apiUrl);
+      console.log("🔧 Upload preset:", CLOUDINARY.UPLOAD_PRESET);
+
+      const xhr = new XMLHttpRequest();
+      xhr.open("POST", apiUrl);
 
-    console.log("📥 Response status:", res.status);
-    
-    if (!res.ok) {
-      const errorText = await res.text();
-      console.error("❌ HTTP Error:", res.status, errorText);
-      throw new Error(`HTTP ${res.status}: ${errorText}`);
-    }
-
-    const result = await res.json();
-    console.log("✅ Cloudinary response:", result);
-
-    if (result.secure_url) {
-      console.log("🎉 Upload successful:", result.secure_url);
-      return result.secure_url;
-    } else {
-      console.error("❌ No secure_url in response:", result);
-      throw new Error(`Cloudinary upload failed: ${result.error?.message || 'Unknown error'}`);
-    }
-  } catch (error) {
-    console.error("💥 Cloudinary upload error:", error);
-    throw error;
-  }
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable && event.total > 0) {
+          onProgress(event.loaded / event.total);
+        }
+      };
+
+      xhr.onload = () => {
+        console.log("📥 Response status:", xhr.status);
+        if (xhr.status < 200 || xhr.status >= 300) {
+          console.error("❌ HTTP Error:", xhr.status, xhr.responseText);
+          reject(new Error(`HTTP ${xhr.status}: ${xhr.responseText}`));
+          return;
+        }
+
+        try {
+          const result = JSON.parse(xhr.responseText);
+          if (result.secure_url) {
+            console.log("🎉 Upload successful:", result.secure_url);
+            resolve(result.secure_url);
+          } else {
+            console.error("❌ No secure_url in response:", result);
+            reject(new Error(`Cloudinary upload failed: ${result.error?.message || "Unknown error"}`));
+          }
+        } catch (error) {
+          console.error("💥 Cloudinary response was not JSON:", error);
+          reject(error);
+        }
+      };
+
+      // Matches the outbox's offline check, so it waits instead of counting a failure
+      xhr.onerror = () => reject(new Error("Network request failed"));
+      xhr.onabort = () => reject(new Error("Upload aborted"));
+
+      if (signal.aborted) {
+        reject(new Error("Upload aborted"));
+        return;
+      }
+      signal.addEventListener("abort", () => xhr.abort());
+      xhr.send(data);
+    });
+  },
 };
@@ -0,0 +1,123 @@
+// services/converters.ts
+import { FieldValue } from '@react-native-firebase/firestore';
+import {
+  Chat,
+  ChatMessage,
+  FriendRequest,
+  User,
+  UserChatListItem,
+} from '../types/models';
+import {
+  normalizeChat,
+  normalizeChatListItem,
+  normalizeFriendRequest,
+  normalizeMessage,
+  normalizeUser,
+  StoredChat,
+  StoredMessage,
+  StoredUser,
+} from '../utils/legacySchema';
+import { checkChanges, Field, formatProblems, Schemas } from '../utils/schema';
+import { DocumentData, isFieldOp } from './dataStore';
+
+export type DocumentKind = keyof typeof Schemas;
+
+export interface MalformedDocument {
+  kind: DocumentKind;
+  id: string;
+  problems: string[];
+}
+
+// Thrown by toFirestore; nothing is written
+export class SchemaError extends Error {
+  readonly kind: DocumentKind;
+  readonly problems: string[];
+
+  constructor(kind: DocumentKind, problems: string[]) {
+    super(`Invalid ${kind}: ${problems.join('; ')}`);
+    this.name = 'SchemaError';
+    this.kind = kind;
+    this.problems = problems;
+  }
+}
+
+/**
+ * The shape of Firestore's FirestoreDataConverter, which this Firestore SDK
+ * doesn't support on references; services call these around their reads and writes.
+ */
+export interface DocumentConverter<T> {
+  // Stored data in any format the app has written. Never throws: what doesn't
+  // fit is reported, then repaired or dropped.
+  fromFirestore(id: string, data: DocumentData): T;
+  // The document id isn't stored, so an `id` field is left out
+  toFirestore(model: Omit<T, 'id'> | T): DocumentData;
+  // merge: only the fields given are checked, dotted keys and field values allowed
+  toFirestore(changes: DocumentData, options: { merge: true }): DocumentData;
+}
+
+type Reporter = (report: MalformedDocument) => void;
+
+const defaultReporter: Reporter = ({ kind, id, problems }) =>
+  console.warn(`⚠️ Malformed ${kind} ${id}:`, problems.join('; '));
+
+let reporter: Reporter = defaultReporter;
+
+// serverTimestamp(), increment(), deleteField() and friends, ours or Firestore's
+const isSentinel = (value: unknown): boolean =>
+  isFieldOp(value) || (typeof FieldValue === 'function' && value instanceof FieldValue);
+
+const createConverter = <T extends object>(
+  kind: DocumentKind,
+  normalize: (id: string, data: DocumentData) => T
+): DocumentConverter<T> => {
+  const schema: Field = Schemas[kind];
+
+  return {
+    fromFirestore(id: string, data: DocumentData): T {
+      const model = normalize(id, data);
+      const problems = schema.check(model);
+      if (problems.length === 0) return model;
+
+      try {
+        reporter({ kind, id, problems: formatProblems(problems) });
+      } catch (error) {
+        console.error('❌ Error reporting malformed document:', error);
+      }
+      return (schema.repair(model) as T | undefined) ?? model;
+    },
+
+    toFirestore(model: DocumentData, options?: { merge: true }): DocumentData {
+      const { id, ...data } = model;
+      const problems = options?.merge
+        ? checkChanges(schema, data, isSentinel)
+        : schema.check(data);
+      if (problems.length > 0) {
+        throw new SchemaError(kind, formatProblems(problems));
+      }
+      // undefined isn't a Firestore value; leaving the field out is what was meant
+      return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+    },
+  };
+};
+
+/**
+ * Converters for every document in types/models. Reads go through
+ * utils/legacySchema first, so only what the legacy formats don't explain gets
+ * reported.
+ */
+export const Converters = {
+  user: createConverter<User>('user', (id, data) =>
+    normalizeUser({ ...(data as StoredUser), uid: id })
+  ),
+  chat: createConverter<Chat>('chat', (id, data) => normalizeChat(id, data as StoredChat)),
+  message: createConverter<ChatMessage>('message', (id, data) =>
+    normalizeMessage(id, data as StoredMessage)
+  ),
+  friendRequest: createConverter<FriendRequest>('friendRequest', normalizeFriendRequest),
+  chatListItem: createConverter<UserChatListItem>('chatListItem', normalizeChatListItem),
+
+  // Where malformed reads are reported; null restores the console warning
+  setReporter(next: Reporter | null): void {
+    reporter = next ?? defaultReporter;
+  },
+};
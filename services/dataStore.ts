@@ -0,0 +1,105 @@
+// services/dataStore.ts
+// The document store the repositories read and write through. Firestore in the
+// app; tests swap in the in-memory store from fakeDataStore.
+
+type Unsubscribe = () => void;
+
+export type DocumentData = Record<string, any>;
+
+// Alternating collection and document ids: ['chats', chatId, 'messages', messageId]
+export type DocPath = string[];
+export type CollectionPath = string[];
+
+export type WhereOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'array-contains';
+
+export interface QuerySpec {
+  where?: [field: string, op: WhereOp, value: unknown][];
+  orderBy?: [field: string, direction?: 'asc' | 'desc'][];
+  // Inclusive bounds on the first orderBy field, in its direction
+  startAt?: unknown;
+  endAt?: unknown;
+  // Like startAt but leaving the bound out, for paging on from the last result
+  startAfter?: unknown;
+  limit?: number;
+}
+
+export interface StoredDoc<T = DocumentData> {
+  id: string;
+  path: DocPath;
+  data: T;
+}
+
+/**
+ * Values resolved by the store when the write lands, like Firestore's
+ * serverTimestamp() and increment(). Create them with FieldValues.
+ */
+export type FieldOp =
+  | { __fieldOp: 'serverTimestamp' }
+  | { __fieldOp: 'increment'; by: number }
+  | { __fieldOp: 'arrayUnion'; values: unknown[] }
+  | { __fieldOp: 'arrayRemove'; values: unknown[] }
+  | { __fieldOp: 'delete' };
+
+export const FieldValues = {
+  serverTimestamp: (): FieldOp => ({ __fieldOp: 'serverTimestamp' }),
+  increment: (by: number): FieldOp => ({ __fieldOp: 'increment', by }),
+  arrayUnion: (...values: unknown[]): FieldOp => ({ __fieldOp: 'arrayUnion', values }),
+  arrayRemove: (...values: unknown[]): FieldOp => ({ __fieldOp: 'arrayRemove', values }),
+  delete: (): FieldOp => ({ __fieldOp: 'delete' }),
+};
+
+export const isFieldOp = (value: unknown): value is FieldOp =>
+  !!value && typeof value === 'object' && '__fieldOp' in value;
+
+export interface WriteOptions {
+  merge?: boolean;
+}
+
+// Firestore refuses a batch (or transaction) with more writes than this
+export const MAX_BATCH_WRITES = 500;
+
+// Writes that land together or not at all
+export interface WriteBatch {
+  set(path: DocPath, data: DocumentData, options?: WriteOptions): WriteBatch;
+  update(path: DocPath, data: DocumentData): WriteBatch;
+  delete(path: DocPath): WriteBatch;
+  commit(): Promise<void>;
+}
+
+/**
+ * Reads and writes that land together, on the documents as read. As in
+ * Firestore, every get() has to come before the first write.
+ */
+export interface Transaction {
+  get<T = DocumentData>(path: DocPath): Promise<StoredDoc<T> | null>;
+  set(path: DocPath, data: DocumentData, options?: WriteOptions): Transaction;
+  update(path: DocPath, data: DocumentData): Transaction;
+  delete(path: DocPath): Transaction;
+}
+
+/**
+ * update() accepts dotted keys ('unreadCount.uid') and rejects with code
+ * 'not-found' when the document doesn't exist, as Firestore does. Listeners are
+ * called with the current result straight away and again after every change.
+ */
+export interface DataStore {
+  newId(collection: CollectionPath): string;
+  get<T = DocumentData>(path: DocPath): Promise<StoredDoc<T> | null>;
+  query<T = DocumentData>(collection: CollectionPath, spec?: QuerySpec): Promise<StoredDoc<T>[]>;
+  set(path: DocPath, data: DocumentData, options?: WriteOptions): Promise<void>;
+  update(path: DocPath, data: DocumentData): Promise<void>;
+  delete(path: DocPath): Promise<void>;
+  batch(): WriteBatch;
+  runTransaction<R>(run: (transaction: Transaction) => Promise<R>): Promise<R>;
+  watchDoc<T = DocumentData>(
+    path: DocPath,
+    onChange: (doc: StoredDoc<T> | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  watchQuery<T = DocumentData>(
+    collection: CollectionPath,
+    spec: QuerySpec,
+    onChange: (docs: StoredDoc<T>[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+}
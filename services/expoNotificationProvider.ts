@@ -0,0 +1,117 @@
+// services/expoNotificationProvider.ts
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import {
+  ChatNotification,
+  ChatNotificationData,
+  NotificationProvider,
+  NotificationResponse,
+} from './notificationService';
+
+const CHANNEL_ID = 'messages';
+const REPLY_CATEGORY = 'chat-message';
+const REPLY_ACTION = 'reply';
+
+let configured: Promise<void> | null = null;
+
+// Channel, reply action and foreground behaviour only need registering once
+const configure = (): Promise<void> => {
+  if (!configured) {
+    configured = (async () => {
+      Notifications.setNotificationHandler({
+        handleNotification: async () => ({
+          shouldShowBanner: true,
+          shouldShowList: true,
+          shouldPlaySound: true,
+          shouldSetBadge: false,
+        }),
+      });
+
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+          name: 'Messages',
+          importance: Notifications.AndroidImportance.HIGH,
+        });
+      }
+
+      await Notifications.setNotificationCategoryAsync(REPLY_CATEGORY, [
+        {
+          identifier: REPLY_ACTION,
+          buttonTitle: 'Reply',
+          textInput: { submitButtonTitle: 'Send', placeholder: 'Message' },
+          options: { opensAppToForeground: false },
+        },
+      ]);
+    })();
+  }
+  return configured;
+};
+
+const toResponse = (
+  response: Notifications.NotificationResponse
+): NotificationResponse | null => {
+  const data = response.notification.request.content.data as unknown as ChatNotificationData;
+  if (!data?.chatId) return null;
+
+  if (response.actionIdentifier === REPLY_ACTION) {
+    return { data, replyText: response.userText || '' };
+  }
+  if (response.actionIdentifier === Notifications.DEFAULT_ACTION_IDENTIFIER) {
+    return { data };
+  }
+  return null;
+};
+
+/**
+ * Local notifications through expo-notifications
+ */
+export const ExpoNotificationProvider: NotificationProvider = {
+  async requestPermission() {
+    await configure();
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  },
+
+  async present(notification: ChatNotification) {
+    await configure();
+    await Notifications.scheduleNotificationAsync({
+      identifier: notification.chatId,
+      content: {
+        title:
+          notification.count > 1
+            ? `${notification.title} (${notification.count})`
+            : notification.title,
+        body: notification.lines.join('\n'),
+        data: { ...notification.data },
+        ...(notification.canReply ? { categoryIdentifier: REPLY_CATEGORY } : {}),
+      },
+      trigger: Platform.OS === 'android' ? { channelId: CHANNEL_ID } : null,
+    });
+  },
+
+  async dismiss(chatId: string) {
+    await Notifications.dismissNotificationAsync(chatId);
+  },
+
+  async dismissAll() {
+    await Notifications.dismissAllNotificationsAsync();
+  },
+
+  onResponse(listener) {
+    const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+      const parsed = toResponse(response);
+      if (parsed) listener(parsed);
+    });
+    return () => subscription.remove();
+  },
+
+  async getInitialResponse() {
+    const response = await Notifications.getLastNotificationResponseAsync();
+    if (!response) return null;
+    // Handled once; otherwise every later login would reopen the same chat
+    await Notifications.clearLastNotificationResponseAsync();
+    return toResponse(response);
+  },
+};
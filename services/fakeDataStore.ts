@@ -0,0 +1,369 @@
+// services/fakeDataStore.ts
+import {
+  CollectionPath,
+  DataStore,
+  DocPath,
+  DocumentData,
+  isFieldOp,
+  MAX_BATCH_WRITES,
+  QuerySpec,
+  StoredDoc,
+  Transaction,
+  WhereOp,
+  WriteBatch,
+  WriteOptions,
+} from './dataStore';
+
+// What serverTimestamp() resolves to, shaped like a Firestore Timestamp
+export class FakeTimestamp {
+  constructor(
+    readonly seconds: number,
+    readonly nanoseconds: number
+  ) {}
+
+  static fromMillis(millis: number): FakeTimestamp {
+    return new FakeTimestamp(Math.floor(millis / 1000), (millis % 1000) * 1e6);
+  }
+
+  toMillis(): number {
+    return this.seconds * 1000 + Math.floor(this.nanoseconds / 1e6);
+  }
+
+  toDate(): Date {
+    return new Date(this.toMillis());
+  }
+}
+
+export interface FakeDataStore extends DataStore {
+  // Write documents keyed by slash path ('users/u1') without going through a batch
+  seed(docs: Record<string, DocumentData>): void;
+}
+
+type Write =
+  | { kind: 'set'; path: DocPath; data: DocumentData; merge: boolean }
+  | { kind: 'update'; path: DocPath; data: DocumentData }
+  | { kind: 'delete'; path: DocPath };
+
+const DELETE = Symbol('delete');
+
+const keyOf = (path: DocPath) => path.join('/');
+
+const isMap = (value: unknown): value is DocumentData =>
+  !!value && typeof value === 'object' && value.constructor === Object && !isFieldOp(value);
+
+const clone = <T>(value: T): T => {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (isMap(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clone(v)])) as T;
+  }
+  return value;
+};
+
+// Timestamps and dates compare by time; everything else as is
+const comparable = (value: any) => {
+  if (value instanceof Date) return value.getTime();
+  if (value && typeof value.toMillis === 'function') return value.toMillis();
+  return value;
+};
+
+const isEqual = (a: unknown, b: unknown) => {
+  const [x, y] = [comparable(a), comparable(b)];
+  if (x && y && typeof x === 'object' && typeof y === 'object') {
+    return JSON.stringify(x) === JSON.stringify(y);
+  }
+  return x === y;
+};
+
+const compare = (a: unknown, b: unknown) => {
+  const [x, y] = [comparable(a), comparable(b)];
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+const getField = (data: DocumentData, field: string) =>
+  field.split('.').reduce<any>((value, key) => (isMap(value) ? value[key] : undefined), data);
+
+const matches = (data: DocumentData, [field, op, expected]: [string, WhereOp, unknown]) => {
+  const actual = getField(data, field);
+  if (actual === undefined) return false;
+  switch (op) {
+    case '==':
+      return isEqual(actual, expected);
+    case '!=':
+      return !isEqual(actual, expected);
+    case '<':
+      return compare(actual, expected) < 0;
+    case '<=':
+      return compare(actual, expected) <= 0;
+    case '>':
+      return compare(actual, expected) > 0;
+    case '>=':
+      return compare(actual, expected) >= 0;
+    case 'in':
+      return (expected as unknown[]).some((value) => isEqual(actual, value));
+    case 'array-contains':
+      return Array.isArray(actual) && actual.some((value) => isEqual(value, expected));
+  }
+};
+
+/**
+ * In-memory document store for tests and for running without Firestore. Writes
+ * land synchronously and listeners are called only when their result changed.
+ * Ids are doc-000001, doc-000002, … so they sort in creation order.
+ */
+export const createFakeDataStore = (): FakeDataStore => {
+  let docs = new Map<string, DocumentData>();
+  const listeners = new Set<() => void>();
+  let idCounter = 0;
+  let lastMillis = 0;
+
+  // Strictly increasing, so documents written in the same millisecond still order
+  const serverTime = () => {
+    lastMillis = Math.max(Date.now(), lastMillis + 1);
+    return FakeTimestamp.fromMillis(lastMillis);
+  };
+
+  const resolve = (value: unknown, current: unknown): unknown => {
+    if (isFieldOp(value)) {
+      switch (value.__fieldOp) {
+        case 'serverTimestamp':
+          return serverTime();
+        case 'increment':
+          return (typeof current === 'number' ? current : 0) + value.by;
+        case 'arrayUnion': {
+          const list = Array.isArray(current) ? current : [];
+          return [...list, ...value.values.filter((v) => !list.some((item) => isEqual(item, v)))];
+        }
+        case 'arrayRemove':
+          return (Array.isArray(current) ? current : []).filter(
+            (item) => !value.values.some((v) => isEqual(item, v))
+          );
+        case 'delete':
+          return DELETE;
+      }
+    }
+    if (isMap(value)) return mergeInto({}, value);
+    return clone(value);
+  };
+
+  const assign = (target: DocumentData, key: string, value: unknown) => {
+    const next = resolve(value, target[key]);
+    if (next === DELETE) delete target[key];
+    else target[key] = next;
+  };
+
+  // Nested maps are merged key by key, as a set with { merge: true } does
+  const mergeInto = (target: DocumentData, data: DocumentData): DocumentData => {
+    Object.entries(data).forEach(([key, value]) => {
+      if (isMap(value)) {
+        target[key] = mergeInto(isMap(target[key]) ? target[key] : {}, value);
+      } else {
+        assign(target, key, value);
+      }
+    });
+    return target;
+  };
+
+  const apply = (state: Map<string, DocumentData>, write: Write) => {
+    const key = keyOf(write.path);
+    const existing = state.get(key);
+    if (write.kind === 'delete') {
+      state.delete(key);
+    } else if (write.kind === 'set') {
+      const base = write.merge && existing ? clone(existing) : {};
+      state.set(key, mergeInto(base, write.data));
+    } else {
+      if (!existing) {
+        throw Object.assign(new Error(`No document to update: ${key}`), { code: 'not-found' });
+      }
+      const next = clone(existing);
+      Object.entries(write.data).forEach(([field, value]) => {
+        const segments = field.split('.');
+        const last = segments.pop()!;
+        let parent = next;
+        segments.forEach((segment) => {
+          if (!isMap(parent[segment])) parent[segment] = {};
+          parent = parent[segment];
+        });
+        assign(parent, last, value);
+      });
+      state.set(key, next);
+    }
+  };
+
+  // All or nothing: a failing write leaves the store untouched
+  const commit = (writes: Write[]) => {
+    const next = new Map(docs);
+    writes.forEach((write) => apply(next, write));
+    docs = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const readDoc = <T>(path: DocPath): StoredDoc<T> | null => {
+    const data = docs.get(keyOf(path));
+    return data ? { id: path[path.length - 1], path: [...path], data: clone(data) as T } : null;
+  };
+
+  const runQuery = <T>(collection: CollectionPath, spec: QuerySpec = {}): StoredDoc<T>[] => {
+    const prefix = keyOf(collection) + '/';
+    let results = [...docs.entries()]
+      .filter(([key]) => key.startsWith(prefix) && !key.slice(prefix.length).includes('/'))
+      .map(([key, data]) => ({ id: key.slice(prefix.length), data }))
+      .filter(({ data }) => (spec.where || []).every((clause) => matches(data, clause)));
+
+    const order = spec.orderBy || [];
+    // Like Firestore, documents without an ordered field are left out
+    results = results
+      .filter(({ data }) => order.every(([field]) => getField(data, field) !== undefined))
+      .sort((a, b) => {
+        for (const [field, direction] of order) {
+          const result = compare(getField(a.data, field), getField(b.data, field));
+          if (result !== 0) return direction === 'desc' ? -result : result;
+        }
+        return compare(a.id, b.id);
+      });
+
+    if (order.length > 0) {
+      // Bounds follow the sort direction: startAt on a descending field keeps what is ≤ it
+      const [field, direction] = order[0];
+      const sign = direction === 'desc' ? -1 : 1;
+      const position = (data: DocumentData, bound: unknown) =>
+        sign * compare(getField(data, field), bound);
+      if (spec.startAt !== undefined) {
+        results = results.filter(({ data }) => position(data, spec.startAt) >= 0);
+      }
+      if (spec.startAfter !== undefined) {
+        results = results.filter(({ data }) => position(data, spec.startAfter) > 0);
+      }
+      if (spec.endAt !== undefined) {
+        results = results.filter(({ data }) => position(data, spec.endAt) <= 0);
+      }
+    }
+    if (spec.limit !== undefined) results = results.slice(0, spec.limit);
+
+    return results.map(({ id, data }) => ({
+      id,
+      path: [...collection, id],
+      data: clone(data) as T,
+    }));
+  };
+
+  // Calls onChange now and again whenever the result differs from the last one
+  const watch = <R>(read: () => R, onChange: (result: R) => void) => {
+    let last: string | undefined;
+    const listener = () => {
+      const result = read();
+      const serialized = JSON.stringify(result);
+      if (serialized === last) return;
+      last = serialized;
+      onChange(result);
+    };
+    listeners.add(listener);
+    listener();
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    newId() {
+      idCounter += 1;
+      return `doc-${String(idCounter).padStart(6, '0')}`;
+    },
+
+    async get<T>(path: DocPath) {
+      return readDoc<T>(path);
+    },
+
+    async query<T>(collection: CollectionPath, spec?: QuerySpec) {
+      return runQuery<T>(collection, spec);
+    },
+
+    async set(path: DocPath, data: DocumentData, options?: WriteOptions) {
+      commit([{ kind: 'set', path, data, merge: !!options?.merge }]);
+    },
+
+    async update(path: DocPath, data: DocumentData) {
+      commit([{ kind: 'update', path, data }]);
+    },
+
+    async delete(path: DocPath) {
+      commit([{ kind: 'delete', path }]);
+    },
+
+    batch() {
+      const writes: Write[] = [];
+      const batch: WriteBatch = {
+        set(path, data, options) {
+          writes.push({ kind: 'set', path, data, merge: !!options?.merge });
+          return batch;
+        },
+        update(path, data) {
+          writes.push({ kind: 'update', path, data });
+          return batch;
+        },
+        delete(path) {
+          writes.push({ kind: 'delete', path });
+          return batch;
+        },
+        async commit() {
+          if (writes.length > MAX_BATCH_WRITES) {
+            throw Object.assign(new Error(`Too many writes in one batch: ${writes.length}`), {
+              code: 'invalid-argument',
+            });
+          }
+          commit(writes);
+        },
+      };
+      return batch;
+    },
+
+    // Nothing else runs between the reads and the commit, so there is never a conflict to retry
+    async runTransaction(run) {
+      const writes: Write[] = [];
+      const transaction: Transaction = {
+        async get<T>(path: DocPath) {
+          if (writes.length > 0) throw new Error('Transaction reads must come before its writes');
+          return readDoc<T>(path);
+        },
+        set(path, data, options) {
+          writes.push({ kind: 'set', path, data, merge: !!options?.merge });
+          return transaction;
+        },
+        update(path, data) {
+          writes.push({ kind: 'update', path, data });
+          return transaction;
+        },
+        delete(path) {
+          writes.push({ kind: 'delete', path });
+          return transaction;
+        },
+      };
+      const result = await run(transaction);
+      commit(writes);
+      return result;
+    },
+
+    watchDoc<T>(path: DocPath, onChange: (doc: StoredDoc<T> | null) => void) {
+      return watch(() => readDoc<T>(path), onChange);
+    },
+
+    watchQuery<T>(
+      collection: CollectionPath,
+      spec: QuerySpec,
+      onChange: (docs: StoredDoc<T>[]) => void
+    ) {
+      return watch(() => runQuery<T>(collection, spec), onChange);
+    },
+
+    seed(entries) {
+      commit(
+        Object.entries(entries).map(([key, data]) => ({
+          kind: 'set' as const,
+          path: key.split('/'),
+          data,
+          merge: false,
+        }))
+      );
+    },
+  };
+};
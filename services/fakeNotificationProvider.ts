@@ -0,0 +1,65 @@
+// services/fakeNotificationProvider.ts
+import {
+  ChatNotification,
+  NotificationProvider,
+  NotificationResponse,
+} from './notificationService';
+
+export interface FakeNotificationProvider extends NotificationProvider {
+  // What is currently on screen, one entry per chat
+  shown: Map<string, ChatNotification>;
+  // Every present() call in order
+  presented: ChatNotification[];
+  permissionGranted: boolean;
+  initialResponse: NotificationResponse | null;
+  // Simulate the user tapping or replying to a notification
+  respond(response: NotificationResponse): void;
+}
+
+/**
+ * In-memory provider for tests and for running without a notification backend
+ */
+export const createFakeNotificationProvider = (): FakeNotificationProvider => {
+  const listeners = new Set<(response: NotificationResponse) => void>();
+
+  const fake: FakeNotificationProvider = {
+    shown: new Map(),
+    presented: [],
+    permissionGranted: true,
+    initialResponse: null,
+
+    async requestPermission() {
+      return fake.permissionGranted;
+    },
+
+    async present(notification) {
+      fake.presented.push(notification);
+      fake.shown.set(notification.chatId, notification);
+    },
+
+    async dismiss(chatId) {
+      fake.shown.delete(chatId);
+    },
+
+    async dismissAll() {
+      fake.shown.clear();
+    },
+
+    onResponse(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    async getInitialResponse() {
+      const response = fake.initialResponse;
+      fake.initialResponse = null;
+      return response;
+    },
+
+    respond(response) {
+      listeners.forEach((listener) => listener(response));
+    },
+  };
+
+  return fake;
+};
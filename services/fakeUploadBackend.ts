@@ -0,0 +1,61 @@
+// services/fakeUploadBackend.ts
+import { UPLOAD_LIMITS } from './cloudinary';
+import { UploadBackend, UploadFile } from './uploadService';
+
+interface PendingUpload {
+  file: UploadFile;
+  progress(fraction: number): void;
+  finish(url?: string): void;
+  fail(error: Error): void;
+}
+
+export interface FakeUploadBackend extends UploadBackend {
+  // Uploads still in flight, oldest first
+  pending: PendingUpload[];
+  // Every file handed to the backend, in order
+  received: UploadFile[];
+  // Settle uploads as soon as they start instead of waiting for finish()
+  autoFinish: boolean;
+}
+
+/**
+ * In-memory backend for tests and for running without network access. URLs are
+ * fake://uploads/<fileName>.
+ */
+export const createFakeUploadBackend = (): FakeUploadBackend => {
+  const fake: FakeUploadBackend = {
+    limits: { ...UPLOAD_LIMITS },
+    pending: [],
+    received: [],
+    autoFinish: false,
+
+    upload(file, { onProgress, signal }) {
+      fake.received.push(file);
+      const url = `fake://uploads/${file.fileName}`;
+      if (fake.autoFinish) {
+        onProgress(1);
+        return Promise.resolve(url);
+      }
+
+      return new Promise<string>((resolve, reject) => {
+        const entry: PendingUpload = {
+          file,
+          progress: onProgress,
+          finish: (finalUrl = url) => {
+            fake.pending = fake.pending.filter((p) => p !== entry);
+            onProgress(1);
+            resolve(finalUrl);
+          },
+          fail: (error) => {
+            fake.pending = fake.pending.filter((p) => p !== entry);
+            reject(error);
+          },
+        };
+        fake.pending.push(entry);
+        signal.addEventListener('abort', () => entry.fail(new Error('Upload aborted')));
+      });
+    },
+  };
+
+  return fake;
+};
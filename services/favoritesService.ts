@@ -0,0 +1,58 @@
+// services/favoritesService.ts
+import { UserFavorite } from '../types/models';
+import { FieldValues } from './dataStore';
+import { Repositories } from './repositories';
+
+type Unsubscribe = () => void;
+
+export const FavoritesService = {
+  /**
+   * Star a chat or contact. Contacts are stored under the direct chat id.
+   */
+  async addFavorite(userId: string, chatId: string, partnerId?: string): Promise<void> {
+    try {
+      const favorite: UserFavorite = {
+        chatId,
+        ...(partnerId ? { partnerId } : {}),
+        createdAt: FieldValues.serverTimestamp(),
+      };
+      await Repositories.favorites.set(userId, favorite);
+      console.log('⭐ Added favorite:', chatId);
+    } catch (error) {
+      console.error('❌ Error adding favorite:', error);
+      throw error;
+    }
+  },
+
+  async removeFavorite(userId: string, chatId: string): Promise<void> {
+    try {
+      await Repositories.favorites.delete(userId, chatId);
+      console.log('⭐ Removed favorite:', chatId);
+    } catch (error) {
+      console.error('❌ Error removing favorite:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * One-off read, for pickers that only need the current set
+   */
+  async getFavorites(userId: string): Promise<UserFavorite[]> {
+    try {
+      return await Repositories.favorites.list(userId);
+    } catch (error) {
+      console.error('❌ Error loading favorites:', error);
+      return [];
+    }
+  },
+
+  subscribeToFavorites(
+    userId: string,
+    onChange: (favorites: UserFavorite[]) => void
+  ): Unsubscribe {
+    return Repositories.favorites.watch(userId, onChange, (error) => {
+      console.error('❌ Error subscribing to favorites:', error);
+      onChange([]);
+    });
+  },
+};
@@ -0,0 +1,181 @@
+// services/firestoreDataStore.ts
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  endAt,
+  getDoc,
+  getDocs,
+  getFirestore,
+  increment,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  startAfter,
+  startAt,
+  updateDoc,
+  where,
+  writeBatch,
+} from '@react-native-firebase/firestore';
+import {
+  CollectionPath,
+  DataStore,
+  DocPath,
+  DocumentData,
+  FieldOp,
+  isFieldOp,
+  QuerySpec,
+  StoredDoc,
+  Transaction,
+  WriteBatch,
+} from './dataStore';
+
+const docRef = (path: DocPath) => doc(getFirestore(), path.join('/'));
+const collectionRef = (path: CollectionPath) => collection(getFirestore(), path.join('/'));
+
+const toFieldValue = (op: FieldOp): any => {
+  switch (op.__fieldOp) {
+    case 'serverTimestamp':
+      return serverTimestamp();
+    case 'increment':
+      return increment(op.by);
+    case 'arrayUnion':
+      return arrayUnion(...op.values);
+    case 'arrayRemove':
+      return arrayRemove(...op.values);
+    case 'delete':
+      return deleteField();
+  }
+};
+
+// FieldOps can sit anywhere in a plain object, e.g. a nested map written with merge
+const toFirestoreData = (data: DocumentData): DocumentData =>
+  Object.fromEntries(
+    Object.entries(data).map(([key, value]) => {
+      if (isFieldOp(value)) return [key, toFieldValue(value)];
+      if (value && typeof value === 'object' && value.constructor === Object) {
+        return [key, toFirestoreData(value)];
+      }
+      return [key, value];
+    })
+  );
+
+const buildQuery = (path: CollectionPath, spec: QuerySpec = {}) => {
+  const constraints: any[] = [
+    ...(spec.where || []).map(([field, op, value]) => where(field, op, value)),
+    ...(spec.orderBy || []).map(([field, direction]) => orderBy(field, direction || 'asc')),
+  ];
+  if (spec.startAt !== undefined) constraints.push(startAt(spec.startAt));
+  if (spec.startAfter !== undefined) constraints.push(startAfter(spec.startAfter));
+  if (spec.endAt !== undefined) constraints.push(endAt(spec.endAt));
+  if (spec.limit !== undefined) constraints.push(limit(spec.limit));
+  return query(collectionRef(path), ...constraints);
+};
+
+const toStoredDoc = <T>(snap: any): StoredDoc<T> => ({
+  id: snap.id,
+  path: snap.ref.path.split('/'),
+  data: snap.data() as T,
+});
+
+export const FirestoreDataStore: DataStore = {
+  newId(path) {
+    return doc(collectionRef(path)).id;
+  },
+
+  async get<T>(path: DocPath) {
+    const snap = await getDoc(docRef(path));
+    return snap.exists() ? toStoredDoc<T>(snap) : null;
+  },
+
+  async query<T>(path: CollectionPath, spec?: QuerySpec) {
+    const snapshot = await getDocs(buildQuery(path, spec));
+    return snapshot.docs.map((snap: any) => toStoredDoc<T>(snap));
+  },
+
+  async set(path, data, options) {
+    await setDoc(docRef(path), toFirestoreData(data), { merge: !!options?.merge });
+  },
+
+  async update(path, data) {
+    await updateDoc(docRef(path), toFirestoreData(data));
+  },
+
+  async delete(path) {
+    await deleteDoc(docRef(path));
+  },
+
+  batch() {
+    const batch = writeBatch(getFirestore());
+    const wrapper: WriteBatch = {
+      set(path, data, options) {
+        batch.set(docRef(path), toFirestoreData(data), { merge: !!options?.merge });
+        return wrapper;
+      },
+      update(path, data) {
+        batch.update(docRef(path), toFirestoreData(data));
+        return wrapper;
+      },
+      delete(path) {
+        batch.delete(docRef(path));
+        return wrapper;
+      },
+      commit: () => batch.commit(),
+    };
+    return wrapper;
+  },
+
+  runTransaction(run) {
+    return runTransaction(getFirestore(), (transaction: any) => {
+      const wrapper: Transaction = {
+        async get<T>(path: DocPath) {
+          const snap = await transaction.get(docRef(path));
+          return snap.exists() ? toStoredDoc<T>(snap) : null;
+        },
+        set(path, data, options) {
+          transaction.set(docRef(path), toFirestoreData(data), { merge: !!options?.merge });
+          return wrapper;
+        },
+        update(path, data) {
+          transaction.update(docRef(path), toFirestoreData(data));
+          return wrapper;
+        },
+        delete(path) {
+          transaction.delete(docRef(path));
+          return wrapper;
+        },
+      };
+      return run(wrapper);
+    });
+  },
+
+  watchDoc<T>(
+    path: DocPath,
+    onChange: (doc: StoredDoc<T> | null) => void,
+    onError?: (error: Error) => void
+  ) {
+    return onSnapshot(docRef(path), {
+      next: (snap: any) => onChange(snap.exists() ? toStoredDoc<T>(snap) : null),
+      error: (error: Error) => onError?.(error),
+    });
+  },
+
+  watchQuery<T>(
+    path: CollectionPath,
+    spec: QuerySpec,
+    onChange: (docs: StoredDoc<T>[]) => void,
+    onError?: (error: Error) => void
+  ) {
+    return onSnapshot(buildQuery(path, spec), {
+      next: (snapshot: any) => onChange(snapshot.docs.map((snap: any) => toStoredDoc<T>(snap))),
+      error: (error: Error) => onError?.(error),
+    });
+  },
+};
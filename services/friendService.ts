@@ -0,0 +1,381 @@
+// services/friendService.ts
+import { FriendRequest, UserRelationship } from '../types/models';
+import { StoredUser } from '../utils/legacySchema';
+import { BlockService } from './blockService';
+import { ChatService } from './chatService';
+import { DocumentData, FieldValues } from './dataStore';
+import { Paths, Repositories } from './repositories';
+import { UserService } from './userService';
+
+type Unsubscribe = () => void;
+
+const isFriendRelationship = (relationship: UserRelationship | null) =>
+  relationship?.type === 'friend';
+
+// A block of a friend keeps that side of the friendship for when it is lifted
+const suspendsFriendship = (relationship: UserRelationship | null) =>
+  relationship?.type === 'blocked' && relationship.friendSince !== undefined;
+
+/**
+ * Friend requests and friendships. A friendship is a pair of 'friend' documents
+ * in /users/{uid}/relationships plus friendsCount on both users. Reads also
+ * accept the legacy friends array and /users/{uid}/friends entries until
+ * SchemaMigration has rewritten them.
+ */
+export const FriendService = {
+  async sendFriendRequest(
+    senderId: string,
+    receiverId: string,
+    senderProfile: {
+      uid: string;
+      name: string;
+      email: string;
+      photo: string;
+      designation?: string;
+      isOnline?: boolean;
+    },
+    receiverProfile?: {
+      uid: string;
+      name: string;
+      email: string;
+      photo: string;
+    },
+    message?: string
+  ): Promise<void> {
+    if (senderId === receiverId) {
+      throw new Error('Cannot send request to yourself');
+    }
+
+    const [blockedBySender, blockedByReceiver, receiverSettings] = await Promise.all([
+      BlockService.hasBlocked(senderId, receiverId),
+      BlockService.hasBlocked(receiverId, senderId),
+      UserService.getUserSettings(receiverId),
+    ]);
+    if (blockedBySender) {
+      throw new Error('Unblock this user to send a friend request');
+    }
+    if (!receiverSettings.allowFriendRequests) {
+      throw new Error('This user is not accepting friend requests');
+    }
+    // The sender isn't told they are blocked; the request is simply rejected
+
+    // Requests are deleted when a friendship ends, so check the friendship itself too
+    if (await this.areUsersFriends(senderId, receiverId)) {
+      throw new Error('You are already friends');
+    }
+
+    // Check if request already exists
+    const existing = await Repositories.friendRequests.find({
+      senderId,
+      receiverId,
+      status: ['pending', 'accepted'],
+    });
+    if (existing.length > 0) {
+      const existingRequest = existing[0];
+      if (existingRequest.status === 'pending') {
+        throw new Error('Friend request already sent');
+      }
+      if (existingRequest.status === 'accepted') {
+        throw new Error('You are already friends');
+      }
+    }
+
+    await Repositories.friendRequests.create({
+      senderId,
+      receiverId,
+      senderName: senderProfile.name,
+      senderPhoto: senderProfile.photo,
+      senderEmail: senderProfile.email,
+      receiverName: receiverProfile?.name || '',
+      receiverPhoto: receiverProfile?.photo || '',
+      receiverEmail: receiverProfile?.email || '',
+      status: blockedByReceiver ? 'rejected' : 'pending',
+      message: message || '',
+      timestamp: FieldValues.serverTimestamp(),
+      senderReceiver: `${senderId}_${receiverId}`,
+      ...(blockedByReceiver ? { rejectedAt: FieldValues.serverTimestamp() } : {}),
+    });
+  },
+
+  subscribeToReceivedRequests(
+    userId: string,
+    onChange: (requests: FriendRequest[]) => void
+  ): Unsubscribe {
+    return Repositories.friendRequests.watchPending('receiverId', userId, onChange, (error) => {
+      console.error('subscribeToReceivedRequests error:', error);
+      onChange([]);
+    });
+  },
+
+  subscribeToSentRequests(
+    userId: string,
+    onChange: (requests: FriendRequest[]) => void
+  ): Unsubscribe {
+    return Repositories.friendRequests.watchPending('senderId', userId, onChange, (error) => {
+      console.error('subscribeToSentRequests error:', error);
+      onChange([]);
+    });
+  },
+
+  async acceptFriendRequest(id: string, currentUserId: string, refreshUserData?: () => Promise<void>): Promise<void> {
+    // First verify the request exists and current user is the receiver
+    const request = await Repositories.friendRequests.get(id);
+    if (!request) {
+      throw new Error('Friend request not found');
+    }
+    
+    // Verify that the current user is the receiver of this request
+    if (request.receiverId !== currentUserId) {
+      throw new Error('You can only accept requests sent to you');
+    }
+
+    // Verify the request is still pending
+    if (request.status !== 'pending') {
+      throw new Error('This request has already been processed');
+    }
+
+    try {
+      const senderId = request.senderId;
+      const [sender, receiver, senderRel, receiverRel] = await Promise.all([
+        Repositories.users.get(senderId),
+        Repositories.users.get(currentUserId),
+        Repositories.users.getRelationship(senderId, currentUserId),
+        Repositories.users.getRelationship(currentUserId, senderId),
+      ]);
+
+      // Use a batch for atomic operations
+      const batch = Repositories.batch();
+      const now = FieldValues.serverTimestamp();
+
+      // 1. Update the friend request status
+      batch.update(Paths.request(id), { 
+        status: 'accepted',
+        acceptedAt: now
+      });
+
+      // 2. A relationship on each side, with the other's profile denormalized.
+      // The count only goes up for a side that didn't already have the friend.
+      const link = (
+        uid: string,
+        data: StoredUser | null,
+        existing: UserRelationship | null,
+        otherId: string,
+        other: StoredUser | null,
+        fallback: { name: string; photo: string }
+      ) => {
+        const relationship: UserRelationship = {
+          id: otherId,
+          type: 'friend',
+          createdAt: now,
+          name: other?.name || fallback.name,
+          photo: other?.photo || fallback.photo,
+          isOnline: !!other?.isOnline,
+          lastSeen: other?.lastSeen ?? null,
+        };
+        batch.set(Paths.relationship(uid, otherId), relationship);
+        const hadFriend =
+          isFriendRelationship(existing) ||
+          suspendsFriendship(existing) ||
+          !!data?.friends?.includes(otherId);
+        if (data && !hadFriend) {
+          batch.update(Paths.user(uid), { friendsCount: FieldValues.increment(1), updatedAt: now });
+        }
+      };
+      link(senderId, sender, senderRel, currentUserId, receiver, {
+        name: request.receiverName,
+        photo: request.receiverPhoto,
+      });
+      link(currentUserId, receiver, receiverRel, senderId, sender, {
+        name: request.senderName,
+        photo: request.senderPhoto,
+      });
+
+      // Execute the batch
+      await batch.commit();
+      console.log('✅ Friend request accepted successfully');
+
+      // Refresh user data
+      if (refreshUserData) {
+        try {
+          await refreshUserData();
+          console.log('✅ User context refreshed');
+        } catch (refreshError) {
+          console.error('❌ Failed to refresh user context:', refreshError);
+        }
+      }
+
+      // Create chat room (optional - can be lazy loaded)
+      try {
+        const chatId = await ChatService.ensureChatExists(currentUserId, request.senderId);
+        // Friends again after an unfriend: the old conversation can be used again
+        await Repositories.chats.update(chatId, { readOnly: FieldValues.delete() });
+        console.log('✅ Chat created successfully');
+      } catch (chatError) {
+        console.warn('⚠️ Chat creation had minor issues:', chatError);
+      }
+
+    } catch (error: any) {
+      console.error('❌ Error in acceptFriendRequest:', error);
+      
+      // Provide more specific error messages
+      if (error.code === 'permission-denied') {
+        throw new Error('Permission denied. Please check your Firestore security rules.');
+      } else if (error.code === 'not-found') {
+        throw new Error('User document not found. The user may have been deleted.');
+      } else {
+        throw new Error(error.message || 'Failed to accept friend request');
+      }
+    }
+  },
+
+  async rejectFriendRequest(id: string): Promise<void> {
+    // Verify the request exists
+    if (!(await Repositories.friendRequests.get(id))) {
+      throw new Error('Friend request not found');
+    }
+
+    await Repositories.friendRequests.update(id, { 
+      status: 'rejected',
+      rejectedAt: FieldValues.serverTimestamp()
+    });
+  },
+
+  async cancelFriendRequest(id: string): Promise<void> {
+    // Verify the request exists
+    if (!(await Repositories.friendRequests.get(id))) {
+      throw new Error('Friend request not found');
+    }
+
+    await Repositories.friendRequests.delete(id);
+  },
+
+  /**
+   * Undo a friendship from either side: relationship docs, legacy friends entries
+   * and counts on both users, and the requests between them so a new one can be
+   * sent. Their direct chat is kept but marked read-only.
+   */
+  async removeFriend(userId: string, friendId: string): Promise<void> {
+    try {
+      const chatId = ChatService.generateChatId(userId, friendId);
+      const [user, friend, userRel, friendRel, userEntry, friendEntry, requests, chat] =
+        await Promise.all([
+          Repositories.users.get(userId),
+          Repositories.users.get(friendId),
+          Repositories.users.getRelationship(userId, friendId),
+          Repositories.users.getRelationship(friendId, userId),
+          Repositories.users.getFriendEntry(userId, friendId),
+          Repositories.users.getFriendEntry(friendId, userId),
+          Repositories.friendRequests.listBetween(userId, friendId),
+          Repositories.chats.get(chatId),
+        ]);
+
+      const batch = Repositories.batch();
+
+      // Only friendships are undone; a block stays in place, with nothing to restore
+      const undo = (uid: string, otherId: string, relationship: UserRelationship | null) => {
+        if (isFriendRelationship(relationship)) {
+          batch.delete(Paths.relationship(uid, otherId));
+        } else if (suspendsFriendship(relationship)) {
+          batch.update(Paths.relationship(uid, otherId), { friendSince: FieldValues.delete() });
+        }
+      };
+      undo(userId, friendId, userRel);
+      undo(friendId, userId, friendRel);
+
+      batch.delete(Paths.friend(userId, friendId));
+      batch.delete(Paths.friend(friendId, userId));
+
+      // The count only drops for a side that still had the other as a friend
+      const unlink = (
+        uid: string,
+        data: StoredUser | null,
+        relationship: UserRelationship | null,
+        hadEntry: boolean,
+        otherId: string
+      ) => {
+        if (!data) return;
+        const inArray = !!data.friends?.includes(otherId);
+        const wasFriend =
+          inArray ||
+          hadEntry ||
+          isFriendRelationship(relationship) ||
+          suspendsFriendship(relationship);
+        const changes: DocumentData = {};
+        if (inArray) changes.friends = FieldValues.arrayRemove(otherId);
+        // Counts weren't kept before relationships, so never take one below zero
+        if (wasFriend && (data.friendsCount ?? 0) > 0) {
+          changes.friendsCount = FieldValues.increment(-1);
+        }
+        if (Object.keys(changes).length > 0) batch.update(Paths.user(uid), changes);
+      };
+      unlink(userId, user, userRel, !!userEntry, friendId);
+      unlink(friendId, friend, friendRel, !!friendEntry, userId);
+
+      requests.forEach((request) => batch.delete(Paths.request(request.id)));
+
+      if (chat) {
+        batch.update(Paths.chat(chatId), { readOnly: true });
+      }
+
+      await batch.commit();
+      console.log('✅ Friend removed:', friendId);
+    } catch (error) {
+      console.error('❌ Error removing friend:', error);
+      throw error;
+    }
+  },
+
+  // Either side having the other as a friend, in any format, counts
+  async areUsersFriends(userId1: string, userId2: string): Promise<boolean> {
+    try {
+      const [user1, user2, rel1, rel2, entry1, entry2] = await Promise.all([
+        Repositories.users.get(userId1),
+        Repositories.users.get(userId2),
+        Repositories.users.getRelationship(userId1, userId2),
+        Repositories.users.getRelationship(userId2, userId1),
+        Repositories.users.getFriendEntry(userId1, userId2),
+        Repositories.users.getFriendEntry(userId2, userId1),
+      ]);
+
+      return (
+        isFriendRelationship(rel1) ||
+        isFriendRelationship(rel2) ||
+        !!entry1 ||
+        !!entry2 ||
+        !!user1?.friends?.includes(userId2) ||
+        !!user2?.friends?.includes(userId1)
+      );
+    } catch (error) {
+      console.error('❌ Error checking friendship status:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Ids of everyone the user is friends with, from relationships and from the
+   * legacy formats. Someone the user has since blocked is left out.
+   */
+  async getFriendIds(userId: string): Promise<string[]> {
+    try {
+      const [user, friends, blocked, entries] = await Promise.all([
+        Repositories.users.get(userId),
+        Repositories.users.listRelationships(userId, 'friend'),
+        Repositories.users.listRelationships(userId, 'blocked'),
+        Repositories.users.listFriendEntries(userId),
+      ]);
+
+      const blockedIds = new Set(blocked.map((relationship) => relationship.id));
+      const ids = new Set([
+        ...friends.map((relationship) => relationship.id),
+        ...entries.map((entry) => entry.friendId),
+        ...(user?.friends || []),
+      ]);
+      return Array.from(ids).filter((id) => !blockedIds.has(id));
+    } catch (error) {
+      console.error('❌ Error loading friend ids:', error);
+      return [];
+    }
+  },
+};
+
+export type { FriendRequest };
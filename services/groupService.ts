@@ -0,0 +1,256 @@
+// services/groupService.ts
+import { ChatMessage } from '../types/models';
+import { ChatService } from './chatService';
+import { Converters } from './converters';
+import { FieldValues, WriteBatch } from './dataStore';
+import { Paths, Repositories } from './repositories';
+
+type SystemAction = NonNullable<ChatMessage['systemData']>['action'];
+
+interface GroupSnapshot {
+  participants: string[];
+  adminIds: string[];
+}
+
+const loadGroup = async (chatId: string): Promise<GroupSnapshot> => {
+  const data = await Repositories.chats.get(chatId);
+  if (!data || data.type !== 'group') {
+    throw new Error(`Group chat not found: ${chatId}`);
+  }
+  return {
+    participants: data.participants || [],
+    adminIds: data.groupInfo?.adminIds || [],
+  };
+};
+
+const assertAdmin = (group: GroupSnapshot, userId: string) => {
+  if (!group.adminIds.includes(userId)) {
+    throw new Error('Only group admins can do this');
+  }
+};
+
+/**
+ * Queue a `type: 'system'` message on the batch so it lands with the change it describes
+ */
+const addSystemMessage = (
+  batch: WriteBatch,
+  chatId: string,
+  action: SystemAction,
+  actorId: string,
+  targetIds?: string[],
+  value?: string
+) => {
+  const systemData: NonNullable<ChatMessage['systemData']> = { action, actorId };
+  if (targetIds && targetIds.length > 0) systemData.targetIds = targetIds;
+  if (value !== undefined) systemData.value = value;
+
+  batch.set(
+    Paths.message(chatId, Repositories.messages.newId(chatId)),
+    Converters.message.toFirestore({
+      senderId: actorId,
+      timestamp: FieldValues.serverTimestamp(),
+      chatId,
+      type: 'system',
+      content: { text: '' },
+      systemData,
+    })
+  );
+};
+
+export const GroupService = {
+  /**
+   * Add friends to a group (admins only)
+   */
+  async addMembers(chatId: string, actorId: string, memberIds: string[]): Promise<void> {
+    try {
+      const group = await loadGroup(chatId);
+      assertAdmin(group, actorId);
+
+      const newMembers = Array.from(new Set(memberIds)).filter(
+        (id) => !group.participants.includes(id)
+      );
+      if (newMembers.length === 0) return;
+
+      const batch = Repositories.batch();
+      const update: { [key: string]: any } = {
+        participants: FieldValues.arrayUnion(...newMembers),
+        participantCount: FieldValues.increment(newMembers.length),
+      };
+      newMembers.forEach((id) => {
+        update[`participantData.${id}`] = { unreadCount: 0 };
+      });
+      batch.update(Paths.chat(chatId), update);
+      addSystemMessage(batch, chatId, 'user_joined', actorId, newMembers);
+      await batch.commit();
+      ChatService.syncChatList(chatId);
+
+      console.log(`✅ Added ${newMembers.length} member(s) to group ${chatId}`);
+    } catch (error) {
+      console.error('❌ Error adding group members:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Remove another member from a group (admins only)
+   */
+  async removeMember(chatId: string, actorId: string, memberId: string): Promise<void> {
+    try {
+      if (actorId === memberId) {
+        throw new Error('Use leaveGroup to leave a group');
+      }
+      const group = await loadGroup(chatId);
+      assertAdmin(group, actorId);
+      if (!group.participants.includes(memberId)) return;
+
+      const batch = Repositories.batch();
+      batch.update(Paths.chat(chatId), {
+        participants: FieldValues.arrayRemove(memberId),
+        participantCount: FieldValues.increment(-1),
+        'groupInfo.adminIds': FieldValues.arrayRemove(memberId),
+        [`participantData.${memberId}`]: FieldValues.delete(),
+      });
+      addSystemMessage(batch, chatId, 'user_removed', actorId, [memberId]);
+      batch.delete(Paths.chatListEntry(memberId, chatId));
+      await batch.commit();
+      ChatService.syncChatList(chatId);
+    } catch (error) {
+      console.error('❌ Error removing group member:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Make a member an admin (admins only)
+   */
+  async promoteAdmin(chatId: string, actorId: string, memberId: string): Promise<void> {
+    try {
+      const group = await loadGroup(chatId);
+      assertAdmin(group, actorId);
+      if (!group.participants.includes(memberId)) {
+        throw new Error('User is not a member of this group');
+      }
+      if (group.adminIds.includes(memberId)) return;
+
+      const batch = Repositories.batch();
+      batch.update(Paths.chat(chatId), {
+        'groupInfo.adminIds': FieldValues.arrayUnion(memberId),
+      });
+      addSystemMessage(batch, chatId, 'admin_promoted', actorId, [memberId]);
+      await batch.commit();
+    } catch (error) {
+      console.error('❌ Error promoting group admin:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Revoke admin rights; a group always keeps at least one admin
+   */
+  async demoteAdmin(chatId: string, actorId: string, memberId: string): Promise<void> {
+    try {
+      const group = await loadGroup(chatId);
+      assertAdmin(group, actorId);
+      if (!group.adminIds.includes(memberId)) return;
+      if (group.adminIds.length <= 1) {
+        throw new Error('A group needs at least one admin');
+      }
+
+      const batch = Repositories.batch();
+      batch.update(Paths.chat(chatId), {
+        'groupInfo.adminIds': FieldValues.arrayRemove(memberId),
+      });
+      addSystemMessage(batch, chatId, 'admin_demoted', actorId, [memberId]);
+      await batch.commit();
+    } catch (error) {
+      console.error('❌ Error demoting group admin:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Rename a group (admins only)
+   */
+  async renameGroup(chatId: string, actorId: string, name: string): Promise<void> {
+    try {
+      const trimmed = name.trim();
+      if (!trimmed) throw new Error('Group name cannot be empty');
+      const group = await loadGroup(chatId);
+      assertAdmin(group, actorId);
+
+      const batch = Repositories.batch();
+      batch.update(Paths.chat(chatId), {
+        'groupInfo.name': trimmed,
+      });
+      addSystemMessage(batch, chatId, 'group_renamed', actorId, undefined, trimmed);
+      await batch.commit();
+      ChatService.syncChatList(chatId);
+    } catch (error) {
+      console.error('❌ Error renaming group:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Change the group photo to an already-uploaded URL (admins only)
+   */
+  async updateGroupPhoto(chatId: string, actorId: string, photoUrl: string): Promise<void> {
+    try {
+      const group = await loadGroup(chatId);
+      assertAdmin(group, actorId);
+
+      const batch = Repositories.batch();
+      batch.update(Paths.chat(chatId), {
+        'groupInfo.photo': photoUrl,
+      });
+      addSystemMessage(batch, chatId, 'group_photo_changed', actorId);
+      await batch.commit();
+      ChatService.syncChatList(chatId);
+    } catch (error) {
+      console.error('❌ Error updating group photo:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Leave a group. If the last admin leaves, the longest-standing member takes over.
+   */
+  async leaveGroup(chatId: string, userId: string): Promise<void> {
+    try {
+      const group = await loadGroup(chatId);
+      if (!group.participants.includes(userId)) return;
+
+      const remaining = group.participants.filter((id) => id !== userId);
+      if (remaining.length === 0) {
+        await ChatService.deleteChat(chatId);
+        return;
+      }
+
+      const remainingAdmins = group.adminIds.filter((id) => id !== userId);
+      const successor = remainingAdmins.length === 0 ? remaining[0] : null;
+
+      const batch = Repositories.batch();
+      const update: { [key: string]: any } = {
+        participants: FieldValues.arrayRemove(userId),
+        participantCount: FieldValues.increment(-1),
+        [`participantData.${userId}`]: FieldValues.delete(),
+        'groupInfo.adminIds': successor ? [successor] : FieldValues.arrayRemove(userId),
+      };
+      batch.update(Paths.chat(chatId), update);
+      addSystemMessage(batch, chatId, 'user_left', userId);
+      if (successor) {
+        addSystemMessage(batch, chatId, 'admin_promoted', userId, [successor]);
+      }
+      batch.delete(Paths.chatListEntry(userId, chatId));
+      await batch.commit();
+      ChatService.syncChatList(chatId);
+    } catch (error) {
+      console.error('❌ Error leaving group:', error);
+      throw error;
+    }
+  },
+
+  isAdmin(chat: { groupInfo?: { adminIds?: string[] } } | null | undefined, userId?: string): boolean {
+    return !!userId && !!chat?.groupInfo?.adminIds?.includes(userId);
+  },
+};
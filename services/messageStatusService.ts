@@ -1,8 +1,10 @@
 // services/messageStatusService.ts
-import { getFirestore, collection, doc, getDocs, getDoc, updateDoc, writeBatch, query, where, onSnapshot } from '@react-native-firebase/firestore';
+import { normalizeChat, unreadCountFor } from '../utils/legacySchema';
+import { FieldValues } from './dataStore';
+import { ChatDocument, Paths, QueuedWrite, Repositories } from './repositories';
 
-const CHATS = 'chats';
-const MESSAGES = 'messages';
+const unreadFor = (chat: ChatDocument | null, userId: string): number =>
+  chat ? unreadCountFor(normalizeChat(chat.id, chat), userId) : 0;
 
 export const MessageStatusService = {
   /**
@@ -10,28 +12,30 @@ export const MessageStatusService = {
    */
   async markChatAsRead(chatId: string, userId: string): Promise<void> {
     try {
-      const batch = getFirestore().batch();
-      
       // Update all unread messages to read status
-      const messagesQuery = query(
-        collection(getFirestore(), CHATS, chatId, MESSAGES),
-        where('receiverId', '==', userId),
-        where('status', 'in', ['sent', 'delivered'])
+      const unread = await Repositories.messages.listUnread(chatId, userId);
+      const writes: QueuedWrite[] = unread.map((message) => (batch) =>
+        batch.update(Paths.message(chatId, message.id), { status: 'read' })
       );
       
-      const messagesSnapshot = await getDocs(messagesQuery);
-      
-      messagesSnapshot.docs.forEach((doc) => {
-        batch.update(doc.ref, { status: 'read' });
-      });
-      
-      // Reset unread count for this user in the chat document
-      const chatRef = doc(getFirestore(), CHATS, chatId);
-      const updateData: { [key: string]: number } = {};
-      updateData[`unreadCount.${userId}`] = 0;
-      batch.update(chatRef, updateData);
+      // Reset unread count for this user in the chat document, with the last
+      // chunk of receipts so the counter only clears once they are all written
+      writes.push((batch) =>
+        batch.update(Paths.chat(chatId), {
+          [`participantData.${userId}.unreadCount`]: 0,
+          [`participantData.${userId}.lastReadAt`]: FieldValues.serverTimestamp(),
+        })
+      );
+      // Keep the reader's chat list badge in step
+      writes.push((batch) =>
+        batch.set(
+          Paths.chatListEntry(userId, chatId),
+          { unreadCount: 0, lastReadAt: FieldValues.serverTimestamp() },
+          { merge: true }
+        )
+      );
       
-      await batch.commit();
+      await Repositories.commitInChunks(writes);
       
       console.log(`✅ Marked chat ${chatId} as read for user ${userId}`);
     } catch (error) {
@@ -45,31 +49,29 @@ export const MessageStatusService = {
    */
   async markMessagesAsRead(chatId: string, messageIds: string[], userId: string): Promise<void> {
     try {
-      const batch = getFirestore().batch();
-      
       // Update specific messages to read status
-      for (const messageId of messageIds) {
-        const messageRef = doc(getFirestore(), CHATS, chatId, MESSAGES, messageId);
-        
-        batch.update(messageRef, { status: 'read' });
-      }
-      
-      // Update unread count - we need to count remaining unread messages
-      const unreadQuery = query(
-        collection(getFirestore(), CHATS, chatId, MESSAGES),
-        where('receiverId', '==', userId),
-        where('status', 'in', ['sent', 'delivered'])
+      const writes: QueuedWrite[] = messageIds.map((messageId) => (batch) =>
+        batch.update(Paths.message(chatId, messageId), { status: 'read' })
       );
       
-      const unreadSnapshot = await getDocs(unreadQuery);
-      const remainingUnreadCount = Math.max(0, unreadSnapshot.size - messageIds.length);
+      // Update unread count - we need to count remaining unread messages
+      const unread = await Repositories.messages.listUnread(chatId, userId);
+      const remainingUnreadCount = Math.max(0, unread.length - messageIds.length);
       
-      const chatRef = doc(getFirestore(), CHATS, chatId);
-      const updateData: { [key: string]: number } = {};
-      updateData[`unreadCount.${userId}`] = remainingUnreadCount;
-      batch.update(chatRef, updateData);
+      writes.push((batch) =>
+        batch.update(Paths.chat(chatId), {
+          [`participantData.${userId}.unreadCount`]: remainingUnreadCount,
+        })
+      );
+      writes.push((batch) =>
+        batch.set(
+          Paths.chatListEntry(userId, chatId),
+          { unreadCount: remainingUnreadCount },
+          { merge: true }
+        )
+      );
       
-      await batch.commit();
+      await Repositories.commitInChunks(writes);
       
       console.log(`✅ Marked ${messageIds.length} messages as read for user ${userId}`);
     } catch (error) {
@@ -83,16 +85,7 @@ export const MessageStatusService = {
    */
   async getUnreadCount(chatId: string, userId: string): Promise<number> {
     try {
-      const chatDoc = await getDoc(doc(getFirestore(), CHATS, chatId));
-      
-      if (!chatDoc.exists()) {
-        return 0;
-      }
-      
-      const chatData = chatDoc.data();
-      const unreadCount = chatData?.unreadCount?.[userId] || 0;
-      
-      return unreadCount;
+      return unreadFor(await Repositories.chats.get(chatId), userId);
     } catch (error) {
       console.error('❌ Error getting unread count:', error);
       return 0;
@@ -104,21 +97,8 @@ export const MessageStatusService = {
    */
   async getTotalUnreadCount(userId: string): Promise<number> {
     try {
-      const chatsQuery = query(
-        collection(getFirestore(), CHATS),
-        where('participants', 'array-contains', userId)
-      );
-      
-      const chatsSnapshot = await getDocs(chatsQuery);
-      
-      let totalUnread = 0;
-      chatsSnapshot.docs.forEach((doc) => {
-        const chatData = doc.data();
-        const unreadCount = chatData?.unreadCount?.[userId] || 0;
-        totalUnread += unreadCount;
-      });
-      
-      return totalUnread;
+      const chats = await Repositories.chats.listForParticipant(userId);
+      return chats.reduce((total, chat) => total + unreadFor(chat, userId), 0);
     } catch (error) {
       console.error('❌ Error getting total unread count:', error);
       return 0;
@@ -129,29 +109,14 @@ export const MessageStatusService = {
    * Subscribe to real-time unread count updates for all user's chats
    */
   subscribeToUnreadCounts(userId: string, onChange: (totalUnread: number) => void): () => void {
-    const chatsQuery = query(
-      collection(getFirestore(), CHATS),
-      where('participants', 'array-contains', userId)
-    );
-
-    const unsubscribe = onSnapshot(chatsQuery, {
-      next: (snapshot) => {
-        let totalUnread = 0;
-        snapshot.docs.forEach((doc) => {
-          const chatData = doc.data();
-          const unreadCount = chatData?.unreadCount?.[userId] || 0;
-          totalUnread += unreadCount;
-        });
-        
-        onChange(totalUnread);
-      },
-      error: (error) => {
+    return Repositories.chats.watchForParticipant(
+      userId,
+      (chats) => onChange(chats.reduce((total, chat) => total + unreadFor(chat, userId), 0)),
+      (error) => {
         console.error('❌ Error subscribing to unread counts:', error);
         onChange(0);
-      },
-    });
-
-    return unsubscribe;
+      }
+    );
   },
 
   /**
@@ -159,9 +124,7 @@ export const MessageStatusService = {
    */
   async markMessageAsDelivered(chatId: string, messageId: string): Promise<void> {
     try {
-      const messageRef = doc(getFirestore(), CHATS, chatId, MESSAGES, messageId);
-      
-      await updateDoc(messageRef, { status: 'delivered' });
+      await Repositories.messages.update(chatId, messageId, { status: 'delivered' });
       
       console.log(`✅ Marked message ${messageId} as delivered`);
     } catch (error) {
@@ -170,6 +133,24 @@ export const MessageStatusService = {
     }
   },
 
+  /**
+   * Mark several messages as delivered in batches (first time the recipient's client sees them)
+   */
+  async markMessagesAsDelivered(chatId: string, messageIds: string[]): Promise<void> {
+    try {
+      await Repositories.commitInChunks(
+        messageIds.map((messageId) => (batch) =>
+          batch.update(Paths.message(chatId, messageId), { status: 'delivered' })
+        )
+      );
+
+      console.log(`✅ Marked ${messageIds.length} messages as delivered`);
+    } catch (error) {
+      console.error('❌ Error marking messages as delivered:', error);
+      // Don't throw error for delivery status updates
+    }
+  },
+
   /**
    * Subscribe to message status updates for a specific chat
    */
@@ -178,25 +159,14 @@ export const MessageStatusService = {
     userId: string,
     onChange: (unreadCount: number) => void
   ): () => void {
-    const chatRef = doc(getFirestore(), CHATS, chatId);
-
-    const unsubscribe = onSnapshot(chatRef, {
-      next: (doc) => {
-        if (doc.exists()) {
-          const chatData = doc.data();
-          const unreadCount = chatData?.unreadCount?.[userId] || 0;
-          onChange(unreadCount);
-        } else {
-          onChange(0);
-        }
-      },
-      error: (error) => {
+    return Repositories.chats.watch(
+      chatId,
+      (chat) => onChange(unreadFor(chat, userId)),
+      (error) => {
         console.error('❌ Error subscribing to message status:', error);
         onChange(0);
-      },
-    });
-
-    return unsubscribe;
+      }
+    );
   },
 };
 
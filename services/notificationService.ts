@@ -0,0 +1,225 @@
+// services/notificationService.ts
+import { router } from 'expo-router';
+import { UserChatListItem } from '../types/models';
+import { ChatService } from './chatService';
+import { Repositories } from './repositories';
+
+// Messages kept in one chat's grouped notification; older ones only count
+const MAX_LINES = 5;
+
+type Unsubscribe = () => void;
+
+export interface ChatNotificationData {
+  chatId: string;
+  name: string;
+  avatar: string;
+  isGroup: boolean;
+  friendUserId?: string; // Direct chats only; the chatroom route opens by friend
+}
+
+/**
+ * One notification per chat. Presenting it again for the same chatId replaces the
+ * previous one, which is how messages are grouped.
+ */
+export interface ChatNotification {
+  chatId: string;
+  title: string;
+  lines: string[]; // Newest last
+  count: number; // Messages since the user last looked, may exceed lines.length
+  canReply: boolean;
+  data: ChatNotificationData;
+}
+
+export interface NotificationResponse {
+  data: ChatNotificationData;
+  replyText?: string; // Set when the user answered from the notification itself
+}
+
+/**
+ * Where notifications are shown. The local provider presents them on the device;
+ * a remote-push provider can implement the same contract later.
+ */
+export interface NotificationProvider {
+  requestPermission(): Promise<boolean>;
+  present(notification: ChatNotification): Promise<void>;
+  dismiss(chatId: string): Promise<void>;
+  dismissAll(): Promise<void>;
+  onResponse(listener: (response: NotificationResponse) => void): Unsubscribe;
+  // The tap that launched the app from a killed state, if any
+  getInitialResponse(): Promise<NotificationResponse | null>;
+}
+
+let provider: NotificationProvider | null = null;
+let currentUid: string | null = null;
+let appActive = true;
+let seeded = false;
+let unsubscribers: Unsubscribe[] = [];
+const lastMessageAt = new Map<string, number>();
+const pending = new Map<string, { lines: string[]; count: number }>();
+
+const toMillis = (value: any): number => {
+  if (!value) return 0;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (typeof value.toDate === 'function') return value.toDate().getTime();
+  const time = new Date(value).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+// Same rule as the chat list: muted with no end date means muted until turned off
+const isMutedAt = (entry: UserChatListItem, now: number): boolean =>
+  !!entry.isMuted && (!entry.mutedUntil || toMillis(entry.mutedUntil) > now);
+
+const toData = (entry: UserChatListItem): ChatNotificationData => ({
+  chatId: entry.chatId,
+  name: entry.partnerName,
+  avatar: entry.partnerPhoto,
+  isGroup: !!entry.isGroup,
+  ...(entry.isGroup ? {} : { friendUserId: entry.partnerId }),
+});
+
+const clearChat = async (chatId: string) => {
+  pending.delete(chatId);
+  await provider?.dismiss(chatId);
+};
+
+export const NotificationService = {
+  setProvider(next: NotificationProvider | null): void {
+    provider = next;
+  },
+
+  /**
+   * Start turning new chat list messages into notifications for this user.
+   * Calling it again for the same user is a no-op.
+   */
+  async start(uid: string): Promise<void> {
+    if (currentUid === uid) return;
+    NotificationService.stop();
+    currentUid = uid;
+    if (!provider) return;
+
+    try {
+      const granted = await provider.requestPermission();
+      if (!granted) console.log('🔕 Notification permission not granted');
+
+      unsubscribers.push(provider.onResponse(NotificationService.handleResponse));
+      unsubscribers.push(
+        Repositories.chatLists.watchRecent(
+          uid,
+          100,
+          (entries) => {
+            NotificationService.handleChatListSnapshot(entries);
+          },
+          (error) => console.error('❌ Notification chat list subscription error:', error)
+        )
+      );
+
+      const initial = await provider.getInitialResponse();
+      if (initial) await NotificationService.handleResponse(initial);
+    } catch (error) {
+      console.error('❌ Error starting notifications:', error);
+    }
+  },
+
+  stop(): void {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    unsubscribers = [];
+    currentUid = null;
+    seeded = false;
+    lastMessageAt.clear();
+    pending.clear();
+  },
+
+  /**
+   * Notifications are only shown while the app is in the background. Coming back
+   * to the foreground clears them, since the chat list shows the same messages.
+   */
+  async setAppActive(active: boolean): Promise<void> {
+    appActive = active;
+    if (!active) return;
+    pending.clear();
+    try {
+      await provider?.dismissAll();
+    } catch (error) {
+      console.error('❌ Error dismissing notifications:', error);
+    }
+  },
+
+  /**
+   * Compare a chat list snapshot with the previous one and notify for chats whose
+   * last message is new and from someone else. The first snapshot only records
+   * where each chat is, so old messages are never announced.
+   */
+  async handleChatListSnapshot(entries: UserChatListItem[], now = Date.now()): Promise<void> {
+    const fresh: UserChatListItem[] = [];
+
+    for (const entry of entries) {
+      const time = toMillis(entry.lastMessageTime);
+      const previous = lastMessageAt.get(entry.chatId);
+      lastMessageAt.set(entry.chatId, time);
+
+      if (!seeded || (previous !== undefined && time <= previous)) continue;
+      if (!entry.lastMessage || entry.lastMessageType === 'system') continue;
+      if (entry.lastMessageSender === currentUid) continue;
+      fresh.push(entry);
+    }
+    seeded = true;
+
+    if (appActive || !provider) return;
+
+    for (const entry of fresh) {
+      if (isMutedAt(entry, now)) continue;
+
+      const line =
+        entry.isGroup && entry.lastMessageSenderName
+          ? `${entry.lastMessageSenderName}: ${entry.lastMessage}`
+          : entry.lastMessage;
+      const group = pending.get(entry.chatId) || { lines: [], count: 0 };
+      const next = { lines: [...group.lines, line].slice(-MAX_LINES), count: group.count + 1 };
+      pending.set(entry.chatId, next);
+
+      try {
+        await provider.present({
+          chatId: entry.chatId,
+          title: entry.partnerName,
+          lines: next.lines,
+          count: next.count,
+          // Inline replies go through the direct-message path only
+          canReply: !entry.isGroup,
+          data: toData(entry),
+        });
+      } catch (error) {
+        console.error('❌ Error presenting notification:', error);
+      }
+    }
+  },
+
+  /**
+   * A tap opens the chat; an inline reply is sent without opening the app
+   */
+  async handleResponse(response: NotificationResponse): Promise<void> {
+    const { data, replyText } = response;
+
+    if (replyText !== undefined) {
+      const text = replyText.trim();
+      if (!text || !currentUid || !data.friendUserId) return;
+      try {
+        await ChatService.sendMessageWithReply(currentUid, data.friendUserId, text, null);
+        await clearChat(data.chatId);
+      } catch (error) {
+        console.error('❌ Error sending reply from notification:', error);
+      }
+      return;
+    }
+
+    await clearChat(data.chatId);
+    router.push({
+      pathname: '/(screens)/chatroom',
+      params: {
+        name: data.name,
+        avatar: data.avatar,
+        ...(currentUid ? { currentUserId: currentUid } : {}),
+        ...(data.isGroup ? { chatId: data.chatId } : { friendUserId: data.friendUserId }),
+      },
+    });
+  },
+};
@@ -0,0 +1,369 @@
+// services/outboxService.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as FileSystem from 'expo-file-system';
+import { ChatService } from './chatService';
+import { Repositories } from './repositories';
+import { UploadService } from './uploadService';
+
+const STORAGE_KEY = 'chat_outbox';
+const MEDIA_DIR = `${FileSystem.documentDirectory}outbox/`;
+
+// Non-network failures are retried this many times before the bubble shows "failed"
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 30000;
+
+type Unsubscribe = () => void;
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxReply {
+  messageId: string;
+  text: string;
+  senderId: string;
+  senderName: string;
+}
+
+export interface OutboxMedia {
+  localUri: string; // Copy under documentDirectory, so it survives restarts
+  mediaType: 'image' | 'video' | 'audio' | 'file';
+  fileName?: string;
+  mimeType?: string;
+  fileSize?: number;
+  waveform?: number[]; // Voice notes: levels recorded while speaking
+  durationMillis?: number;
+  remoteUrl?: string; // Set once uploaded, so a retry skips the upload
+}
+
+interface OutboxBase {
+  id: string; // For sends this doubles as the Firestore message id
+  chatId: string;
+  senderId: string;
+  createdAt: number;
+  status: OutboxStatus;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface OutboxSend extends OutboxBase {
+  kind: 'send';
+  receiverId?: string; // Direct chats only
+  isGroup: boolean;
+  text: string;
+  replyTo?: OutboxReply | null;
+  media?: OutboxMedia;
+}
+
+export interface OutboxEdit extends OutboxBase {
+  kind: 'edit';
+  messageId: string;
+  text: string;
+}
+
+export interface OutboxDelete extends OutboxBase {
+  kind: 'delete';
+  messageId: string;
+}
+
+export type OutboxItem = OutboxSend | OutboxEdit | OutboxDelete;
+
+type NewOutboxItem =
+  | Omit<OutboxSend, 'id' | 'createdAt' | 'status' | 'attempts'>
+  | Omit<OutboxEdit, 'id' | 'createdAt' | 'status' | 'attempts'>
+  | Omit<OutboxDelete, 'id' | 'createdAt' | 'status' | 'attempts'>;
+
+let items: OutboxItem[] = [];
+let loadPromise: Promise<void> | null = null;
+let flushing = false;
+let flushRequested = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+// Failed flushes in a row, offline or not; each one doubles the wait before the next
+let failureStreak = 0;
+let activeUserId: string | null = null;
+let stopWatchingConnectivity: Unsubscribe | null = null;
+const listeners = new Set<() => void>();
+
+const load = (): Promise<void> => {
+  if (!loadPromise) {
+    loadPromise = AsyncStorage.getItem(STORAGE_KEY)
+      .then((raw) => {
+        items = raw ? JSON.parse(raw) : [];
+      })
+      .catch((error) => {
+        console.error('❌ Error loading outbox:', error);
+      });
+  }
+  return loadPromise;
+};
+
+const persist = async () => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  } catch (error) {
+    console.error('❌ Error saving outbox:', error);
+  }
+};
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const replaceItem = async (id: string, changes: Partial<OutboxItem>) => {
+  items = items.map((item) => (item.id === id ? ({ ...item, ...changes } as OutboxItem) : item));
+  notify();
+  await persist();
+};
+
+const removeItem = async (id: string) => {
+  const item = items.find((i) => i.id === id);
+  items = items.filter((i) => i.id !== id);
+  notify();
+  await persist();
+  if (item?.kind === 'send' && item.media?.localUri.startsWith(MEDIA_DIR)) {
+    FileSystem.deleteAsync(item.media.localUri, { idempotent: true }).catch(() => {});
+  }
+};
+
+// Offline errors never count against an item; they only back off until the next flush
+const isOfflineError = (error: any): boolean => {
+  const code = String(error?.code || '');
+  const message = String(error?.message || '');
+  return (
+    code.includes('unavailable') ||
+    code.includes('deadline-exceeded') ||
+    /network request failed|network error|offline/i.test(message)
+  );
+};
+
+// Keep the picked file around until it is uploaded; picker/recorder URIs live in the cache dir
+const copyToOutbox = async (id: string, media: OutboxMedia): Promise<OutboxMedia> => {
+  try {
+    await FileSystem.makeDirectoryAsync(MEDIA_DIR, { intermediates: true });
+    const ext = media.localUri.split('?')[0].split('.').pop() || 'bin';
+    const target = `${MEDIA_DIR}${id}.${ext}`;
+    await FileSystem.copyAsync({ from: media.localUri, to: target });
+    return { ...media, localUri: target };
+  } catch (error) {
+    console.error('❌ Error copying media to outbox, using original URI:', error);
+    return media;
+  }
+};
+
+const runSend = async (item: OutboxSend) => {
+  let media = item.media;
+  if (media && !media.remoteUrl) {
+    const remoteUrl = await UploadService.upload(media.localUri, media.mediaType, {
+      id: item.id,
+      mimeType: media.mimeType,
+      fileName: media.fileName,
+    });
+    media = { ...media, remoteUrl };
+    await replaceItem(item.id, { media } as Partial<OutboxItem>);
+  }
+
+  const payload = media
+    ? {
+        mediaUrl: media.remoteUrl!,
+        mediaType: media.mediaType,
+        fileName: media.fileName,
+        fileSize: media.fileSize,
+        waveform: media.waveform,
+        durationMillis: media.durationMillis,
+      }
+    : undefined;
+
+  if (item.isGroup) {
+    await ChatService.sendGroupMessage(
+      item.chatId,
+      item.senderId,
+      item.text,
+      item.replyTo,
+      payload,
+      item.id
+    );
+    return;
+  }
+
+  if (!item.receiverId) throw new Error('Missing receiverId for direct message');
+  await ChatService.ensureChatExists(item.senderId, item.receiverId);
+  await ChatService.sendMessageWithReply(
+    item.senderId,
+    item.receiverId,
+    item.text,
+    item.replyTo,
+    payload,
+    item.id
+  );
+};
+
+const runItem = async (item: OutboxItem) => {
+  switch (item.kind) {
+    case 'send':
+      return runSend(item);
+    case 'edit':
+      return ChatService.editMessage(item.chatId, item.messageId, item.text);
+    case 'delete':
+      return ChatService.deleteMessage(item.chatId, item.messageId);
+  }
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** failureStreak);
+  failureStreak += 1;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    if (activeUserId) OutboxService.flush(activeUserId);
+  }, delay);
+};
+
+// Coming back online replays the queue straight away instead of waiting out the backoff
+const watchConnectivity = () => {
+  if (stopWatchingConnectivity) return;
+  let wasConnected: boolean | null = null;
+  stopWatchingConnectivity = NetInfo.addEventListener((state) => {
+    const connected = state.isConnected !== false && state.isInternetReachable !== false;
+    if (connected && wasConnected === false && activeUserId) {
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      failureStreak = 0;
+      OutboxService.flush(activeUserId);
+    }
+    wasConnected = connected;
+  });
+};
+
+export const OutboxService = {
+  /**
+   * Generate the id a queued send will be stored under in Firestore
+   */
+  newMessageId(chatId: string): string {
+    return Repositories.messages.newId(chatId);
+  },
+
+  /**
+   * Queue an operation and try to deliver it straight away
+   */
+  async enqueue(newItem: NewOutboxItem, id?: string): Promise<OutboxItem> {
+    await load();
+    const itemId = id || OutboxService.newMessageId(newItem.chatId);
+    let item = {
+      ...newItem,
+      id: itemId,
+      createdAt: Date.now(),
+      status: 'pending',
+      attempts: 0,
+    } as OutboxItem;
+
+    if (item.kind === 'send' && item.media) {
+      item = { ...item, media: await copyToOutbox(itemId, item.media) };
+    }
+
+    items = [...items, item];
+    notify();
+    await persist();
+    OutboxService.flush(item.senderId);
+    return item;
+  },
+
+  /**
+   * Replay queued operations in the order they were made. Safe to call often:
+   * on app start, when the app comes to the foreground and after each enqueue.
+   */
+  async flush(userId: string): Promise<void> {
+    activeUserId = userId;
+    watchConnectivity();
+    await load();
+    if (flushing) {
+      flushRequested = true;
+      return;
+    }
+
+    flushing = true;
+    try {
+      do {
+        flushRequested = false;
+        const queue = items.filter((i) => i.senderId === userId && i.status === 'pending');
+
+        for (const queued of queue) {
+          // The item may have been edited, retried or discarded while we were busy
+          const item = items.find((i) => i.id === queued.id);
+          if (!item || item.status !== 'pending') continue;
+
+          try {
+            await runItem(item);
+            failureStreak = 0;
+            await removeItem(item.id);
+          } catch (error: any) {
+            // cancel() already dropped the item
+            if (UploadService.isCancelled(error)) continue;
+            console.error('❌ Outbox operation failed:', item.kind, item.id, error);
+            if (isOfflineError(error)) {
+              // Stop here so later operations keep their order; try again later
+              scheduleRetry();
+              return;
+            }
+            const attempts = item.attempts + 1;
+            await replaceItem(item.id, {
+              attempts,
+              status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+              lastError: String(error?.message || error),
+            });
+            if (attempts < MAX_ATTEMPTS) {
+              scheduleRetry();
+              return;
+            }
+          }
+        }
+      } while (flushRequested);
+    } finally {
+      flushing = false;
+    }
+  },
+
+  /**
+   * Put a failed item back in the queue (tap-to-retry)
+   */
+  async retry(id: string): Promise<void> {
+    await load();
+    const item = items.find((i) => i.id === id);
+    if (!item) return;
+    await replaceItem(id, { status: 'pending', attempts: 0, lastError: undefined });
+    OutboxService.flush(item.senderId);
+  },
+
+  /**
+   * Drop a queued item without sending it
+   */
+  async discard(id: string): Promise<void> {
+    await load();
+    await removeItem(id);
+  },
+
+  /**
+   * Stop a queued send, aborting its upload if one is running
+   */
+  async cancel(id: string): Promise<void> {
+    UploadService.cancel(id);
+    await OutboxService.discard(id);
+  },
+
+  /**
+   * Change the text of a send that has not gone out yet
+   */
+  async updateText(id: string, text: string): Promise<void> {
+    await load();
+    await replaceItem(id, { text } as Partial<OutboxItem>);
+  },
+
+  /**
+   * Subscribe to the queued items of one chat
+   */
+  subscribe(chatId: string, onChange: (items: OutboxItem[]) => void): Unsubscribe {
+    const listener = () => onChange(items.filter((i) => i.chatId === chatId));
+    listeners.add(listener);
+    load().then(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,163 @@
+// services/presenceService.ts
+import { Platform } from 'react-native';
+import { UserPresence, UserSettings } from '../types/models';
+import { FieldValues } from './dataStore';
+import { Paths, Repositories } from './repositories';
+
+// How often a foregrounded app refreshes its presence document
+export const PRESENCE_HEARTBEAT_MS = 60000;
+// An "online" document not refreshed within this window belongs to a killed app
+const STALE_AFTER_MS = PRESENCE_HEARTBEAT_MS * 2.5;
+
+type Unsubscribe = () => void;
+
+export interface PresenceState {
+  isOnline: boolean;
+  lastSeen: Date | null; // null when unknown or hidden by the user's privacy settings
+}
+
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+let heartbeatUid: string | null = null;
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  if (typeof value.toDate === 'function') return value.toDate();
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const loadPrivacy = async (uid: string) => {
+  const settings = (await Repositories.users.get(uid))?.settings;
+  return {
+    showOnlineStatus: settings?.showOnlineStatus !== false,
+    showLastSeen: settings?.showLastSeen !== false,
+  };
+};
+
+/**
+ * Write the presence document and mirror it onto the user document, which older
+ * readers still use. Privacy is applied here so hidden values never leave the device.
+ */
+const writePresence = async (uid: string, isOnline: boolean): Promise<void> => {
+  const privacy = await loadPrivacy(uid);
+  const visibleOnline = isOnline && privacy.showOnlineStatus;
+
+  // A last seen that moved with every heartbeat would give away a user who hides
+  // their online status, so theirs stays at when they last went offline
+  const lastSeenChange = !privacy.showLastSeen
+    ? { lastSeen: null }
+    : !isOnline || privacy.showOnlineStatus
+    ? { lastSeen: FieldValues.serverTimestamp() }
+    : {};
+
+  const presence: Partial<UserPresence> = {
+    uid,
+    isOnline: visibleOnline,
+    ...lastSeenChange,
+    currentDevice: Platform.OS,
+    // Client clock on purpose: readers compare it against their own clock
+    ttl: new Date(Date.now() + STALE_AFTER_MS),
+  };
+
+  const batch = Repositories.batch();
+  batch.set(Paths.presence(uid), presence, { merge: true });
+  batch.set(Paths.user(uid), { isOnline: visibleOnline, ...lastSeenChange }, { merge: true });
+  await batch.commit();
+};
+
+const stopHeartbeat = () => {
+  if (heartbeatTimer) clearInterval(heartbeatTimer);
+  heartbeatTimer = null;
+  heartbeatUid = null;
+};
+
+export const PresenceService = {
+  /**
+   * Presence is reciprocal: a viewer who hides their own online status or last seen
+   * doesn't get to see anyone else's either.
+   */
+  applyViewerPrivacy(
+    presence: PresenceState,
+    viewer: Pick<UserSettings, 'showOnlineStatus' | 'showLastSeen'>
+  ): PresenceState {
+    return {
+      isOnline: viewer.showOnlineStatus && presence.isOnline,
+      lastSeen: viewer.showLastSeen ? presence.lastSeen : null,
+    };
+  },
+
+  /**
+   * Mark the user online and keep the presence document fresh while the app is foregrounded
+   */
+  async goOnline(uid: string): Promise<void> {
+    try {
+      if (heartbeatUid !== uid) stopHeartbeat();
+      await writePresence(uid, true);
+
+      if (!heartbeatTimer) {
+        heartbeatUid = uid;
+        heartbeatTimer = setInterval(() => {
+          writePresence(uid, true).catch((error) =>
+            console.error('❌ Presence heartbeat failed:', error)
+          );
+        }, PRESENCE_HEARTBEAT_MS);
+      }
+    } catch (error) {
+      console.error('❌ Error going online:', error);
+    }
+  },
+
+  /**
+   * Stop the heartbeat and record last seen
+   */
+  async goOffline(uid: string): Promise<void> {
+    try {
+      stopHeartbeat();
+      await writePresence(uid, false);
+    } catch (error) {
+      console.error('❌ Error going offline:', error);
+    }
+  },
+
+  /**
+   * Subscribe to a user's presence. An online document whose heartbeat has lapsed is
+   * reported offline, so a killed app does not show as online forever.
+   */
+  subscribeToPresence(uid: string, onChange: (presence: PresenceState) => void): Unsubscribe {
+    let staleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = Repositories.presence.watch(
+      uid,
+      (data) => {
+        if (staleTimer) {
+          clearTimeout(staleTimer);
+          staleTimer = null;
+        }
+
+        if (!data) {
+          onChange({ isOnline: false, lastSeen: null });
+          return;
+        }
+
+        const lastSeen = toDate(data.lastSeen);
+        const expiresAt = toDate(data.ttl)?.getTime() ?? 0;
+        const remaining = expiresAt - Date.now();
+        const isOnline = data.isOnline && remaining > 0;
+        onChange({ isOnline, lastSeen });
+
+        if (isOnline) {
+          staleTimer = setTimeout(() => onChange({ isOnline: false, lastSeen }), remaining + 50);
+        }
+      },
+      (error) => {
+        console.error('❌ Error subscribing to presence:', error);
+        onChange({ isOnline: false, lastSeen: null });
+      }
+    );
+
+    return () => {
+      if (staleTimer) clearTimeout(staleTimer);
+      unsubscribe();
+    };
+  },
+};
@@ -0,0 +1,490 @@
+// services/repositories.ts
+// Typed access to users, chats, messages and friend requests. Everything goes
+// through the current DataStore, so tests can run the services against
+// createFakeDataStore() instead of Firestore.
+import {
+  ChatMessage,
+  FriendRequest,
+  TypingIndicator,
+  UserChatListItem,
+  UserFavorite,
+  UserPresence,
+  UserRelationship,
+} from '../types/models';
+import { StoredChat, StoredUser } from '../utils/legacySchema';
+import { Converters } from './converters';
+import {
+  DataStore,
+  DocumentData,
+  MAX_BATCH_WRITES,
+  StoredDoc,
+  Transaction,
+  WriteBatch,
+} from './dataStore';
+import { FirestoreDataStore } from './firestoreDataStore';
+
+type Unsubscribe = () => void;
+type OnError = (error: Error) => void;
+
+const USERS = 'users';
+const RELATIONSHIPS = 'relationships';
+const FRIENDS = 'friends';
+const CHAT_LIST = 'chatList';
+const CHATS = 'chats';
+const MESSAGES = 'messages';
+const REQUESTS = 'friendRequests';
+const TYPING = 'typing';
+const FAVORITES = 'favorites';
+const PRESENCE = 'presence';
+
+// Document paths, for writes that go into a batch
+export const Paths = {
+  user: (uid: string) => [USERS, uid],
+  relationship: (uid: string, otherId: string) => [USERS, uid, RELATIONSHIPS, otherId],
+  friend: (uid: string, friendId: string) => [USERS, uid, FRIENDS, friendId],
+  chatListEntry: (uid: string, chatId: string) => [USERS, uid, CHAT_LIST, chatId],
+  chat: (chatId: string) => [CHATS, chatId],
+  message: (chatId: string, messageId: string) => [CHATS, chatId, MESSAGES, messageId],
+  request: (requestId: string) => [REQUESTS, requestId],
+  typing: (chatId: string, uid: string) => [CHATS, chatId, TYPING, uid],
+  favorite: (uid: string, chatId: string) => [USERS, uid, FAVORITES, chatId],
+  presence: (uid: string) => [PRESENCE, uid],
+};
+
+// One write queued for Repositories.commitInChunks
+export type QueuedWrite = (batch: WriteBatch) => void;
+
+// A chat document as stored, possibly in the legacy format (see normalizeChat)
+export type ChatDocument = StoredChat & { id: string; participants: string[] };
+
+// A message document as ChatService writes it
+export interface MessageDocument {
+  id: string;
+  senderId: string;
+  receiverId?: string;
+  status?: ChatMessage['status'];
+  timestamp: any;
+  [key: string]: any;
+}
+
+// Where a page of messages ends: the timestamp of its oldest message
+export type MessageCursor = MessageDocument['timestamp'];
+
+// /users/{uid}/friends/{friendId}, written before relationships replaced it
+export interface FriendEntry {
+  friendId: string;
+  friendName: string;
+  friendPhoto: string;
+  addedAt: any;
+}
+
+export interface UserRepository {
+  get(uid: string): Promise<StoredUser | null>;
+  create(uid: string, user: DocumentData): Promise<void>;
+  update(uid: string, changes: DocumentData): Promise<void>;
+  list(limit: number): Promise<StoredUser[]>;
+  // Users whose nameLower or emailLower starts with prefix
+  searchByPrefix(
+    field: 'nameLower' | 'emailLower',
+    prefix: string,
+    limit: number
+  ): Promise<StoredUser[]>;
+  watch(uid: string, onChange: (user: StoredUser | null) => void, onError?: OnError): Unsubscribe;
+  watchAll(onChange: (users: StoredUser[]) => void, onError?: OnError): Unsubscribe;
+  getRelationship(uid: string, otherId: string): Promise<UserRelationship | null>;
+  listRelationships(uid: string, type: UserRelationship['type']): Promise<UserRelationship[]>;
+  setRelationship(uid: string, relationship: UserRelationship): Promise<void>;
+  deleteRelationship(uid: string, otherId: string): Promise<void>;
+  watchRelationship(
+    uid: string,
+    otherId: string,
+    onChange: (relationship: UserRelationship | null) => void,
+    onError?: OnError
+  ): Unsubscribe;
+  watchRelationships(
+    uid: string,
+    type: UserRelationship['type'],
+    onChange: (relationships: UserRelationship[]) => void,
+    onError?: OnError
+  ): Unsubscribe;
+  getFriendEntry(uid: string, friendId: string): Promise<FriendEntry | null>;
+  listFriendEntries(uid: string): Promise<FriendEntry[]>;
+}
+
+export interface ChatRepository {
+  // An id for a new group chat; direct chats are keyed by their two members
+  newId(): string;
+  get(chatId: string): Promise<ChatDocument | null>;
+  create(chatId: string, chat: DocumentData): Promise<void>;
+  update(chatId: string, changes: DocumentData): Promise<void>;
+  listForParticipant(uid: string): Promise<ChatDocument[]>;
+  watch(chatId: string, onChange: (chat: ChatDocument | null) => void, onError?: OnError): Unsubscribe;
+  watchForParticipant(
+    uid: string,
+    onChange: (chats: ChatDocument[]) => void,
+    onError?: OnError
+  ): Unsubscribe;
+}
+
+export interface MessageRepository {
+  newId(chatId: string): string;
+  get(chatId: string, messageId: string): Promise<MessageDocument | null>;
+  create(chatId: string, messageId: string, message: DocumentData): Promise<void>;
+  update(chatId: string, messageId: string, changes: DocumentData): Promise<void>;
+  delete(chatId: string, messageId: string): Promise<void>;
+  list(chatId: string): Promise<MessageDocument[]>;
+  // Newest first; with before, only messages sent before that cursor
+  listLatest(chatId: string, limit: number, before?: MessageCursor): Promise<MessageDocument[]>;
+  // Oldest first; with from, only messages sent at or after that cursor
+  watchFrom(
+    chatId: string,
+    from: MessageCursor | null,
+    onChange: (messages: MessageDocument[]) => void,
+    onError?: OnError
+  ): Unsubscribe;
+  // Sent or delivered to receiverId but not read yet
+  listUnread(chatId: string, receiverId: string): Promise<MessageDocument[]>;
+}
+
+// /users/{uid}/chatList, kept in step with /chats by ChatListService
+export interface ChatListRepository {
+  list(uid: string): Promise<UserChatListItem[]>;
+  update(uid: string, chatId: string, changes: DocumentData): Promise<void>;
+  listPinned(uid: string): Promise<UserChatListItem[]>;
+  // Most recently updated first
+  watchRecent(
+    uid: string,
+    limit: number,
+    onChange: (entries: UserChatListItem[]) => void,
+    onError?: OnError
+  ): Unsubscribe;
+}
+
+// /chats/{chatId}/typing/{uid}, one indicator per member typing
+export interface TypingRepository {
+  set(chatId: string, indicator: TypingIndicator): Promise<void>;
+  delete(chatId: string, uid: string): Promise<void>;
+  watch(
+    chatId: string,
+    onChange: (indicators: TypingIndicator[]) => void,
+    onError?: OnError
+  ): Unsubscribe;
+}
+
+// /users/{uid}/favorites/{chatId}
+export interface FavoriteRepository {
+  set(uid: string, favorite: UserFavorite): Promise<void>;
+  delete(uid: string, chatId: string): Promise<void>;
+  list(uid: string): Promise<UserFavorite[]>;
+  watch(uid: string, onChange: (favorites: UserFavorite[]) => void, onError?: OnError): Unsubscribe;
+}
+
+// /presence/{uid}; PresenceService writes it in a batch with the user document
+export interface PresenceRepository {
+  watch(
+    uid: string,
+    onChange: (presence: UserPresence | null) => void,
+    onError?: OnError
+  ): Unsubscribe;
+}
+
+export interface FriendRequestRepository {
+  get(requestId: string): Promise<FriendRequest | null>;
+  // Stores the request under a new id and returns it
+  create(request: Omit<FriendRequest, 'id'>): Promise<string>;
+  update(requestId: string, changes: DocumentData): Promise<void>;
+  delete(requestId: string): Promise<void>;
+  find(filter: {
+    senderId: string;
+    receiverId: string;
+    status: FriendRequest['status'][];
+  }): Promise<FriendRequest[]>;
+  // Every request between the two users, sent either way
+  listBetween(userA: string, userB: string): Promise<FriendRequest[]>;
+  watchPending(
+    role: 'senderId' | 'receiverId',
+    uid: string,
+    onChange: (requests: FriendRequest[]) => void,
+    onError?: OnError
+  ): Unsubscribe;
+}
+
+let store: DataStore = FirestoreDataStore;
+
+// Users are keyed by uid in their data; everything else carries the document id
+const dataOf = <T>(doc: StoredDoc<any> | null): T | null => (doc ? (doc.data as T) : null);
+const withId = <T>(doc: StoredDoc<any>): T => ({ ...doc.data, id: doc.id }) as T;
+const withIdOrNull = <T>(doc: StoredDoc<any> | null): T | null => (doc ? withId<T>(doc) : null);
+
+const users: UserRepository = {
+  get: async (uid) => dataOf<StoredUser>(await store.get(Paths.user(uid))),
+  create: (uid, user) => store.set(Paths.user(uid), user),
+  update: (uid, changes) => store.update(Paths.user(uid), changes),
+
+  list: async (limit) =>
+    (await store.query([USERS], { limit })).map((doc) => doc.data as StoredUser),
+
+  searchByPrefix: async (field, prefix, limit) =>
+    (
+      await store.query([USERS], {
+        orderBy: [[field]],
+        startAt: prefix.toLowerCase(),
+        endAt: prefix.toLowerCase() + '\uf8ff',
+        limit,
+      })
+    ).map((doc) => doc.data as StoredUser),
+
+  watch: (uid, onChange, onError) =>
+    store.watchDoc(Paths.user(uid), (doc) => onChange(dataOf<StoredUser>(doc)), onError),
+
+  watchAll: (onChange, onError) =>
+    store.watchQuery(
+      [USERS],
+      {},
+      (docs) => onChange(docs.map((doc) => doc.data as StoredUser)),
+      onError
+    ),
+
+  getRelationship: async (uid, otherId) =>
+    withIdOrNull<UserRelationship>(await store.get(Paths.relationship(uid, otherId))),
+
+  listRelationships: async (uid, type) =>
+    (await store.query([USERS, uid, RELATIONSHIPS], { where: [['type', '==', type]] })).map((doc) =>
+      withId<UserRelationship>(doc)
+    ),
+
+  setRelationship: (uid, relationship) =>
+    store.set(Paths.relationship(uid, relationship.id), relationship),
+  deleteRelationship: (uid, otherId) => store.delete(Paths.relationship(uid, otherId)),
+
+  watchRelationship: (uid, otherId, onChange, onError) =>
+    store.watchDoc(
+      Paths.relationship(uid, otherId),
+      (doc) => onChange(withIdOrNull<UserRelationship>(doc)),
+      onError
+    ),
+
+  watchRelationships: (uid, type, onChange, onError) =>
+    store.watchQuery(
+      [USERS, uid, RELATIONSHIPS],
+      { where: [['type', '==', type]] },
+      (docs) => onChange(docs.map((doc) => withId<UserRelationship>(doc))),
+      onError
+    ),
+
+  getFriendEntry: async (uid, friendId) =>
+    dataOf<FriendEntry>(await store.get(Paths.friend(uid, friendId))),
+
+  listFriendEntries: async (uid) =>
+    (await store.query([USERS, uid, FRIENDS])).map((doc) => doc.data as FriendEntry),
+};
+
+const chats: ChatRepository = {
+  newId: () => store.newId([CHATS]),
+  get: async (chatId) => withIdOrNull<ChatDocument>(await store.get(Paths.chat(chatId))),
+  create: (chatId, chat) => store.set(Paths.chat(chatId), chat),
+  update: (chatId, changes) => store.update(Paths.chat(chatId), changes),
+
+  listForParticipant: async (uid) =>
+    (await store.query([CHATS], { where: [['participants', 'array-contains', uid]] })).map((doc) =>
+      withId<ChatDocument>(doc)
+    ),
+
+  watch: (chatId, onChange, onError) =>
+    store.watchDoc(Paths.chat(chatId), (doc) => onChange(withIdOrNull<ChatDocument>(doc)), onError),
+
+  watchForParticipant: (uid, onChange, onError) =>
+    store.watchQuery(
+      [CHATS],
+      { where: [['participants', 'array-contains', uid]] },
+      (docs) => onChange(docs.map((doc) => withId<ChatDocument>(doc))),
+      onError
+    ),
+};
+
+const messages: MessageRepository = {
+  newId: (chatId) => store.newId([CHATS, chatId, MESSAGES]),
+  get: async (chatId, messageId) =>
+    withIdOrNull<MessageDocument>(await store.get(Paths.message(chatId, messageId))),
+  create: (chatId, messageId, message) => store.set(Paths.message(chatId, messageId), message),
+  update: (chatId, messageId, changes) => store.update(Paths.message(chatId, messageId), changes),
+  delete: (chatId, messageId) => store.delete(Paths.message(chatId, messageId)),
+
+  list: async (chatId) =>
+    (await store.query([CHATS, chatId, MESSAGES])).map((doc) => withId<MessageDocument>(doc)),
+
+  listLatest: async (chatId, limit, before) =>
+    (
+      await store.query([CHATS, chatId, MESSAGES], {
+        orderBy: [['timestamp', 'desc']],
+        ...(before !== undefined ? { startAfter: before } : {}),
+        limit,
+      })
+    ).map((doc) => withId<MessageDocument>(doc)),
+
+  watchFrom: (chatId, from, onChange, onError) =>
+    store.watchQuery(
+      [CHATS, chatId, MESSAGES],
+      { orderBy: [['timestamp', 'asc']], ...(from != null ? { startAt: from } : {}) },
+      (docs) => onChange(docs.map((doc) => withId<MessageDocument>(doc))),
+      onError
+    ),
+
+  listUnread: async (chatId, receiverId) =>
+    (
+      await store.query([CHATS, chatId, MESSAGES], {
+        where: [
+          ['receiverId', '==', receiverId],
+          ['status', 'in', ['sent', 'delivered']],
+        ],
+      })
+    ).map((doc) => withId<MessageDocument>(doc)),
+};
+
+const toChatListItem = (doc: StoredDoc): UserChatListItem =>
+  Converters.chatListItem.fromFirestore(doc.id, doc.data);
+
+const chatLists: ChatListRepository = {
+  list: async (uid) => (await store.query([USERS, uid, CHAT_LIST])).map(toChatListItem),
+  update: (uid, chatId, changes) => store.update(Paths.chatListEntry(uid, chatId), changes),
+
+  listPinned: async (uid) =>
+    (await store.query([USERS, uid, CHAT_LIST], { where: [['isPinned', '==', true]] })).map(
+      toChatListItem
+    ),
+
+  watchRecent: (uid, limit, onChange, onError) =>
+    store.watchQuery(
+      [USERS, uid, CHAT_LIST],
+      { orderBy: [['updatedAt', 'desc']], limit },
+      (docs) => onChange(docs.map(toChatListItem)),
+      onError
+    ),
+};
+
+const typing: TypingRepository = {
+  set: (chatId, indicator) => store.set(Paths.typing(chatId, indicator.userId), indicator),
+  delete: (chatId, uid) => store.delete(Paths.typing(chatId, uid)),
+
+  watch: (chatId, onChange, onError) =>
+    store.watchQuery(
+      [CHATS, chatId, TYPING],
+      {},
+      (docs) => onChange(docs.map((doc) => doc.data as TypingIndicator)),
+      onError
+    ),
+};
+
+const favorites: FavoriteRepository = {
+  set: (uid, favorite) => store.set(Paths.favorite(uid, favorite.chatId), favorite),
+  delete: (uid, chatId) => store.delete(Paths.favorite(uid, chatId)),
+
+  list: async (uid) =>
+    (await store.query([USERS, uid, FAVORITES])).map((doc) => doc.data as UserFavorite),
+
+  watch: (uid, onChange, onError) =>
+    store.watchQuery(
+      [USERS, uid, FAVORITES],
+      {},
+      (docs) => onChange(docs.map((doc) => doc.data as UserFavorite)),
+      onError
+    ),
+};
+
+const presence: PresenceRepository = {
+  watch: (uid, onChange, onError) =>
+    store.watchDoc(Paths.presence(uid), (doc) => onChange(dataOf<UserPresence>(doc)), onError),
+};
+
+const toRequest = (doc: StoredDoc): FriendRequest =>
+  Converters.friendRequest.fromFirestore(doc.id, doc.data);
+
+const friendRequests: FriendRequestRepository = {
+  async get(requestId) {
+    const doc = await store.get(Paths.request(requestId));
+    return doc ? toRequest(doc) : null;
+  },
+
+  async create(request) {
+    const id = store.newId([REQUESTS]);
+    await store.set(Paths.request(id), { ...Converters.friendRequest.toFirestore(request), id });
+    return id;
+  },
+
+  update: (requestId, changes) =>
+    store.update(
+      Paths.request(requestId),
+      Converters.friendRequest.toFirestore(changes, { merge: true })
+    ),
+  delete: (requestId) => store.delete(Paths.request(requestId)),
+
+  find: async ({ senderId, receiverId, status }) =>
+    (
+      await store.query([REQUESTS], {
+        where: [
+          ['senderId', '==', senderId],
+          ['receiverId', '==', receiverId],
+          ['status', 'in', status],
+        ],
+      })
+    ).map(toRequest),
+
+  listBetween: async (userA, userB) =>
+    (
+      await store.query([REQUESTS], {
+        where: [['senderReceiver', 'in', [`${userA}_${userB}`, `${userB}_${userA}`]]],
+      })
+    ).map(toRequest),
+
+  watchPending: (role, uid, onChange, onError) =>
+    store.watchQuery(
+      [REQUESTS],
+      {
+        where: [
+          [role, '==', uid],
+          ['status', '==', 'pending'],
+        ],
+        orderBy: [['timestamp', 'desc']],
+      },
+      (docs) => onChange(docs.map(toRequest)),
+      onError
+    ),
+};
+
+export const Repositories = {
+  // Firestore by default; tests pass createFakeDataStore()
+  setStore(next: DataStore): void {
+    store = next;
+  },
+
+  // For writes that have to land together
+  batch(): WriteBatch {
+    return store.batch();
+  },
+
+  /**
+   * For more writes than one batch takes: MAX_BATCH_WRITES per batch, committed
+   * in order, so whatever is queued last lands last (and only if the rest did)
+   */
+  async commitInChunks(writes: QueuedWrite[]): Promise<void> {
+    for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+      const batch = Repositories.batch();
+      writes.slice(start, start + MAX_BATCH_WRITES).forEach((write) => write(batch));
+      await batch.commit();
+    }
+  },
+
+  // For writes that depend on what they read
+  runTransaction<R>(run: (transaction: Transaction) => Promise<R>): Promise<R> {
+    return store.runTransaction(run);
+  },
+
+  users,
+  chats,
+  messages,
+  chatLists,
+  typing,
+  favorites,
+  presence,
+  friendRequests,
+};
@@ -0,0 +1,124 @@
+// services/schemaMigration.ts
+import { UserRelationship } from '../types/models';
+import { isLegacyChat, normalizeChat, normalizeUser } from '../utils/legacySchema';
+import { DocumentData, FieldValues } from './dataStore';
+import { ChatDocument, Paths, QueuedWrite, Repositories } from './repositories';
+
+// Bump to make every user migrate their documents again on next launch
+export const SCHEMA_VERSION = 2;
+
+let running: Promise<number> | null = null;
+
+// Chat fields normalizeChat filled in; unread counts already in participantData are left alone
+const chatChanges = (chat: ChatDocument): DocumentData => {
+  const normalized = normalizeChat(chat.id, chat);
+  const changes: DocumentData = {
+    type: normalized.type,
+    participantCount: normalized.participantCount,
+    unreadCount: FieldValues.delete(),
+  };
+  normalized.participants.forEach((uid) => {
+    if (chat.participantData?.[uid]?.unreadCount === undefined) {
+      changes[`participantData.${uid}.unreadCount`] = normalized.participantData[uid].unreadCount;
+    }
+  });
+  if (chat.lastMessage && typeof chat.lastMessage === 'object') {
+    changes.lastMessage = normalized.lastMessage ?? '';
+    changes.lastMessageTime = normalized.lastMessageTime ?? null;
+    changes.lastMessageSender = normalized.lastMessageSender ?? '';
+  }
+  return changes;
+};
+
+const migrate = async (uid: string): Promise<number> => {
+  const data = await Repositories.users.get(uid);
+  if (!data) return 0;
+
+  const [friends, blocked, entries, chats] = await Promise.all([
+    Repositories.users.listRelationships(uid, 'friend'),
+    Repositories.users.listRelationships(uid, 'blocked'),
+    Repositories.users.listFriendEntries(uid),
+    Repositories.chats.listForParticipant(uid),
+  ]);
+
+  const writes: QueuedWrite[] = [];
+
+  // Friends from the legacy array and /friends entries become relationships,
+  // unless the user already has one with them (a block included)
+  const known = new Set([...friends, ...blocked].map((relationship) => relationship.id));
+  const addedAt = new Map(entries.map((entry) => [entry.friendId, entry.addedAt]));
+  const legacyIds = Array.from(
+    new Set([...(data.friends || []), ...entries.map((entry) => entry.friendId)])
+  ).filter((id) => id !== uid && !known.has(id));
+  const profiles = await Promise.all(legacyIds.map((id) => Repositories.users.get(id)));
+
+  legacyIds.forEach((friendId, index) => {
+    const profile = profiles[index];
+    const relationship: UserRelationship = {
+      id: friendId,
+      type: 'friend',
+      createdAt: addedAt.get(friendId) ?? FieldValues.serverTimestamp(),
+      name: profile?.name || '',
+      photo: profile?.photo || '',
+      isOnline: !!profile?.isOnline,
+      lastSeen: profile?.lastSeen ?? null,
+    };
+    writes.push((batch) => batch.set(Paths.relationship(uid, friendId), relationship));
+  });
+  entries.forEach((entry) => {
+    writes.push((batch) => batch.delete(Paths.friend(uid, entry.friendId)));
+  });
+
+  chats.filter(isLegacyChat).forEach((chat) => {
+    writes.push((batch) => batch.update(Paths.chat(chat.id), chatChanges(chat)));
+  });
+
+  // Last, so a migration cut short part way is picked up again on the next launch
+  const user = normalizeUser(data);
+  const userChanges = {
+    designation: user.designation,
+    settings: user.settings,
+    friendsCount: friends.length + legacyIds.length,
+    chatsCount: chats.length,
+    nameLower: user.name.toLowerCase(),
+    emailLower: user.email.toLowerCase(),
+    friends: FieldValues.delete(),
+    schemaVersion: SCHEMA_VERSION,
+  };
+  writes.push((batch) => batch.update(Paths.user(uid), userChanges));
+
+  await Repositories.commitInChunks(writes);
+  const written = writes.length;
+  console.log(`✅ Schema migrated for ${uid}: ${written} documents rewritten`);
+  return written;
+};
+
+export const SchemaMigration = {
+  /**
+   * Rewrite a user's own documents into the types/models format: legacy friends
+   * become relationships, counts, settings and search fields are filled in, and
+   * their chats move unread counts into participantData. Skipped once the user
+   * doc records SCHEMA_VERSION; pass force to run anyway. Resolves to the number
+   * of documents rewritten.
+   */
+  async run(uid: string, options: { force?: boolean } = {}): Promise<number> {
+    if (running) return running;
+
+    running = (async () => {
+      try {
+        if (!options.force) {
+          const version = (await Repositories.users.get(uid))?.schemaVersion || 0;
+          if (version >= SCHEMA_VERSION) return 0;
+        }
+        return await migrate(uid);
+      } catch (error) {
+        console.error('❌ Schema migration failed:', error);
+        return 0;
+      } finally {
+        running = null;
+      }
+    })();
+
+    return running;
+  },
+};
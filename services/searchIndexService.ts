@@ -0,0 +1,224 @@
+// services/searchIndexService.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = 'search_index';
+
+// Newest messages kept per chat; older ones fall out of the index
+const MAX_MESSAGES_PER_CHAT = 1000;
+const MAX_RESULTS = 50;
+const PERSIST_DELAY_MS = 1000;
+
+export interface IndexedMessage {
+  id: string;
+  chatId: string;
+  text: string;
+  senderId: string;
+  timestamp: number;
+}
+
+type ChatEntries = Record<string, IndexedMessage>;
+
+let entries: Record<string, ChatEntries> = {};
+// token -> `${chatId}/${messageId}` keys; rebuilt from entries on load, never persisted
+let tokenIndex = new Map<string, Set<string>>();
+let loadPromise: Promise<void> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+const keyOf = (chatId: string, messageId: string) => `${chatId}/${messageId}`;
+
+const toMillis = (value: any): number => {
+  if (!value) return 0;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (typeof value.toDate === 'function') return value.toDate().getTime();
+  const time = new Date(value).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+/**
+ * Lowercase, strip accents and split on anything that isn't a letter or digit
+ */
+export const tokenize = (text: string): string[] => {
+  const normalized = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+  const tokens = normalized.split(/[\s.,!?;:"'()[\]{}<>/\\|@#$%^&*+=~`_-]+/).filter(Boolean);
+  return Array.from(new Set(tokens));
+};
+
+/**
+ * Same matching rule as the index: every query token prefixes some word of the text
+ */
+export const matchesTokens = (text: string, queryTokens: string[]): boolean => {
+  if (queryTokens.length === 0) return false;
+  const words = tokenize(text);
+  return queryTokens.every((q) => words.some((word) => word.startsWith(q)));
+};
+
+const addToIndex = (entry: IndexedMessage) => {
+  const key = keyOf(entry.chatId, entry.id);
+  tokenize(entry.text).forEach((token) => {
+    let keys = tokenIndex.get(token);
+    if (!keys) {
+      keys = new Set();
+      tokenIndex.set(token, keys);
+    }
+    keys.add(key);
+  });
+};
+
+const removeFromIndex = (entry: IndexedMessage) => {
+  const key = keyOf(entry.chatId, entry.id);
+  tokenize(entry.text).forEach((token) => {
+    const keys = tokenIndex.get(token);
+    if (!keys) return;
+    keys.delete(key);
+    if (keys.size === 0) tokenIndex.delete(token);
+  });
+};
+
+const load = (): Promise<void> => {
+  if (!loadPromise) {
+    loadPromise = AsyncStorage.getItem(STORAGE_KEY)
+      .then((raw) => {
+        entries = raw ? JSON.parse(raw) : {};
+        tokenIndex = new Map();
+        Object.values(entries).forEach((chat) => Object.values(chat).forEach(addToIndex));
+      })
+      .catch((error) => {
+        console.error('❌ Error loading search index:', error);
+      });
+  }
+  return loadPromise;
+};
+
+// Snapshots arrive in bursts, so writes are coalesced
+const schedulePersist = () => {
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = setTimeout(async () => {
+    persistTimer = null;
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+      console.error('❌ Error saving search index:', error);
+    }
+  }, PERSIST_DELAY_MS);
+};
+
+// Accepts both the Firestore message shape and the shape ChatRoom renders
+const toIndexedMessage = (chatId: string, message: any): IndexedMessage | null => {
+  if (!message?.id || message.type === 'system' || message.isSystem) return null;
+  const text = message.content?.text || message.message || message.text || '';
+  if (!text.trim()) return null;
+  return {
+    id: message.id,
+    chatId,
+    text,
+    senderId: message.senderId || '',
+    timestamp: toMillis(message.timestamp),
+  };
+};
+
+export const SearchIndexService = {
+  /**
+   * Index a contiguous slice of a chat's history (oldest to newest, as loaded on
+   * screen). Indexed messages inside the slice's time range that are missing from
+   * it have been deleted and are dropped.
+   */
+  async indexChatMessages(chatId: string, messages: any[]): Promise<void> {
+    await load();
+
+    const incoming = messages
+      .map((m) => toIndexedMessage(chatId, m))
+      .filter((m): m is IndexedMessage => !!m);
+    const incomingIds = new Set(messages.map((m) => m?.id));
+    const since = incoming.reduce(
+      (min, m) => Math.min(min, m.timestamp),
+      Number.POSITIVE_INFINITY
+    );
+
+    const chat: ChatEntries = { ...(entries[chatId] || {}) };
+
+    Object.values(chat).forEach((existing) => {
+      if (existing.timestamp >= since && !incomingIds.has(existing.id)) {
+        removeFromIndex(existing);
+        delete chat[existing.id];
+      }
+    });
+
+    incoming.forEach((entry) => {
+      const existing = chat[entry.id];
+      if (existing) {
+        if (existing.text === entry.text) return;
+        removeFromIndex(existing);
+      }
+      chat[entry.id] = entry;
+      addToIndex(entry);
+    });
+
+    const all = Object.values(chat);
+    if (all.length > MAX_MESSAGES_PER_CHAT) {
+      all
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(MAX_MESSAGES_PER_CHAT)
+        .forEach((stale) => {
+          removeFromIndex(stale);
+          delete chat[stale.id];
+        });
+    }
+
+    entries = { ...entries, [chatId]: chat };
+    schedulePersist();
+  },
+
+  /**
+   * Find messages containing every word of the query (prefix match per word),
+   * newest first. Pass chatId to search a single chat.
+   */
+  async search(
+    queryText: string,
+    options: { chatId?: string; limit?: number } = {}
+  ): Promise<IndexedMessage[]> {
+    await load();
+
+    const queryTokens = tokenize(queryText);
+    if (queryTokens.length === 0) return [];
+
+    let matches: string[] | null = null;
+    for (const queryToken of queryTokens) {
+      const tokenMatches = new Set<string>();
+      tokenIndex.forEach((keys, token) => {
+        if (token.startsWith(queryToken)) keys.forEach((key) => tokenMatches.add(key));
+      });
+      matches = matches
+        ? matches.filter((key) => tokenMatches.has(key))
+        : Array.from(tokenMatches);
+      if (matches.length === 0) return [];
+    }
+
+    return (matches || [])
+      .map((key) => {
+        const [chatId, messageId] = key.split('/');
+        return entries[chatId]?.[messageId];
+      })
+      .filter((m): m is IndexedMessage => !!m && (!options.chatId || m.chatId === options.chatId))
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, options.limit ?? MAX_RESULTS);
+  },
+
+  /**
+   * Forget everything (used on logout)
+   */
+  async clear(): Promise<void> {
+    if (persistTimer) clearTimeout(persistTimer);
+    persistTimer = null;
+    entries = {};
+    tokenIndex = new Map();
+    loadPromise = Promise.resolve();
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.error('❌ Error clearing search index:', error);
+    }
+  },
+};
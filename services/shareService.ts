@@ -0,0 +1,106 @@
+// services/shareService.ts
+import type { ShareIntent } from 'expo-share-intent';
+import { ChatService, ForwardableMessage } from './chatService';
+import { UploadService } from './uploadService';
+
+export type SharedItemKind = 'text' | 'url' | 'image' | 'video' | 'audio' | 'file';
+
+/**
+ * One thing to send: text or a link, or a local file (camera capture or content
+ * shared in from another app)
+ */
+export interface SharedItem {
+  kind: SharedItemKind;
+  text?: string; // text and url
+  uri?: string; // everything else
+  fileName?: string;
+  mimeType?: string;
+  size?: number | null;
+}
+
+type UploadKind = 'image' | 'video' | 'audio' | 'file';
+
+const isTextKind = (item: SharedItem) => item.kind === 'text' || item.kind === 'url';
+
+const kindFromMime = (mimeType: string | undefined): UploadKind => {
+  if (mimeType?.startsWith('image/')) return 'image';
+  if (mimeType?.startsWith('video/')) return 'video';
+  if (mimeType?.startsWith('audio/')) return 'audio';
+  return 'file';
+};
+
+const defaultFileName = (kind: UploadKind) => {
+  const ext = { image: 'jpg', video: 'mp4', audio: 'm4a', file: 'bin' }[kind];
+  return `${kind}_${Date.now()}.${ext}`;
+};
+
+export const ShareService = {
+  /**
+   * Flatten what another app shared into items. A shared link often arrives as both
+   * the URL and the same text, so the duplicate text is dropped.
+   */
+  fromShareIntent(intent: ShareIntent): SharedItem[] {
+    const items: SharedItem[] = [];
+    const webUrl = intent.webUrl?.trim();
+    const text = intent.text?.trim();
+
+    if (webUrl) items.push({ kind: 'url', text: webUrl });
+    if (text && text !== webUrl) items.push({ kind: 'text', text });
+
+    (intent.files || []).forEach((file) => {
+      items.push({
+        kind: kindFromMime(file.mimeType),
+        uri: file.path,
+        fileName: file.fileName,
+        mimeType: file.mimeType,
+        size: file.size,
+      });
+    });
+
+    return items;
+  },
+
+  /**
+   * Upload every file first, then send to each recipient in order. Without files,
+   * the caption and any text go out as one message; with files, text goes first and
+   * the caption rides on the first file.
+   */
+  async send(
+    items: SharedItem[],
+    recipientIds: string[],
+    senderId: string,
+    caption?: string
+  ): Promise<void> {
+    const texts = items.filter(isTextKind).map((item) => item.text || '');
+    const files = items.filter((item) => !isTextKind(item) && item.uri);
+    const messages: ForwardableMessage[] = [];
+
+    if (files.length === 0) {
+      const text = [caption, ...texts].filter(Boolean).join('\n');
+      if (text) messages.push({ id: 'share_text', text });
+    } else {
+      if (texts.length > 0) messages.push({ id: 'share_text', text: texts.join('\n') });
+
+      for (const [index, item] of files.entries()) {
+        const kind = item.kind as UploadKind;
+        const mediaUrl = await UploadService.upload(item.uri!, kind, {
+          mimeType: item.mimeType,
+          fileName: item.fileName,
+        });
+        messages.push({
+          id: `share_${index}`,
+          text: index === 0 ? caption || '' : '',
+          mediaUrl,
+          mediaType: kind,
+          fileName: item.fileName || defaultFileName(kind),
+          ...(item.size ? { fileSize: item.size } : {}),
+        });
+      }
+    }
+
+    for (const message of messages) {
+      await ChatService.forwardMessage(message, recipientIds, senderId, { forwarded: false });
+    }
+    console.log(`✅ Shared ${messages.length} message(s) with ${recipientIds.length} friend(s)`);
+  },
+};
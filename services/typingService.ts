@@ -0,0 +1,112 @@
+// services/typingService.ts
+import { TypingIndicator } from '../types/models';
+import { FieldValues } from './dataStore';
+import { Repositories } from './repositories';
+
+// An indicator nobody refreshes within this window is treated as gone
+export const TYPING_TTL_MS = 10000;
+// Minimum gap between writes while the user keeps typing
+const TYPING_THROTTLE_MS = 3000;
+
+type Unsubscribe = () => void;
+
+const lastWriteAt = new Map<string, number>();
+
+const toMillis = (value: any): number => {
+  if (!value) return 0;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (typeof value.toDate === 'function') return value.toDate().getTime();
+  return new Date(value).getTime();
+};
+
+const isActive = (indicator: TypingIndicator, now: number): boolean =>
+  toMillis(indicator.ttl) > now;
+
+export const TypingService = {
+  /**
+   * Announce that a user is typing. Throttled, so it is safe to call on every keystroke.
+   */
+  async setTyping(chatId: string, userId: string, userName: string): Promise<void> {
+    const key = `${chatId}_${userId}`;
+    const now = Date.now();
+    if (now - (lastWriteAt.get(key) || 0) < TYPING_THROTTLE_MS) return;
+    lastWriteAt.set(key, now);
+
+    try {
+      const indicator: TypingIndicator = {
+        userId,
+        userName,
+        timestamp: FieldValues.serverTimestamp(),
+        // Client clock on purpose: readers compare it against their own clock
+        ttl: new Date(now + TYPING_TTL_MS),
+      };
+      await Repositories.typing.set(chatId, indicator);
+    } catch (error) {
+      lastWriteAt.delete(key);
+      console.error('❌ Error setting typing indicator:', error);
+    }
+  },
+
+  /**
+   * Remove a user's typing indicator (message sent, input cleared, screen left)
+   */
+  async clearTyping(chatId: string, userId: string): Promise<void> {
+    const key = `${chatId}_${userId}`;
+    if (!lastWriteAt.has(key)) return;
+    lastWriteAt.delete(key);
+
+    try {
+      await Repositories.typing.delete(chatId, userId);
+    } catch (error) {
+      console.error('❌ Error clearing typing indicator:', error);
+    }
+  },
+
+  /**
+   * Subscribe to who else is typing in a chat. Expired indicators are dropped on the
+   * client, including ones left behind by an app that crashed mid-typing.
+   */
+  subscribeToTyping(
+    chatId: string,
+    currentUserId: string,
+    onChange: (typing: TypingIndicator[]) => void
+  ): Unsubscribe {
+    let indicators: TypingIndicator[] = [];
+    let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const emit = () => {
+      if (expiryTimer) {
+        clearTimeout(expiryTimer);
+        expiryTimer = null;
+      }
+
+      const now = Date.now();
+      const active = indicators.filter((i) => isActive(i, now));
+      onChange(active);
+
+      // Re-check when the next indicator runs out, since no snapshot fires for that
+      if (active.length > 0) {
+        const nextExpiry = Math.min(...active.map((i) => toMillis(i.ttl)));
+        expiryTimer = setTimeout(emit, Math.max(0, nextExpiry - now) + 50);
+      }
+    };
+
+    const unsubscribe = Repositories.typing.watch(
+      chatId,
+      (all) => {
+        indicators = all.filter((i) => i.userId !== currentUserId);
+        emit();
+      },
+      (error) => {
+        console.error('❌ Error subscribing to typing indicators:', error);
+        indicators = [];
+        emit();
+      }
+    );
+
+    return () => {
+      if (expiryTimer) clearTimeout(expiryTimer);
+      unsubscribe();
+    };
+  },
+};
@@ -0,0 +1,211 @@
+// services/uploadService.ts
+import * as FileSystem from 'expo-file-system';
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import { Image } from 'react-native';
+import { formatFileSize, mimeTypeFromName } from '../utils/fileAttachments';
+import { CloudinaryUploadBackend } from './cloudinary';
+
+export type UploadType = 'image' | 'video' | 'audio' | 'file';
+
+// What the backend receives once the file has been prepared
+export interface UploadFile {
+  uri: string;
+  type: UploadType;
+  mimeType: string;
+  fileName: string;
+  size: number | null;
+}
+
+/**
+ * Where files go. Cloudinary in the app; tests swap in a fake or a local server.
+ * The backend reports progress as a fraction and must stop when the signal aborts.
+ */
+export interface UploadBackend {
+  limits: Record<UploadType, number>; // Max bytes per type
+  upload(
+    file: UploadFile,
+    handlers: { onProgress: (fraction: number) => void; signal: AbortSignal }
+  ): Promise<string>;
+}
+
+export interface UploadOptions {
+  id?: string; // Progress and cancel are keyed by this; queued sends use the message id
+  mimeType?: string;
+  fileName?: string;
+  maxDimension?: number; // Long edge for images, defaults to IMAGE_MAX_DIMENSION
+  onProgress?: (fraction: number) => void;
+}
+
+type Unsubscribe = () => void;
+
+// Photos are downscaled and re-encoded before upload; GIFs are left alone so they keep animating
+const IMAGE_MAX_DIMENSION = 1600;
+const IMAGE_QUALITY = 0.7;
+export const AVATAR_MAX_DIMENSION = 512;
+
+// Passed to the pickers so long recordings are stopped before they get too big to send
+export const MAX_VIDEO_DURATION_SECONDS = 180;
+
+const DEFAULT_NAMES: Record<UploadType, string> = {
+  image: 'upload.jpg',
+  video: 'upload.mp4',
+  audio: 'upload.m4a',
+  file: 'upload.bin',
+};
+
+const CANCELLED_MESSAGE = 'Upload cancelled';
+
+let backend: UploadBackend = CloudinaryUploadBackend;
+const controllers = new Map<string, AbortController>();
+let progress: Record<string, number> = {};
+const listeners = new Set<(progress: Record<string, number>) => void>();
+
+const setProgress = (id: string, fraction: number | null) => {
+  const next = { ...progress };
+  if (fraction === null) delete next[id];
+  else next[id] = Math.max(0, Math.min(1, fraction));
+  progress = next;
+  listeners.forEach((listener) => listener(progress));
+};
+
+const localFileSize = async (uri: string): Promise<number | null> => {
+  try {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists ? info.size : null;
+  } catch {
+    return null;
+  }
+};
+
+const getImageSize = (uri: string) =>
+  new Promise<{ width: number; height: number }>((resolve, reject) =>
+    Image.getSize(uri, (width, height) => resolve({ width, height }), reject)
+  );
+
+const compressImage = async (uri: string, maxDimension: number): Promise<string> => {
+  const { width, height } = await getImageSize(uri);
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const actions =
+    scale < 1
+      ? [{ resize: { width: Math.round(width * scale), height: Math.round(height * scale) } }]
+      : [];
+  const result = await manipulateAsync(uri, actions, {
+    compress: IMAGE_QUALITY,
+    format: SaveFormat.JPEG,
+  });
+  return result.uri;
+};
+
+// Compress what can be compressed, then make sure the result fits the backend
+const prepare = async (
+  uri: string,
+  type: UploadType,
+  options: UploadOptions
+): Promise<UploadFile> => {
+  let fileUri = uri;
+  let mimeType =
+    options.mimeType || (type === 'file' ? mimeTypeFromName(options.fileName) : '');
+  const fileName = options.fileName || DEFAULT_NAMES[type];
+
+  if (type === 'image' && mimeType !== 'image/gif' && !/\.gif$/i.test(fileName)) {
+    try {
+      fileUri = await compressImage(uri, options.maxDimension || IMAGE_MAX_DIMENSION);
+      mimeType = 'image/jpeg';
+    } catch (error) {
+      console.error('❌ Image compression failed, uploading original:', error);
+    }
+  }
+
+  const size = await localFileSize(fileUri);
+  if (UploadService.exceedsLimit(type, size)) {
+    throw new Error(`File is larger than ${formatFileSize(backend.limits[type])}`);
+  }
+
+  return {
+    uri: fileUri,
+    type,
+    mimeType: mimeType || mimeTypeFromName(fileName),
+    fileName,
+    size,
+  };
+};
+
+export const UploadService = {
+  /**
+   * Swap the storage backend (tests, local mock server)
+   */
+  setBackend(next: UploadBackend): void {
+    backend = next;
+  },
+
+  exceedsLimit(type: UploadType, size?: number | null): boolean {
+    return !!size && size > backend.limits[type];
+  },
+
+  limitFor(type: UploadType): number {
+    return backend.limits[type];
+  },
+
+  /**
+   * Prepare and upload a local file, returning its public URL. Progress is published
+   * under options.id for as long as the upload runs.
+   */
+  async upload(uri: string, type: UploadType, options: UploadOptions = {}): Promise<string> {
+    const id = options.id || `upload_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    setProgress(id, 0);
+
+    try {
+      const file = await prepare(uri, type, options);
+      if (controller.signal.aborted) throw new Error(CANCELLED_MESSAGE);
+
+      console.log('📤 Uploading:', { id, type, size: file.size });
+      const url = await backend.upload(file, {
+        signal: controller.signal,
+        onProgress: (fraction) => {
+          setProgress(id, fraction);
+          options.onProgress?.(fraction);
+        },
+      });
+      console.log('✅ Upload complete:', url);
+      return url;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('🛑 Upload cancelled:', id);
+        throw new Error(CANCELLED_MESSAGE);
+      }
+      console.error('❌ Upload failed:', error);
+      throw error;
+    } finally {
+      controllers.delete(id);
+      setProgress(id, null);
+    }
+  },
+
+  /**
+   * Stop an upload that is preparing or in flight; upload() rejects with a
+   * cancellation error (see isCancelled)
+   */
+  cancel(id: string): boolean {
+    const controller = controllers.get(id);
+    if (!controller) return false;
+    controller.abort();
+    return true;
+  },
+
+  isCancelled(error: unknown): boolean {
+    return error instanceof Error && error.message === CANCELLED_MESSAGE;
+  },
+
+  /**
+   * Progress (0–1) of every running upload, keyed by upload id
+   */
+  subscribe(onChange: (progress: Record<string, number>) => void): Unsubscribe {
+    listeners.add(onChange);
+    onChange(progress);
+    return () => {
+      listeners.delete(onChange);
+    };
+  },
+};
@@ -0,0 +1,246 @@
+// services/userService.ts
+import { User, UserSettings } from '../types/models';
+import { DEFAULT_USER_SETTINGS, StoredUser, withDefaultSettings } from '../utils/legacySchema';
+import { ChatListService } from './chatListService';
+import { Converters } from './converters';
+import { FieldValues } from './dataStore';
+import { PresenceService } from './presenceService';
+import { Repositories } from './repositories';
+import { SCHEMA_VERSION } from './schemaMigration';
+
+type Unsubscribe = () => void;
+
+const toUser = (data: StoredUser): User => Converters.user.fromFirestore(data.uid, data);
+
+const toUserOrNull = (data: StoredUser | null): User | null => (data ? toUser(data) : null);
+
+/**
+ * Profiles, search and privacy settings for /users/{uid}. Reads go through
+ * Converters.user, so documents in the legacy format come back complete.
+ * Friendships live in FriendService.
+ */
+export const UserService = {
+  async createOrUpdateUser(user: {
+    uid: string;
+    name: string;
+    email: string;
+    photoURL?: string;
+    displayName?: string;
+  }): Promise<User> {
+    try {
+      const { uid, name, email, photoURL } = user;
+      const now = FieldValues.serverTimestamp();
+
+      let existing: StoredUser | null;
+      try {
+        existing = await Repositories.users.get(uid);
+      } catch (error) {
+        console.error('❌ Error getting user document:', error);
+        // If the lookup fails, assume document doesn't exist and create new one
+        existing = null;
+      }
+
+      const data = {
+        uid,
+        name,
+        email,
+        photo: photoURL || '',
+        isOnline: true,
+        lastSeen: now,
+        updatedAt: now,
+        nameLower: name.toLowerCase(),
+        emailLower: email.toLowerCase(),
+      };
+
+      if (existing) {
+        await Repositories.users.update(uid, Converters.user.toFirestore(data, { merge: true }));
+      } else {
+        await Repositories.users.create(
+          uid,
+          Converters.user.toFirestore({
+            ...data,
+            designation: 'User',
+            createdAt: now,
+            friendsCount: 0,
+            chatsCount: 0,
+            settings: { ...DEFAULT_USER_SETTINGS },
+            // Nothing to migrate for a user created in the current format
+            schemaVersion: SCHEMA_VERSION,
+          })
+        );
+      }
+
+      let saved: StoredUser | null;
+      try {
+        saved = await Repositories.users.get(uid);
+      } catch (error) {
+        console.error('❌ Error fetching saved user:', error);
+        saved = null;
+      }
+      // Fall back to what we tried to save
+      return toUser(saved ?? { ...existing, ...data, createdAt: existing?.createdAt ?? now });
+    } catch (error) {
+      console.error('❌ Error in createOrUpdateUser:', error);
+      throw error;
+    }
+  },
+
+  async getUserById(uid: string): Promise<User | null> {
+    try {
+      return toUserOrNull(await Repositories.users.get(uid));
+    } catch (error) {
+      console.error('❌ Error getting user by ID:', error);
+      return null;
+    }
+  },
+
+  // Users that don't exist are left out
+  async getUsersByIds(uids: string[]): Promise<User[]> {
+    const users = await Promise.all(uids.map((uid) => this.getUserById(uid)));
+    return users.filter((user): user is User => !!user);
+  },
+
+  // Presence lives in /presence now; kept for existing callers
+  async updateOnlineStatus(uid: string, isOnline: boolean): Promise<void> {
+    if (isOnline) {
+      await PresenceService.goOnline(uid);
+    } else {
+      await PresenceService.goOffline(uid);
+    }
+  },
+
+  onUserStatusChange(uid: string, callback: (user: User | null) => void): Unsubscribe {
+    try {
+      return Repositories.users.watch(
+        uid,
+        (data) => callback(toUserOrNull(data)),
+        (error) => {
+          console.error('❌ Error in user status listener:', error);
+          callback(null);
+        }
+      );
+    } catch (error) {
+      console.error('❌ Error setting up user status listener:', error);
+      return () => {};
+    }
+  },
+
+  onAllUsersStatusChange(callback: (users: User[]) => void): Unsubscribe {
+    try {
+      return Repositories.users.watchAll(
+        (users) => callback(users.map(toUser)),
+        (error) => {
+          console.error('❌ Error in all users status listener:', error);
+          callback([]);
+        }
+      );
+    } catch (error) {
+      console.error('❌ Error setting up all users status listener:', error);
+      return () => {};
+    }
+  },
+
+  async updateProfileImage(uid: string, photoURL: string): Promise<void> {
+    try {
+      // Verify the document exists before updating
+      if (await Repositories.users.get(uid)) {
+        await Repositories.users.update(uid, {
+          photo: photoURL,
+          updatedAt: FieldValues.serverTimestamp(),
+        });
+        // Chat partners see the photo through their denormalized chat lists
+        ChatListService.updatePartnerProfile(uid, { photo: photoURL }).catch((error) =>
+          console.error('❌ Error updating chat lists with new photo:', error)
+        );
+      } else {
+        console.warn('User document does not exist for profile image update:', uid);
+      }
+    } catch (error) {
+      console.error('❌ Error updating profile image:', error);
+      throw error;
+    }
+  },
+
+  // Prefix match on name or email, without excludeUid (the searcher)
+  async searchUsers(searchQuery: string, excludeUid: string, limitCount = 20): Promise<User[]> {
+    if (!searchQuery.trim()) return [];
+
+    try {
+      const [byName, byEmail] = await Promise.all([
+        Repositories.users.searchByPrefix('nameLower', searchQuery, limitCount).catch(() => []),
+        Repositories.users.searchByPrefix('emailLower', searchQuery, limitCount).catch(() => []),
+      ]);
+
+      const usersMap: Record<string, User> = {};
+      [...byName, ...byEmail].forEach((user) => {
+        if (user.uid !== excludeUid) {
+          usersMap[user.uid] = toUser(user);
+        }
+      });
+      return Object.values(usersMap);
+    } catch (error) {
+      console.error('❌ Error searching users:', error);
+      return [];
+    }
+  },
+
+  async getAllUsers(excludeUid: string, limitCount = 50): Promise<User[]> {
+    try {
+      const users = await Repositories.users.list(limitCount);
+      return users.filter((u) => u.uid !== excludeUid).map(toUser);
+    } catch (error) {
+      console.error('❌ Error getting all users:', error);
+      return [];
+    }
+  },
+
+  // =============================================================================
+  // PRIVACY SETTINGS
+  // =============================================================================
+
+  /**
+   * Read a user's privacy settings, filling in defaults for missing fields
+   */
+  async getUserSettings(userId: string): Promise<UserSettings> {
+    try {
+      return withDefaultSettings((await Repositories.users.get(userId))?.settings);
+    } catch (error) {
+      console.error('❌ Error loading user settings:', error);
+      return withDefaultSettings();
+    }
+  },
+
+  subscribeToUserSettings(
+    userId: string,
+    onChange: (settings: UserSettings) => void
+  ): Unsubscribe {
+    return Repositories.users.watch(
+      userId,
+      (data) => onChange(withDefaultSettings(data?.settings)),
+      (error) => {
+        console.error('❌ Error subscribing to user settings:', error);
+        onChange(withDefaultSettings());
+      }
+    );
+  },
+
+  async updateUserSettings(userId: string, settings: Partial<UserSettings>): Promise<void> {
+    try {
+      if (!(await Repositories.users.get(userId))) return;
+
+      // Dotted keys leave the settings that aren't being changed alone
+      const changes: Record<string, unknown> = { updatedAt: FieldValues.serverTimestamp() };
+      Object.entries(settings).forEach(([key, value]) => {
+        changes[`settings.${key}`] = value;
+      });
+      await Repositories.users.update(userId, changes);
+      console.log('✅ User settings updated');
+    } catch (error) {
+      console.error('❌ Error updating user settings:', error);
+      throw error;
+    }
+  },
+};
+
+export { DEFAULT_USER_SETTINGS };
+export type { User };
@@ -0,0 +1,186 @@
+// services/voicePlayerService.ts
+import { Audio, AVPlaybackStatus } from 'expo-av';
+
+export const PLAYBACK_RATES = [1, 1.5, 2] as const;
+export type PlaybackRate = (typeof PLAYBACK_RATES)[number];
+
+export interface VoiceTrack {
+  id: string; // Message id
+  uri: string;
+  title?: string; // Shown in the mini-player, usually the sender's name
+}
+
+export interface VoicePlayerState {
+  track: VoiceTrack | null;
+  isPlaying: boolean;
+  positionMillis: number;
+  durationMillis: number;
+  rate: PlaybackRate;
+}
+
+type Unsubscribe = () => void;
+
+const PROGRESS_INTERVAL_MS = 100;
+
+// One voice note plays at a time across the app; the mini-player and bubbles all read this
+let sound: Audio.Sound | null = null;
+let upNext: VoiceTrack[] = [];
+// Bumped on every load so a slow createAsync can't take over after a newer play()
+let loadToken = 0;
+let state: VoicePlayerState = {
+  track: null,
+  isPlaying: false,
+  positionMillis: 0,
+  durationMillis: 0,
+  rate: 1,
+};
+const listeners = new Set<(state: VoicePlayerState) => void>();
+
+const update = (changes: Partial<VoicePlayerState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => listener(state));
+};
+
+const unload = async () => {
+  const current = sound;
+  sound = null;
+  if (!current) return;
+  current.setOnPlaybackStatusUpdate(null);
+  try {
+    await current.unloadAsync();
+  } catch (error) {
+    console.error('❌ Error unloading voice note:', error);
+  }
+};
+
+const handleStatus = (status: AVPlaybackStatus) => {
+  if (!status.isLoaded) {
+    if (status.error) console.error('❌ Voice note playback error:', status.error);
+    return;
+  }
+
+  update({
+    isPlaying: status.isPlaying,
+    positionMillis: status.positionMillis,
+    durationMillis: status.durationMillis ?? state.durationMillis,
+  });
+
+  if (status.didJustFinish) {
+    // Consecutive voice notes play through like one long message
+    const [next, ...rest] = upNext;
+    if (next) {
+      VoicePlayerService.play(next, rest);
+    } else {
+      VoicePlayerService.stop();
+    }
+  }
+};
+
+export const VoicePlayerService = {
+  getState(): VoicePlayerState {
+    return state;
+  },
+
+  /**
+   * Play a voice note from the start (or startMillis). `next` are the voice notes
+   * that directly follow it and should auto-play afterwards.
+   */
+  async play(track: VoiceTrack, next: VoiceTrack[] = [], startMillis = 0): Promise<void> {
+    const token = ++loadToken;
+    upNext = next;
+    await unload();
+    update({ track, isPlaying: false, positionMillis: startMillis, durationMillis: 0 });
+
+    try {
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: false,
+        playsInSilentModeIOS: true,
+        staysActiveInBackground: false,
+        shouldDuckAndroid: true,
+        playThroughEarpieceAndroid: false,
+      });
+
+      const { sound: created } = await Audio.Sound.createAsync(
+        { uri: track.uri },
+        {
+          shouldPlay: true,
+          positionMillis: startMillis,
+          rate: state.rate,
+          shouldCorrectPitch: true,
+          progressUpdateIntervalMillis: PROGRESS_INTERVAL_MS,
+        },
+        (status) => {
+          if (token === loadToken) handleStatus(status);
+        }
+      );
+
+      if (token !== loadToken) {
+        await created.unloadAsync();
+        return;
+      }
+      sound = created;
+    } catch (error) {
+      console.error('❌ Error playing voice note:', error);
+      if (token === loadToken) update({ track: null, isPlaying: false });
+      throw error;
+    }
+  },
+
+  /**
+   * Play/pause: resumes the loaded note, otherwise starts this one. Leaving out
+   * `next` keeps the current queue (the mini-player doesn't know it).
+   */
+  async toggle(track: VoiceTrack, next?: VoiceTrack[]): Promise<void> {
+    if (state.track?.id !== track.id || !sound) {
+      return VoicePlayerService.play(track, next);
+    }
+    if (next) upNext = next;
+    if (state.isPlaying) {
+      await sound.pauseAsync();
+    } else {
+      await sound.playAsync();
+    }
+  },
+
+  async pause(): Promise<void> {
+    await sound?.pauseAsync();
+  },
+
+  /**
+   * Jump to a point in the loaded note; seeking another note starts it there
+   */
+  async seek(track: VoiceTrack, positionMillis: number, next: VoiceTrack[] = []): Promise<void> {
+    const position = Math.max(0, Math.round(positionMillis));
+    if (state.track?.id !== track.id || !sound) {
+      return VoicePlayerService.play(track, next, position);
+    }
+    update({ positionMillis: position });
+    await sound.setPositionAsync(position);
+  },
+
+  async setRate(rate: PlaybackRate): Promise<void> {
+    update({ rate });
+    await sound?.setRateAsync(rate, true);
+  },
+
+  // 1× → 1.5× → 2× → 1×
+  async cycleRate(): Promise<void> {
+    const index = PLAYBACK_RATES.indexOf(state.rate);
+    await VoicePlayerService.setRate(PLAYBACK_RATES[(index + 1) % PLAYBACK_RATES.length]);
+  },
+
+  async stop(): Promise<void> {
+    loadToken++;
+    upNext = [];
+    await unload();
+    update({ track: null, isPlaying: false, positionMillis: 0, durationMillis: 0 });
+  },
+
+  subscribe(onChange: (state: VoicePlayerState) => void): Unsubscribe {
+    listeners.add(onChange);
+    onChange(state);
+    return () => {
+      listeners.delete(onChange);
+    };
+  },
+};
@@ -25,8 +25,17 @@ export interface User {
     showOnlineStatus: boolean;
     showLastSeen: boolean;
   };
+
+  // Prefix search fields, kept in step with name and email
+  nameLower?: string;
+  emailLower?: string;
+
+  // Document format this user and their chats were last migrated to (services/schemaMigration)
+  schemaVersion?: number;
 }
 
+export type UserSettings = NonNullable<User['settings']>;
+
 /**
  * USER RELATIONSHIPS: /users/{userId}/relationships/{relationshipId}
  * Subcollection for scalable friend management
@@ -41,6 +50,9 @@ export interface UserRelationship {
   photo: string;
   isOnline: boolean;
   lastSeen: any;
+
+  // Blocks of a friend: when the friendship began, so unblocking can restore it
+  friendSince?: any;
 }
 
 /**
@@ -60,6 +72,8 @@ export interface FriendRequest {
   senderPhoto: string;
   receiverName: string;
   receiverPhoto: string;
+  senderEmail?: string;
+  receiverEmail?: string;
   
   // Composite field for efficient querying
   senderReceiver: string; // `${senderId}_${receiverId}` for deduplication
@@ -67,37 +81,45 @@ export interface FriendRequest {
 
 /**
  * CHAT ROOMS: /chats/{chatId}
- * Optimized main chat document with minimal data
+ * Main chat document; the chat list reads from its denormalized copy in
+ * /users/{userId}/chatList
  */
 export interface Chat {
-  id: string; // Deterministic: sorted participant IDs joined with '_'
-  type: 'direct' | 'group'; // Future-proofing for group chats
-  participants: string[]; // Max 2 for direct, more for groups
+  id: string; // Direct chats: sorted participant IDs joined with '_'
+  type: 'direct' | 'group';
+  participants: string[]; // Exactly 2 for direct chats
   participantCount: number; // For quick filtering
-  
-  // Last message summary (denormalized for chat list)
-  lastMessage: {
-    text: string;
-    senderId: string;
-    senderName: string; // Denormalized for display
+
+  // Last message preview (denormalized for the chat list)
+  lastMessage?: string;
+  lastMessageTime?: any;
+  lastMessageSender?: string;
+  lastMessageId?: string;
+  // Most recent reaction, so the chat list can say "X reacted 👍 to your message"
+  lastReaction?: {
+    emoji: string;
+    userId: string;
+    messageId: string;
+    messageSenderId: string;
     timestamp: any;
-    type: 'text' | 'image' | 'file' | 'system';
   };
-  
+
   // Per-user metadata
   participantData: {
     [userId: string]: {
       unreadCount: number;
-      lastReadAt: any; // Timestamp of last read message
-      muteUntil?: any; // For muting notifications
-      archived: boolean;
+      lastReadAt?: any; // Timestamp of last read message
     };
   };
-  
+
   createdAt: any;
-  updatedAt: any; // For change detection
-  
-  // For group chats (future)
+  createdBy?: string;
+  updatedAt?: any; // For change detection
+
+  // Direct chat between people who are no longer friends: history only, no new messages
+  readOnly?: boolean;
+
+  // Group chats only
   groupInfo?: {
     name: string;
     description?: string;
@@ -119,12 +141,14 @@ export interface ChatMessage {
   content: {
     text?: string;
     mediaUrl?: string;
-    mediaType?: 'image' | 'video' | 'audio' | 'file';
+    mediaType?: 'image' | 'video' | 'audio' | 'gif' | 'file';
     fileName?: string;
     fileSize?: number;
+    waveform?: number[]; // Voice notes: 0–1 levels, see utils/waveform
+    durationMillis?: number;
   };
   
-  type: 'text' | 'image' | 'file' | 'system';
+  type: 'text' | 'image' | 'video' | 'audio' | 'file' | 'system';
   
   // Message status (only for sender's messages)
   status?: 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
@@ -134,19 +158,36 @@ export interface ChatMessage {
     messageId: string;
     text: string; // Preview of original message
     senderId: string;
+    senderName?: string;
   };
   
-  // Message reactions (future)
+  // Message reactions
   reactions?: {
     [emoji: string]: string[]; // emoji -> array of user IDs
   };
   
   // For system messages
   systemData?: {
-    action: 'user_joined' | 'user_left' | 'chat_created';
+    action:
+      | 'user_joined'
+      | 'user_left'
+      | 'chat_created'
+      | 'user_removed'
+      | 'admin_promoted'
+      | 'admin_demoted'
+      | 'group_renamed'
+      | 'group_photo_changed';
     actorId: string;
     targetIds?: string[];
+    value?: string; // New group name for 'group_renamed'
   };
+
+  chatId?: string;
+  receiverId?: string; // Direct chats only; drives delivery receipts
+  edited?: boolean;
+  editedAt?: any;
+  forwarded?: boolean;
+  originalMessageId?: string;
 }
 
 /**
@@ -155,8 +196,9 @@ export interface ChatMessage {
  */
 export interface UserChatListItem {
   chatId: string;
+  isGroup?: boolean;
   
-  // Chat partner info (for direct chats)
+  // Chat partner info (for direct chats; groups carry the group name and photo)
   partnerId: string;
   partnerName: string;
   partnerPhoto: string;
@@ -166,7 +208,15 @@ export interface UserChatListItem {
   lastMessage: string;
   lastMessageTime: any;
   lastMessageSender: string;
-  lastMessageType: 'text' | 'image' | 'file' | 'system';
+  lastMessageSenderName?: string; // Group previews read "Name: text"
+  lastMessageType: 'text' | 'image' | 'video' | 'audio' | 'file' | 'system';
+  // Someone reacted to this user's message after the last message was sent
+  lastReaction?: {
+    emoji: string;
+    userId: string;
+    userName: string;
+    timestamp: any;
+  };
   
   // User-specific data
   unreadCount: number;
@@ -174,10 +224,22 @@ export interface UserChatListItem {
   isPinned: boolean;
   isArchived: boolean;
   isMuted: boolean;
+  mutedUntil?: any; // Unset or null while muted means muted until turned off
   
   updatedAt: any; // For sorting and change detection
 }
 
+/**
+ * FAVORITES: /users/{userId}/favorites/{chatId}
+ * Starred chats and contacts. A contact is stored under the direct chat id, so it
+ * can be starred before the two have ever talked.
+ */
+export interface UserFavorite {
+  chatId: string;
+  partnerId?: string; // Direct chats only
+  createdAt: any;
+}
+
 /**
  * PRESENCE TRACKING: /presence/{userId}
  * Separate collection for real-time presence (auto-deleted after timeout)
@@ -200,25 +262,13 @@ export interface TypingIndicator {
   userId: string;
   userName: string;
   timestamp: any;
-  ttl: any; // Auto-delete after 10 seconds
+  ttl: any; // Expiry; readers ignore the indicator after this (10 seconds)
 }
 
 // =============================================================================
 // UI HELPER TYPES (unchanged for compatibility)
 // =============================================================================
 
-export interface ChatSimple {
-  id: string;
-  participants: string[];
-  lastMessage?: string;
-  lastMessageTime?: any;
-  lastMessageSender?: string;
-  lastMessageId?: string;
-  unreadCount?: { [userId: string]: number };
-  createdAt?: any;
-  createdBy?: string;
-}
-
 export interface ChatListItem {
   id: string;
   name: string;
@@ -230,6 +280,10 @@ export interface ChatListItem {
   isPinned?: boolean;
   isArchived?: boolean;
   isMuted?: boolean;
+  mutedUntil?: number | null; // Epoch ms; null means muted until turned off
+  isGroup?: boolean;
+  isPlaceholder?: boolean; // A friend with no chat yet, so no chatList entry to update
+  isFavorite?: boolean;
 }
 
 export interface RequestListItem {
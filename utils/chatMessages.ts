@@ -0,0 +1,298 @@
+// Pure message-list helpers for the chat room: Firestore → view conversion, date
+// headers, and overlaying the outbox onto what the server has acknowledged
+import type { OutboxItem } from '@/services/outboxService';
+import type { ChatMessage } from '@/types/models';
+
+export interface Message {
+  id: string;
+  text: string;
+  sender: 'user' | 'other';
+  senderId?: string;
+  time: string;
+  timestamp: Date;
+  replyTo?: {
+    messageId: string;
+    text: string;
+    senderId: string;
+    senderName: string;
+  };
+  edited?: boolean;
+  mediaUrl?: string;
+  mediaType?: 'image' | 'video' | 'audio' | 'gif' | 'file';
+  fileName?: string;
+  fileSize?: number;
+  isUploading?: boolean;
+  uploadProgress?: number; // 0–1 while the outbox is uploading the media
+  waveform?: number[]; // Voice notes only
+  durationMillis?: number;
+  isSystem?: boolean;
+  systemData?: ChatMessage['systemData'];
+  reactions?: ChatMessage['reactions'];
+  status?: ChatMessage['status'];
+}
+
+export interface MessageWithHeader extends Message {
+  showDateHeader?: boolean;
+  dateHeaderText?: string;
+  isDateHeader?: boolean;
+}
+
+// A message as the listener and pagination hand it over: a ChatMessage, or a
+// document in the older flat format with text and media at the top level
+export interface FirebaseChatMessage {
+  id: string;
+  senderId: string;
+  receiverId?: string;
+  timestamp: any;
+  content?: Partial<ChatMessage['content']>;
+  message?: string;
+  text?: string;
+  replyTo?: any;
+  edited?: boolean;
+  mediaUrl?: string;
+  mediaType?: 'image' | 'video' | 'audio' | 'gif' | 'file';
+  fileName?: string;
+  fileSize?: number;
+  waveform?: number[];
+  durationMillis?: number;
+  type?: string;
+  systemData?: ChatMessage['systemData'];
+  reactions?: ChatMessage['reactions'];
+  status?: ChatMessage['status'];
+}
+
+const TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  hour: '2-digit',
+  minute: '2-digit',
+  hour12: false,
+};
+
+export function toDateSafe(value: any): Date | null {
+  try {
+    if (!value) return null;
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? null : value;
+    }
+    // Firestore Timestamp
+    if (typeof value === 'object' && typeof (value as any).toDate === 'function') {
+      const d = (value as any).toDate();
+      return isNaN(d.getTime()) ? null : d;
+    }
+    if (typeof value === 'number') {
+      const d = new Date(value);
+      return isNaN(d.getTime()) ? null : d;
+    }
+    if (typeof value === 'string') {
+      const trimmed = value.trim();
+      if (!trimmed) return null;
+      // Try numeric epoch first, then ISO/date string
+      const asNum = Number(trimmed);
+      const d =
+        Number.isFinite(asNum) && trimmed.length >= 11 ? new Date(asNum) : new Date(trimmed);
+      return isNaN(d.getTime()) ? null : d;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+export function formatTimeSafe(value: any, fallback?: string): string {
+  const d = toDateSafe(value);
+  if (d) return d.toLocaleTimeString([], TIME_FORMAT);
+  // If we have a fallback time string, use it
+  if (fallback && typeof fallback === 'string' && fallback.trim()) {
+    return fallback;
+  }
+  // Default to current time if nothing else works
+  return new Date().toLocaleTimeString([], TIME_FORMAT);
+}
+
+export function formatFirebaseMessage(msg: FirebaseChatMessage, currentUserId: string): Message {
+  const date = toDateSafe(msg.timestamp) ?? new Date();
+  const content = msg.content || {};
+
+  return {
+    id: msg.id,
+    text: content.text || msg.message || msg.text || '',
+    sender: msg.senderId === currentUserId ? 'user' : 'other',
+    senderId: msg.senderId,
+    isSystem: msg.type === 'system',
+    systemData: msg.systemData,
+    reactions: msg.reactions,
+    status: msg.status,
+    time: date.toLocaleTimeString([], TIME_FORMAT),
+    timestamp: date,
+    edited: msg.edited || false,
+    mediaUrl: content.mediaUrl ?? msg.mediaUrl,
+    mediaType: content.mediaType ?? msg.mediaType,
+    fileName: content.fileName ?? msg.fileName,
+    fileSize: content.fileSize ?? msg.fileSize,
+    waveform: content.waveform ?? msg.waveform,
+    durationMillis: content.durationMillis ?? msg.durationMillis,
+    replyTo:
+      msg.replyTo && typeof msg.replyTo === 'object'
+        ? {
+            messageId: msg.replyTo.messageId || msg.replyTo.id || '',
+            text: msg.replyTo.text || '',
+            senderId: msg.replyTo.senderId || '',
+            senderName: msg.replyTo.senderName || '',
+          }
+        : undefined,
+  };
+}
+
+export function getDateHeaderText(dateLike: any, now: Date = new Date()): string {
+  const date = toDateSafe(dateLike);
+  if (!date) return '';
+
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  const messageDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+  if (messageDate.getTime() === today.getTime()) return 'Today';
+  if (messageDate.getTime() === yesterday.getTime()) return 'Yesterday';
+
+  if (date.getFullYear() === now.getFullYear()) {
+    return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  }
+  return date.toLocaleDateString([], {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Sort oldest first and put a header row before the first message of each day.
+ * Existing header rows are dropped first, so this can be re-run on its own output.
+ */
+export function addDateHeaders(
+  messageList: (Message | MessageWithHeader)[],
+  now: Date = new Date()
+): MessageWithHeader[] {
+  const chronological = messageList
+    .filter((m) => !(m as MessageWithHeader).isDateHeader && !m.id?.startsWith('header_'))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const out: MessageWithHeader[] = [];
+  let lastHeader = '';
+
+  chronological.forEach((m, i) => {
+    const header = getDateHeaderText(m.timestamp, now);
+    if (i === 0 || header !== lastHeader) {
+      out.push({
+        id: `header_${m.timestamp.getTime()}_${i}`,
+        text: '',
+        sender: 'user',
+        time: '',
+        timestamp: m.timestamp,
+        showDateHeader: true,
+        dateHeaderText: header,
+        isDateHeader: true,
+      });
+      lastHeader = header;
+    }
+    out.push({ ...m });
+  });
+
+  return out;
+}
+
+/**
+ * Older pages and the live window can overlap at the boundary; the live copy wins
+ * because it carries the latest edits, reactions and status
+ */
+export function mergeMessagePages(older: Message[], live: Message[]): Message[] {
+  const liveIds = new Set(live.map((m) => m.id));
+  return [...older.filter((m) => !liveIds.has(m.id)), ...live];
+}
+
+/**
+ * Overlay outbox operations the server hasn't acknowledged yet onto the live
+ * messages (newest first, with headers), returning the list to render:
+ * - queued sends appear until a message with the same id arrives from the server
+ * - pending deletes hide the message; failed edits and deletes mark it failed
+ * - pending or failed edits show the new text
+ */
+export function applyOutbox(
+  messages: MessageWithHeader[],
+  outboxItems: OutboxItem[],
+  uploadProgress: Record<string, number> = {},
+  now: Date = new Date()
+): MessageWithHeader[] {
+  if (outboxItems.length === 0) return messages;
+
+  const liveIds = new Set(messages.map((m) => m.id));
+  const deletes = new Map<string, OutboxItem>();
+  const edits = new Map<string, OutboxItem & { kind: 'edit' }>();
+  outboxItems.forEach((item) => {
+    if (item.kind === 'delete') deletes.set(item.messageId, item);
+    if (item.kind === 'edit') edits.set(item.messageId, item);
+  });
+
+  const live: Message[] = messages
+    .filter((m) => !m.isDateHeader)
+    .flatMap((m) => {
+      const del = deletes.get(m.id);
+      if (del?.status === 'pending') return [];
+      const edit = edits.get(m.id);
+      const failed = del?.status === 'failed' || edit?.status === 'failed';
+      return [
+        {
+          ...m,
+          ...(edit ? { text: edit.text, edited: true } : {}),
+          ...(failed ? { status: 'failed' as const } : {}),
+        },
+      ];
+    });
+
+  const queued: Message[] = outboxItems.flatMap((item) => {
+    if (item.kind !== 'send' || liveIds.has(item.id)) return [];
+    const createdAt = new Date(item.createdAt);
+    return [
+      {
+        id: item.id,
+        text: item.text,
+        sender: 'user' as const,
+        senderId: item.senderId,
+        time: formatTimeSafe(createdAt),
+        timestamp: createdAt,
+        replyTo: item.replyTo || undefined,
+        mediaUrl: item.media?.remoteUrl || item.media?.localUri,
+        mediaType: item.media?.mediaType,
+        fileName: item.media?.fileName,
+        fileSize: item.media?.fileSize,
+        waveform: item.media?.waveform,
+        durationMillis: item.media?.durationMillis,
+        isUploading: item.status === 'pending',
+        uploadProgress: uploadProgress[item.id],
+        status: item.status === 'failed' ? 'failed' : 'sending',
+      },
+    ];
+  });
+
+  return [...addDateHeaders([...queued, ...live], now)].reverse();
+}
+
+// What a reply quote shows: a media label, the file name, or the quoted text
+export function getReplyPreviewText(
+  reply: Message['replyTo'] | Message | null | undefined,
+  allMsgs: Message[]
+): string {
+  if (!reply) return '';
+  // Quotes carry messageId; a full Message (the one being replied to) carries id
+  const replyId = 'messageId' in reply ? reply.messageId : reply.id;
+  const original: Partial<Message> | undefined = replyId
+    ? allMsgs.find((m) => m.id === replyId)
+    : (reply as Message);
+
+  const mediaType = original?.mediaType;
+  if (mediaType === 'image' || mediaType === 'gif') return 'Image';
+  if (mediaType === 'video') return 'Video';
+  if (mediaType === 'audio') return 'Voice note';
+  if (mediaType === 'file') return original?.fileName || 'File';
+  return reply.text || '';
+}
@@ -0,0 +1,79 @@
+// Scheme registered in app.json
+export const DEEP_LINK_SCHEME = 'chatappexpo';
+
+// Types
+export type DeepLink =
+  | { type: 'chat'; friendUserId: string }
+  | { type: 'user'; uid: string };
+
+type DeepLinkHandler = (link: DeepLink) => void;
+
+let pendingLink: DeepLink | null = null;
+let activeHandler: DeepLinkHandler | null = null;
+
+// Build a link that opens a direct chat with this user
+export const buildChatLink = (friendUserId: string): string =>
+  `${DEEP_LINK_SCHEME}://chat/${encodeURIComponent(friendUserId)}`;
+
+// Build a link to a user's profile, used by "Share my profile"
+export const buildProfileLink = (uid: string): string =>
+  `${DEEP_LINK_SCHEME}://user/${encodeURIComponent(uid)}`;
+
+/**
+ * Parse chatappexpo://chat/{friendUserId} and chatappexpo://user/{uid}. Also accepts
+ * the bare "chat/{id}" paths expo-router hands to +native-intent.
+ */
+export const parseDeepLink = (url: string | null | undefined): DeepLink | null => {
+  if (!url) return null;
+
+  const path = url
+    .replace(new RegExp(`^${DEEP_LINK_SCHEME}:\\/\\/`), '')
+    .replace(/[?#].*$/, '')
+    .replace(/^\/+|\/+$/g, '');
+  const [kind, id, ...rest] = path.split('/');
+  if (!id || rest.length > 0) return null;
+
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(id);
+  } catch {
+    return null;
+  }
+
+  if (kind === 'chat') return { type: 'chat', friendUserId: decoded };
+  if (kind === 'user') return { type: 'user', uid: decoded };
+  return null;
+};
+
+/**
+ * Route an incoming URL. Links arriving before anyone can handle them (cold start,
+ * or not signed in yet) are kept until a handler registers. Only the latest is kept.
+ */
+export const dispatchDeepLink = (url: string | null | undefined): boolean => {
+  const link = parseDeepLink(url);
+  if (!link) return false;
+
+  if (activeHandler) {
+    activeHandler(link);
+  } else {
+    console.log('Deep link queued until sign-in:', link);
+    pendingLink = link;
+  }
+  return true;
+};
+
+/**
+ * Register the screen that opens links. It is only mounted for signed-in users, so
+ * registering it is what releases a link queued before login.
+ */
+export const setDeepLinkHandler = (handler: DeepLinkHandler): (() => void) => {
+  activeHandler = handler;
+  if (pendingLink) {
+    const link = pendingLink;
+    pendingLink = null;
+    handler(link);
+  }
+  return () => {
+    if (activeHandler === handler) activeHandler = null;
+  };
+};
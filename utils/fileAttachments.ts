@@ -0,0 +1,107 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as FileSystem from 'expo-file-system';
+import * as IntentLauncher from 'expo-intent-launcher';
+import { Platform, Share } from 'react-native';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+const DOWNLOAD_DIR = `${FileSystem.cacheDirectory}attachments/`;
+
+// Used when a picker or share sheet doesn't tell us the type
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  rtf: 'application/rtf',
+  json: 'application/json',
+  zip: 'application/zip',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/m4a',
+};
+
+const fileExtension = (fileName?: string | null): string => {
+  const match = /\.([a-z0-9]+)$/i.exec(fileName || '');
+  return match ? match[1].toLowerCase() : '';
+};
+
+export const mimeTypeFromName = (fileName?: string | null): string =>
+  MIME_TYPES[fileExtension(fileName)] || 'application/octet-stream';
+
+export const formatFileSize = (bytes?: number | null): string => {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const fileIconName = (fileName?: string | null): IconName => {
+  const mimeType = mimeTypeFromName(fileName);
+  if (mimeType === 'application/pdf') return 'document-text';
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'videocam';
+  if (mimeType.startsWith('audio/')) return 'musical-notes';
+  if (mimeType === 'application/zip') return 'archive';
+  if (/sheet|excel|csv/.test(mimeType)) return 'grid';
+  if (/presentation|powerpoint/.test(mimeType)) return 'easel';
+  return 'document';
+};
+
+// Cached per URL so opening the same attachment twice doesn't download it again
+const localPathFor = (url: string, fileName: string) => {
+  let hash = 0;
+  for (let i = 0; i < url.length; i++) hash = (hash * 31 + url.charCodeAt(i)) | 0;
+  const safeName = fileName.replace(/[^\w.-]+/g, '_');
+  return `${DOWNLOAD_DIR}${Math.abs(hash).toString(36)}_${safeName}`;
+};
+
+/**
+ * Download an attachment (reporting progress from 0 to 1) and hand it to the
+ * system viewer
+ */
+export const openFileAttachment = async (
+  url: string,
+  fileName: string,
+  onProgress?: (progress: number) => void
+): Promise<void> => {
+  const localUri = localPathFor(url, fileName);
+  const existing = await FileSystem.getInfoAsync(localUri);
+
+  if (!existing.exists) {
+    await FileSystem.makeDirectoryAsync(DOWNLOAD_DIR, { intermediates: true });
+    const download = FileSystem.createDownloadResumable(url, localUri, {}, (event) => {
+      if (event.totalBytesExpectedToWrite > 0) {
+        onProgress?.(event.totalBytesWritten / event.totalBytesExpectedToWrite);
+      }
+    });
+    const result = await download.downloadAsync();
+    if (!result || result.status !== 200) {
+      await FileSystem.deleteAsync(localUri, { idempotent: true });
+      throw new Error(`Download failed with status ${result?.status}`);
+    }
+  }
+  onProgress?.(1);
+
+  if (Platform.OS === 'android') {
+    const contentUri = await FileSystem.getContentUriAsync(localUri);
+    await IntentLauncher.startActivityAsync('android.intent.action.VIEW', {
+      data: contentUri,
+      flags: 1, // FLAG_GRANT_READ_URI_PERMISSION
+      type: mimeTypeFromName(fileName),
+    });
+  } else {
+    // The iOS share sheet previews the file and offers "Open in…"
+    await Share.share({ url: localUri });
+  }
+};
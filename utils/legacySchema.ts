@@ -0,0 +1,188 @@
+// Compatibility reads for documents written before the canonical schema in
+// types/models: users with a `friends` array and no counts or settings, chats
+// with an `unreadCount` map instead of participantData, messages with their text
+// and media at the top level instead of in `content`. services/converters runs
+// every read through these; services/schemaMigration rewrites stored users and
+// chats (messages are too many to rewrite and stay as they are).
+import type {
+  Chat,
+  ChatMessage,
+  FriendRequest,
+  User,
+  UserChatListItem,
+  UserSettings,
+} from '@/types/models';
+
+// Users created before settings existed, or with a field missing, get these
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  allowFriendRequests: true,
+  showOnlineStatus: true,
+  showLastSeen: true,
+};
+
+export interface LegacyUserFields {
+  friends?: string[]; // Friend ids; replaced by /users/{uid}/relationships
+}
+
+export interface LegacyChatFields {
+  unreadCount?: { [userId: string]: number }; // Replaced by participantData
+  // The old optimized service wrote the preview as an object
+  lastMessage?: string | { text?: string; senderId?: string; timestamp?: any };
+}
+
+// Messages were written flat until content took over
+export interface LegacyMessageFields {
+  text?: string;
+  message?: string; // Oldest builds
+  mediaUrl?: string;
+  mediaType?: ChatMessage['content']['mediaType'];
+  fileName?: string;
+  fileSize?: number;
+  waveform?: number[];
+  durationMillis?: number;
+}
+
+// A document as it may be stored, old format or new
+export type StoredUser = Partial<User> & LegacyUserFields & { uid: string };
+export type StoredChat = Omit<Partial<Chat>, 'lastMessage'> & LegacyChatFields;
+export type StoredMessage = Omit<Partial<ChatMessage>, 'type'> &
+  LegacyMessageFields & { type?: ChatMessage['type'] | 'gif' };
+
+export const withDefaultSettings = (settings?: Partial<UserSettings>): UserSettings => ({
+  ...DEFAULT_USER_SETTINGS,
+  ...settings,
+});
+
+export const normalizeUser = (data: StoredUser): User => {
+  const { friends, ...user } = data;
+  return {
+    ...user,
+    name: data.name || '',
+    email: data.email || '',
+    photo: data.photo || '',
+    designation: data.designation || 'User',
+    isOnline: !!data.isOnline,
+    lastSeen: data.lastSeen ?? null,
+    createdAt: data.createdAt ?? null,
+    updatedAt: data.updatedAt ?? data.createdAt ?? null,
+    friendsCount: data.friendsCount ?? friends?.length ?? 0,
+    chatsCount: data.chatsCount ?? 0,
+    settings: withDefaultSettings(data.settings),
+  };
+};
+
+export const normalizeChat = (id: string, data: StoredChat): Chat => {
+  const { unreadCount, lastMessage, ...chat } = data;
+  const participants = data.participants || [];
+  const preview = lastMessage && typeof lastMessage === 'object' ? lastMessage : null;
+
+  // participantData wins over the legacy map; members who left are dropped
+  const participantData: Chat['participantData'] = {};
+  participants.forEach((uid) => {
+    const current = data.participantData?.[uid];
+    participantData[uid] = {
+      ...current,
+      unreadCount: current?.unreadCount ?? unreadCount?.[uid] ?? 0,
+    };
+  });
+
+  return {
+    ...chat,
+    id,
+    type: data.type || 'direct', // Only direct chats predate the type field
+    participants,
+    participantCount: data.participantCount ?? participants.length,
+    lastMessage: preview ? preview.text || '' : (lastMessage as string | undefined),
+    lastMessageTime: data.lastMessageTime ?? preview?.timestamp,
+    lastMessageSender: data.lastMessageSender ?? preview?.senderId,
+    participantData,
+    createdAt: data.createdAt ?? null,
+  };
+};
+
+// Message type for an attachment; gifs count as images
+export const typeForMedia = (mediaType?: ChatMessage['content']['mediaType']): ChatMessage['type'] => {
+  if (!mediaType) return 'text';
+  return mediaType === 'gif' ? 'image' : mediaType;
+};
+
+export const normalizeMessage = (id: string, data: StoredMessage): ChatMessage => {
+  const { text, message, mediaUrl, mediaType, fileName, fileSize, waveform, durationMillis, ...rest } =
+    data;
+
+  // content wins over the flat fields; forwarding used to copy both
+  const content: ChatMessage['content'] = { ...data.content };
+  const flat = { text: text || message, mediaUrl, mediaType, fileName, fileSize, waveform, durationMillis };
+  (Object.keys(flat) as (keyof typeof flat)[]).forEach((key) => {
+    if (flat[key] !== undefined && content[key] === undefined) {
+      (content as Record<string, unknown>)[key] = flat[key];
+    }
+  });
+
+  return {
+    ...rest,
+    id,
+    senderId: data.senderId || '',
+    timestamp: data.timestamp ?? null,
+    content,
+    // Forwarding wrote the media type as the message type, gifs included
+    type:
+      !data.type || data.type === 'gif'
+        ? data.systemData
+          ? 'system'
+          : typeForMedia(content.mediaType)
+        : data.type,
+  };
+};
+
+// Friend requests from before the denormalized profile fields
+export const normalizeFriendRequest = (
+  id: string,
+  data: Partial<FriendRequest>
+): FriendRequest => ({
+  ...data,
+  id,
+  senderId: data.senderId || '',
+  receiverId: data.receiverId || '',
+  status: data.status || 'pending',
+  timestamp: data.timestamp ?? null,
+  senderName: data.senderName || '',
+  senderPhoto: data.senderPhoto || '',
+  receiverName: data.receiverName || '',
+  receiverPhoto: data.receiverPhoto || '',
+  senderReceiver: data.senderReceiver || `${data.senderId || ''}_${data.receiverId || ''}`,
+});
+
+// The chat list sync never writes the per-user flags, so new entries lack them
+export const normalizeChatListItem = (
+  chatId: string,
+  data: Partial<UserChatListItem>
+): UserChatListItem => ({
+  ...data,
+  chatId: data.chatId || chatId,
+  partnerId: data.partnerId || '',
+  partnerName: data.partnerName || '',
+  partnerPhoto: data.partnerPhoto || '',
+  partnerOnline: data.partnerOnline ?? false,
+  lastMessage: data.lastMessage ?? '',
+  lastMessageTime: data.lastMessageTime ?? null,
+  lastMessageSender: data.lastMessageSender ?? '',
+  lastMessageType: data.lastMessageType || 'text',
+  unreadCount: data.unreadCount ?? 0,
+  lastReadAt: data.lastReadAt ?? null,
+  isPinned: data.isPinned ?? false,
+  isArchived: data.isArchived ?? false,
+  isMuted: data.isMuted ?? false,
+  updatedAt: data.updatedAt ?? data.lastMessageTime ?? null,
+});
+
+// True when normalizeChat has something to fill in that the migration should write back
+export const isLegacyChat = (data: StoredChat): boolean =>
+  data.unreadCount !== undefined ||
+  (!!data.lastMessage && typeof data.lastMessage === 'object') ||
+  !data.type ||
+  data.participantCount === undefined ||
+  (data.participants || []).some((uid) => data.participantData?.[uid]?.unreadCount === undefined);
+
+export const unreadCountFor = (chat: Chat, userId: string): number =>
+  chat.participantData[userId]?.unreadCount ?? 0;
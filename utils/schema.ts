@@ -0,0 +1,369 @@
+// Runtime shapes for the documents in types/models. A Field both checks a value
+// (listing what is wrong with it) and repairs one (keeping what is valid, falling
+// back to a default or dropping the rest), so a read can still render a malformed
+// document while a write refuses it. services/converters puts these to work.
+import type { ChatMessage, UserChatListItem } from '@/types/models';
+
+export interface Problem {
+  path: string; // Dotted, '' for the value itself
+  message: string;
+}
+
+export interface Field {
+  check(value: unknown): Problem[];
+  // A valid value built from what is there; undefined drops the field
+  repair(value: unknown): unknown;
+  // The field a nested key goes through, for dotted update keys
+  child?(key: string): Field | undefined;
+}
+
+type Shape = Record<string, Field>;
+type Rule = (value: Record<string, any>) => Problem[];
+
+const isMap = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const describe = (value: unknown): string => {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+};
+
+const expected = (what: string, value: unknown): Problem => ({
+  path: '',
+  message: value === undefined ? 'missing' : `expected ${what}, got ${describe(value)}`,
+});
+
+const within = (key: string, problems: Problem[]): Problem[] =>
+  problems.map(({ path, message }) => ({ path: path ? `${key}.${path}` : key, message }));
+
+const primitive = (what: string, test: (value: unknown) => boolean): Field => ({
+  check: (value) => (test(value) ? [] : [expected(what, value)]),
+  repair: (value) => (test(value) ? value : undefined),
+});
+
+const str = primitive('string', (value) => typeof value === 'string');
+const id = primitive('non-empty string', (value) => typeof value === 'string' && value !== '');
+const bool = primitive('boolean', (value) => typeof value === 'boolean');
+const count = primitive(
+  'whole number ≥ 0',
+  (value) => typeof value === 'number' && Number.isInteger(value) && value >= 0
+);
+const level = primitive(
+  'number from 0 to 1',
+  (value) => typeof value === 'number' && value >= 0 && value <= 1
+);
+// Timestamp, Date, millis, null, or a serverTimestamp() still to be filled in
+const timestamp = primitive(
+  'timestamp',
+  (value) => value === null || typeof value === 'number' || isMap(value)
+);
+
+const oneOf = (...values: string[]): Field =>
+  primitive(`one of ${values.join(', ')}`, (value) => values.includes(value as string));
+
+// null counts as absent: Firestore documents often store it for unset fields
+const optional = (field: Field): Field => ({
+  check: (value) => (value == null ? [] : field.check(value)),
+  repair: (value) => (value == null ? value : field.repair(value)),
+  child: field.child,
+});
+
+const required = (field: Field, fallback: unknown): Field => ({
+  check: field.check,
+  repair: (value) => {
+    const repaired = field.repair(value);
+    if (repaired !== undefined) return repaired;
+    if (Array.isArray(fallback)) return [...fallback];
+    return isMap(fallback) ? { ...fallback } : fallback;
+  },
+  child: field.child,
+});
+
+const arrayOf = (item: Field): Field => ({
+  check: (value) =>
+    Array.isArray(value)
+      ? value.flatMap((entry, index) => within(String(index), item.check(entry)))
+      : [expected('array', value)],
+  repair: (value) =>
+    Array.isArray(value) ? value.filter((entry) => item.check(entry).length === 0) : undefined,
+});
+
+const record = (entry: Field): Field => ({
+  check: (value) =>
+    isMap(value)
+      ? Object.entries(value).flatMap(([key, item]) => within(key, entry.check(item)))
+      : [expected('map', value)],
+  repair: (value) => {
+    if (!isMap(value)) return undefined;
+    const repaired: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, item]) => {
+      const next = entry.repair(item);
+      if (next !== undefined) repaired[key] = next;
+    });
+    return repaired;
+  },
+  child: () => entry,
+});
+
+// Fields outside the shape are left alone; rules check fields against each other
+const object = (shape: Shape, rules: Rule[] = []): Field => {
+  const checkShape = (value: Record<string, any>) =>
+    Object.entries(shape).flatMap(([key, field]) => within(key, field.check(value[key])));
+
+  return {
+    check: (value) =>
+      isMap(value)
+        ? [...checkShape(value), ...rules.flatMap((rule) => rule(value))]
+        : [expected('map', value)],
+    repair: (value) => {
+      if (!isMap(value)) return undefined;
+      const repaired: Record<string, unknown> = { ...value };
+      let salvaged = true;
+      Object.entries(shape).forEach(([key, field]) => {
+        const next = field.repair(value[key]);
+        if (next !== undefined) {
+          repaired[key] = next;
+          return;
+        }
+        delete repaired[key];
+        // A required field with nothing to fall back on loses the whole map
+        if (field.check(undefined).length > 0) salvaged = false;
+      });
+      return salvaged ? repaired : undefined;
+    },
+    child: (key) => shape[key],
+  };
+};
+
+const MESSAGE_TYPES: ChatMessage['type'][] = ['text', 'image', 'video', 'audio', 'file', 'system'];
+const MEDIA_TYPES: NonNullable<ChatMessage['content']['mediaType']>[] = [
+  'image',
+  'video',
+  'audio',
+  'gif',
+  'file',
+];
+const SYSTEM_ACTIONS: NonNullable<ChatMessage['systemData']>['action'][] = [
+  'user_joined',
+  'user_left',
+  'chat_created',
+  'user_removed',
+  'admin_promoted',
+  'admin_demoted',
+  'group_renamed',
+  'group_photo_changed',
+];
+const LIST_MESSAGE_TYPES: UserChatListItem['lastMessageType'][] = [
+  'text',
+  'image',
+  'video',
+  'audio',
+  'file',
+  'system',
+];
+
+const user = object({
+  uid: required(id, ''),
+  name: required(str, ''),
+  email: required(str, ''),
+  photo: required(str, ''),
+  designation: required(str, 'User'),
+  isOnline: required(bool, false),
+  lastSeen: required(timestamp, null),
+  createdAt: required(timestamp, null),
+  updatedAt: required(timestamp, null),
+  friendsCount: required(count, 0),
+  chatsCount: required(count, 0),
+  settings: optional(
+    object({
+      allowFriendRequests: required(bool, true),
+      showOnlineStatus: required(bool, true),
+      showLastSeen: required(bool, true),
+    })
+  ),
+  nameLower: optional(str),
+  emailLower: optional(str),
+  schemaVersion: optional(count),
+});
+
+const chat = object(
+  {
+    type: required(oneOf('direct', 'group'), 'direct'),
+    participants: required(arrayOf(id), []),
+    participantCount: required(count, 0),
+    lastMessage: optional(str),
+    lastMessageTime: optional(timestamp),
+    lastMessageSender: optional(str),
+    lastMessageId: optional(str),
+    lastReaction: optional(
+      object({
+        emoji: id,
+        userId: id,
+        messageId: id,
+        messageSenderId: id,
+        timestamp: required(timestamp, null),
+      })
+    ),
+    participantData: required(
+      record(object({ unreadCount: required(count, 0), lastReadAt: optional(timestamp) })),
+      {}
+    ),
+    createdAt: required(timestamp, null),
+    createdBy: optional(str),
+    updatedAt: optional(timestamp),
+    readOnly: optional(bool),
+    groupInfo: optional(
+      object({
+        name: required(str, ''),
+        description: optional(str),
+        photo: optional(str),
+        adminIds: required(arrayOf(id), []),
+      })
+    ),
+  },
+  [
+    (value) =>
+      value.type === 'group' && !isMap(value.groupInfo)
+        ? [{ path: 'groupInfo', message: 'missing for a group chat' }]
+        : [],
+    (value) =>
+      value.type !== 'group' && Array.isArray(value.participants) && value.participants.length !== 2
+        ? [{ path: 'participants', message: 'a direct chat has exactly 2' }]
+        : [],
+  ]
+);
+
+const message = object(
+  {
+    senderId: required(id, ''),
+    timestamp: required(timestamp, null),
+    content: required(
+      object({
+        text: optional(str),
+        mediaUrl: optional(str),
+        mediaType: optional(oneOf(...MEDIA_TYPES)),
+        fileName: optional(str),
+        fileSize: optional(count),
+        waveform: optional(arrayOf(level)),
+        durationMillis: optional(count),
+      }),
+      {}
+    ),
+    type: required(oneOf(...MESSAGE_TYPES), 'text'),
+    status: optional(oneOf('sending', 'sent', 'delivered', 'read', 'failed')),
+    replyTo: optional(
+      object({
+        messageId: required(str, ''),
+        text: required(str, ''),
+        senderId: required(str, ''),
+        senderName: optional(str),
+      })
+    ),
+    reactions: optional(record(arrayOf(id))),
+    systemData: optional(
+      object({
+        action: oneOf(...SYSTEM_ACTIONS),
+        actorId: id,
+        targetIds: optional(arrayOf(id)),
+        value: optional(str),
+      })
+    ),
+    chatId: optional(str),
+    receiverId: optional(str),
+    edited: optional(bool),
+    editedAt: optional(timestamp),
+    forwarded: optional(bool),
+    originalMessageId: optional(str),
+  },
+  [
+    (value) =>
+      value.type === 'system' && !isMap(value.systemData)
+        ? [{ path: 'systemData', message: 'missing for a system message' }]
+        : [],
+    (value) =>
+      value.type !== 'system' && isMap(value.content) && !value.content.text && !value.content.mediaUrl
+        ? [{ path: 'content', message: 'a message needs text or media' }]
+        : [],
+    (value) =>
+      isMap(value.content) && value.content.mediaType && !value.content.mediaUrl
+        ? [{ path: 'content.mediaUrl', message: 'missing for a media message' }]
+        : [],
+  ]
+);
+
+const friendRequest = object(
+  {
+    senderId: required(id, ''),
+    receiverId: required(id, ''),
+    status: required(oneOf('pending', 'accepted', 'rejected'), 'pending'),
+    timestamp: required(timestamp, null),
+    message: optional(str),
+    senderName: required(str, ''),
+    senderPhoto: required(str, ''),
+    receiverName: required(str, ''),
+    receiverPhoto: required(str, ''),
+    senderEmail: optional(str),
+    receiverEmail: optional(str),
+    senderReceiver: required(str, ''),
+  },
+  [
+    (value) =>
+      value.senderId && value.senderId === value.receiverId
+        ? [{ path: 'receiverId', message: 'same as senderId' }]
+        : [],
+  ]
+);
+
+const chatListItem = object({
+  chatId: required(id, ''),
+  isGroup: optional(bool),
+  partnerId: required(str, ''), // Empty for groups
+  partnerName: required(str, ''),
+  partnerPhoto: required(str, ''),
+  partnerOnline: required(bool, false),
+  lastMessage: required(str, ''),
+  lastMessageTime: required(timestamp, null),
+  lastMessageSender: required(str, ''),
+  lastMessageSenderName: optional(str),
+  lastMessageType: required(oneOf(...LIST_MESSAGE_TYPES), 'text'),
+  lastReaction: optional(
+    object({
+      emoji: id,
+      userId: id,
+      userName: required(str, ''),
+      timestamp: required(timestamp, null),
+    })
+  ),
+  unreadCount: required(count, 0),
+  lastReadAt: required(timestamp, null),
+  isPinned: required(bool, false),
+  isArchived: required(bool, false),
+  isMuted: required(bool, false),
+  mutedUntil: optional(timestamp),
+  updatedAt: required(timestamp, null),
+});
+
+export const Schemas = { user, chat, message, friendRequest, chatListItem };
+
+export const formatProblems = (problems: Problem[]): string[] =>
+  problems.map(({ path, message }) => (path ? `${path}: ${message}` : message));
+
+/**
+ * Problems with an update: only the keys present are checked, dotted keys go
+ * through nested fields, and values isSentinel accepts (serverTimestamp(),
+ * increment(), deleteField() and the like) pass unchecked.
+ */
+export const checkChanges = (
+  field: Field,
+  changes: Record<string, unknown>,
+  isSentinel: (value: unknown) => boolean
+): Problem[] =>
+  Object.entries(changes).flatMap(([key, value]) => {
+    if (isSentinel(value)) return [];
+    const target = key
+      .split('.')
+      .reduce<Field | undefined>((current, part) => current?.child?.(part), field);
+    // Fields outside the schema aren't ours to check
+    return target ? within(key, target.check(value)) : [];
+  });
@@ -0,0 +1,43 @@
+// Bars stored per voice note; enough detail for a bubble, small enough for Firestore
+export const WAVEFORM_BARS = 48;
+
+// Metering below this is treated as silence
+const SILENCE_DB = -60;
+
+/**
+ * Map a recorder metering value (dBFS, -160 to 0) to a 0–1 level
+ */
+export const meteringToLevel = (db?: number | null): number => {
+  if (typeof db !== 'number' || !Number.isFinite(db)) return 0;
+  if (db <= SILENCE_DB) return 0;
+  if (db >= 0) return 1;
+  return (db - SILENCE_DB) / -SILENCE_DB;
+};
+
+/**
+ * Squash raw samples into `bars` values by averaging each bucket, scaled so the
+ * loudest bar is 1 and rounded to keep the stored array compact
+ */
+export const downsampleWaveform = (samples: number[], bars: number = WAVEFORM_BARS): number[] => {
+  if (samples.length === 0 || bars <= 0) return [];
+
+  const buckets = Array.from({ length: bars }, (_, i) => {
+    const start = Math.floor((i * samples.length) / bars);
+    const end = Math.max(start + 1, Math.floor(((i + 1) * samples.length) / bars));
+    const slice = samples.slice(start, Math.min(end, samples.length));
+    return slice.length ? slice.reduce((sum, v) => sum + v, 0) / slice.length : 0;
+  });
+
+  const peak = Math.max(...buckets);
+  if (peak <= 0) return buckets.map(() => 0);
+  return buckets.map((v) => Math.round((v / peak) * 100) / 100);
+};
+
+/**
+ * Resample stored levels to however many bars fit on screen
+ */
+export const resampleWaveform = (levels: number[], count: number): number[] => {
+  if (count <= 0) return [];
+  if (levels.length === 0) return Array.from({ length: count }, () => 0);
+  return Array.from({ length: count }, (_, i) => levels[Math.floor((i * levels.length) / count)]);
+};